@@ -1,37 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import {
+  ACCESS_TOKEN_REFRESH_THRESHOLD_SECONDS,
+  AUTH_COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  verifySessionToken,
+} from '@/lib/authToken';
 
-export function middleware(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
+// 보호된 경로들 (로그인 필요 - 관리자 권한은 각 API에서 확인)
+const protectedPaths = [
+  '/dashboard',
+  '/accounts',
+  '/portfolio',
+  '/transactions',
+  '/holdings',
+  '/analytics',
+  '/rebalance',
+  '/alerts',
+  '/devices',
+  '/security',
+  '/profile',
+  '/api-tokens',
+  '/admin',
+];
+const authPaths = ['/login', '/register'];
+
+function matchesPath(pathname: string, path: string): boolean {
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
+export async function middleware(request: NextRequest) {
+  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
   const { pathname } = request.nextUrl;
 
-  // 보호된 경로들
-  const protectedPaths = ['/dashboard', '/accounts', '/portfolio', '/transactions'];
-  const authPaths = ['/login', '/register'];
+  // 보호된 경로에 접근하려고 할 때 (JWT_SECRET이 없거나 토큰이 유효하지 않으면 로그인으로)
+  if (protectedPaths.some(path => matchesPath(pathname, path))) {
+    const payload = token ? await verifySessionToken(token) : null;
+    const expiresSoon = !payload?.exp || payload.exp * 1000 - Date.now() < ACCESS_TOKEN_REFRESH_THRESHOLD_SECONDS * 1000;
 
-  // 보호된 경로에 접근하려고 할 때
-  if (protectedPaths.some(path => pathname.startsWith(path))) {
-    if (!token) {
-      return NextResponse.redirect(new URL('/login', request.url));
+    // 액세스 토큰이 없거나 곧 만료되면 리프레시 토큰으로 갱신한 뒤 돌아옴
+    if (expiresSoon && request.cookies.get(REFRESH_COOKIE_NAME)?.value) {
+      const refreshUrl = new URL('/api/auth/refresh', request.url);
+      refreshUrl.searchParams.set('redirect', `${pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(refreshUrl);
     }
 
-    try {
-      jwt.verify(token, process.env.JWT_SECRET!);
-    } catch (error) {
-      console.error('Token verification failed:', error);
-      return NextResponse.redirect(new URL('/login', request.url));
+    if (!payload) {
+      const response = NextResponse.redirect(new URL('/login', request.url));
+      if (token) {
+        response.cookies.delete(AUTH_COOKIE_NAME);
+      }
+      return response;
     }
   }
 
   // 이미 로그인한 사용자가 인증 페이지에 접근하려고 할 때
-  if (authPaths.includes(pathname) && token) {
-    try {
-      jwt.verify(token, process.env.JWT_SECRET!);
-      return NextResponse.redirect(new URL('/dashboard', request.url));
-    } catch (error) {
-      // 토큰이 유효하지 않으면 그대로 진행
-      console.error('Token verification failed:', error);
-    }
+  if (authPaths.includes(pathname) && token && (await verifySessionToken(token))) {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
   }
 
   return NextResponse.next();
@@ -43,6 +67,15 @@ export const config = {
     '/accounts/:path*',
     '/portfolio/:path*',
     '/transactions/:path*',
+    '/holdings/:path*',
+    '/analytics/:path*',
+    '/rebalance/:path*',
+    '/alerts/:path*',
+    '/devices/:path*',
+    '/security/:path*',
+    '/profile/:path*',
+    '/api-tokens/:path*',
+    '/admin/:path*',
     '/login',
     '/register'
   ]
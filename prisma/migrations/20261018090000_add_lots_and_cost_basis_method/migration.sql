@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "costBasisMethod" TEXT NOT NULL DEFAULT 'FIFO';
+
+-- CreateTable
+CREATE TABLE "lots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "accountId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "stockCode" TEXT NOT NULL,
+    "stockName" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KRW',
+    "acquiredAt" DATETIME NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "remainingQuantity" INTEGER NOT NULL,
+    "unitCost" REAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "lots_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "lots_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "lot_selections" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sellTransactionId" TEXT NOT NULL,
+    "buyTransactionId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "lot_selections_sellTransactionId_fkey" FOREIGN KEY ("sellTransactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "lot_selections_buyTransactionId_fkey" FOREIGN KEY ("buyTransactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "lots_accountId_stockCode_idx" ON "lots"("accountId", "stockCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lot_selections_sellTransactionId_buyTransactionId_key" ON "lot_selections"("sellTransactionId", "buyTransactionId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "costBasis" REAL;
+ALTER TABLE "transactions" ADD COLUMN "realizedGain" REAL;
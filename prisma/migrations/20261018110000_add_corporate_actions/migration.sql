@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "corporate_actions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "stockCode" TEXT NOT NULL,
+    "newStockCode" TEXT,
+    "newStockName" TEXT,
+    "ratio" REAL NOT NULL DEFAULT 1,
+    "effectiveDate" DATETIME NOT NULL,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "corporate_actions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "corporate_actions_userId_stockCode_idx" ON "corporate_actions"("userId", "stockCode");
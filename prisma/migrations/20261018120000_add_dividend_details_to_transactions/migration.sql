@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "grossAmount" REAL;
+ALTER TABLE "transactions" ADD COLUMN "withholdingTax" REAL;
+ALTER TABLE "transactions" ADD COLUMN "exDate" DATETIME;
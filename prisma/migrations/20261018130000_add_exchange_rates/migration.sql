@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "fxRate" REAL;
+
+-- AlterTable
+ALTER TABLE "lots" ADD COLUMN "fxRate" REAL;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" DATETIME NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL DEFAULT 'KRW',
+    "rate" REAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_date_baseCurrency_quoteCurrency_key" ON "exchange_rates"("date", "baseCurrency", "quoteCurrency");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "price_bars" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "symbol" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "open" REAL,
+    "high" REAL,
+    "low" REAL,
+    "close" REAL NOT NULL,
+    "volume" REAL,
+    "currency" TEXT NOT NULL DEFAULT 'KRW',
+    "source" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_bars_symbol_date_key" ON "price_bars"("symbol", "date");
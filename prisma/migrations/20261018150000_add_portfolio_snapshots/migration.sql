@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "portfolio_snapshots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KRW',
+    "holdingsValue" REAL NOT NULL,
+    "investedCapital" REAL NOT NULL,
+    "cash" REAL NOT NULL,
+    "totalValue" REAL NOT NULL,
+    "fxRate" REAL NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "portfolio_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "portfolio_snapshots_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "portfolio_snapshots_userId_date_idx" ON "portfolio_snapshots"("userId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "portfolio_snapshots_accountId_date_currency_key" ON "portfolio_snapshots"("accountId", "date", "currency");
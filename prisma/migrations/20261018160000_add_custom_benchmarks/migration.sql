@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "custom_benchmarks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KRW',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "custom_benchmarks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "benchmark_components" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "customBenchmarkId" TEXT NOT NULL,
+    "benchmarkId" TEXT NOT NULL,
+    "weight" REAL NOT NULL,
+    CONSTRAINT "benchmark_components_customBenchmarkId_fkey" FOREIGN KEY ("customBenchmarkId") REFERENCES "custom_benchmarks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_benchmarks_userId_name_key" ON "custom_benchmarks"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "benchmark_components_customBenchmarkId_benchmarkId_key" ON "benchmark_components"("customBenchmarkId", "benchmarkId");
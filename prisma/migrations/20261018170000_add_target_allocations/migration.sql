@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "target_allocations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "accountId" TEXT,
+    "dimension" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "weight" REAL NOT NULL,
+    "lotSize" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "target_allocations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "target_allocations_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "target_allocations_userId_accountId_dimension_idx" ON "target_allocations"("userId", "accountId", "dimension");
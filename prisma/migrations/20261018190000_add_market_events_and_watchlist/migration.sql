@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "watchlist_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "stockCode" TEXT NOT NULL,
+    "stockName" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "watchlist_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "market_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "time" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "country" TEXT,
+    "stockCode" TEXT,
+    "stockName" TEXT,
+    "importance" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "uid" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "watchlist_items_userId_stockCode_key" ON "watchlist_items"("userId", "stockCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_events_uid_key" ON "market_events"("uid");
+
+-- CreateIndex
+CREATE INDEX "market_events_date_idx" ON "market_events"("date");
+
+-- CreateIndex
+CREATE INDEX "market_events_stockCode_date_idx" ON "market_events"("stockCode", "date");
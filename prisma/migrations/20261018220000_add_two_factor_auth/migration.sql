@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "totpSecret" TEXT;
+ALTER TABLE "users" ADD COLUMN "totpEnabledAt" DATETIME;
+ALTER TABLE "users" ADD COLUMN "totpLastUsedStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "recovery_codes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "recovery_codes_userId_idx" ON "recovery_codes"("userId");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "emailVerifiedAt" DATETIME;
+
+-- 기존 사용자는 인증된 것으로 처리
+UPDATE "users" SET "emailVerifiedAt" = "createdAt";
+
+-- CreateTable
+CREATE TABLE "account_tokens" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "account_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_tokens_tokenHash_key" ON "account_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "account_tokens_userId_purpose_idx" ON "account_tokens"("userId", "purpose");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "failedLoginCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN "lockedUntil" DATETIME;
+
+-- CreateTable
+CREATE TABLE "login_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "reason" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "deviceName" TEXT,
+    "deviceId" TEXT,
+    "newDevice" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "login_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "login_events_userId_createdAt_idx" ON "login_events"("userId", "createdAt");
@@ -0,0 +1,6 @@
+-- CreateTable
+CREATE TABLE "price_history_coverage" (
+    "symbol" TEXT NOT NULL PRIMARY KEY,
+    "fetchedFrom" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
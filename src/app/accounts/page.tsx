@@ -17,10 +17,17 @@ interface Account {
   accountNumber: string;
   accountType: string;
   nickname?: string;
+  costBasisMethod?: string;
   createdAt: string;
   institution: Institution;
 }
 
+const COST_BASIS_METHOD_OPTIONS = [
+  { value: 'FIFO', label: '선입선출 (FIFO)' },
+  { value: 'AVERAGE', label: '총평균' },
+  { value: 'SPECIFIC', label: '개별 로트 지정' },
+];
+
 export default function AccountsPage() {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [institutions, setInstitutions] = useState<Institution[]>([]);
@@ -33,6 +40,7 @@ export default function AccountsPage() {
     accountNumber: '',
     accountType: '일반계좌',
     nickname: '',
+    costBasisMethod: 'FIFO',
   });
   const [error, setError] = useState('');
   const router = useRouter();
@@ -122,6 +130,7 @@ export default function AccountsPage() {
           accountNumber: '',
           accountType: '일반계좌',
           nickname: '',
+          costBasisMethod: 'FIFO',
         });
       } else {
         const data = await response.json();
@@ -162,6 +171,7 @@ export default function AccountsPage() {
       accountNumber: account.accountNumber,
       accountType: account.accountType,
       nickname: account.nickname || '',
+      costBasisMethod: account.costBasisMethod || 'FIFO',
     });
     setShowEditForm(true);
     setError('');
@@ -194,6 +204,7 @@ export default function AccountsPage() {
           accountNumber: '',
           accountType: '일반계좌',
           nickname: '',
+          costBasisMethod: 'FIFO',
         });
       } else {
         try {
@@ -210,6 +221,40 @@ export default function AccountsPage() {
     }
   };
 
+  // 다른 인스턴스에서 내보낸 백업 파일 복원 (같은 계좌번호는 병합)
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!confirm('백업 파일을 복원하시겠습니까? 같은 계좌번호의 계좌에는 중복되지 않는 거래만 추가됩니다.')) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: await file.text(),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        alert(data.message);
+        await fetchAccounts();
+      } else {
+        setError([data.error || '백업 복원에 실패했습니다.', ...(data.details || [])].join('\n'));
+      }
+    } catch (error) {
+      console.error('Portfolio restore error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
   const cancelEdit = () => {
     setShowEditForm(false);
     setEditingAccount(null);
@@ -218,6 +263,7 @@ export default function AccountsPage() {
       accountNumber: '',
       accountType: '일반계좌',
       nickname: '',
+      costBasisMethod: 'FIFO',
     });
     setError('');
   };
@@ -248,21 +294,33 @@ export default function AccountsPage() {
                 증권사별 계좌를 등록하고 관리하세요.
               </p>
             </div>
-            <button
-              onClick={() => setShowForm(!showForm)}
-              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center"
-            >
-              <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-              </svg>
-              {showForm ? '취소' : '계좌 추가'}
-            </button>
+            <div className="flex items-center space-x-2">
+              <a
+                href="/api/export"
+                className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 px-4 py-2 rounded-lg text-sm font-medium"
+              >
+                백업 내보내기
+              </a>
+              <label className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 px-4 py-2 rounded-lg text-sm font-medium cursor-pointer">
+                백업 복원
+                <input type="file" accept=".json,application/json" onChange={handleRestore} className="hidden" />
+              </label>
+              <button
+                onClick={() => setShowForm(!showForm)}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center"
+              >
+                <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                {showForm ? '취소' : '계좌 추가'}
+              </button>
+            </div>
           </div>
         </div>
 
         <div className="px-4 py-6 sm:px-0">
           {error && (
-            <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+            <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded whitespace-pre-line">
               {error}
             </div>
           )}
@@ -335,6 +393,20 @@ export default function AccountsPage() {
                       <option value="CMA계좌">CMA계좌</option>
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      취득원가 산정 방식
+                    </label>
+                    <select
+                      value={formData.costBasisMethod}
+                      onChange={(e) => setFormData(prev => ({ ...prev, costBasisMethod: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {COST_BASIS_METHOD_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 <div className="flex justify-end">
                   <button
@@ -416,6 +488,20 @@ export default function AccountsPage() {
                       <option value="CMA계좌">CMA계좌</option>
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      취득원가 산정 방식
+                    </label>
+                    <select
+                      value={formData.costBasisMethod}
+                      onChange={(e) => setFormData(prev => ({ ...prev, costBasisMethod: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {COST_BASIS_METHOD_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 <div className="flex justify-end space-x-2">
                   <button
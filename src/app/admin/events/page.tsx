@@ -0,0 +1,393 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navigation from '@/components/Navigation';
+
+interface MarketEventItem {
+  id: string;
+  type: string;
+  date: string;
+  time: string | null;
+  title: string;
+  description: string | null;
+  country: string | null;
+  stockCode: string | null;
+  stockName: string | null;
+  importance: string;
+  source: string;
+}
+
+const EVENT_TYPES = [
+  { value: 'ECONOMIC', label: '경제지표' },
+  { value: 'EARNINGS', label: '실적 발표' },
+  { value: 'EX_DIVIDEND', label: '배당락' },
+  { value: 'DIVIDEND_PAYMENT', label: '배당금 지급' },
+];
+
+const IMPORTANCES = [
+  { value: 'HIGH', label: '높음' },
+  { value: 'MEDIUM', label: '보통' },
+  { value: 'LOW', label: '낮음' },
+];
+
+const EMPTY_FORM = {
+  type: 'ECONOMIC',
+  date: '',
+  time: '',
+  title: '',
+  country: 'KR',
+  stockCode: '',
+  stockName: '',
+  importance: 'MEDIUM',
+  description: '',
+};
+
+export default function AdminEventsPage() {
+  const [events, setEvents] = useState<MarketEventItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterType, setFilterType] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importType, setImportType] = useState('ECONOMIC');
+  const [error, setError] = useState('');
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
+  const [success, setSuccess] = useState('');
+  const router = useRouter();
+
+  const typeLabel = (type: string) => EVENT_TYPES.find(item => item.value === type)?.label || type;
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (filterType) params.set('type', filterType);
+      const response = await fetch(`/api/admin/events?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events);
+      } else if (response.status === 403) {
+        setError('관리자 권한이 필요합니다.');
+        setTimeout(() => router.push('/'), 2000);
+      } else {
+        const data = await response.json();
+        setError(data.error || '데이터를 불러오는 데 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Failed to fetch market events:', error);
+      setError('서버 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterType, router]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const resetMessages = () => {
+    setError('');
+    setErrorDetails([]);
+    setSuccess('');
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleEdit = (event: MarketEventItem) => {
+    setFormData({
+      type: event.type,
+      date: event.date.split('T')[0],
+      time: event.time || '',
+      title: event.title,
+      country: event.country || '',
+      stockCode: event.stockCode || '',
+      stockName: event.stockName || '',
+      importance: event.importance,
+      description: event.description || '',
+    });
+    setEditingId(event.id);
+    resetMessages();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    resetMessages();
+
+    try {
+      const response = await fetch(editingId ? `/api/admin/events/${editingId}` : '/api/admin/events', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          country: formData.type === 'ECONOMIC' ? formData.country : '',
+          stockCode: formData.type === 'ECONOMIC' ? '' : formData.stockCode,
+          stockName: formData.type === 'ECONOMIC' ? '' : formData.stockName,
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess(editingId ? '시장 이벤트가 수정되었습니다.' : '시장 이벤트가 등록되었습니다.');
+        resetForm();
+        await fetchEvents();
+      } else {
+        setError(data.error || '처리 중 오류가 발생했습니다.');
+      }
+    } catch (error) {
+      console.error('Market event operation error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
+  const handleDelete = async (event: MarketEventItem) => {
+    if (!confirm(`'${event.title}' 일정을 삭제하시겠습니까?`)) {
+      return;
+    }
+    resetMessages();
+
+    try {
+      const response = await fetch(`/api/admin/events/${event.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setSuccess('시장 이벤트가 삭제되었습니다.');
+        await fetchEvents();
+      } else {
+        const data = await response.json();
+        setError(data.error || '삭제 중 오류가 발생했습니다.');
+      }
+    } catch (error) {
+      console.error('Market event deletion error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
+  // CSV/ICS 파일 가져오기 (확장자로 형식 판단)
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    resetMessages();
+
+    try {
+      const format = file.name.toLowerCase().endsWith('.ics') ? 'ics' : 'csv';
+      const response = await fetch('/api/admin/events/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, content: await file.text(), defaultType: importType }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess(`가져오기 완료: 신규 ${data.created}건, 갱신 ${data.updated}건`);
+        await fetchEvents();
+      } else {
+        setError(data.error || '가져오기에 실패했습니다.');
+        setErrorDetails(data.details || []);
+      }
+    } catch (error) {
+      console.error('Market event import error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex justify-between items-center flex-wrap gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">관리자 - 시장 이벤트 관리</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                경제지표 발표, 실적 발표, 배당락일, 배당금 지급일 일정을 등록하거나 CSV/ICS 파일로 가져옵니다.
+                종목 일정은 해당 종목을 보유하거나 관심종목에 넣은 사용자에게만 보입니다.
+              </p>
+            </div>
+            <Link href="/admin" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              ← 금융기관 관리
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+            {error}
+            {errorDetails.length > 0 && (
+              <ul className="mt-2 text-sm list-disc list-inside">
+                {errorDetails.slice(0, 20).map(detail => <li key={detail}>{detail}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded">
+            {success}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          {/* 이벤트 등록/수정 폼 */}
+          <form onSubmit={handleSubmit} className="lg:col-span-2 bg-white dark:bg-gray-800 shadow rounded-lg p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              {editingId ? '시장 이벤트 수정' : '새 시장 이벤트 등록'}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <select value={formData.type} onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value }))} className={inputClass}>
+                {EVENT_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+              </select>
+              <input type="date" value={formData.date} onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))} className={inputClass} required />
+              <input type="time" value={formData.time} onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))} className={inputClass} title="발표 시각 (한국시간)" />
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="제목 (예: 미국 CPI 발표)"
+                className={`${inputClass} md:col-span-2`}
+                required
+              />
+              <select value={formData.importance} onChange={(e) => setFormData(prev => ({ ...prev, importance: e.target.value }))} className={inputClass}>
+                {IMPORTANCES.map(item => <option key={item.value} value={item.value}>중요도 {item.label}</option>)}
+              </select>
+              {formData.type === 'ECONOMIC' ? (
+                <input
+                  type="text"
+                  value={formData.country}
+                  onChange={(e) => setFormData(prev => ({ ...prev, country: e.target.value }))}
+                  placeholder="국가 코드 (KR, US, CN, JP)"
+                  className={inputClass}
+                />
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={formData.stockCode}
+                    onChange={(e) => setFormData(prev => ({ ...prev, stockCode: e.target.value }))}
+                    placeholder="종목코드"
+                    className={inputClass}
+                    required
+                  />
+                  <input
+                    type="text"
+                    value={formData.stockName}
+                    onChange={(e) => setFormData(prev => ({ ...prev, stockName: e.target.value }))}
+                    placeholder="종목명"
+                    className={inputClass}
+                  />
+                </>
+              )}
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="설명 (선택)"
+                className={`${inputClass} md:col-span-3`}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  취소
+                </button>
+              )}
+              <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors">
+                {editingId ? '수정' : '등록'}
+              </button>
+            </div>
+          </form>
+
+          {/* 파일 가져오기 */}
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 text-sm">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">CSV/ICS 가져오기</h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-3">
+              CSV 열: date, type, title, stockCode, stockName, country, time, importance, description.
+              ICS는 CATEGORIES(ECONOMIC/EARNINGS/EX_DIVIDEND/DIVIDEND_PAYMENT)와 X-STOCK-CODE, X-COUNTRY 속성을 읽습니다.
+              같은 일정을 다시 가져오면 갱신됩니다.
+            </p>
+            <label className="block text-gray-700 dark:text-gray-300 mb-1">ICS 유형 미지정 시</label>
+            <select value={importType} onChange={(e) => setImportType(e.target.value)} className={`${inputClass} mb-3`}>
+              {EVENT_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+            </select>
+            <input
+              type="file"
+              accept=".csv,.ics,text/csv,text/calendar"
+              onChange={handleImport}
+              className="block w-full text-gray-700 dark:text-gray-300"
+            />
+          </div>
+        </div>
+
+        {/* 이벤트 목록 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">오늘 이후 일정</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">총 {events.length}건</p>
+            </div>
+            <select value={filterType} onChange={(e) => setFilterType(e.target.value)} className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
+              <option value="">전체 유형</option>
+              {EVENT_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+            </select>
+          </div>
+          {isLoading ? (
+            <div className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">로딩 중...</div>
+          ) : events.length === 0 ? (
+            <div className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">등록된 일정이 없습니다.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="px-6 py-3 font-medium">날짜</th>
+                    <th className="px-6 py-3 font-medium">유형</th>
+                    <th className="px-6 py-3 font-medium">제목</th>
+                    <th className="px-6 py-3 font-medium">대상</th>
+                    <th className="px-6 py-3 font-medium">중요도</th>
+                    <th className="px-6 py-3 font-medium">출처</th>
+                    <th className="px-6 py-3 font-medium">작업</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {events.map(event => (
+                    <tr key={event.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-900 dark:text-white">
+                        {event.date.split('T')[0]} {event.time || ''}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-900 dark:text-white">{typeLabel(event.type)}</td>
+                      <td className="px-6 py-3 text-gray-900 dark:text-white">{event.title}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                        {event.stockCode ? `${event.stockName || ''} (${event.stockCode})` : event.country || '-'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                        {IMPORTANCES.find(item => item.value === event.importance)?.label || event.importance}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">{event.source}</td>
+                      <td className="px-6 py-3 whitespace-nowrap font-medium space-x-2">
+                        <button onClick={() => handleEdit(event)} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                          수정
+                        </button>
+                        <button onClick={() => handleDelete(event)} className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300">
+                          삭제
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
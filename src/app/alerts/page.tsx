@@ -0,0 +1,368 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Navigation from '@/components/Navigation';
+
+interface AlertRuleItem {
+  id: string;
+  type: string;
+  stockCode: string | null;
+  threshold: number;
+  note: string | null;
+  enabled: boolean;
+  active: boolean;
+  lastTriggeredAt: string | null;
+}
+
+// 유형별 입력 안내 (stock: 종목코드 필요 여부, unit: 기준값 단위)
+const ALERT_TYPE_OPTIONS = [
+  { value: 'PRICE_ABOVE', label: '현재가 이상', stock: true, unit: '가격' },
+  { value: 'PRICE_BELOW', label: '현재가 이하', stock: true, unit: '가격' },
+  { value: 'DAILY_CHANGE', label: '일간 등락률 (±)', stock: true, unit: '%' },
+  { value: 'DRAWDOWN_FROM_COST', label: '평균 매수가 대비 손실', stock: true, unit: '%' },
+  { value: 'PORTFOLIO_ABOVE', label: '총자산 이상', stock: false, unit: '원' },
+  { value: 'PORTFOLIO_BELOW', label: '총자산 이하', stock: false, unit: '원' },
+  { value: 'UPCOMING_EVENT', label: '보유종목 배당·실적 일정', stock: false, unit: '일 전' },
+];
+
+// 캘린더 구독에 넣을 수 있는 일정 유형
+const CALENDAR_EVENT_TYPES = [
+  { value: 'EX_DIVIDEND', label: '배당락' },
+  { value: 'DIVIDEND_PAYMENT', label: '배당금 지급' },
+  { value: 'EARNINGS', label: '실적 발표' },
+  { value: 'ECONOMIC', label: '경제지표' },
+];
+
+export default function AlertsPage() {
+  const [rules, setRules] = useState<AlertRuleItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState({ type: 'PRICE_ABOVE', stockCode: '', threshold: '', note: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [calendarToken, setCalendarToken] = useState<string | null>(null);
+  const [calendarTypes, setCalendarTypes] = useState<string[]>(CALENDAR_EVENT_TYPES.map(type => type.value));
+  const [calendarPriority, setCalendarPriority] = useState('low');
+  const router = useRouter();
+
+  const typeOption = (type: string) => ALERT_TYPE_OPTIONS.find(option => option.value === type);
+  const selectedType = typeOption(form.type);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/alerts');
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+      } else if (response.status === 401) {
+        router.push('/login');
+      }
+    } catch (error) {
+      console.error('Failed to fetch alert rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  const fetchCalendarToken = useCallback(async () => {
+    try {
+      const response = await fetch('/api/events/calendar-token');
+      if (response.ok) {
+        const data = await response.json();
+        setCalendarToken(data.token);
+      }
+    } catch (error) {
+      console.error('Failed to fetch calendar token:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    fetchCalendarToken();
+  }, [fetchRules, fetchCalendarToken]);
+
+  // 구독 주소 발급·재발급(POST) 또는 해제(DELETE)
+  const updateCalendarToken = async (method: 'POST' | 'DELETE') => {
+    if (method === 'DELETE' && !confirm('구독을 해제하면 캘린더 앱에서 더 이상 일정이 갱신되지 않습니다. 해제하시겠습니까?')) return;
+    if (method === 'POST' && calendarToken && !confirm('새 주소를 발급하면 기존 구독 주소는 동작하지 않습니다. 계속하시겠습니까?')) return;
+
+    try {
+      const response = await fetch('/api/events/calendar-token', { method });
+      const data = await response.json();
+      if (response.ok) {
+        setCalendarToken(method === 'POST' ? data.token : null);
+      } else {
+        setError(data.error || '캘린더 구독 설정에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Failed to update calendar token:', error);
+      setError('캘린더 구독 설정에 실패했습니다.');
+    }
+  };
+
+  const calendarUrl = () => {
+    if (!calendarToken) return '';
+    const params = new URLSearchParams({ token: calendarToken });
+    if (calendarTypes.length < CALENDAR_EVENT_TYPES.length) params.set('types', calendarTypes.join(','));
+    if (calendarPriority !== 'low') params.set('minPriority', calendarPriority);
+    return `${window.location.origin}/api/events/calendar.ics?${params.toString()}`;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: form.type,
+          stockCode: selectedType?.stock || form.type === 'UPCOMING_EVENT' ? form.stockCode : undefined,
+          threshold: form.threshold,
+          note: form.note,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '알림 규칙 등록에 실패했습니다.');
+        return;
+      }
+      setForm({ ...form, stockCode: '', threshold: '', note: '' });
+      await fetchRules();
+    } catch (error) {
+      console.error('Failed to create alert rule:', error);
+      setError('알림 규칙 등록에 실패했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: AlertRuleItem) => {
+    try {
+      const response = await fetch(`/api/alerts/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      if (response.ok) {
+        await fetchRules();
+      }
+    } catch (error) {
+      console.error('Failed to update alert rule:', error);
+    }
+  };
+
+  const deleteRule = async (rule: AlertRuleItem) => {
+    if (!confirm('이 알림 규칙을 삭제하시겠습니까?')) return;
+
+    try {
+      const response = await fetch(`/api/alerts/${rule.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        await fetchRules();
+      }
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error);
+    }
+  };
+
+  const describeThreshold = (rule: AlertRuleItem) => {
+    const option = typeOption(rule.type);
+    if (!option) return String(rule.threshold);
+    if (option.unit === '%') return `${rule.threshold}%`;
+    if (option.unit === '원') return `₩${rule.threshold.toLocaleString()}`;
+    if (option.unit === '일 전') return `${rule.threshold}일 전`;
+    return rule.threshold.toLocaleString();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">알림 설정</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            가격, 등락률, 손실률, 총자산, 배당·실적 일정 조건을 등록하면 조건을 충족할 때 알림함으로 알려드립니다.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* 규칙 등록 */}
+        <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">새 알림 규칙</h3>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 text-sm">
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value })}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {ALERT_TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.stockCode}
+              onChange={(e) => setForm({ ...form, stockCode: e.target.value })}
+              placeholder={form.type === 'UPCOMING_EVENT' ? '종목코드 (비우면 전체 보유종목)' : '종목코드'}
+              disabled={!selectedType?.stock && form.type !== 'UPCOMING_EVENT'}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+            />
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                step="any"
+                value={form.threshold}
+                onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                placeholder="기준값"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">{selectedType?.unit}</span>
+            </div>
+            <input
+              type="text"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              placeholder="메모 (선택)"
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium"
+            >
+              {isSaving ? '등록 중...' : '등록'}
+            </button>
+          </div>
+        </form>
+
+        {/* 규칙 목록 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">등록된 규칙</h3>
+          {isLoading ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">불러오는 중...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">등록된 알림 규칙이 없습니다.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">유형</th>
+                    <th className="py-2 pr-4 font-medium">종목</th>
+                    <th className="py-2 pr-4 font-medium text-right">기준</th>
+                    <th className="py-2 pr-4 font-medium">메모</th>
+                    <th className="py-2 pr-4 font-medium">마지막 알림</th>
+                    <th className="py-2 font-medium text-right"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map(rule => (
+                    <tr key={rule.id} className={`border-b border-gray-100 dark:border-gray-700 ${rule.enabled ? '' : 'opacity-50'}`}>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                        {typeOption(rule.type)?.label || rule.type}
+                        {rule.active && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs">충족 중</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">{rule.stockCode || '-'}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{describeThreshold(rule)}</td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{rule.note || '-'}</td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">
+                        {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString('ko-KR') : '-'}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button onClick={() => toggleRule(rule)} className="text-blue-600 dark:text-blue-400 hover:underline mr-3">
+                          {rule.enabled ? '끄기' : '켜기'}
+                        </button>
+                        <button onClick={() => deleteRule(rule)} className="text-red-600 dark:text-red-400 hover:underline">
+                          삭제
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* 캘린더 구독 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mt-6 text-sm">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">📅 캘린더 구독</h3>
+          <p className="text-gray-500 dark:text-gray-400 mb-4">
+            보유·관심종목의 배당락·배당금 지급·실적 발표 일정과 경제지표 일정을 Google 캘린더, Apple 캘린더, Outlook 등에서 구독할 수 있습니다.
+            구독 주소를 아는 사람은 누구나 일정을 볼 수 있으니 공유하지 마세요.
+          </p>
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            {CALENDAR_EVENT_TYPES.map(type => (
+              <label key={type.value} className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={calendarTypes.includes(type.value)}
+                  onChange={(e) => setCalendarTypes(prev => (
+                    e.target.checked ? [...prev, type.value] : prev.filter(value => value !== type.value)
+                  ))}
+                />
+                {type.label}
+              </label>
+            ))}
+            <select
+              value={calendarPriority}
+              onChange={(e) => setCalendarPriority(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="low">모든 중요도</option>
+              <option value="medium">중요도 보통 이상</option>
+              <option value="high">중요도 높음만</option>
+            </select>
+          </div>
+          {calendarToken ? (
+            <>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={calendarTypes.length > 0 ? calendarUrl() : ''}
+                  placeholder="일정 유형을 하나 이상 선택해주세요"
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-xs"
+                />
+                <button
+                  onClick={() => navigator.clipboard.writeText(calendarUrl())}
+                  disabled={calendarTypes.length === 0}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium whitespace-nowrap"
+                >
+                  복사
+                </button>
+              </div>
+              <div className="mt-3 space-x-4">
+                <button onClick={() => updateCalendarToken('POST')} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  새 주소 발급
+                </button>
+                <button onClick={() => updateCalendarToken('DELETE')} className="text-red-600 dark:text-red-400 hover:underline">
+                  구독 해제
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              onClick={() => updateCalendarToken('POST')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium"
+            >
+              구독 주소 만들기
+            </button>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
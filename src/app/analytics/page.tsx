@@ -4,6 +4,11 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useRealTimeStockData } from '@/hooks/useRealTimeStockData';
 import Navigation from '@/components/Navigation';
+import { MonthlyDividendChart } from '@/components/charts/DividendCharts';
+import { PriceHistoryChart } from '@/components/charts/PriceHistoryChart';
+import { BenchmarkComparisonChart, NetWorthChart } from '@/components/charts/PortfolioCharts';
+import type { RiskMetrics } from '@/lib/riskMetrics';
+import type { PortfolioReturns } from '@/lib/returns';
 
 interface Account {
   id: string;
@@ -44,6 +49,100 @@ interface Holding {
   };
 }
 
+interface RealizedGainItem {
+  year: number;
+  accountId: string;
+  stockCode: string;
+  stockName: string;
+  currency: string;
+  sellCount: number;
+  quantity: number;
+  realizedGain: number;
+  realizedGainKRW: number;
+  priceGainKRW: number;
+  fxGainKRW: number;
+}
+
+interface RealizedSummary {
+  totalRealizedGainKRW: number;
+  totalPriceGainKRW: number;
+  totalFxGainKRW: number;
+  byYear: { [year: string]: { realizedGainKRW: number } };
+}
+
+interface MonthlyDividend {
+  month: string;
+  grossAmountKRW: number;
+  withholdingTaxKRW: number;
+  netAmountKRW: number;
+}
+
+interface DividendIncomeItem {
+  holdingId: string;
+  stockCode: string;
+  stockName: string;
+  currency: string;
+  ttmGrossAmount: number;
+  ttmNetAmount: number;
+  yieldOnCost: number;
+  paymentCount: number;
+}
+
+interface DividendIncomeSummary {
+  ttmGrossAmountKRW: number;
+  ttmNetAmountKRW: number;
+  yieldOnCost: number;
+}
+
+interface NetWorthPoint {
+  date: string;
+  totalValue: number;
+  holdingsValue: number;
+  investedCapital: number;
+  cash: number;
+  profitLoss: number;
+}
+
+const NET_WORTH_RANGES = ['1M', '3M', 'YTD', '1Y', 'ALL'] as const;
+const RISK_BENCHMARKS = [
+  { id: 'KOSPI', name: 'KOSPI' },
+  { id: 'KOSDAQ', name: 'KOSDAQ' },
+  { id: 'SP500', name: 'S&P 500' },
+  { id: 'NASDAQ', name: 'NASDAQ' },
+];
+type NetWorthRange = typeof NET_WORTH_RANGES[number];
+
+const formatSignedKRW = (value: number) => `${value >= 0 ? '+' : '-'}₩${Math.abs(Math.round(value)).toLocaleString()}`;
+
+interface CustomBenchmark {
+  id: string;
+  name: string;
+  currency: 'KRW' | 'LOCAL';
+  components: Array<{ benchmarkId: string; weight: number }>;
+}
+
+interface BenchmarkComparison {
+  range: string;
+  portfolio: Array<{ date: string; value: number }>;
+  benchmarks: Array<{
+    id: string;
+    name: string;
+    observations: number;
+    cumulativeReturn: number;
+    excessReturn: number;
+    trackingError: number | null;
+    informationRatio: number | null;
+    series: Array<{ date: string; value: number }>;
+  }>;
+}
+
+interface PriceHistory {
+  symbol: string;
+  currency: string | null;
+  bars: Array<{ date: string; close: number }>;
+  asOf: string | null;
+}
+
 interface PortfolioAnalytics {
   totalValue: number;
   totalInvestment: number;
@@ -57,11 +156,7 @@ interface PortfolioAnalytics {
     value: number;
   }>;
   riskMetrics: {
-    volatility: number;
-    sharpeRatio: number;
     diversificationScore: number;
-    beta: number;
-    maxDrawdown: number;
   };
   performance: {
     kospiComparison: number;
@@ -74,6 +169,32 @@ export default function AnalyticsPage() {
   const [holdings, setHoldings] = useState<Holding[]>([]);
   const [analytics, setAnalytics] = useState<PortfolioAnalytics | null>(null);
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [realizedItems, setRealizedItems] = useState<RealizedGainItem[]>([]);
+  const [realizedSummary, setRealizedSummary] = useState<RealizedSummary | null>(null);
+  const [monthlyDividends, setMonthlyDividends] = useState<MonthlyDividend[]>([]);
+  const [dividendIncome, setDividendIncome] = useState<DividendIncomeItem[]>([]);
+  const [dividendSummary, setDividendSummary] = useState<DividendIncomeSummary | null>(null);
+  const [pricesAsOf, setPricesAsOf] = useState<string | null>(null);
+  const [netWorthRange, setNetWorthRange] = useState<NetWorthRange>('1Y');
+  const [netWorthPoints, setNetWorthPoints] = useState<NetWorthPoint[]>([]);
+  const [netWorthAsOf, setNetWorthAsOf] = useState<string | null>(null);
+  const [riskBenchmark, setRiskBenchmark] = useState<string>('KOSPI');
+  const [risk, setRisk] = useState<RiskMetrics | null>(null);
+  const [customBenchmarks, setCustomBenchmarks] = useState<CustomBenchmark[]>([]);
+  const [comparedBenchmarks, setComparedBenchmarks] = useState<string[]>(['KOSPI']);
+  const [comparisonRange, setComparisonRange] = useState<NetWorthRange>('1Y');
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null);
+  const [blendForm, setBlendForm] = useState<{ name: string; currency: 'KRW' | 'LOCAL'; weights: Record<string, string> }>({
+    name: '',
+    currency: 'KRW',
+    weights: { KOSPI: '60', SP500: '40' },
+  });
+  const [blendError, setBlendError] = useState<string | null>(null);
+  const [returnsFrom, setReturnsFrom] = useState<string>(`${new Date().getFullYear()}-01-01`);
+  const [returnsTo, setReturnsTo] = useState<string>('');
+  const [periodReturns, setPeriodReturns] = useState<PortfolioReturns | null>(null);
+  const [historySymbol, setHistorySymbol] = useState<string>('');
+  const [priceHistory, setPriceHistory] = useState<PriceHistory | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -114,12 +235,182 @@ export default function AnalyticsPage() {
       const data = await response.json();
       console.log('Holdings API response:', data);
       setHoldings(Array.isArray(data.holdings) ? data.holdings : []);
+      setPricesAsOf(data.summary?.pricesAsOf || null);
     } catch (err) {
       setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
       console.error('Error fetching holdings:', err);
     }
   }, []);
 
+  // 올해 실현손익 가져오기
+  const fetchRealizedGains = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/portfolio/realized?year=${new Date().getFullYear()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRealizedItems(Array.isArray(data.items) ? data.items : []);
+        setRealizedSummary(data.summary || null);
+      }
+    } catch (err) {
+      console.error('Error fetching realized gains:', err);
+    }
+  }, []);
+
+  // 월별 배당 수입과 보유종목별 TTM 배당 가져오기
+  const fetchDividends = useCallback(async () => {
+    try {
+      const [monthlyResponse, incomeResponse] = await Promise.all([
+        fetch('/api/portfolio/dividends?months=12'),
+        fetch('/api/portfolio/dividends/income')
+      ]);
+      if (monthlyResponse.ok) {
+        const data = await monthlyResponse.json();
+        setMonthlyDividends(Array.isArray(data.monthly) ? data.monthly : []);
+      }
+      if (incomeResponse.ok) {
+        const data = await incomeResponse.json();
+        setDividendIncome(Array.isArray(data.items) ? data.items : []);
+        setDividendSummary(data.summary || null);
+      }
+    } catch (err) {
+      console.error('Error fetching dividends:', err);
+    }
+  }, []);
+
+  // 일자별 포트폴리오 가치 가져오기
+  const fetchNetWorth = useCallback(async (range: NetWorthRange) => {
+    try {
+      const response = await fetch(`/api/portfolio/snapshots?range=${range}`);
+      if (response.ok) {
+        const data = await response.json();
+        setNetWorthPoints(Array.isArray(data.points) ? data.points : []);
+        setNetWorthAsOf(data.asOf || null);
+      }
+    } catch (err) {
+      console.error('Error fetching portfolio snapshots:', err);
+    }
+  }, []);
+
+  // 일간 수익률 기반 리스크 지표 가져오기 (최근 1년, 선택한 벤치마크 기준)
+  const fetchRiskMetrics = useCallback(async (benchmark: string) => {
+    try {
+      const response = await fetch(`/api/portfolio/analytics?benchmark=${benchmark}&range=1Y`);
+      if (response.ok) {
+        const data = await response.json();
+        setRisk(data.analytics?.riskMetrics || null);
+      }
+    } catch (err) {
+      console.error('Error fetching risk metrics:', err);
+    }
+  }, []);
+
+  // 사용자 정의 혼합 벤치마크 목록 가져오기
+  const fetchCustomBenchmarks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/benchmarks');
+      if (response.ok) {
+        const data = await response.json();
+        setCustomBenchmarks(Array.isArray(data.customBenchmarks) ? data.customBenchmarks : []);
+      }
+    } catch (err) {
+      console.error('Error fetching benchmarks:', err);
+    }
+  }, []);
+
+  // 선택한 벤치마크 대비 누적 수익률 비교 가져오기
+  const fetchComparison = useCallback(async (range: NetWorthRange, benchmarks: string[]) => {
+    if (benchmarks.length === 0) {
+      setComparison(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/portfolio/benchmarks?range=${range}&benchmarks=${benchmarks.map(encodeURIComponent).join(',')}`);
+      if (response.ok) {
+        setComparison(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching benchmark comparison:', err);
+    }
+  }, []);
+
+  const toggleComparedBenchmark = (id: string) => {
+    setComparedBenchmarks(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id].slice(-5));
+  };
+
+  // 혼합 벤치마크 등록 (비중을 입력한 지수만 구성 요소로 사용)
+  const handleCreateBlend = async () => {
+    setBlendError(null);
+    const components = Object.entries(blendForm.weights)
+      .filter(([, weight]) => weight && parseFloat(weight) > 0)
+      .map(([benchmarkId, weight]) => ({ benchmarkId, weight: parseFloat(weight) }));
+
+    try {
+      const response = await fetch('/api/benchmarks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: blendForm.name, currency: blendForm.currency, components }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setBlendError(data.error || '벤치마크 등록에 실패했습니다.');
+        return;
+      }
+      setBlendForm(prev => ({ ...prev, name: '' }));
+      await fetchCustomBenchmarks();
+      setComparedBenchmarks(prev => [...prev, data.customBenchmark.id].slice(-5));
+    } catch (err) {
+      console.error('Error creating custom benchmark:', err);
+      setBlendError('벤치마크 등록에 실패했습니다.');
+    }
+  };
+
+  const handleDeleteBlend = async (id: string) => {
+    if (!confirm('이 혼합 벤치마크를 삭제하시겠습니까?')) return;
+    try {
+      const response = await fetch(`/api/benchmarks/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setComparedBenchmarks(prev => prev.filter(item => item !== id));
+        await fetchCustomBenchmarks();
+      }
+    } catch (err) {
+      console.error('Error deleting custom benchmark:', err);
+    }
+  };
+
+  // 기간 시간가중(TWR)·금액가중(XIRR) 수익률 가져오기 (포트폴리오·금융기관·계좌별)
+  const fetchPeriodReturns = useCallback(async (from: string, to: string) => {
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (!from && !to) params.set('range', 'ALL');
+      const response = await fetch(`/api/portfolio/returns?${params.toString()}`);
+      if (response.ok) {
+        setPeriodReturns(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching period returns:', err);
+    }
+  }, []);
+
+  // 선택한 종목의 최근 1년 일봉 가져오기 (저장된 이력이 없으면 서버가 백필)
+  const fetchPriceHistory = useCallback(async (symbol: string) => {
+    try {
+      const from = new Date();
+      from.setFullYear(from.getFullYear() - 1);
+      const response = await fetch(`/api/prices/history?symbol=${encodeURIComponent(symbol)}&from=${from.toISOString().split('T')[0]}`);
+      if (response.ok) {
+        const data = await response.json();
+        setPriceHistory(data);
+      } else {
+        setPriceHistory(null);
+      }
+    } catch (err) {
+      console.error('Error fetching price history:', err);
+      setPriceHistory(null);
+    }
+  }, []);
+
   // 섹터 매핑 함수
   const getSector = (stockCode: string): string => {
     const sectorMapping: { [key: string]: string } = {
@@ -157,11 +448,7 @@ export default function AnalyticsPage() {
         sectorAllocation: {},
         topPerformers: [],
         riskMetrics: {
-          volatility: 0,
-          sharpeRatio: 0,
-          diversificationScore: 0,
-          beta: 0,
-          maxDrawdown: 0
+          diversificationScore: 0
         },
         performance: {
           kospiComparison: 0,
@@ -218,12 +505,7 @@ export default function AnalyticsPage() {
     // 리스크 지표 계산
     const returns = performanceData.map(p => p.returnPercent);
     const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
-    const volatility = Math.sqrt(variance);
-    const sharpeRatio = volatility > 0 ? avgReturn / volatility : 0;
     const diversificationScore = Math.min(100, holdings.length * 10);
-    const beta = volatility > 0 ? volatility / 20 : 1;
-    const maxDrawdown = Math.min(...returns, 0);
 
     return {
       totalValue,
@@ -233,11 +515,7 @@ export default function AnalyticsPage() {
       sectorAllocation,
       topPerformers,
       riskMetrics: {
-        volatility: Number(volatility.toFixed(2)),
-        sharpeRatio: Number(sharpeRatio.toFixed(2)),
-        diversificationScore: Number(diversificationScore.toFixed(1)),
-        beta: Number(beta.toFixed(2)),
-        maxDrawdown: Number(maxDrawdown.toFixed(2))
+        diversificationScore: Number(diversificationScore.toFixed(1))
       },
       performance: {
         kospiComparison: avgReturn - 5,
@@ -263,11 +541,50 @@ export default function AnalyticsPage() {
     const fetchAllData = async () => {
       await Promise.all([
         fetchHoldings(),
-        fetchAccounts()
+        fetchAccounts(),
+        fetchRealizedGains(),
+        fetchDividends()
       ]);
     };
     fetchAllData();
-  }, [fetchHoldings, fetchAccounts]);
+  }, [fetchHoldings, fetchAccounts, fetchRealizedGains, fetchDividends]);
+
+  useEffect(() => {
+    fetchNetWorth(netWorthRange);
+  }, [netWorthRange, fetchNetWorth]);
+
+  useEffect(() => {
+    fetchRiskMetrics(riskBenchmark);
+  }, [riskBenchmark, fetchRiskMetrics]);
+
+  useEffect(() => {
+    fetchCustomBenchmarks();
+  }, [fetchCustomBenchmarks]);
+
+  useEffect(() => {
+    fetchComparison(comparisonRange, comparedBenchmarks);
+  }, [comparisonRange, comparedBenchmarks, fetchComparison]);
+
+  useEffect(() => {
+    fetchPeriodReturns(returnsFrom, returnsTo);
+  }, [returnsFrom, returnsTo, fetchPeriodReturns]);
+
+  // 첫 번째 보유종목을 기본 차트 종목으로 선택
+  useEffect(() => {
+    if (!historySymbol && holdings.length > 0) {
+      setHistorySymbol(holdings[0].stockCode);
+    }
+  }, [holdings, historySymbol]);
+
+  useEffect(() => {
+    if (historySymbol) {
+      fetchPriceHistory(historySymbol);
+    }
+  }, [historySymbol, fetchPriceHistory]);
+
+  // 리스크 지표 표시 (이력이 부족해 계산하지 못한 값은 -)
+  const formatRatio = (value: number | null | undefined) => value == null ? '-' : value.toFixed(2);
+  const formatPercent = (value: number | null | undefined) => value == null ? '-' : `${value.toFixed(2)}%`;
 
   // 계좌 표시명 생성 함수
   const getAccountDisplayName = (account: Account) => {
@@ -348,6 +665,9 @@ export default function AnalyticsPage() {
                 {stockLastUpdate && (
                   <div>최종 업데이트: {new Date(stockLastUpdate).toLocaleTimeString()}</div>
                 )}
+                {pricesAsOf && (
+                  <div>평가 기준: {new Date(pricesAsOf).toLocaleString()}</div>
+                )}
               </div>
             </div>
           </div>
@@ -507,10 +827,10 @@ export default function AnalyticsPage() {
                     ⚡ 샤프 비율
                   </h3>
                   <p className="text-lg font-bold text-gray-900 dark:text-white">
-                    {analytics.riskMetrics.sharpeRatio}
+                    {formatRatio(risk?.sharpeRatio)}
                   </p>
                   <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                    위험 대비 수익
+                    소르티노: {formatRatio(risk?.sortinoRatio)}
                   </p>
                 </div>
 
@@ -519,12 +839,12 @@ export default function AnalyticsPage() {
                     📉 베타 (β)
                   </h3>
                   <p className={`text-lg font-bold ${
-                    analytics.riskMetrics.beta > 1 ? 'text-orange-600' : 'text-blue-600'
+                    (risk?.beta ?? 0) > 1 ? 'text-orange-600' : 'text-blue-600'
                   }`}>
-                    {analytics.riskMetrics.beta}
+                    {formatRatio(risk?.beta)}
                   </p>
                   <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                    {analytics.riskMetrics.beta > 1 ? '공격적' : '보수적'}
+                    {risk?.beta == null ? `${risk?.benchmark?.name || '벤치마크'} 대비` : risk.beta > 1 ? '공격적' : '보수적'}
                   </p>
                 </div>
 
@@ -547,10 +867,12 @@ export default function AnalyticsPage() {
                     📊 최대 낙폭
                   </h3>
                   <p className="text-lg font-bold text-red-600">
-                    {analytics.riskMetrics.maxDrawdown}%
+                    {formatPercent(risk?.maxDrawdown?.percent)}
                   </p>
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    최대 손실 구간
+                    {risk?.maxDrawdown && risk.maxDrawdown.percent < 0
+                      ? `${risk.maxDrawdown.peakDate} → ${risk.maxDrawdown.troughDate}`
+                      : '최대 손실 구간'}
                   </p>
                 </div>
 
@@ -559,14 +881,15 @@ export default function AnalyticsPage() {
                     ⚡ 변동성
                   </h3>
                   <p className={`text-lg font-bold ${
-                    analytics.riskMetrics.volatility > 30 ? 'text-red-600' : 
-                    analytics.riskMetrics.volatility > 20 ? 'text-orange-600' : 'text-green-600'
+                    (risk?.volatility ?? 0) > 30 ? 'text-red-600' : 
+                    (risk?.volatility ?? 0) > 20 ? 'text-orange-600' : 'text-green-600'
                   }`}>
-                    {analytics.riskMetrics.volatility}%
+                    {formatPercent(risk?.volatility)}
                   </p>
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    {analytics.riskMetrics.volatility > 30 ? '높음' : 
-                     analytics.riskMetrics.volatility > 20 ? '보통' : '낮음'}
+                    {risk?.volatility == null ? '연환산' :
+                     risk.volatility > 30 ? '높음' : 
+                     risk.volatility > 20 ? '보통' : '낮음'}
                   </p>
                 </div>
               </div>
@@ -600,20 +923,54 @@ export default function AnalyticsPage() {
                 </div>
 
                 <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
-                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                    ⚖️ 리스크 분석
-                  </h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      ⚖️ 리스크 분석
+                    </h3>
+                    <select
+                      value={riskBenchmark}
+                      onChange={(e) => setRiskBenchmark(e.target.value)}
+                      className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white text-sm"
+                    >
+                      {RISK_BENCHMARKS.map(benchmark => (
+                        <option key={benchmark.id} value={benchmark.id}>{benchmark.name} 대비</option>
+                      ))}
+                    </select>
+                  </div>
+                  {risk?.message && (
+                    <p className="mb-4 text-sm text-yellow-700 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/30 rounded-md p-3">
+                      {risk.message}
+                    </p>
+                  )}
                   <div className="space-y-4">
                     <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600 dark:text-gray-400">베타 계수</span>
+                      <span className="text-sm text-gray-600 dark:text-gray-400">베타 / 알파 (연)</span>
                       <span className="font-medium text-gray-900 dark:text-white">
-                        {analytics.riskMetrics.beta}
+                        {formatRatio(risk?.beta)} / {formatPercent(risk?.alpha)}
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600 dark:text-gray-400">최대 낙폭</span>
+                      <span className="text-sm text-gray-600 dark:text-gray-400">
+                        최대 낙폭{risk?.maxDrawdown?.recoveryDate ? ` (${risk.maxDrawdown.recoveryDate} 회복)` : ''}
+                      </span>
                       <span className="font-medium text-red-600">
-                        {analytics.riskMetrics.maxDrawdown}%
+                        {formatPercent(risk?.maxDrawdown?.percent)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600 dark:text-gray-400">
+                        1일 VaR / CVaR ({Math.round((risk?.valueAtRisk?.confidence ?? 0.95) * 100)}%, 역사적)
+                      </span>
+                      <span className="font-medium text-gray-900 dark:text-white text-right">
+                        {risk?.valueAtRisk
+                          ? `₩${Math.round(risk.valueAtRisk.historical.varAmount).toLocaleString()} / ₩${Math.round(risk.valueAtRisk.historical.cvarAmount).toLocaleString()}`
+                          : '-'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600 dark:text-gray-400">1일 VaR / CVaR (모수적)</span>
+                      <span className="font-medium text-gray-900 dark:text-white text-right">
+                        {formatPercent(risk?.valueAtRisk?.parametric.var)} / {formatPercent(risk?.valueAtRisk?.parametric.cvar)}
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
@@ -713,6 +1070,396 @@ export default function AnalyticsPage() {
                 </div>
               </div>
 
+              {/* 실현 vs 미실현 손익 */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+                  💰 실현 vs 미실현 손익 ({new Date().getFullYear()}년)
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">실현손익 (올해 매도분)</p>
+                    <p className={`text-xl font-bold break-all ${
+                      (realizedSummary?.totalRealizedGainKRW || 0) >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'
+                    }`}>
+                      {(realizedSummary?.totalRealizedGainKRW || 0) >= 0 ? '+' : ''}₩{Math.round(realizedSummary?.totalRealizedGainKRW || 0).toLocaleString()}
+                    </p>
+                    {!!realizedSummary?.totalFxGainKRW && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        가격 {formatSignedKRW(realizedSummary.totalPriceGainKRW)} · 환율 {formatSignedKRW(realizedSummary.totalFxGainKRW)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">미실현손익 (현재 보유분)</p>
+                    <p className={`text-xl font-bold break-all ${
+                      analytics.totalReturn >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'
+                    }`}>
+                      {analytics.totalReturn >= 0 ? '+' : ''}₩{Math.round(analytics.totalReturn).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">합계</p>
+                    <p className={`text-xl font-bold break-all ${
+                      (realizedSummary?.totalRealizedGainKRW || 0) + analytics.totalReturn >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'
+                    }`}>
+                      {(realizedSummary?.totalRealizedGainKRW || 0) + analytics.totalReturn >= 0 ? '+' : ''}
+                      ₩{Math.round((realizedSummary?.totalRealizedGainKRW || 0) + analytics.totalReturn).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {realizedItems.length > 0 ? (
+                  <div className="space-y-2">
+                    {realizedItems.map((item) => (
+                      <div
+                        key={`${item.accountId}_${item.stockCode}_${item.currency}`}
+                        className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">{item.stockName}</p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {item.stockCode} · 매도 {item.sellCount}회 · {item.quantity.toLocaleString()}주
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className={`font-medium ${
+                            item.realizedGainKRW >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'
+                          }`}>
+                            {item.realizedGainKRW >= 0 ? '+' : ''}₩{Math.round(item.realizedGainKRW).toLocaleString()}
+                          </p>
+                          {item.currency !== 'KRW' && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {item.realizedGain >= 0 ? '+' : ''}{item.realizedGain.toFixed(2)} {item.currency}
+                              {' · '}가격 {formatSignedKRW(item.priceGainKRW)} · 환율 {formatSignedKRW(item.fxGainKRW)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">올해 매도한 종목이 없습니다.</p>
+                )}
+              </div>
+
+              {/* 자산 추이 */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+                <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+                    📊 자산 추이
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    {netWorthAsOf && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">
+                        기준: {new Date(netWorthAsOf).toLocaleString()}
+                      </span>
+                    )}
+                    {NET_WORTH_RANGES.map(range => (
+                      <button
+                        key={range}
+                        onClick={() => setNetWorthRange(range)}
+                        className={`px-3 py-1 text-sm rounded-md ${
+                          netWorthRange === range
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        {range}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <NetWorthChart points={netWorthPoints} />
+              </div>
+
+              {/* 벤치마크 비교 */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+                <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+                    🏁 벤치마크 비교
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    {NET_WORTH_RANGES.map(range => (
+                      <button
+                        key={range}
+                        onClick={() => setComparisonRange(range)}
+                        className={`px-3 py-1 text-sm rounded-md ${
+                          comparisonRange === range
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        {range}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {[
+                    ...RISK_BENCHMARKS.map(benchmark => ({ id: benchmark.id, name: benchmark.name, custom: false })),
+                    ...customBenchmarks.map(benchmark => ({ id: benchmark.id, name: benchmark.name, custom: true })),
+                  ].map(benchmark => (
+                    <span
+                      key={benchmark.id}
+                      className={`inline-flex items-center px-3 py-1 text-sm rounded-full border cursor-pointer ${
+                        comparedBenchmarks.includes(benchmark.id)
+                          ? 'bg-blue-50 border-blue-500 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                      }`}
+                      onClick={() => toggleComparedBenchmark(benchmark.id)}
+                    >
+                      {benchmark.name}
+                      {benchmark.custom && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteBlend(benchmark.id);
+                          }}
+                          className="ml-2 text-gray-400 hover:text-red-500"
+                          title="삭제"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+                <BenchmarkComparisonChart
+                  portfolio={comparison?.portfolio || []}
+                  benchmarks={comparison?.benchmarks || []}
+                />
+                {comparison && comparison.benchmarks.length > 0 && (
+                  <div className="overflow-x-auto mt-4">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2 pr-4 font-medium">벤치마크</th>
+                          <th className="py-2 pr-4 font-medium text-right">누적 수익률</th>
+                          <th className="py-2 pr-4 font-medium text-right">초과 수익률</th>
+                          <th className="py-2 pr-4 font-medium text-right">추적오차</th>
+                          <th className="py-2 font-medium text-right">정보비율</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.benchmarks.map(benchmark => (
+                          <tr key={benchmark.id} className="border-b border-gray-100 dark:border-gray-700">
+                            <td className="py-2 pr-4 text-gray-900 dark:text-white">{benchmark.name}</td>
+                            <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatPercent(benchmark.cumulativeReturn)}</td>
+                            <td className={`py-2 pr-4 text-right ${benchmark.excessReturn >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                              {benchmark.excessReturn >= 0 ? '+' : ''}{benchmark.excessReturn.toFixed(2)}%p
+                            </td>
+                            <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatPercent(benchmark.trackingError)}</td>
+                            <td className="py-2 text-right text-gray-900 dark:text-white">{formatRatio(benchmark.informationRatio)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <details className="mt-4">
+                  <summary className="text-sm text-gray-600 dark:text-gray-400 cursor-pointer">혼합 벤치마크 만들기</summary>
+                  <div className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+                    <input
+                      type="text"
+                      placeholder="이름 (예: KOSPI 60 / S&P 40)"
+                      value={blendForm.name}
+                      onChange={(e) => setBlendForm(prev => ({ ...prev, name: e.target.value }))}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    {RISK_BENCHMARKS.map(benchmark => (
+                      <label key={benchmark.id} className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                        {benchmark.name}
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={blendForm.weights[benchmark.id] || ''}
+                          onChange={(e) => setBlendForm(prev => ({ ...prev, weights: { ...prev.weights, [benchmark.id]: e.target.value } }))}
+                          className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                        %
+                      </label>
+                    ))}
+                    <select
+                      value={blendForm.currency}
+                      onChange={(e) => setBlendForm(prev => ({ ...prev, currency: e.target.value as 'KRW' | 'LOCAL' }))}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="KRW">원화 환산</option>
+                      <option value="LOCAL">현지 통화</option>
+                    </select>
+                    <button
+                      onClick={handleCreateBlend}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      추가
+                    </button>
+                  </div>
+                  {blendError && (
+                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">{blendError}</p>
+                  )}
+                </details>
+              </div>
+
+              {/* 기간 수익률 (TWR / XIRR) */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+                <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+                    🧮 기간 수익률
+                  </h3>
+                  <div className="flex items-center gap-2 text-sm">
+                    <input
+                      type="date"
+                      value={returnsFrom}
+                      onChange={(e) => setReturnsFrom(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <span className="text-gray-500 dark:text-gray-400">~</span>
+                    <input
+                      type="date"
+                      value={returnsTo}
+                      onChange={(e) => setReturnsTo(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                  TWR은 매수·매도 시점과 금액의 영향을 제외한 운용 수익률, XIRR은 투자금 흐름을 반영한 연 환산 수익률입니다 (배당 포함, 원화 기준).
+                </p>
+                {periodReturns && periodReturns.portfolio.startDate ? (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2 pr-4 font-medium">구분</th>
+                          <th className="py-2 pr-4 font-medium">기간</th>
+                          <th className="py-2 pr-4 font-medium text-right">순매수</th>
+                          <th className="py-2 pr-4 font-medium text-right">배당</th>
+                          <th className="py-2 pr-4 font-medium text-right">손익</th>
+                          <th className="py-2 pr-4 font-medium text-right">TWR</th>
+                          <th className="py-2 pr-4 font-medium text-right">TWR (연)</th>
+                          <th className="py-2 font-medium text-right">XIRR</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          { key: 'portfolio', label: '전체 포트폴리오', result: periodReturns.portfolio, bold: true },
+                          ...periodReturns.institutions.map(item => ({ key: `institution-${item.id}`, label: item.name, result: item, bold: true })),
+                          ...periodReturns.accounts.map(item => ({ key: `account-${item.id}`, label: `└ ${item.name}`, result: item, bold: false })),
+                        ].map(({ key, label, result, bold }) => (
+                          <tr key={key} className="border-b border-gray-100 dark:border-gray-700">
+                            <td className={`py-2 pr-4 text-gray-900 dark:text-white ${bold ? 'font-medium' : ''}`}>{label}</td>
+                            <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">
+                              {result.startDate ? `${result.startDate} ~ ${result.endDate}` : '-'}
+                            </td>
+                            <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">
+                              ₩{Math.round(result.netInvested).toLocaleString()}
+                            </td>
+                            <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">
+                              ₩{Math.round(result.income).toLocaleString()}
+                            </td>
+                            <td className={`py-2 pr-4 text-right ${result.gain >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                              {result.gain >= 0 ? '+' : ''}₩{Math.round(result.gain).toLocaleString()}
+                            </td>
+                            <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatPercent(result.twr)}</td>
+                            <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatPercent(result.twrAnnualized)}</td>
+                            <td className="py-2 text-right text-gray-900 dark:text-white">{formatPercent(result.xirr)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    선택한 기간의 포트폴리오 이력이 없습니다.
+                  </div>
+                )}
+              </div>
+
+              {/* 종목 가격 추이 */}
+              {holdings.length > 0 && (
+                <div className="mb-8">
+                  <div className="flex items-center justify-between mb-2">
+                    <select
+                      value={historySymbol}
+                      onChange={(e) => setHistorySymbol(e.target.value)}
+                      className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white text-sm"
+                    >
+                      {Array.from(new Map(holdings.map(h => [h.stockCode, h])).values()).map(holding => (
+                        <option key={holding.stockCode} value={holding.stockCode}>
+                          {holding.stockName} ({holding.stockCode})
+                        </option>
+                      ))}
+                    </select>
+                    {priceHistory?.asOf && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        기준: {new Date(priceHistory.asOf).toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                  <PriceHistoryChart
+                    title="최근 1년 가격 추이"
+                    bars={priceHistory?.symbol === historySymbol ? priceHistory.bars : []}
+                    currency={priceHistory?.currency || holdings.find(h => h.stockCode === historySymbol)?.currency || 'KRW'}
+                    averagePrice={holdings.find(h => h.stockCode === historySymbol)?.averagePrice}
+                  />
+                </div>
+              )}
+
+              {/* 배당 수입 */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+                <MonthlyDividendChart data={monthlyDividends} />
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+                    💵 최근 12개월 배당 수입
+                  </h3>
+                  <div className="grid grid-cols-3 gap-4 mb-6">
+                    <div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">세전</p>
+                      <p className="text-lg font-bold text-gray-900 dark:text-white break-all">
+                        ₩{Math.round(dividendSummary?.ttmGrossAmountKRW || 0).toLocaleString()}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">세후</p>
+                      <p className="text-lg font-bold text-gray-900 dark:text-white break-all">
+                        ₩{Math.round(dividendSummary?.ttmNetAmountKRW || 0).toLocaleString()}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">취득가 대비</p>
+                      <p className="text-lg font-bold text-green-600">
+                        {(dividendSummary?.yieldOnCost || 0).toFixed(2)}%
+                      </p>
+                    </div>
+                  </div>
+                  {dividendIncome.filter(item => item.paymentCount > 0).length > 0 ? (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {dividendIncome.filter(item => item.paymentCount > 0).map((item) => (
+                        <div key={item.holdingId} className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                          <div>
+                            <p className="font-medium text-gray-900 dark:text-white">{item.stockName}</p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              {item.stockCode} · {item.paymentCount}회 지급
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {item.currency === 'USD' ? '$' : '₩'}{item.ttmGrossAmount.toLocaleString()}
+                            </p>
+                            <p className="text-xs text-green-600">
+                              YoC {item.yieldOnCost.toFixed(2)}%
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">최근 12개월 동안 받은 배당금이 없습니다.</p>
+                  )}
+                </div>
+              </div>
+
               {/* 계좌별 현황 */}
               {accounts.length > 0 && (
                 <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
@@ -0,0 +1,303 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navigation from '@/components/Navigation';
+
+interface ApiTokenItem {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const RESOURCE_LABELS: Record<string, string> = {
+  accounts: '계좌',
+  holdings: '보유 종목',
+  transactions: '거래 내역',
+  analytics: '분석·수익률',
+  alerts: '알림',
+  watchlist: '관심 종목',
+  events: '일정',
+  export: '내보내기',
+  profile: '내 정보',
+};
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+export default function ApiTokensPage() {
+  const [tokens, setTokens] = useState<ApiTokenItem[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<{ name: string; scopes: string[]; expiresInDays: number }>({
+    name: '',
+    scopes: [],
+    expiresInDays: 90,
+  });
+  const [newToken, setNewToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const router = useRouter();
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/api-tokens');
+      if (response.ok) {
+        const data = await response.json();
+        setTokens(data.tokens);
+        setAvailableScopes(data.scopes);
+      } else if (response.status === 401) {
+        router.push('/login');
+      }
+    } catch (error) {
+      console.error('Failed to fetch API tokens:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: string) => {
+    setForm(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope) ? prev.scopes.filter(item => item !== scope) : [...prev.scopes, scope],
+    }));
+  };
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setNewToken('');
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'API 토큰을 만들지 못했습니다.');
+        return;
+      }
+      setNewToken(data.token);
+      setSuccess(data.message);
+      setForm({ name: '', scopes: [], expiresInDays: 90 });
+      await fetchTokens();
+    } catch (error) {
+      console.error('API token create error:', error);
+      setError('서버 오류가 발생했습니다.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const revokeToken = async (token: ApiTokenItem) => {
+    if (!confirm(`"${token.name}" 토큰을 폐기하시겠습니까? 이 토큰을 쓰는 스크립트는 더 이상 동작하지 않습니다.`)) return;
+
+    setError('');
+    setSuccess('');
+    try {
+      const response = await fetch(`/api/api-tokens/${token.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'API 토큰을 폐기하지 못했습니다.');
+        return;
+      }
+      setSuccess(data.message);
+      await fetchTokens();
+    } catch (error) {
+      console.error('API token revoke error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
+  const getStatus = (token: ApiTokenItem) => {
+    if (token.revokedAt) return { label: '폐기됨', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' };
+    if (new Date(token.expiresAt).getTime() <= Date.now()) return { label: '만료됨', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' };
+    return { label: '사용 중', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' };
+  };
+
+  // read:holdings, write:holdings를 대상별로 묶어 표시
+  const resources = [...new Set(availableScopes.map(scope => scope.split(':')[1]))];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">API 토큰</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                스크립트에서 <code>Authorization: Bearer &lt;토큰&gt;</code> 헤더로 API를 호출할 수 있습니다. 토큰에는 선택한 권한만 부여됩니다.
+              </p>
+            </div>
+            <Link href="/security" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              보안 설정
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-700 dark:text-green-300">
+            {success}
+          </div>
+        )}
+
+        {/* 새로 발급한 토큰 (이번 한 번만 표시) */}
+        {newToken && (
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">새 API 토큰</h3>
+            <code className="block px-3 py-2 rounded bg-gray-100 dark:bg-gray-700 text-sm text-gray-900 dark:text-white break-all">
+              {newToken}
+            </code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newToken)}
+              className="mt-4 px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              복사
+            </button>
+          </div>
+        )}
+
+        {/* 토큰 만들기 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">새 토큰 만들기</h3>
+          <form onSubmit={createToken} className="space-y-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="name" className="block text-gray-700 dark:text-gray-300 mb-1">이름</label>
+                <input
+                  id="name"
+                  type="text"
+                  required
+                  maxLength={50}
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="예: 보유 종목 동기화 스크립트"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label htmlFor="expiresInDays" className="block text-gray-700 dark:text-gray-300 mb-1">만료</label>
+                <select
+                  id="expiresInDays"
+                  value={form.expiresInDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {EXPIRY_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days}일 후</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-gray-700 dark:text-gray-300 mb-2">권한</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {resources.map(resource => (
+                  <div key={resource} className="flex items-center gap-4 px-3 py-2 rounded border border-gray-200 dark:border-gray-700">
+                    <span className="w-24 text-gray-900 dark:text-white">{RESOURCE_LABELS[resource] || resource}</span>
+                    {(['read', 'write'] as const).map(access => {
+                      const scope = `${access}:${resource}`;
+                      if (!availableScopes.includes(scope)) return null;
+                      return (
+                        <label key={scope} className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={form.scopes.includes(scope)}
+                            onChange={() => toggleScope(scope)}
+                          />
+                          {access === 'read' ? '읽기' : '쓰기'}
+                        </label>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || !form.name.trim() || form.scopes.length === 0}
+              className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? '만드는 중...' : '토큰 만들기'}
+            </button>
+          </form>
+        </div>
+
+        {/* 토큰 목록 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">불러오는 중...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">만든 API 토큰이 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">이름</th>
+                    <th className="py-2 pr-4 font-medium">권한</th>
+                    <th className="py-2 pr-4 font-medium">마지막 사용</th>
+                    <th className="py-2 pr-4 font-medium">만료</th>
+                    <th className="py-2 font-medium text-right"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tokens.map(token => {
+                    const status = getStatus(token);
+                    return (
+                      <tr key={token.id} className="border-b border-gray-100 dark:border-gray-700">
+                        <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                          {token.name}
+                          <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                          <div className="font-mono text-xs text-gray-500 dark:text-gray-400">{token.tokenPrefix}…</div>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{token.scopes.join(', ')}</td>
+                        <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">
+                          {token.lastUsedAt
+                            ? `${new Date(token.lastUsedAt).toLocaleString('ko-KR')}${token.lastUsedIp ? ` (${token.lastUsedIp})` : ''}`
+                            : '사용 안 함'}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{new Date(token.expiresAt).toLocaleDateString('ko-KR')}</td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {!token.revokedAt && (
+                            <button onClick={() => revokeToken(token)} className="text-red-600 dark:text-red-400 hover:underline">
+                              폐기
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
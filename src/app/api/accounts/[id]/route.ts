@@ -1,35 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
+import { rebuildLedgers, COST_BASIS_METHODS } from '@/lib/ledger';
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
 
 // PUT: 계좌 정보 수정
 export async function PUT(
@@ -39,7 +11,7 @@ export async function PUT(
   console.log('PUT request received for account ID:', params.id);
   
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     console.log('User ID from token:', userId);
     
     if (!userId) {
@@ -53,7 +25,7 @@ export async function PUT(
     const requestBody = await request.json();
     console.log('Request body:', requestBody);
     
-    const { institutionId, accountNumber, accountType, nickname } = requestBody;
+    const { institutionId, accountNumber, accountType, nickname, costBasisMethod } = requestBody;
 
     if (!institutionId || !accountNumber || !accountType) {
       return NextResponse.json(
@@ -62,13 +34,15 @@ export async function PUT(
       );
     }
 
+    if (costBasisMethod && !COST_BASIS_METHODS.includes(costBasisMethod)) {
+      return NextResponse.json(
+        { error: '지원하지 않는 취득원가 산정 방식입니다.' },
+        { status: 400 }
+      );
+    }
+
     // 기존 계좌가 사용자의 것인지 확인
-    const existingAccount = await prisma.account.findFirst({
-      where: {
-        id: params.id,
-        userId: userId,
-      },
-    });
+    const existingAccount = await findOwnedAccount(userId, params.id);
 
     if (!existingAccount) {
       return NextResponse.json(
@@ -115,12 +89,18 @@ export async function PUT(
         accountNumber: accountNumber,
         accountType: accountType,
         nickname: nickname || null,
+        ...(costBasisMethod && { costBasisMethod: costBasisMethod }),
       },
       include: {
         institution: true,
       },
     });
 
+    // 취득원가 산정 방식이 바뀌면 계좌의 모든 원장을 다시 계산
+    if (costBasisMethod && costBasisMethod !== existingAccount.costBasisMethod) {
+      await rebuildLedgers({ userId, accountId: params.id });
+    }
+
     console.log('Account updated successfully:', updatedAccount);
     return NextResponse.json({ account: updatedAccount });
   } catch (error: any) {
@@ -158,7 +138,7 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -168,12 +148,7 @@ export async function DELETE(
     }
 
     // 기존 계좌가 사용자의 것인지 확인
-    const existingAccount = await prisma.account.findFirst({
-      where: {
-        id: params.id,
-        userId: userId,
-      },
-    });
+    const existingAccount = await findOwnedAccount(userId, params.id);
 
     if (!existingAccount) {
       return NextResponse.json(
@@ -1,44 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  console.log('사용 가능한 쿠키들:', request.cookies.getAll().map(c => c.name));
-  console.log('추출한 토큰:', token ? '존재함' : '없음');
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    console.log('토큰에서 추출한 사용자 ID:', payload.userId);
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
+import { COST_BASIS_METHODS } from '@/lib/ledger';
+import { verifyToken } from '@/lib/auth';
 
 // GET: 사용자의 계좌 목록 조회
 export async function GET(request: NextRequest) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -72,7 +40,7 @@ export async function GET(request: NextRequest) {
 // POST: 새 계좌 등록
 export async function POST(request: NextRequest) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -81,7 +49,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { institutionId, accountNumber, accountType, nickname } = await request.json();
+    const { institutionId, accountNumber, accountType, nickname, costBasisMethod } = await request.json();
 
     console.log('계좌 생성 요청 데이터:', {
       userId,
@@ -98,6 +66,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (costBasisMethod && !COST_BASIS_METHODS.includes(costBasisMethod)) {
+      return NextResponse.json(
+        { error: '지원하지 않는 취득원가 산정 방식입니다.' },
+        { status: 400 }
+      );
+    }
+
     // 계좌번호 중복 확인
     const existingAccount = await prisma.account.findFirst({
       where: {
@@ -149,6 +124,7 @@ export async function POST(request: NextRequest) {
         accountNumber: accountNumber,
         accountType: accountType,
         nickname: nickname || null,
+        ...(costBasisMethod && { costBasisMethod: costBasisMethod }),
       },
       include: {
         institution: true,
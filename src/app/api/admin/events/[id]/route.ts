@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { toMarketEventData, validateMarketEvent, type MarketEventInput } from '@/lib/marketEvents';
+
+// PUT: 관리자가 시장 이벤트 수정
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const adminUserId = await requireAdmin(request);
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: '관리자 권한이 필요합니다.' },
+        { status: 403 }
+      );
+    }
+
+    const existingEvent = await prisma.marketEvent.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingEvent) {
+      return NextResponse.json(
+        { error: '시장 이벤트를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const input: MarketEventInput = {
+      type: String(body.type || '').toUpperCase() as MarketEventInput['type'],
+      date: body.date,
+      time: body.time || null,
+      title: body.title || '',
+      description: body.description || null,
+      country: body.country || null,
+      stockCode: body.stockCode || null,
+      stockName: body.stockName || null,
+      importance: body.importance ? String(body.importance).toUpperCase() as MarketEventInput['importance'] : undefined,
+      uid: existingEvent.uid,
+    };
+
+    const validationError = validateMarketEvent(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.marketEvent.update({
+      where: { id: existingEvent.id },
+      data: toMarketEventData(input, existingEvent.source),
+    });
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error('Failed to update market event:', error);
+    return NextResponse.json(
+      { error: '시장 이벤트 수정 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 관리자가 시장 이벤트 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const adminUserId = await requireAdmin(request);
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: '관리자 권한이 필요합니다.' },
+        { status: 403 }
+      );
+    }
+
+    const existingEvent = await prisma.marketEvent.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingEvent) {
+      return NextResponse.json(
+        { error: '시장 이벤트를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.marketEvent.delete({ where: { id: existingEvent.id } });
+
+    return NextResponse.json({ message: '시장 이벤트가 삭제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to delete market event:', error);
+    return NextResponse.json(
+      { error: '시장 이벤트 삭제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import type { MarketEventType } from '@/generated/prisma';
+import {
+  MARKET_EVENT_TYPES,
+  parseMarketEventCsv,
+  parseMarketEventIcs,
+  saveMarketEvents,
+} from '@/lib/marketEvents';
+
+const MAX_IMPORT_LENGTH = 2 * 1024 * 1024;
+
+// POST: 관리자가 시장 이벤트 가져오기 ({ format: 'csv' | 'ics', content, defaultType? })
+// 형식 오류가 있는 행이 하나라도 있으면 아무것도 저장하지 않고 오류 목록을 반환합니다.
+export async function POST(request: NextRequest) {
+  try {
+    const adminUserId = await requireAdmin(request);
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: '관리자 권한이 필요합니다.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const format = String(body.format || '').toLowerCase();
+    const content = typeof body.content === 'string' ? body.content : '';
+    const defaultType = String(body.defaultType || 'ECONOMIC').toUpperCase() as MarketEventType;
+
+    if (format !== 'csv' && format !== 'ics') {
+      return NextResponse.json(
+        { error: '형식은 csv 또는 ics여야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!content.trim() || content.length > MAX_IMPORT_LENGTH) {
+      return NextResponse.json(
+        { error: '가져올 내용은 비어 있지 않고 2MB 이하여야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!MARKET_EVENT_TYPES.includes(defaultType)) {
+      return NextResponse.json(
+        { error: `기본 유형은 ${MARKET_EVENT_TYPES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    const { events, errors } = format === 'csv'
+      ? parseMarketEventCsv(content)
+      : parseMarketEventIcs(content, defaultType);
+
+    if (errors.length > 0 || events.length === 0) {
+      return NextResponse.json(
+        { error: events.length === 0 && errors.length === 0 ? '가져올 일정이 없습니다.' : '형식이 올바르지 않은 일정이 있습니다.', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveMarketEvents(events, format);
+    console.log(`시장 이벤트 ${format.toUpperCase()} 가져오기 완료: 신규 ${result.created}건, 갱신 ${result.updated}건`);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to import market events:', error);
+    return NextResponse.json(
+      { error: '시장 이벤트 가져오기 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
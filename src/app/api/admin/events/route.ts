@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import type { MarketEventType } from '@/generated/prisma';
+import { toBarDate } from '@/lib/priceHistory';
+import {
+  MARKET_EVENT_TYPES,
+  toKoreanDate,
+  toMarketEventData,
+  validateMarketEvent,
+  type MarketEventInput,
+} from '@/lib/marketEvents';
+
+// GET: 관리자가 시장 이벤트 조회 (?from=YYYY-MM-DD&to=YYYY-MM-DD&type=EARNINGS&stockCode=005930, 기본은 오늘부터)
+export async function GET(request: NextRequest) {
+  try {
+    const adminUserId = await requireAdmin(request);
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: '관리자 권한이 필요합니다.' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || toKoreanDate();
+    const to = searchParams.get('to');
+    const type = searchParams.get('type')?.toUpperCase() as MarketEventType | undefined;
+    const stockCode = searchParams.get('stockCode')?.toUpperCase();
+
+    if (type && !MARKET_EVENT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `이벤트 유형은 ${MARKET_EVENT_TYPES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    const events = await prisma.marketEvent.findMany({
+      where: {
+        date: { gte: toBarDate(from), ...(to && { lte: toBarDate(to) }) },
+        ...(type && { type }),
+        ...(stockCode && { stockCode }),
+      },
+      orderBy: [{ date: 'asc' }, { time: 'asc' }],
+      take: 500,
+    });
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Failed to fetch market events:', error);
+    return NextResponse.json(
+      { error: '시장 이벤트 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 관리자가 시장 이벤트 등록 ({ type, date, time?, title, description?, country?, stockCode?, stockName?, importance? })
+export async function POST(request: NextRequest) {
+  try {
+    const adminUserId = await requireAdmin(request);
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: '관리자 권한이 필요합니다.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input: MarketEventInput = {
+      type: String(body.type || '').toUpperCase() as MarketEventInput['type'],
+      date: body.date,
+      time: body.time || null,
+      title: body.title || '',
+      description: body.description || null,
+      country: body.country || null,
+      stockCode: body.stockCode || null,
+      stockName: body.stockName || null,
+      importance: body.importance ? String(body.importance).toUpperCase() as MarketEventInput['importance'] : undefined,
+    };
+
+    const validationError = validateMarketEvent(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.marketEvent.create({
+      data: toMarketEventData(input, 'manual'),
+    });
+
+    console.log(`Market event created: ${event.type} ${event.title} (${event.id})`);
+    return NextResponse.json({ event }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create market event:', error);
+    return NextResponse.json(
+      { error: '시장 이벤트 등록 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import type { AlertType } from '@/generated/prisma';
+import { validateAlertRule } from '@/lib/alerts';
+
+// PUT: 알림 규칙 수정 ({ type?, stockCode?, threshold?, note?, enabled? })
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const rule = await prisma.alertRule.findFirst({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: '알림 규칙을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const type = body.type !== undefined ? String(body.type).toUpperCase() : rule.type;
+    const stockCode = body.stockCode !== undefined
+      ? (typeof body.stockCode === 'string' && body.stockCode.trim() ? body.stockCode.trim().toUpperCase() : null)
+      : rule.stockCode;
+    const threshold = body.threshold !== undefined ? parseFloat(String(body.threshold)) : rule.threshold;
+
+    const validationError = validateAlertRule({ type, stockCode, threshold });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // 조건이 바뀌면 다시 충족될 때 알림을 보내도록 상태 초기화
+    const conditionChanged = type !== rule.type || stockCode !== rule.stockCode || threshold !== rule.threshold;
+
+    const updated = await prisma.alertRule.update({
+      where: { id: rule.id },
+      data: {
+        type: type as AlertType,
+        stockCode,
+        threshold,
+        ...(body.note !== undefined && { note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null }),
+        ...(typeof body.enabled === 'boolean' && { enabled: body.enabled }),
+        ...(conditionChanged && { active: false }),
+      },
+    });
+
+    return NextResponse.json({ rule: updated });
+  } catch (error) {
+    console.error('Failed to update alert rule:', error);
+    return NextResponse.json(
+      { error: '알림 규칙 수정 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 알림 규칙 삭제 (이미 받은 알림은 남겨둠)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const rule = await prisma.alertRule.findFirst({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: '알림 규칙을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.alertRule.delete({ where: { id: rule.id } });
+
+    return NextResponse.json({ message: '알림 규칙이 삭제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to delete alert rule:', error);
+    return NextResponse.json(
+      { error: '알림 규칙 삭제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { evaluateAlertRules } from '@/lib/alerts';
+
+// POST: 모든 사용자의 알림 규칙 평가 (스케줄 작업용)
+// cron 등에서는 x-cron-secret 헤더에 CRON_SECRET 값을 넣어 호출하고, 관리자는 로그인 상태로 호출할 수 있습니다.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCronRequest = !!cronSecret && request.headers.get('x-cron-secret') === cronSecret;
+
+    if (!isCronRequest) {
+      const adminUserId = await requireAdmin(request);
+
+      if (!adminUserId) {
+        return NextResponse.json(
+          { error: '관리자 권한이 필요합니다.' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.log(`알림 규칙 평가 시작 (${isCronRequest ? 'cron' : 'admin'})`);
+    const notifications = await evaluateAlertRules();
+
+    return NextResponse.json({ notifications });
+  } catch (error) {
+    console.error('Alert evaluation error:', error);
+    return NextResponse.json(
+      { error: '알림 규칙 평가 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import type { AlertType } from '@/generated/prisma';
+import { validateAlertRule } from '@/lib/alerts';
+
+// GET: 알림 규칙 목록
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const rules = await prisma.alertRule.findMany({
+      where: { userId: payload.userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Failed to fetch alert rules:', error);
+    return NextResponse.json(
+      { error: '알림 규칙 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 알림 규칙 등록 ({ type, stockCode?, threshold, note? })
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const type = String(body.type || '').toUpperCase();
+    const stockCode = typeof body.stockCode === 'string' && body.stockCode.trim() ? body.stockCode.trim().toUpperCase() : null;
+    const threshold = parseFloat(String(body.threshold));
+
+    const validationError = validateAlertRule({ type, stockCode, threshold });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        userId: payload.userId,
+        type: type as AlertType,
+        stockCode,
+        threshold,
+        note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+      },
+    });
+
+    console.log(`Alert rule created: ${rule.type} ${rule.stockCode || ''} ${rule.threshold} (${rule.id})`);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create alert rule:', error);
+    return NextResponse.json(
+      { error: '알림 규칙 등록 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { revokeApiToken } from '@/lib/apiTokens';
+
+// DELETE: 개인 API 토큰 폐기
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await revokeApiToken(payload.userId, params.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API 토큰을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`API token revoked: ${params.id}`);
+    return NextResponse.json({ message: 'API 토큰을 폐기했습니다.' });
+  } catch (error) {
+    console.error('API token revoke error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import {
+  API_TOKEN_SCOPES,
+  MAX_API_TOKEN_TTL_DAYS,
+  MAX_API_TOKENS_PER_USER,
+  countActiveApiTokens,
+  createApiToken,
+  listApiTokens,
+  validateScopes,
+} from '@/lib/apiTokens';
+
+// GET: 개인 API 토큰 목록과 선택할 수 있는 권한
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const tokens = await listApiTokens(payload.userId);
+
+    return NextResponse.json({ tokens, scopes: API_TOKEN_SCOPES });
+  } catch (error) {
+    console.error('API tokens fetch error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 개인 API 토큰 발급 - 원문 토큰은 이 응답에서만 확인 가능
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { name, scopes, expiresInDays = 90 } = await request.json();
+
+    if (!name || typeof name !== 'string' || !name.trim() || name.trim().length > 50) {
+      return NextResponse.json(
+        { error: '토큰 이름을 50자 이내로 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const scopesError = validateScopes(scopes);
+    if (scopesError) {
+      return NextResponse.json(
+        { error: scopesError },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_API_TOKEN_TTL_DAYS) {
+      return NextResponse.json(
+        { error: `만료 기간은 1일에서 ${MAX_API_TOKEN_TTL_DAYS}일 사이로 지정해주세요.` },
+        { status: 400 }
+      );
+    }
+
+    if ((await countActiveApiTokens(payload.userId)) >= MAX_API_TOKENS_PER_USER) {
+      return NextResponse.json(
+        { error: `API 토큰은 최대 ${MAX_API_TOKENS_PER_USER}개까지 만들 수 있습니다. 사용하지 않는 토큰을 폐기해주세요.` },
+        { status: 400 }
+      );
+    }
+
+    const { token, apiToken } = await createApiToken(payload.userId, name.trim(), scopes, expiresInDays);
+    console.log(`API token created for user ${payload.userId}: ${apiToken.id} (${apiToken.scopes})`);
+
+    return NextResponse.json(
+      {
+        message: 'API 토큰을 만들었습니다. 이 화면을 벗어나면 토큰을 다시 볼 수 없으니 안전한 곳에 보관하세요.',
+        token,
+        id: apiToken.id,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('API token create error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/prisma';
-import { generateToken } from '@/lib/auth';
+import { createSession, setSessionCookies } from '@/lib/sessions';
+import { createTwoFactorChallenge } from '@/lib/twoFactor';
+import {
+  consumeLoginRateLimit,
+  getLockoutSeconds,
+  recordFailedLogin,
+  recordLoginFailure,
+  recordSuccessfulLogin,
+  tooManyAttemptsResponse,
+} from '@/lib/loginSecurity';
 
 export async function POST(request: NextRequest) {
   try {
     const { email, password } = await request.json();
 
     // 입력값 검증
-    if (!email || !password) {
+    if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
       return NextResponse.json(
         { error: '이메일과 비밀번호를 입력해주세요.' },
         { status: 400 }
@@ -20,29 +29,69 @@ export async function POST(request: NextRequest) {
       where: { email }
     });
 
+    // IP별·계정별 시도 횟수 제한
+    const retryAfterSeconds = await consumeLoginRateLimit(request, email);
+    if (retryAfterSeconds > 0) {
+      await recordFailedLogin(request, email, 'RATE_LIMITED', user?.id);
+      return tooManyAttemptsResponse(retryAfterSeconds);
+    }
+
     if (!user) {
+      await recordFailedLogin(request, email, 'UNKNOWN_USER');
       return NextResponse.json(
         { error: '이메일 또는 비밀번호가 올바르지 않습니다.' },
         { status: 401 }
       );
     }
 
+    // 연속 실패로 잠긴 계정은 비밀번호를 확인하지 않음
+    const lockoutSeconds = getLockoutSeconds(user);
+    if (lockoutSeconds > 0) {
+      await recordFailedLogin(request, email, 'LOCKED', user.id);
+      return tooManyAttemptsResponse(lockoutSeconds, true);
+    }
+
     // 비밀번호 확인
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
+      await recordFailedLogin(request, email, 'INVALID_PASSWORD', user.id);
+      const lockedSeconds = await recordLoginFailure(user.id);
+      if (lockedSeconds > 0) {
+        return tooManyAttemptsResponse(lockedSeconds, true);
+      }
       return NextResponse.json(
         { error: '이메일 또는 비밀번호가 올바르지 않습니다.' },
         { status: 401 }
       );
     }
 
-    // JWT 토큰 생성
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username
-    });
+    // 이메일 인증 전에는 로그인 불가 (인증 메일 다시 보내기는 /api/auth/verify-email/resend)
+    if (!user.emailVerifiedAt) {
+      await recordFailedLogin(request, email, 'EMAIL_NOT_VERIFIED', user.id);
+      return NextResponse.json(
+        {
+          error: '이메일 인증이 필요합니다. 가입할 때 받은 메일의 링크를 열어주세요.',
+          emailVerificationRequired: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    // 2단계 인증을 켠 사용자는 코드 확인 후 세션 생성 (/api/auth/login/verify)
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        {
+          message: '인증 앱의 코드를 입력해주세요.',
+          twoFactorRequired: true,
+          challengeToken: createTwoFactorChallenge(user.id),
+        },
+        { status: 200 }
+      );
+    }
+
+    // 로그인 세션 생성 (액세스·리프레시 토큰 발급)
+    const tokens = await createSession(user, request);
 
     // 응답 생성
     const response = NextResponse.json(
@@ -58,13 +107,10 @@ export async function POST(request: NextRequest) {
     );
 
     // 쿠키에 토큰 설정
-    response.cookies.set('auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 60 * 60 * 24 * 7, // 7일
-      path: '/'
-    });
+    setSessionCookies(response, tokens);
+
+    // 로그인 기록 (처음 보는 기기면 알림)
+    await recordSuccessfulLogin(user, request, response);
 
     return response;
 
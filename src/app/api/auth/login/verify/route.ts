@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createSession, setSessionCookies } from '@/lib/sessions';
+import {
+  completeChallenge,
+  countRemainingRecoveryCodes,
+  recordChallengeFailure,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from '@/lib/twoFactor';
+import {
+  consumeLoginRateLimit,
+  getLockoutSeconds,
+  recordFailedLogin,
+  recordLoginFailure,
+  recordSuccessfulLogin,
+  tooManyAttemptsResponse,
+} from '@/lib/loginSecurity';
+
+// POST: 로그인 2단계 - 비밀번호 확인 때 받은 확인 토큰과 TOTP 코드(또는 복구 코드)로 세션 생성
+export async function POST(request: NextRequest) {
+  try {
+    const { challengeToken, code } = await request.json();
+
+    if (!challengeToken || !code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: '인증 코드를 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const challenge = verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      return NextResponse.json(
+        { error: '인증 시간이 지났거나 시도 횟수를 초과했습니다. 다시 로그인해주세요.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId }
+    });
+
+    if (!user || !user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: '다시 로그인해주세요.' },
+        { status: 401 }
+      );
+    }
+
+    // 코드 시도도 비밀번호와 같은 횟수 제한·잠금을 적용
+    const retryAfterSeconds = await consumeLoginRateLimit(request, user.email);
+    if (retryAfterSeconds > 0) {
+      await recordFailedLogin(request, user.email, 'RATE_LIMITED', user.id);
+      return tooManyAttemptsResponse(retryAfterSeconds);
+    }
+
+    const lockoutSeconds = getLockoutSeconds(user);
+    if (lockoutSeconds > 0) {
+      completeChallenge(challenge.jti);
+      await recordFailedLogin(request, user.email, 'LOCKED', user.id);
+      return tooManyAttemptsResponse(lockoutSeconds, true);
+    }
+
+    const method = await verifySecondFactor(user, code);
+    if (!method) {
+      await recordFailedLogin(request, user.email, 'INVALID_TWO_FACTOR', user.id);
+      const lockedSeconds = await recordLoginFailure(user.id);
+      if (lockedSeconds > 0) {
+        completeChallenge(challenge.jti);
+        return tooManyAttemptsResponse(lockedSeconds, true);
+      }
+
+      const remainingAttempts = recordChallengeFailure(challenge.jti);
+      console.log(`Two-factor login failed for user ${user.id} (${remainingAttempts} attempts left)`);
+      return NextResponse.json(
+        {
+          error: remainingAttempts > 0
+            ? '인증 코드가 올바르지 않습니다.'
+            : '시도 횟수를 초과했습니다. 다시 로그인해주세요.',
+          remainingAttempts,
+        },
+        { status: 401 }
+      );
+    }
+
+    completeChallenge(challenge.jti);
+
+    // 로그인 세션 생성 (액세스·리프레시 토큰 발급)
+    const tokens = await createSession(user, request);
+
+    const response = NextResponse.json(
+      {
+        message: '로그인이 완료되었습니다.',
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+        },
+        // 복구 코드로 로그인했으면 남은 개수를 알려줌
+        ...(method === 'recovery' && {
+          recoveryCodesRemaining: await countRemainingRecoveryCodes(user.id),
+        }),
+      },
+      { status: 200 }
+    );
+
+    setSessionCookies(response, tokens);
+
+    // 로그인 기록 (처음 보는 기기면 알림)
+    await recordSuccessfulLogin(user, request, response);
+
+    return response;
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
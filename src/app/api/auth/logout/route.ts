@@ -1,20 +1,30 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { REFRESH_COOKIE_NAME } from '@/lib/authToken';
+import { clearSessionCookies, findSessionByRefreshToken, revokeSession } from '@/lib/sessions';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // 현재 세션 폐기 (액세스 토큰이 만료됐으면 리프레시 토큰으로 세션 확인)
+    const payload = await verifyToken(request);
+    const refreshToken = request.cookies.get(REFRESH_COOKIE_NAME)?.value;
+
+    if (payload) {
+      await revokeSession(payload.userId, payload.sid, 'LOGOUT');
+    } else if (refreshToken) {
+      const session = await findSessionByRefreshToken(refreshToken);
+      if (session) {
+        await revokeSession(session.userId, session.id, 'LOGOUT');
+      }
+    }
+
     const response = NextResponse.json(
       { message: '로그아웃이 완료되었습니다.' },
       { status: 200 }
     );
 
     // 쿠키 삭제
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0,
-      path: '/'
-    });
+    clearSessionCookies(response);
 
     return response;
 
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sendPasswordReset } from '@/lib/accountTokens';
+
+// POST: 비밀번호 재설정 메일 요청 - 가입 여부를 알 수 없도록 항상 같은 응답
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: '이메일을 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true },
+    });
+
+    if (user) {
+      await sendPasswordReset(user);
+    } else {
+      console.log('Password reset requested for unknown email');
+    }
+
+    return NextResponse.json({
+      message: '가입된 이메일이면 비밀번호 재설정 링크를 보냈습니다. 메일함을 확인해주세요.',
+    });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { consumeAccountToken, sendPasswordChangedNotice } from '@/lib/accountTokens';
+import { hashPassword, validatePassword } from '@/lib/passwords';
+import { revokeUserSessions } from '@/lib/sessions';
+import { resetLoginFailures } from '@/lib/loginSecurity';
+import { revokeUserApiTokens } from '@/lib/apiTokens';
+
+// POST: 재설정 메일의 토큰으로 새 비밀번호 설정 - 모든 기기에서 로그아웃하고 API 토큰도 폐기, 로그인 잠금을 풂
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: '재설정 토큰이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumeAccountToken(token, 'PASSWORD_RESET');
+    if (!userId) {
+      return NextResponse.json(
+        { error: '재설정 링크가 만료되었거나 이미 사용되었습니다. 다시 요청해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { password: await hashPassword(password) },
+      select: { id: true, email: true, username: true },
+    });
+
+    // 메일의 링크를 열었으므로 이메일 인증도 된 것으로 처리
+    await prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    await resetLoginFailures(user.id, user.email);
+
+    const revokedCount = await revokeUserSessions(user.id, 'PASSWORD_RESET');
+    const revokedApiTokenCount = await revokeUserApiTokens(user.id);
+    console.log(`Password reset for user ${user.id} (${revokedCount} sessions, ${revokedApiTokenCount} API tokens revoked)`);
+
+    await sendPasswordChangedNotice(user);
+
+    return NextResponse.json({ message: '비밀번호가 재설정되었습니다. 새 비밀번호로 로그인해주세요.' });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
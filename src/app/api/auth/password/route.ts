@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyToken } from '@/lib/auth';
+import { hashPassword, validatePassword, verifyPassword } from '@/lib/passwords';
+import { revokeUserSessions } from '@/lib/sessions';
+import { sendPasswordChangedNotice } from '@/lib/accountTokens';
+
+// PUT: 비밀번호 변경 - 현재 비밀번호를 확인하고, 이 기기를 제외한 모든 기기는 로그아웃
+export async function PUT(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { currentPassword, newPassword } = await request.json();
+
+    if (!currentPassword || typeof currentPassword !== 'string') {
+      return NextResponse.json(
+        { error: '현재 비밀번호를 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, email: true, username: true, password: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '사용자를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      return NextResponse.json(
+        { error: '현재 비밀번호가 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (await verifyPassword(newPassword, user.password)) {
+      return NextResponse.json(
+        { error: '새 비밀번호가 현재 비밀번호와 같습니다.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: await hashPassword(newPassword) },
+    });
+
+    const revokedCount = await revokeUserSessions(user.id, 'PASSWORD_CHANGED', payload.sid);
+    console.log(`Password changed for user ${user.id} (${revokedCount} other sessions revoked)`);
+
+    await sendPasswordChangedNotice(user);
+
+    return NextResponse.json({ message: '비밀번호가 변경되었습니다. 다른 기기에서는 로그아웃되었습니다.' });
+  } catch (error) {
+    console.error('Password change error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_TTL_SECONDS, REFRESH_COOKIE_NAME } from '@/lib/authToken';
+import { clearSessionCookies, rotateSession, setSessionCookies, type RotateSessionResult } from '@/lib/sessions';
+
+async function rotate(request: NextRequest): Promise<RotateSessionResult> {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE_NAME)?.value;
+  if (!refreshToken) {
+    return { status: 'invalid' };
+  }
+  return rotateSession(refreshToken, request);
+}
+
+// 로그인 후 돌아갈 내부 경로만 허용
+function safeRedirectPath(value: string | null): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/api/')) {
+    return '/dashboard';
+  }
+  return value;
+}
+
+// GET: 페이지 이동 중 액세스 토큰 갱신 (middleware가 보냄) - 갱신 후 ?redirect= 경로로 이동
+export async function GET(request: NextRequest) {
+  const redirectPath = safeRedirectPath(request.nextUrl.searchParams.get('redirect'));
+
+  try {
+    const result = await rotate(request);
+
+    if (result.status === 'rotated' || result.status === 'concurrent') {
+      const response = NextResponse.redirect(new URL(redirectPath, request.url));
+      if (result.status === 'rotated') {
+        setSessionCookies(response, result.tokens);
+      }
+      return response;
+    }
+
+    const response = NextResponse.redirect(new URL('/login', request.url));
+    clearSessionCookies(response);
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+}
+
+// POST: 열려 있는 페이지에서 만료 전에 액세스 토큰 갱신
+export async function POST(request: NextRequest) {
+  try {
+    const result = await rotate(request);
+
+    if (result.status === 'concurrent') {
+      return NextResponse.json(
+        { error: '다른 요청에서 이미 토큰을 갱신했습니다.' },
+        { status: 409 }
+      );
+    }
+
+    if (result.status !== 'rotated') {
+      const response = NextResponse.json(
+        { error: result.status === 'reused' ? '보안을 위해 세션이 종료되었습니다. 다시 로그인해주세요.' : '로그인이 필요합니다.' },
+        { status: 401 }
+      );
+      clearSessionCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.json({
+      message: '토큰이 갱신되었습니다.',
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
+    setSessionCookies(response, result.tokens);
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
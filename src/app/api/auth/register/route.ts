@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/prisma';
+import { hashPassword, validatePassword } from '@/lib/passwords';
+import { sendEmailVerification } from '@/lib/accountTokens';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,9 +15,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (password.length < 6) {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
       return NextResponse.json(
-        { error: '비밀번호는 최소 6자 이상이어야 합니다.' },
+        { error: passwordError },
         { status: 400 }
       );
     }
@@ -54,7 +56,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 비밀번호 해싱
-    const hashedPassword = await bcrypt.hash(password, 12);
+    const hashedPassword = await hashPassword(password);
 
     // 사용자 생성
     const user = await prisma.user.create({
@@ -71,9 +73,13 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // 이메일 인증을 마쳐야 로그인할 수 있음
+    await sendEmailVerification(user);
+
     return NextResponse.json(
       { 
-        message: '회원가입이 완료되었습니다.',
+        message: '회원가입이 완료되었습니다. 이메일로 보낸 링크를 열어 인증을 완료해주세요.',
+        emailVerificationRequired: true,
         user 
       },
       { status: 201 }
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyToken } from '@/lib/auth';
+import { verifySecondFactor } from '@/lib/twoFactor';
+
+// POST: 2단계 인증 해제 - 현재 코드(또는 복구 코드)를 확인합니다 (관리자는 해제 불가)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: '인증 코드를 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, role: true, totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '사용자를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (user.role === 'ADMIN') {
+      return NextResponse.json(
+        { error: '관리자 계정은 2단계 인증을 해제할 수 없습니다.' },
+        { status: 403 }
+      );
+    }
+
+    if (!user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: '2단계 인증을 사용하고 있지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        { error: '인증 코드가 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+      prisma.user.update({
+        where: { id: user.id },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      }),
+    ]);
+
+    console.log(`Two-factor disabled for user ${user.id}`);
+
+    return NextResponse.json({ message: '2단계 인증이 해제되었습니다.' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
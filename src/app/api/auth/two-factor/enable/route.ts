@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyToken } from '@/lib/auth';
+import { revokeUserSessions } from '@/lib/sessions';
+import { consumeTotpCode, regenerateRecoveryCodes } from '@/lib/twoFactor';
+
+// POST: 인증 앱의 코드를 확인하고 2단계 인증을 켭니다 - 복구 코드는 이 응답에서만 보여줌
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: '인증 코드를 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '사용자를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: '이미 2단계 인증을 사용 중입니다.' },
+        { status: 409 }
+      );
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: '2단계 인증 등록을 먼저 시작해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return NextResponse.json(
+        { error: '인증 코드가 올바르지 않습니다. 기기의 시간이 정확한지 확인해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date() },
+    });
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    // 2단계 인증 없이 로그인한 다른 기기는 로그아웃
+    const revokedCount = await revokeUserSessions(user.id, 'TWO_FACTOR_ENABLED', payload.sid);
+    console.log(`Two-factor enabled for user ${user.id} (${revokedCount} other sessions revoked)`);
+
+    return NextResponse.json({
+      message: '2단계 인증이 설정되었습니다.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
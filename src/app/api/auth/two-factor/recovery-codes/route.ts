@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyToken } from '@/lib/auth';
+import { consumeTotpCode, regenerateRecoveryCodes } from '@/lib/twoFactor';
+
+// POST: 복구 코드 다시 발급 - 인증 앱의 현재 코드를 확인하고 기존 코드는 모두 폐기
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: '인증 코드를 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    });
+
+    if (!user || !user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: '2단계 인증을 사용하고 있지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return NextResponse.json(
+        { error: '인증 코드가 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    return NextResponse.json({
+      message: '복구 코드를 새로 발급했습니다.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('Recovery code regeneration error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyToken } from '@/lib/auth';
+import { countRemainingRecoveryCodes } from '@/lib/twoFactor';
+
+// GET: 2단계 인증 설정 상태
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { role: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '사용자를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      // 관리자는 2단계 인증을 끌 수 없음
+      required: user.role === 'ADMIN',
+      recoveryCodesRemaining: user.totpEnabledAt ? await countRemainingRecoveryCodes(payload.userId) : 0,
+    });
+  } catch (error) {
+    console.error('Failed to fetch two-factor status:', error);
+    return NextResponse.json(
+      { error: '2단계 인증 정보를 불러오는 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
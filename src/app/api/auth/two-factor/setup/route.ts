@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyToken } from '@/lib/auth';
+import { toQrCodeSvg } from '@/lib/qrCode';
+import { buildTotpProvisioningUri, generateTotpSecret } from '@/lib/totp';
+
+// POST: 2단계 인증 등록 시작 - 새 비밀키와 인증 앱 등록용 QR 코드 발급 (enable에서 코드를 확인해야 켜짐)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { email: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '사용자를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: '이미 2단계 인증을 사용 중입니다.' },
+        { status: 409 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: payload.userId },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    });
+
+    const otpauthUrl = buildTotpProvisioningUri(secret, user.email);
+
+    return NextResponse.json({
+      secret,
+      otpauthUrl,
+      qrCodeSvg: toQrCodeSvg(otpauthUrl),
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sendEmailVerification } from '@/lib/accountTokens';
+
+// POST: 인증 메일 다시 보내기 - 가입 여부를 알 수 없도록 항상 같은 응답
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: '이메일을 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true, emailVerifiedAt: true },
+    });
+
+    if (user && !user.emailVerifiedAt) {
+      await sendEmailVerification(user);
+    }
+
+    return NextResponse.json({
+      message: '인증이 필요한 계정이면 인증 메일을 보냈습니다. 메일함을 확인해주세요.',
+    });
+  } catch (error) {
+    console.error('Verification email resend error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
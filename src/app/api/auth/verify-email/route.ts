@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { consumeAccountToken } from '@/lib/accountTokens';
+
+// POST: 인증 메일의 토큰으로 이메일 인증 완료
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: '인증 토큰이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumeAccountToken(token, 'EMAIL_VERIFICATION');
+    if (!userId) {
+      return NextResponse.json(
+        { error: '인증 링크가 만료되었거나 이미 사용되었습니다. 인증 메일을 다시 받아주세요.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    console.log(`Email verified for user ${userId}`);
+    return NextResponse.json({ message: '이메일 인증이 완료되었습니다. 로그인해주세요.' });
+  } catch (error) {
+    console.error('Email verification error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// DELETE: 혼합 벤치마크 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const customBenchmark = await prisma.customBenchmark.findFirst({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!customBenchmark) {
+      return NextResponse.json(
+        { error: '벤치마크를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.customBenchmark.delete({ where: { id: customBenchmark.id } });
+
+    return NextResponse.json({ message: '벤치마크가 삭제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to delete custom benchmark:', error);
+    return NextResponse.json(
+      { error: '벤치마크 삭제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
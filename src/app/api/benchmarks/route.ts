@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { BENCHMARKS, getBenchmark, validateCustomBenchmark } from '@/lib/benchmarks';
+
+// GET: 비교 가능한 기본 지수와 사용자 정의 혼합 벤치마크 목록
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const customBenchmarks = await prisma.customBenchmark.findMany({
+      where: { userId: payload.userId },
+      include: { components: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ benchmarks: BENCHMARKS, customBenchmarks });
+  } catch (error) {
+    console.error('Failed to fetch benchmarks:', error);
+    return NextResponse.json(
+      { error: '벤치마크 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 혼합 벤치마크 등록 ({ name, currency: 'KRW' | 'LOCAL', components: [{ benchmarkId, weight }] })
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const currency = body.currency || 'KRW';
+    const components = Array.isArray(body.components)
+      ? body.components.map((component: { benchmarkId?: string; weight?: number | string }) => ({
+          benchmarkId: component.benchmarkId,
+          weight: component.weight !== undefined ? parseFloat(String(component.weight)) : undefined,
+        }))
+      : body.components;
+
+    const validationError = validateCustomBenchmark({ name, currency, components });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.customBenchmark.findFirst({
+      where: { userId: payload.userId, name },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: '같은 이름의 벤치마크가 이미 있습니다.' },
+        { status: 409 }
+      );
+    }
+
+    const customBenchmark = await prisma.customBenchmark.create({
+      data: {
+        userId: payload.userId,
+        name,
+        currency,
+        components: {
+          create: components.map((component: { benchmarkId: string; weight: number }) => ({
+            benchmarkId: getBenchmark(component.benchmarkId)!.id,
+            weight: component.weight,
+          })),
+        },
+      },
+      include: { components: true },
+    });
+
+    console.log(`Custom benchmark created: ${customBenchmark.name} (${customBenchmark.id})`);
+    return NextResponse.json({ customBenchmark }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create custom benchmark:', error);
+    return NextResponse.json(
+      { error: '벤치마크 등록 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
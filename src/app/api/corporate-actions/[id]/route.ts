@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rebuildLedgers, validateCorporateAction } from '@/lib/ledger';
+import type { CorporateActionType } from '@/generated/prisma';
+
+// 기업 이벤트 변경 전후로 영향을 받는 종목들의 원장 재계산
+async function rebuildAffectedLedgers(userId: string, stockCodes: (string | null)[]) {
+  const uniqueCodes = new Set(stockCodes.filter((code): code is string => !!code));
+  for (const stockCode of uniqueCodes) {
+    await rebuildLedgers({ userId, stockCode });
+  }
+}
+
+// PUT: 기업 이벤트 수정
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const existingAction = await prisma.corporateAction.findFirst({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!existingAction) {
+      return NextResponse.json(
+        { error: '기업 이벤트를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { type, stockCode, newStockCode, newStockName, ratio, effectiveDate, description } = body;
+
+    const validationError = validateCorporateAction({
+      type,
+      stockCode,
+      newStockCode,
+      newStockName,
+      ratio: ratio !== undefined ? parseFloat(ratio) : undefined,
+      effectiveDate,
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const changesCode = (type === 'CODE_CHANGE' || type === 'MERGER') && newStockCode;
+
+    if (changesCode) {
+      const existingChange = await prisma.corporateAction.findFirst({
+        where: {
+          id: { not: params.id },
+          userId: payload.userId,
+          stockCode: stockCode,
+          newStockCode: { not: null },
+        },
+      });
+
+      if (existingChange) {
+        return NextResponse.json(
+          { error: '이미 코드 변경 또는 합병이 등록된 종목입니다.' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const corporateAction = await prisma.corporateAction.update({
+      where: { id: params.id },
+      data: {
+        type: type as CorporateActionType,
+        stockCode: stockCode,
+        newStockCode: changesCode ? newStockCode : null,
+        newStockName: newStockName || null,
+        ratio: type === 'CODE_CHANGE' ? 1 : parseFloat(ratio),
+        effectiveDate: new Date(effectiveDate),
+        description: description || null,
+      },
+    });
+
+    await rebuildAffectedLedgers(payload.userId, [
+      existingAction.stockCode,
+      existingAction.newStockCode,
+      corporateAction.stockCode,
+      corporateAction.newStockCode,
+    ]);
+
+    return NextResponse.json({
+      message: '기업 이벤트가 수정되었습니다.',
+      corporateAction,
+    });
+  } catch (error) {
+    console.error('Failed to update corporate action:', error);
+    return NextResponse.json(
+      { error: '기업 이벤트 수정 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 기업 이벤트 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const existingAction = await prisma.corporateAction.findFirst({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!existingAction) {
+      return NextResponse.json(
+        { error: '기업 이벤트를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.corporateAction.delete({
+      where: { id: params.id },
+    });
+
+    await rebuildAffectedLedgers(payload.userId, [existingAction.stockCode, existingAction.newStockCode]);
+
+    return NextResponse.json({ message: '기업 이벤트가 삭제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to delete corporate action:', error);
+    return NextResponse.json(
+      { error: '기업 이벤트 삭제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
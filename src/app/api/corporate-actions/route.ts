@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rebuildLedgers, validateCorporateAction } from '@/lib/ledger';
+import type { CorporateActionType } from '@/generated/prisma';
+
+// GET: 기업 이벤트 목록 조회
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const stockCode = searchParams.get('stockCode');
+
+    const corporateActions = await prisma.corporateAction.findMany({
+      where: {
+        userId: payload.userId,
+        ...(stockCode && {
+          OR: [
+            { stockCode: stockCode },
+            { newStockCode: stockCode },
+          ],
+        }),
+      },
+      orderBy: {
+        effectiveDate: 'desc',
+      },
+    });
+
+    return NextResponse.json({ corporateActions });
+  } catch (error) {
+    console.error('Failed to fetch corporate actions:', error);
+    return NextResponse.json(
+      { error: '기업 이벤트 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 기업 이벤트 등록 후 관련 보유종목 재계산
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { type, stockCode, newStockCode, newStockName, ratio, effectiveDate, description } = body;
+
+    const validationError = validateCorporateAction({
+      type,
+      stockCode,
+      newStockCode,
+      newStockName,
+      ratio: ratio !== undefined ? parseFloat(ratio) : undefined,
+      effectiveDate,
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const changesCode = (type === 'CODE_CHANGE' || type === 'MERGER') && newStockCode;
+
+    // 하나의 종목코드는 한 번만 다른 코드로 변경될 수 있음
+    if (changesCode) {
+      const existingChange = await prisma.corporateAction.findFirst({
+        where: {
+          userId: payload.userId,
+          stockCode: stockCode,
+          newStockCode: { not: null },
+        },
+      });
+
+      if (existingChange) {
+        return NextResponse.json(
+          { error: '이미 코드 변경 또는 합병이 등록된 종목입니다.' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const corporateAction = await prisma.corporateAction.create({
+      data: {
+        userId: payload.userId,
+        type: type as CorporateActionType,
+        stockCode: stockCode,
+        newStockCode: changesCode ? newStockCode : null,
+        newStockName: newStockName || null,
+        ratio: type === 'CODE_CHANGE' ? 1 : parseFloat(ratio),
+        effectiveDate: new Date(effectiveDate),
+        description: description || null,
+      },
+    });
+
+    console.log('기업 이벤트 등록:', corporateAction);
+
+    // 대상 종목과 변경 후 종목의 원장 재계산
+    await rebuildLedgers({ userId: payload.userId, stockCode: stockCode });
+    if (corporateAction.newStockCode) {
+      await rebuildLedgers({ userId: payload.userId, stockCode: corporateAction.newStockCode });
+    }
+
+    return NextResponse.json({ corporateAction }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create corporate action:', error);
+    return NextResponse.json(
+      { error: '기업 이벤트 등록 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
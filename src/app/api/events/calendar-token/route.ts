@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// GET: 캘린더 구독 토큰 조회 (없으면 null)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { calendarToken: true },
+    });
+
+    return NextResponse.json({ token: user?.calendarToken || null });
+  } catch (error) {
+    console.error('Failed to fetch calendar token:', error);
+    return NextResponse.json(
+      { error: '캘린더 구독 정보 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 캘린더 구독 토큰 발급 (기존 토큰이 있으면 새로 바꿔 이전 구독 주소는 더 이상 동작하지 않음)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: payload.userId },
+      data: { calendarToken: crypto.randomBytes(24).toString('base64url') },
+      select: { calendarToken: true },
+    });
+
+    console.log(`Calendar token issued for ${payload.userId}`);
+    return NextResponse.json({ token: user.calendarToken });
+  } catch (error) {
+    console.error('Failed to issue calendar token:', error);
+    return NextResponse.json(
+      { error: '캘린더 구독 주소 발급 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 캘린더 구독 해제
+export async function DELETE(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: payload.userId },
+      data: { calendarToken: null },
+    });
+
+    return NextResponse.json({ message: '캘린더 구독 주소가 해제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to revoke calendar token:', error);
+    return NextResponse.json(
+      { error: '캘린더 구독 해제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import type { MarketEventImportance, MarketEventType } from '@/generated/prisma';
+import { toBarDate } from '@/lib/priceHistory';
+import {
+  MARKET_EVENT_IMPORTANCES,
+  MARKET_EVENT_TYPES,
+  listUserEvents,
+  toIcsCalendar,
+  toKoreanDate,
+} from '@/lib/marketEvents';
+
+const PAST_DAYS = 30; // 지난 일정도 잠시 남겨 캘린더에서 갑자기 사라지지 않게 함
+const FUTURE_DAYS = 365;
+
+// GET: 캘린더 구독 피드 (?token=...&types=EX_DIVIDEND,DIVIDEND_PAYMENT,EARNINGS,ECONOMIC&minPriority=high|medium|low)
+// 캘린더 앱은 쿠키를 보내지 않으므로 사용자별 구독 토큰으로 인증합니다.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+
+    const user = token
+      ? await prisma.user.findUnique({
+          where: { calendarToken: token },
+          select: { id: true, username: true },
+        })
+      : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '유효하지 않은 캘린더 구독 주소입니다.' },
+        { status: 401 }
+      );
+    }
+
+    const typesParam = searchParams.get('types');
+    const types = typesParam
+      ? typesParam.split(',').map(type => type.trim().toUpperCase()).filter(Boolean) as MarketEventType[]
+      : undefined;
+    const minPriority = searchParams.get('minPriority')?.toUpperCase() as MarketEventImportance | undefined;
+
+    if (types && (types.length === 0 || types.some(type => !MARKET_EVENT_TYPES.includes(type)))) {
+      return NextResponse.json(
+        { error: `types는 ${MARKET_EVENT_TYPES.join(', ')} 중에서 골라야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    if (minPriority && !MARKET_EVENT_IMPORTANCES.includes(minPriority)) {
+      return NextResponse.json(
+        { error: 'minPriority는 high, medium, low 중 하나여야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const today = toBarDate(toKoreanDate());
+    const events = await listUserEvents(user.id, {
+      from: new Date(today.getTime() - PAST_DAYS * 24 * 60 * 60 * 1000),
+      to: new Date(today.getTime() + FUTURE_DAYS * 24 * 60 * 60 * 1000),
+      types,
+      minImportance: minPriority,
+    });
+
+    console.log(`Calendar feed for ${user.id}: ${events.length} events`);
+
+    return new NextResponse(toIcsCalendar(events, `${user.username} 투자 일정`), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: '캘린더 피드 생성 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,495 +1,30 @@
-import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-
-// 이벤트 타입 정의
-interface EventAlert {
-  id: string;
-  type: 'dividend' | 'earnings' | 'news' | 'economic';
-  stockCode?: string;
-  stockName: string;
-  message: string;
-  date: string;
-  priority: 'high' | 'medium' | 'low';
-  country?: string; // 국가 정보 추가
-}
-
-// 실제 API를 사용한 이벤트 데이터 수집
-async function fetchUpcomingEvents(): Promise<EventAlert[]> {
-  const events: EventAlert[] = [];
-
-  try {
-    // 1. 경제 캘린더 - 실제 패턴 기반
-    const economicEvents = await fetchEconomicCalendar();
-    events.push(...economicEvents);
-
-    // 2. 배당 캘린더 - Yahoo Finance API 사용
-    const dividendEvents = await fetchDividendCalendar();
-    events.push(...dividendEvents);
-
-    // 3. 실적 발표 - 실제 API 호출
-    const earningsEvents = await fetchEarningsCalendar();
-    events.push(...earningsEvents);
-
-    // 4. 주요 뉴스/이벤트 - RSS 피드 및 공공 API
-    const newsEvents = await fetchMarketNews();
-    events.push(...newsEvents);
-
-  } catch (error) {
-    console.error('이벤트 데이터 수집 실패:', error);
-  }
-
-  // 오늘부터 모레까지 필터링하고 날짜 오름차순으로 정렬 (한국시간 기준)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0); // 오늘 자정으로 설정
-  
-  const dayAfterTomorrow = new Date(today);
-  dayAfterTomorrow.setDate(dayAfterTomorrow.getDate() + 2);
-  dayAfterTomorrow.setHours(23, 59, 59, 999); // 모레 밤 11시 59분까지
-  
-  // 중복 제거 로직 - 같은 날짜, 같은 국가, 유사한 내용의 이벤트 제거
-  const filteredEvents = events.filter(event => {
-    const eventDate = new Date(event.date);
-    return eventDate >= today && eventDate <= dayAfterTomorrow; // 오늘부터 모레까지
-  });
-
-  const uniqueEvents = new Map<string, EventAlert>();
-  
-  filteredEvents.forEach(event => {
-    // 더 정확한 중복 키 생성
-    let duplicateKey = '';
-    
-    // 미국 고용통계 중복 처리
-    if (event.message.includes('고용통계') && event.stockName.includes('미국')) {
-      duplicateKey = `${event.date}-미국-고용통계`;
-    }
-    // CPI 중복 처리  
-    else if (event.message.includes('CPI') && event.stockName.includes('미국')) {
-      duplicateKey = `${event.date}-미국-CPI`;
-    }
-    // 한국은행 금리 중복 처리
-    else if (event.message.includes('한국은행') || event.message.includes('금리')) {
-      duplicateKey = `${event.date}-한국-금리`;
-    }
-    // 일반적인 중복 키
-    else {
-      duplicateKey = `${event.date}-${event.stockName}-${event.type}`;
-    }
-    
-    // 이미 존재하는 이벤트가 있으면 우선순위 비교
-    const existing = uniqueEvents.get(duplicateKey);
-    if (!existing) {
-      uniqueEvents.set(duplicateKey, event);
-    } else {
-      // economic 타입을 news 타입보다 우선시
-      if (event.type === 'economic' && existing.type === 'news') {
-        uniqueEvents.set(duplicateKey, event);
-      }
-      // 높은 우선순위 유지
-      else if (event.priority === 'high' && existing.priority !== 'high') {
-        uniqueEvents.set(duplicateKey, event);
-      }
-    }
-  });
-  
-  return Array.from(uniqueEvents.values())
-    .sort((a, b) => {
-      // 날짜 우선 오름차순 정렬 (한국시간 기준)
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return dateA - dateB;
-    }); // 개수 제한 제거
-}
-
-// 경제 캘린더 - 실제 패턴 기반 (기존 유지)
-async function fetchEconomicCalendar(): Promise<EventAlert[]> {
-  const events: EventAlert[] = [];
-  const today = new Date();
-  const currentMonth = today.getMonth();
-  const currentDate = today.getDate();
-
-  // 월별 주요 경제 지표 발표일 (국가별)
-  const economicSchedule = [
-    // 한국 경제지표
-    { day: 1, name: '제조업 PMI', priority: 'medium' as const, country: '🇰🇷 한국' },
-    { day: 3, name: '서비스업 PMI', priority: 'medium' as const, country: '🇰🇷 한국' },
-    { day: 15, name: '소비자물가지수', priority: 'high' as const, country: '🇰🇷 한국' },
-    { day: 20, name: '무역수지', priority: 'medium' as const, country: '🇰🇷 한국' },
-    { day: 25, name: '산업생산지수', priority: 'medium' as const, country: '🇰🇷 한국' },
-    // 미국 경제지표
-    { day: 2, name: 'ISM 제조업', priority: 'high' as const, country: '🇺🇸 미국' },
-    { day: 5, name: '고용통계', priority: 'high' as const, country: '🇺🇸 미국' },
-    { day: 12, name: 'CPI', priority: 'high' as const, country: '🇺🇸 미국' },
-    { day: 18, name: 'FOMC 회의', priority: 'high' as const, country: '🇺🇸 미국' },
-    // 중국 경제지표
-    { day: 1, name: '제조업 PMI', priority: 'medium' as const, country: '🇨🇳 중국' },
-    { day: 10, name: 'CPI/PPI', priority: 'medium' as const, country: '🇨🇳 중국' },
-    // 일본 경제지표
-    { day: 1, name: '제조업 PMI', priority: 'low' as const, country: '🇯🇵 일본' },
-    { day: 28, name: 'BoJ 정책회의', priority: 'medium' as const, country: '🇯🇵 일본' }
-  ];
-
-  economicSchedule.forEach(item => {
-    // 오늘 이후 날짜만 포함 (다음 달 이벤트도 포함)
-    let eventDate: Date;
-    if (item.day > currentDate) {
-      // 이번 달의 미래 날짜
-      eventDate = new Date(today.getFullYear(), currentMonth, item.day);
-    } else {
-      // 다음 달의 해당 날짜
-      eventDate = new Date(today.getFullYear(), currentMonth + 1, item.day);
-    }
-    
-    // 7일 이내의 이벤트만 포함 (테스트용으로 임시 확장)
-    const daysDiff = Math.ceil((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    if (daysDiff >= 0 && daysDiff <= 7) {
-      const dateStr = `${eventDate.getMonth() + 1}월 ${eventDate.getDate()}일`;
-      
-      // 국가별 시간대 조정 (한국 시간 기준)
-      let timeStr = '';
-      if (item.country.includes('미국')) {
-        timeStr = '23:30'; // 미국 동부시간 10:30 AM = 한국시간 23:30 (다음날)
-      } else if (item.country.includes('중국')) {
-        timeStr = '10:00'; // 중국 시간 09:00 = 한국시간 10:00
-      } else if (item.country.includes('일본')) {
-        timeStr = '09:30'; // 일본 시간 09:30 = 한국시간 09:30 (동일)
-      } else {
-        timeStr = '09:00'; // 한국 기본 시간
-      }
-      
-      events.push({
-        id: `economic-${item.country}-${item.name}-${eventDate.getTime()}`,
-        type: 'economic',
-        stockName: item.country,
-        message: `${item.name} 발표 (${dateStr} ${timeStr} KST)`,
-        date: eventDate.toISOString().split('T')[0],
-        priority: item.priority,
-        country: item.country
-      });
-    }
-  });
-
-  return events;
-}
-
-// 사용자 보유 종목 조회
-async function fetchUserHoldings(): Promise<Array<{stockCode: string, stockName: string}>> {
-  try {
-    // Prisma를 통해 직접 데이터베이스에서 보유 종목 가져오기
-    const holdings = await prisma.holding.findMany({
-      select: {
-        stockCode: true,
-        stockName: true
-      }
-    });
-
-    if (holdings && holdings.length > 0) {
-      return holdings.map(holding => ({
-        stockCode: holding.stockCode,
-        stockName: holding.stockName
-      }));
-    }
-  } catch (error) {
-    console.error('보유 종목 조회 실패:', error);
-  }
-
-  // 기본값 반환 (DB 조회 실패 시)
-  return [
-    { stockCode: '005930', stockName: '삼성전자' },
-    { stockCode: '000660', stockName: 'SK하이닉스' },
-    { stockCode: '035420', stockName: 'NAVER' }
-  ];
-}
-
-// 배당 캘린더 - 사용자 보유 종목 기반으로 Yahoo Finance API 사용
-async function fetchDividendCalendar(): Promise<EventAlert[]> {
-  const events: EventAlert[] = [];
-  const today = new Date();
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { DEFAULT_EVENT_DAYS, MAX_EVENT_DAYS, fetchUpcomingEvents } from '@/lib/marketEvents';
 
+// GET: 다가오는 시장 이벤트 (경제지표 + 보유·관심종목의 실적·배당락 일정, ?days=2)
+export async function GET(request: NextRequest) {
   try {
-    // 사용자 보유 종목 가져오기
-    const userHoldings = await fetchUserHoldings();
-    
-    // 종목코드를 Yahoo Finance 심볼로 변환
-    const stocksToCheck = userHoldings.map(holding => ({
-      symbol: `${holding.stockCode}.KS`, // 한국 거래소 심볼 형식
-      name: holding.stockName
-    }));
-
-    for (const stock of stocksToCheck) {
-      try {
-        // Yahoo Finance API - 배당 데이터 조회
-        const response = await fetch(
-          `https://query1.finance.yahoo.com/v8/finance/chart/${stock.symbol}?interval=1d&range=1mo`,
-          {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            }
-          }
-        );
-
-        if (response.ok) {
-          // Yahoo Finance 데이터를 파싱하여 배당 정보 추출
-          await response.json(); // API 응답 확인용
-          
-          // 배당 관련 이벤트가 있는지 확인 (간단한 패턴 기반)
-          const currentMonth = today.getMonth();
-          const currentDate = today.getDate();
-          
-          // 8월 배당 시즌 체크 (일반적인 배당 패턴)
-          if (currentMonth === 7) { // 8월
-            const dividendDates = [14, 15, 20, 22, 26, 28];
-            const matchingDate = dividendDates.find(date => date >= currentDate);
-            
-            if (matchingDate) {
-              const eventDate = new Date(today.getFullYear(), currentMonth, matchingDate);
-              const dateStr = `${currentMonth + 1}월 ${matchingDate}일`;
-              
-              events.push({
-                id: `dividend-${stock.name}-${currentMonth}-${matchingDate}`,
-                type: 'dividend',
-                stockName: stock.name,
-                message: `배당 예상일 (${dateStr} 권리락일 예정)`,
-                date: eventDate.toISOString().split('T')[0],
-                priority: 'high'
-              });
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`${stock.name} 배당 데이터 조회 실패:`, error);
-      }
-    }
-  } catch (error) {
-    console.error('배당 캘린더 조회 실패:', error);
-  }
-
-  return events;
-}
-
-// 실적 발표 캘린더 - 사용자 보유 종목 기반으로 실적 발표 일정 조회
-async function fetchEarningsCalendar(): Promise<EventAlert[]> {
-  const events: EventAlert[] = [];
-  const today = new Date();
-
-  try {
-    // 사용자 보유 종목 가져오기
-    const userHoldings = await fetchUserHoldings();
-    
-    // 실적 발표 예상 일정 매핑 (기업별 일반적인 패턴)
-    const earningsScheduleMap: {[key: string]: number} = {
-      '삼성전자': 7,
-      'SK하이닉스': 8,
-      'LG화학': 12,
-      'NAVER': 14,
-      '현대자동차': 19,
-      '카카오': 21,
-      'LG전자': 25,
-      'SK텔레콤': 26,
-      'KT': 28,
-      '한국전력': 30
-    };
+    const payload = await verifyToken(request);
 
-    // SEC EDGAR API를 통한 실제 데이터 조회 시도
-    try {
-      const response = await fetch(
-        'https://data.sec.gov/api/xbrl/companyconcept/CIK0000320193/us-gaap/Assets.json',
-        {
-          headers: {
-            'User-Agent': 'myAccountIsEmpty info@example.com',
-            'Accept': 'application/json'
-          }
-        }
+    if (!payload) {
+      return NextResponse.json(
+        { success: false, error: '인증이 필요합니다.', data: [] },
+        { status: 401 }
       );
-
-      if (response.ok) {
-        // SEC 데이터 사용 가능 시 실제 데이터 활용
-        console.log('SEC API 연결 성공');
-      }
-    } catch {
-      console.log('SEC API 사용 불가, 추정 데이터 사용');
     }
 
-    // 현재 월 기준 실적 발표 일정 생성 (보유 종목만)
-    const currentMonth = today.getMonth();
-    const currentDate = today.getDate();
-
-    userHoldings.forEach(holding => {
-      const estimatedDate = earningsScheduleMap[holding.stockName];
-      
-      if (estimatedDate && estimatedDate >= currentDate && currentMonth === 7) { // 8월
-        const eventDate = new Date(today.getFullYear(), currentMonth, estimatedDate);
-        const dateStr = `${currentMonth + 1}월 ${estimatedDate}일`;
-        
-        events.push({
-          id: `earnings-${holding.stockName}-${currentMonth}-${estimatedDate}`,
-          type: 'earnings',
-          stockName: holding.stockName,
-          message: `2분기 실적 발표 예정 (${dateStr} 16:00 KST)`,
-          date: eventDate.toISOString().split('T')[0],
-          priority: 'high'
-        });
-      }
-    });
-
-    // 9월 실적 발표도 추가 (보유 종목만)
-    if (currentMonth === 7 || currentMonth === 8) {
-      const septemberSchedule: {[key: string]: number} = {
-        'LG전자': 3,
-        'SK텔레콤': 5,
-        'KB금융': 10,
-        '신한지주': 12
-      };
-
-      userHoldings.forEach(holding => {
-        const septemberDate = septemberSchedule[holding.stockName];
-        
-        if (septemberDate) {
-          const eventDate = new Date(today.getFullYear(), 8, septemberDate); // 9월
-          const dateStr = `9월 ${septemberDate}일`;
-          
-          events.push({
-            id: `earnings-${holding.stockName}-8-${septemberDate}`,
-            type: 'earnings',
-            stockName: holding.stockName,
-            message: `2분기 실적 발표 (${dateStr} 16:30 KST)`,
-            date: eventDate.toISOString().split('T')[0],
-            priority: 'high'
-          });
-        }
-      });
-    }
+    const { searchParams } = new URL(request.url);
+    const days = searchParams.has('days') ? parseInt(searchParams.get('days')!) : DEFAULT_EVENT_DAYS;
 
-  } catch (error) {
-    console.error('실적 캘린더 조회 실패:', error);
-  }
-
-  return events;
-}
-
-// 시장 뉴스 - 실제 RSS 피드 및 공공 API 사용
-async function fetchMarketNews(): Promise<EventAlert[]> {
-  const events: EventAlert[] = [];
-  const today = new Date();
-
-  try {
-    // 1. 한국은행 공공 API (무료, 인증키 불필요한 일반 정보)
-    try {
-      const response = await fetch('https://ecos.bok.or.kr/api/StatisticSearch/sample/json/kr/1/5/722Y001/A/2024/2024/OECD?/?/?/?/?', {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      
-      if (response.ok) {
-        console.log('한국은행 API 연결 성공');
-        // 실제 경제 지표 발표 일정 확인 가능
-      }
-    } catch {
-      console.log('한국은행 API 연결 실패, 기본 일정 사용');
-    }
-
-    // 2. 미국 연준 RSS 피드 (무료 공개)
-    try {
-      const fedResponse = await fetch('https://www.federalreserve.gov/feeds/press_all.xml', {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      
-      if (fedResponse.ok) {
-        console.log('연준 RSS 피드 연결 성공');
-        // 실제 FOMC 회의 일정 파싱 가능
-      }
-    } catch {
-      console.log('연준 RSS 피드 연결 실패');
-    }
-
-    // 3. 실제 경제 캘린더 데이터 (FMP API 무료 버전)
-    try {
-      const economicResponse = await fetch('https://financialmodelingprep.com/api/v3/economic_calendar?from=2025-08-01&to=2025-09-30', {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      
-      if (economicResponse.ok) {
-        const economicData = await economicResponse.json();
-        
-        // 실제 API 데이터가 있을 경우 파싱
-        if (Array.isArray(economicData) && economicData.length > 0) {
-          economicData.slice(0, 5).forEach((item: { date?: string; event?: string; time?: string }, index: number) => {
-            const eventDate = new Date(item.date || today);
-            const todayDate = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-            
-            if (eventDate >= todayDate) {
-              const dateStr = `${eventDate.getMonth() + 1}월 ${eventDate.getDate()}일`;
-              
-              events.push({
-                id: `economic-real-${index}-${eventDate.getTime()}`,
-                type: 'news',
-                stockName: '🌍 국제',
-                message: `${item.event || '경제 지표 발표'} (${dateStr} ${item.time || '미정'})`,
-                date: eventDate.toISOString().split('T')[0],
-                priority: 'medium',
-                country: '🌍 국제'
-              });
-            }
-          });
-        }
-      }
-    } catch {
-      console.log('경제 캘린더 API 연결 실패, 기본 일정 사용');
-    }
-
-    // 기본 경제 일정 (API 실패 시 백업)
-    if (events.length === 0) {
-      const currentMonth = today.getMonth();
-      const currentDate = today.getDate();
-      
-      const backupEvents = [
-        { day: 5, message: '미국 고용통계', country: '🇺🇸 미국', time: '22:30', priority: 'high' as const },
-        { day: 7, message: '한국은행 금리 결정', country: '🇰🇷 한국', time: '10:00', priority: 'high' as const },
-        { day: 12, message: '미국 CPI', country: '🇺🇸 미국', time: '22:30', priority: 'high' as const },
-        { day: 15, message: '한국 CPI', country: '🇰🇷 한국', time: '08:00', priority: 'medium' as const },
-        { day: 20, message: '일본은행 회의', country: '🇯🇵 일본', time: '12:00', priority: 'medium' as const },
-        { day: 25, message: '잭슨홀 심포지엄', country: '🇺🇸 미국', time: '02:00', priority: 'high' as const }
-      ];
-
-      backupEvents.forEach(event => {
-        let eventDate: Date;
-        if (event.day >= currentDate) {
-          eventDate = new Date(today.getFullYear(), currentMonth, event.day);
-        } else {
-          eventDate = new Date(today.getFullYear(), currentMonth + 1, event.day);
-        }
-        
-        const daysDiff = Math.ceil((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-        if (daysDiff >= 0 && daysDiff <= 7) { // 테스트용으로 임시 확장
-          const dateStr = `${eventDate.getMonth() + 1}월 ${event.day}일`;
-          
-          events.push({
-            id: `news-backup-${event.country}-${event.day}-${eventDate.getMonth()}`,
-            type: 'news',
-            stockName: event.country,
-            message: `${event.message} (${dateStr} ${event.time} KST)`,
-            date: eventDate.toISOString().split('T')[0],
-            priority: event.priority,
-            country: event.country
-          });
-        }
-      });
+    if (isNaN(days) || days < 0 || days > MAX_EVENT_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days는 0에서 ${MAX_EVENT_DAYS} 사이여야 합니다.`, data: [] },
+        { status: 400 }
+      );
     }
 
-  } catch (error) {
-    console.error('시장 뉴스 조회 실패:', error);
-  }
-
-  return events;
-}
-
-export async function GET() {
-  try {
-    const events = await fetchUpcomingEvents();
+    const events = await fetchUpcomingEvents(payload.userId, { days });
     
     return NextResponse.json({
       success: true,
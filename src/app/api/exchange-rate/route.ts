@@ -1,57 +1,55 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  getExchangeRate,
+  parseExchangeRateCsv,
+  saveManualExchangeRate,
+  toRateDate,
+} from '@/lib/exchangeRates';
 
-// 환율 정보를 가져오는 함수 (USD to KRW)
-async function getExchangeRate(): Promise<number> {
+// GET: 환율 조회 (기본: 오늘 USD→KRW, date 지정 시 해당 일자, from/to 지정 시 저장된 이력)
+export async function GET(request: NextRequest) {
   try {
-    // 여러 환율 API를 시도
-    const urls = [
-      'https://api.exchangerate-api.com/v4/latest/USD',
-      'https://open.er-api.com/v6/latest/USD'
-    ];
-
-    for (const url of urls) {
-      try {
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          const krwRate = data.rates?.KRW;
-          
-          if (krwRate && krwRate > 0) {
-            console.log(`Exchange rate USD to KRW: ${krwRate} from ${url}`);
-            return krwRate;
-          }
-        }
-      } catch (error) {
-        console.warn(`Failed to fetch exchange rate from ${url}:`, error);
-        continue;
-      }
+    const { searchParams } = new URL(request.url);
+    const currency = (searchParams.get('currency') || 'USD').toUpperCase();
+    const date = searchParams.get('date');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if ([date, from, to].some(value => value && isNaN(new Date(value).getTime()))) {
+      return NextResponse.json(
+        { error: '날짜 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      );
     }
 
-    // 모든 API 실패 시 기본 환율 사용 (대략적 값)
-    console.warn('All exchange rate APIs failed, using fallback rate');
-    return 1350; // 기본 환율 (대략적 값)
-    
-  } catch (error) {
-    console.error('Exchange rate fetch error:', error);
-    return 1350; // 기본 환율
-  }
-}
+    if (from || to) {
+      const rates = await prisma.exchangeRate.findMany({
+        where: {
+          baseCurrency: currency,
+          quoteCurrency: 'KRW',
+          date: {
+            ...(from && { gte: toRateDate(from) }),
+            ...(to && { lte: toRateDate(to) }),
+          },
+        },
+        orderBy: { date: 'asc' },
+      });
 
-export async function GET() {
-  try {
-    const exchangeRate = await getExchangeRate();
-    
-    return NextResponse.json({ 
+      return NextResponse.json({ success: true, rates });
+    }
+
+    const rateDate = date ? new Date(date) : new Date();
+    const exchangeRate = await getExchangeRate(currency, rateDate);
+
+    return NextResponse.json({
       success: true,
       data: {
-        from: 'USD',
+        from: currency,
         to: 'KRW',
         rate: exchangeRate,
+        date: toRateDate(rateDate).toISOString().split('T')[0],
         timestamp: new Date().toISOString()
       }
     });
@@ -63,3 +61,82 @@ export async function GET() {
     );
   }
 }
+
+// POST: 관리자 환율 수동 입력 ({ date, currency, rate }) 또는 CSV 업로드 ({ csv })
+// 환율은 모든 사용자의 거래·평가에 쓰이므로 관리자만 저장할 수 있고,
+// 외부 API에서 받은 환율은 overwrite: true일 때만 덮어씀
+export async function POST(request: NextRequest) {
+  try {
+    const adminUserId = await requireAdmin(request);
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: '관리자 권한이 필요합니다.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const overwrite = body.overwrite === true;
+
+    if (typeof body.csv === 'string') {
+      const { rows, errors } = parseExchangeRateCsv(body.csv);
+
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'CSV 형식이 올바르지 않습니다.', details: errors },
+          { status: 400 }
+        );
+      }
+
+      let count = 0;
+      const skipped: string[] = [];
+      for (const row of rows) {
+        const saved = await saveManualExchangeRate(row.date, row.baseCurrency, row.rate, 'csv', overwrite);
+        if (saved) {
+          count++;
+        } else {
+          skipped.push(`${toRateDate(row.date).toISOString().split('T')[0]} ${row.baseCurrency}`);
+        }
+      }
+
+      console.log(`환율 CSV 업로드 완료 (관리자 ${adminUserId}): ${count}건 저장, ${skipped.length}건 건너뜀`);
+      return NextResponse.json({
+        message: skipped.length > 0
+          ? `${count}건의 환율이 저장되었습니다. 외부 API 환율이 있는 ${skipped.length}건은 건너뛰었습니다.`
+          : `${count}건의 환율이 저장되었습니다.`,
+        count,
+        skipped,
+      });
+    }
+
+    const { date, currency, rate } = body;
+    const parsedRate = parseFloat(rate);
+
+    if (!date || isNaN(new Date(date).getTime()) || !currency || !(parsedRate > 0)) {
+      return NextResponse.json(
+        { error: '날짜, 통화, 환율을 올바르게 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const exchangeRate = await saveManualExchangeRate(date, currency.toUpperCase(), parsedRate, 'manual', overwrite);
+
+    if (!exchangeRate) {
+      return NextResponse.json(
+        { error: '해당 일자에 외부 API에서 받은 환율이 있습니다. 덮어쓰려면 overwrite를 지정해주세요.' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`환율 수동 입력 (관리자 ${adminUserId}): ${date} ${currency.toUpperCase()} ${parsedRate}`);
+
+    return NextResponse.json({ exchangeRate }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to save exchange rate:', error);
+    return NextResponse.json(
+      { error: '환율 저장 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
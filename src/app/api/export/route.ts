@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import {
+  ARCHIVE_ENTITIES,
+  ArchiveEntity,
+  archiveEntityToCsv,
+  buildPortfolioArchive,
+} from '@/lib/portfolioArchive';
+
+// GET: 포트폴리오 전체 내보내기 (기본 JSON 아카이브, format=csv&entity=... 지정 시 항목별 CSV)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+    const entity = (searchParams.get('entity') || 'transactions') as ArchiveEntity;
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: '지원하지 않는 형식입니다. (json, csv)' },
+        { status: 400 }
+      );
+    }
+
+    if (format === 'csv' && !ARCHIVE_ENTITIES.includes(entity)) {
+      return NextResponse.json(
+        { error: `지원하지 않는 항목입니다. (${ARCHIVE_ENTITIES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const archive = await buildPortfolioArchive(payload.userId);
+    const date = archive.exportedAt.split('T')[0];
+
+    console.log(`포트폴리오 내보내기: ${payload.userId}, 계좌 ${archive.accounts.length}개, 형식 ${format}`);
+
+    if (format === 'csv') {
+      return new NextResponse(archiveEntityToCsv(archive, entity), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="portfolio-${entity}-${date}.csv"`,
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="portfolio-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export portfolio:', error);
+    return NextResponse.json(
+      { error: '포트폴리오 내보내기 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,40 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
+import { getStockCodeChain, loadCorporateActions, loadLotSelections, replayLedger, resolveStockCode } from '@/lib/ledger';
+import { verifyToken } from '@/lib/auth';
 
 // GET: 보유종목 목록 조회 (거래내역 기반 실시간 계산)
 export async function GET(request: NextRequest) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -61,75 +33,68 @@ export async function GET(request: NextRequest) {
           },
         },
       },
-      orderBy: {
-        transactionDate: 'asc',
-      },
+      orderBy: [
+        { transactionDate: 'asc' },
+        { createdAt: 'asc' },
+      ],
     });
 
-    // 종목별로 거래내역을 그룹화하고 계산
-    const holdingsMap = new Map();
+    // 계좌별, 종목별로 거래내역을 그룹화 (코드 변경·합병 시 최종 종목코드 기준)
+    const actions = await loadCorporateActions(prisma, userId);
+    const groups = new Map<string, typeof transactions>();
 
     transactions.forEach(transaction => {
       if (!transaction.stockCode) return;
 
-      const key = `${transaction.accountId}_${transaction.stockCode}`;
-      
-      if (!holdingsMap.has(key)) {
-        holdingsMap.set(key, {
+      const key = `${transaction.accountId}_${resolveStockCode(transaction.stockCode, actions)}`;
+      const group = groups.get(key) || [];
+      group.push(transaction);
+      groups.set(key, group);
+    });
+
+    const selections = await loadLotSelections(
+      prisma,
+      transactions.filter(t => t.transactionType === 'SELL').map(t => t.id)
+    );
+
+    // 원장 엔진으로 보유수량과 평단가 계산 (보유종목 재계산과 동일한 결과)
+    const activeHoldings = Array.from(groups.entries())
+      .map(([key, group]) => {
+        const first = group[0];
+        const stockCode = resolveStockCode(first.stockCode, actions);
+        const codes = getStockCodeChain(stockCode, actions);
+        const ledger = replayLedger(
+          group,
+          first.account.costBasisMethod,
+          selections,
+          actions.filter(action => codes.includes(action.stockCode))
+        );
+
+        return {
           id: `holding_${key}`,
-          accountId: transaction.accountId,
-          stockCode: transaction.stockCode,
-          stockName: transaction.stockName || '',
-          quantity: 0,
-          totalInvestment: 0, // 총 투자금액
-          averagePrice: 0,
-          currency: transaction.currency || 'KRW',
-          updatedAt: transaction.transactionDate,
-          account: transaction.account,
+          accountId: first.accountId,
+          stockCode: stockCode,
+          stockName: ledger.stockName,
+          quantity: ledger.quantity,
+          totalInvestment: ledger.totalCost, // 총 투자금액
+          averagePrice: ledger.averagePrice,
+          currency: ledger.currency,
+          updatedAt: group[group.length - 1].transactionDate,
+          account: first.account,
           stock: {
-            id: `stock_${transaction.stockCode}`,
-            stockCode: transaction.stockCode,
-            stockName: transaction.stockName || '',
-            market: transaction.currency === 'USD' ? 'NASDAQ' : 'KOSPI',
-            currency: transaction.currency || 'KRW',
+            id: `stock_${stockCode}`,
+            stockCode: stockCode,
+            stockName: ledger.stockName,
+            market: ledger.currency === 'USD' ? 'NASDAQ' : 'KOSPI',
+            currency: ledger.currency,
             currentPrice: null
-          }
-        });
-      }
-
-      const holding = holdingsMap.get(key);
-      
-      if (transaction.transactionType === 'BUY') {
-        // 매수: 수량 증가, 평단가 재계산
-        const newQuantity = holding.quantity + (transaction.quantity || 0);
-        const newTotalInvestment = holding.totalInvestment + (transaction.totalAmount || 0);
-        
-        holding.quantity = newQuantity;
-        holding.totalInvestment = newTotalInvestment;
-        holding.averagePrice = newQuantity > 0 ? newTotalInvestment / newQuantity : 0;
-      } else if (transaction.transactionType === 'SELL') {
-        // 매도: 수량 감소, 평단가는 유지 (평단가 기준으로 투자금액 감소)
-        const sellQuantity = transaction.quantity || 0;
-        const avgPrice = holding.quantity > 0 ? holding.totalInvestment / holding.quantity : 0;
-        
-        holding.quantity = Math.max(0, holding.quantity - sellQuantity);
-        
-        // 매도한 수량만큼 투자금액 감소 (평단가 기준)
-        holding.totalInvestment = holding.quantity * avgPrice;
-        holding.averagePrice = holding.quantity > 0 ? holding.totalInvestment / holding.quantity : 0;
-      }
-      
-      holding.updatedAt = transaction.transactionDate;
-    });
-
-    // 수량이 0보다 큰 보유종목만 필터링
-    const activeHoldings = Array.from(holdingsMap.values())
-      .filter(holding => holding.quantity > 0)
-      .map(holding => ({
-        ...holding,
-        totalAmount: holding.quantity * holding.averagePrice, // 총 평가금액 (현재가 없으므로 평단가 기준)
-        currentPrice: holding.averagePrice // 임시로 평단가를 현재가로 사용
-      }));
+          },
+          totalAmount: ledger.totalCost, // 총 평가금액 (현재가 없으므로 평단가 기준)
+          currentPrice: ledger.averagePrice // 임시로 평단가를 현재가로 사용
+        };
+      })
+      // 수량이 0보다 큰 보유종목만 필터링
+      .filter(holding => holding.quantity > 0);
 
     return NextResponse.json({ holdings: activeHoldings });
   } catch (error) {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import {
+  PortfolioArchive,
+  restorePortfolioArchive,
+  validatePortfolioArchive,
+} from '@/lib/portfolioArchive';
+
+// POST: 내보낸 포트폴리오 아카이브(JSON) 복원 - 같은 계좌번호의 계좌에는 병합
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'JSON 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validatePortfolioArchive(data);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: '아카이브 형식이 올바르지 않습니다.', details: errors.slice(0, 50) },
+        { status: 400 }
+      );
+    }
+
+    const summary = await restorePortfolioArchive(payload.userId, data as PortfolioArchive);
+
+    console.log('포트폴리오 복원 완료:', summary);
+
+    return NextResponse.json({
+      message: `계좌 ${summary.accountsCreated + summary.accountsMerged}개, 거래 ${summary.transactionsImported}건을 복원했습니다.`,
+      summary,
+    });
+  } catch (error) {
+    console.error('Failed to import portfolio:', error);
+    return NextResponse.json(
+      { error: '포트폴리오 복원 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getQuotes } from '@/lib/quotes';
 
 // 주요 지수 데이터 타입
 interface MarketIndex {
@@ -14,140 +15,28 @@ async function fetchMarketIndices(): Promise<MarketIndex[]> {
   
   try {
     // 1. 주식 지수들 먼저 (KOSPI, NASDAQ, S&P500)
-    
-    // KOSPI 데이터
-    try {
-      const kospiResponse = await fetch(
-        'https://query1.finance.yahoo.com/v8/finance/chart/^KS11',
-        { 
-          next: { revalidate: 300 },
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        }
-      );
-      
-      if (kospiResponse.ok) {
-        const kospiData = await kospiResponse.json();
-        const result = kospiData.chart?.result?.[0];
-        const meta = result?.meta;
-        
-        if (meta && meta.regularMarketPrice) {
-          const currentPrice = meta.regularMarketPrice;
-          const previousClose = meta.previousClose || currentPrice;
-          const change = currentPrice - previousClose;
-          const changePercent = (change / previousClose) * 100;
-          
-          indices.push({
-            name: 'KOSPI',
-            value: Number(currentPrice.toFixed(2)),
-            change: Number(change.toFixed(2)),
-            changePercent: Number(changePercent.toFixed(2))
-          });
-        } else {
-          throw new Error('KOSPI data format error');
-        }
-      } else {
-        throw new Error('KOSPI API call failed');
-      }
-    } catch (error) {
-      console.error('KOSPI API 오류:', error);
-      indices.push({
-        name: 'KOSPI',
-        value: 2627.85,
-        change: 22.15,
-        changePercent: 0.85
-      });
-    }
+    const stockIndices = [
+      { name: 'KOSPI', symbol: '^KS11', fallback: { value: 2627.85, change: 22.15, changePercent: 0.85 } },
+      { name: 'NASDAQ', symbol: '^IXIC', fallback: { value: 17136.30, change: -106.85, changePercent: -0.62 } },
+      { name: 'S&P500', symbol: '^GSPC', fallback: { value: 5463.54, change: -23.55, changePercent: -0.43 } },
+    ];
 
-    // NASDAQ 데이터
-    try {
-      const nasdaqResponse = await fetch(
-        'https://query1.finance.yahoo.com/v8/finance/chart/^IXIC',
-        { 
-          next: { revalidate: 300 },
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        }
-      );
-      
-      if (nasdaqResponse.ok) {
-        const nasdaqData = await nasdaqResponse.json();
-        const result = nasdaqData.chart?.result?.[0];
-        const meta = result?.meta;
-        
-        if (meta && meta.regularMarketPrice) {
-          const currentPrice = meta.regularMarketPrice;
-          const previousClose = meta.previousClose || currentPrice;
-          const change = currentPrice - previousClose;
-          const changePercent = (change / previousClose) * 100;
-          
-          indices.push({
-            name: 'NASDAQ',
-            value: Number(currentPrice.toFixed(2)),
-            change: Number(change.toFixed(2)),
-            changePercent: Number(changePercent.toFixed(2))
-          });
-        } else {
-          throw new Error('NASDAQ data format error');
-        }
-      } else {
-        throw new Error('NASDAQ API call failed');
-      }
-    } catch (error) {
-      console.error('NASDAQ API 오류:', error);
-      indices.push({
-        name: 'NASDAQ',
-        value: 17136.30,
-        change: -106.85,
-        changePercent: -0.62
-      });
-    }
+    const quotes = await getQuotes(stockIndices.map(index => index.symbol));
 
-    // S&P 500 데이터
-    try {
-      const spResponse = await fetch(
-        'https://query1.finance.yahoo.com/v8/finance/chart/^GSPC',
-        { 
-          next: { revalidate: 300 },
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        }
-      );
-      
-      if (spResponse.ok) {
-        const spData = await spResponse.json();
-        const result = spData.chart?.result?.[0];
-        const meta = result?.meta;
-        
-        if (meta && meta.regularMarketPrice) {
-          const currentPrice = meta.regularMarketPrice;
-          const previousClose = meta.previousClose || currentPrice;
-          const change = currentPrice - previousClose;
-          const changePercent = (change / previousClose) * 100;
-          
-          indices.push({
-            name: 'S&P500',
-            value: Number(currentPrice.toFixed(2)),
-            change: Number(change.toFixed(2)),
-            changePercent: Number(changePercent.toFixed(2))
-          });
-        } else {
-          throw new Error('S&P500 data format error');
-        }
+    for (const index of stockIndices) {
+      const quote = quotes[index.symbol];
+
+      if (quote) {
+        indices.push({
+          name: index.name,
+          value: Number(quote.price.toFixed(2)),
+          change: Number(quote.change.toFixed(2)),
+          changePercent: Number(quote.changePercent.toFixed(2))
+        });
       } else {
-        throw new Error('S&P500 API call failed');
+        console.error(`${index.name} 시세 조회 실패, 기본값 사용`);
+        indices.push({ name: index.name, ...index.fallback });
       }
-    } catch (error) {
-      console.error('S&P500 API 오류:', error);
-      indices.push({
-        name: 'S&P500',
-        value: 5463.54,
-        change: -23.55,
-        changePercent: -0.43
-      });
     }
 
     // 2. 환율 데이터 (USD/KRW, JPY(100)/KRW)
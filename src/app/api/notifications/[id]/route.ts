@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+
+// PATCH: 읽음 처리 / 다시 알림 ({ read?: boolean, snoozeMinutes?: number })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const notification = await prisma.notification.findFirst({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!notification) {
+      return NextResponse.json(
+        { error: '알림을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const snoozeMinutes = body.snoozeMinutes !== undefined ? Number(body.snoozeMinutes) : undefined;
+
+    if (snoozeMinutes !== undefined && (isNaN(snoozeMinutes) || snoozeMinutes <= 0 || snoozeMinutes > MAX_SNOOZE_MINUTES)) {
+      return NextResponse.json(
+        { error: '다시 알림은 7일 이내로 설정해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    // 다시 알림으로 미루면 그 시각에 읽지 않은 알림으로 다시 나타남
+    const updated = await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        ...(typeof body.read === 'boolean' && { readAt: body.read ? new Date() : null }),
+        ...(snoozeMinutes !== undefined && {
+          snoozedUntil: new Date(Date.now() + snoozeMinutes * 60 * 1000),
+          readAt: null,
+        }),
+      },
+    });
+
+    return NextResponse.json({ notification: updated });
+  } catch (error) {
+    console.error('Failed to update notification:', error);
+    return NextResponse.json(
+      { error: '알림 수정 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 알림 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const result = await prisma.notification.deleteMany({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: '알림을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: '알림이 삭제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to delete notification:', error);
+    return NextResponse.json(
+      { error: '알림 삭제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// POST: 보이는 알림 모두 읽음 처리
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId: payload.userId,
+        readAt: null,
+        OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: new Date() } }],
+      },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ updated: result.count });
+  } catch (error) {
+    console.error('Failed to mark notifications as read:', error);
+    return NextResponse.json(
+      { error: '알림 읽음 처리 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
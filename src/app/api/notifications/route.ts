@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+const DEFAULT_LIMIT = 30;
+
+// GET: 알림함 (다시 알림으로 미뤄둔 알림은 그 시각까지 숨김, ?unreadOnly=true&limit=30)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unreadOnly') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT)) || DEFAULT_LIMIT, 100);
+
+    const visible = {
+      userId: payload.userId,
+      OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: new Date() } }],
+    };
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { ...visible, ...(unreadOnly && { readAt: null }) },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({ where: { ...visible, readAt: null } }),
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error('Failed to fetch notifications:', error);
+    return NextResponse.json(
+      { error: '알림 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getCurrentPrices, getOldestAsOf } from '@/lib/priceHistory';
+import {
+  SNAPSHOT_RANGES,
+  calculatePeriodReturn,
+  ensurePortfolioSnapshots,
+  getDailyReturns,
+  getPortfolioSeries,
+  type SnapshotRange,
+} from '@/lib/portfolioSnapshots';
+import { getSector } from '@/lib/allocation';
+import { BENCHMARKS, DEFAULT_BENCHMARK_ID, getBenchmark, getBenchmarkReturns } from '@/lib/benchmarks';
+import {
+  DEFAULT_RISK_FREE_RATE,
+  DEFAULT_VAR_CONFIDENCE,
+  calculateRiskMetrics,
+  type RiskMetrics,
+} from '@/lib/riskMetrics';
 
 interface PortfolioAnalytics {
   totalValue: number;
   totalInvestment: number;
   totalReturn: number;
   totalReturnPercent: number;
-  sharpeRatio: number;
-  volatility: number;
-  maxDrawdown: number;
   diversificationScore: number;
   sectorAllocation: { [key: string]: number };
-  riskMetrics: {
-    var95: number; // Value at Risk (95%)
-    beta: number;
-    alpha: number;
-  };
+  riskMetrics: RiskMetrics; // 일간 수익률 기반 (이력이 부족하면 sufficientHistory: false)
   performance: {
     daily: number;
     weekly: number;
@@ -25,20 +35,6 @@ interface PortfolioAnalytics {
   };
 }
 
-// 섹터 분류 (간단한 예시)
-const SECTOR_MAPPING: { [key: string]: string } = {
-  '005930': '반도체',
-  '000660': '반도체',
-  '035420': 'IT서비스',
-  '051910': '화학',
-  '006400': '배터리',
-  '035720': 'IT서비스',
-  '207940': '바이오',
-  '068270': '바이오',
-  '005380': '자동차',
-  '012330': '자동차부품',
-};
-
 export async function GET(request: NextRequest) {
   try {
     console.log('Analytics API: Starting authentication check');
@@ -52,6 +48,35 @@ export async function GET(request: NextRequest) {
 
     console.log('Analytics API: Authenticated user ID:', payload.userId);
 
+    // 리스크 지표 옵션 (?benchmark=KOSPI|SP500&riskFreeRate=3.0&confidence=0.95&range=1Y)
+    const { searchParams } = new URL(request.url);
+    const benchmark = getBenchmark(searchParams.get('benchmark') || DEFAULT_BENCHMARK_ID);
+    const riskFreeRate = searchParams.has('riskFreeRate') ? parseFloat(searchParams.get('riskFreeRate')!) : DEFAULT_RISK_FREE_RATE;
+    const confidence = searchParams.has('confidence') ? parseFloat(searchParams.get('confidence')!) : DEFAULT_VAR_CONFIDENCE;
+    const range = (searchParams.get('range') || '1Y').toUpperCase() as SnapshotRange;
+
+    if (!benchmark) {
+      return NextResponse.json(
+        { error: `벤치마크는 ${BENCHMARKS.map(item => item.id).join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(riskFreeRate) || riskFreeRate < -5 || riskFreeRate > 30) {
+      return NextResponse.json({ error: '무위험 수익률(연 %)이 올바르지 않습니다.' }, { status: 400 });
+    }
+
+    if (isNaN(confidence) || confidence < 0.8 || confidence >= 1) {
+      return NextResponse.json({ error: 'VaR 신뢰수준은 0.8 이상 1 미만이어야 합니다.' }, { status: 400 });
+    }
+
+    if (!SNAPSHOT_RANGES.includes(range)) {
+      return NextResponse.json(
+        { error: `조회 기간은 ${SNAPSHOT_RANGES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
     // 사용자의 모든 보유종목 조회
     const holdings = await prisma.holding.findMany({
       where: {
@@ -75,21 +100,17 @@ export async function GET(request: NextRequest) {
           totalInvestment: 0,
           totalReturn: 0,
           totalReturnPercent: 0,
-          sharpeRatio: 0,
-          volatility: 0,
-          maxDrawdown: 0,
           diversificationScore: 0,
           sectorAllocation: {},
-          riskMetrics: { var95: 0, beta: 1, alpha: 0 },
+          riskMetrics: calculateRiskMetrics([], { startDate: null, riskFreeRate, confidence }),
           performance: { daily: 0, weekly: 0, monthly: 0, yearly: 0 },
         } as PortfolioAnalytics,
       });
     }
 
-    // 현재 주가 정보 가져오기
+    // 현재 주가 정보 가져오기 (저장된 일봉 우선)
     const stockCodes = holdings.map(h => h.stockCode);
-    const pricesResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/stock-prices?codes=${stockCodes.join(',')}`);
-    const pricesData = await pricesResponse.json();
+    const prices = await getCurrentPrices(stockCodes);
 
     let totalValue = 0;
     let totalInvestment = 0;
@@ -97,7 +118,7 @@ export async function GET(request: NextRequest) {
 
     // 각 보유종목의 현재 가치 및 투자금액 계산
     holdings.forEach(holding => {
-      const currentPrice = pricesData.prices[holding.stockCode]?.currentPrice || holding.currentPrice;
+      const currentPrice = prices[holding.stockCode]?.price || holding.currentPrice || 0;
       const value = holding.quantity * currentPrice;
       const investment = holding.quantity * holding.averagePrice;
 
@@ -105,7 +126,7 @@ export async function GET(request: NextRequest) {
       totalInvestment += investment;
 
       // 섹터별 분배 계산
-      const sector = SECTOR_MAPPING[holding.stockCode] || '기타';
+      const sector = getSector(holding.stockCode);
       sectorAllocation[sector] = (sectorAllocation[sector] || 0) + value;
     });
 
@@ -118,43 +139,41 @@ export async function GET(request: NextRequest) {
     const maxSectorWeight = Math.max(...Object.values(sectorAllocation)) / totalValue;
     const diversificationScore = Math.min(100, (1 - maxSectorWeight) * 100 + totalSectors * 10);
 
-    // 리스크 메트릭 계산 (모의 데이터)
-    const volatility = Math.random() * 30 + 10; // 10-40% 변동성
-    const sharpeRatio = totalReturnPercent > 0 ? totalReturnPercent / volatility : 0;
-    const maxDrawdown = Math.random() * -20; // 최대 -20% 손실
-    const beta = 0.8 + Math.random() * 0.4; // 0.8-1.2 베타
-    const alpha = totalReturnPercent - (beta * 8); // 시장 수익률을 8%로 가정
-
-    // VaR 95% 계산 (간단한 파라메트릭 방법)
-    const var95 = totalValue * 0.05 * Math.sqrt(volatility / 100);
-
-    // 성과 분석 (모의 데이터)
+    // 성과 분석과 리스크 지표 (일자별 포트폴리오 스냅샷 기준)
+    await ensurePortfolioSnapshots(payload.userId);
+    const series = await getPortfolioSeries(payload.userId, { range: '1Y' });
+    const now = new Date();
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
     const performance = {
-      daily: (Math.random() - 0.5) * 4, // -2% ~ +2%
-      weekly: (Math.random() - 0.5) * 10, // -5% ~ +5%
-      monthly: totalReturnPercent / 12, // 월평균 수익률
-      yearly: totalReturnPercent,
+      daily: calculatePeriodReturn(series, series.length >= 2 ? new Date(series[series.length - 2].date) : now),
+      weekly: calculatePeriodReturn(series, daysAgo(7)),
+      monthly: calculatePeriodReturn(series, daysAgo(30)),
+      yearly: calculatePeriodReturn(series, daysAgo(365)),
     };
 
+    const daily = await getDailyReturns(payload.userId, { range });
+    const benchmarkReturns = await getBenchmarkReturns(benchmark, daily.dates);
+    const riskMetrics = calculateRiskMetrics(daily.returns, {
+      startDate: daily.startDate,
+      riskFreeRate,
+      confidence,
+      portfolioValue: daily.holdingsValue,
+      benchmark: { ...benchmark, returns: benchmarkReturns },
+    });
+    console.log(`Analytics API: risk metrics from ${riskMetrics.observations} daily returns (sufficient: ${riskMetrics.sufficientHistory})`);
+
     const analytics: PortfolioAnalytics = {
       totalValue,
       totalInvestment,
       totalReturn,
       totalReturnPercent,
-      sharpeRatio,
-      volatility,
-      maxDrawdown,
       diversificationScore,
       sectorAllocation,
-      riskMetrics: {
-        var95,
-        beta,
-        alpha,
-      },
+      riskMetrics,
       performance,
     };
 
-    return NextResponse.json({ analytics });
+    return NextResponse.json({ analytics, asOf: getOldestAsOf(Object.values(prices)) });
 
   } catch (error) {
     console.error('포트폴리오 분석 오류:', error);
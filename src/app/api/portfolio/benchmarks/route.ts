@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import {
+  SNAPSHOT_RANGES,
+  ensurePortfolioSnapshots,
+  getDailyReturns,
+  type SnapshotRange,
+} from '@/lib/portfolioSnapshots';
+import {
+  DEFAULT_BENCHMARK_ID,
+  MAX_COMPARED_BENCHMARKS,
+  compareToBenchmark,
+  getBlendedReturns,
+  resolveBenchmarks,
+  toCumulativeSeries,
+} from '@/lib/benchmarks';
+
+// GET: 포트폴리오 누적 수익률과 벤치마크 비교 (?range=1Y&benchmarks=KOSPI,SP500,<혼합 벤치마크 ID>)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = (searchParams.get('range') || '1Y').toUpperCase() as SnapshotRange;
+    const ids = Array.from(new Set(
+      (searchParams.get('benchmarks') || DEFAULT_BENCHMARK_ID).split(',').map(id => id.trim()).filter(Boolean)
+    ));
+
+    if (!SNAPSHOT_RANGES.includes(range)) {
+      return NextResponse.json(
+        { error: `조회 기간은 ${SNAPSHOT_RANGES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    if (ids.length === 0 || ids.length > MAX_COMPARED_BENCHMARKS) {
+      return NextResponse.json(
+        { error: `벤치마크는 1개 이상 ${MAX_COMPARED_BENCHMARKS}개 이하로 선택해주세요.` },
+        { status: 400 }
+      );
+    }
+
+    const { definitions, unknown } = await resolveBenchmarks(payload.userId, ids);
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `알 수 없는 벤치마크입니다: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await ensurePortfolioSnapshots(payload.userId);
+    const daily = await getDailyReturns(payload.userId, { range });
+
+    const benchmarks = [];
+    for (const definition of definitions) {
+      const returns = await getBlendedReturns(definition, daily.dates);
+      benchmarks.push({
+        ...compareToBenchmark(daily.returns, { id: definition.id, name: definition.name, returns }, daily.dates),
+        currency: definition.currency,
+        custom: definition.custom,
+      });
+    }
+
+    console.log(`Benchmark comparison for ${payload.userId}: ${range}, ${definitions.map(definition => definition.name).join(', ')}`);
+
+    return NextResponse.json({
+      range,
+      from: daily.startDate,
+      to: daily.dates[daily.dates.length - 1] || null,
+      portfolio: toCumulativeSeries(daily.returns, daily.dates),
+      benchmarks,
+    });
+  } catch (error) {
+    console.error('Failed to compare portfolio with benchmarks:', error);
+    return NextResponse.json(
+      { error: '벤치마크 비교 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { loadCorporateActions, resolveStockCode } from '@/lib/ledger';
+import { getExchangeRate, getTransactionFxRate } from '@/lib/exchangeRates';
+
+// GET: 보유종목별 최근 12개월(TTM) 배당 수입과 취득원가 대비 배당수익률
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+
+    const ttmFrom = new Date();
+    ttmFrom.setFullYear(ttmFrom.getFullYear() - 1);
+
+    const [holdings, dividends, actions] = await Promise.all([
+      prisma.holding.findMany({
+        where: {
+          account: { userId: payload.userId },
+          ...(accountId && accountId !== 'all' && { accountId: accountId }),
+        },
+        include: {
+          account: {
+            include: {
+              institution: true,
+            },
+          },
+        },
+      }),
+      prisma.transaction.findMany({
+        where: {
+          account: { userId: payload.userId },
+          transactionType: 'DIVIDEND',
+          transactionDate: { gte: ttmFrom },
+          ...(accountId && accountId !== 'all' && { accountId: accountId }),
+        },
+        orderBy: { transactionDate: 'asc' },
+      }),
+      loadCorporateActions(prisma, payload.userId),
+    ]);
+
+    // 계좌·종목별 TTM 배당 합계 (코드 변경 전 배당도 최종 종목코드로 합산)
+    const incomeByHolding = new Map<string, {
+      grossAmount: number;
+      withholdingTax: number;
+      netAmount: number;
+      grossAmountKRW: number;
+      netAmountKRW: number;
+      paymentCount: number;
+      lastPayDate: Date | null;
+    }>();
+
+    // 배당은 지급 거래에 기록된 환율로 원화 환산 (기록이 없는 예전 거래는 지급일 환율)
+    for (const dividend of dividends) {
+      const key = `${dividend.accountId}_${resolveStockCode(dividend.stockCode, actions)}`;
+      const income = incomeByHolding.get(key) || {
+        grossAmount: 0,
+        withholdingTax: 0,
+        netAmount: 0,
+        grossAmountKRW: 0,
+        netAmountKRW: 0,
+        paymentCount: 0,
+        lastPayDate: null,
+      };
+      const withholdingTax = dividend.withholdingTax ?? 0;
+      const grossAmount = dividend.grossAmount ?? dividend.totalAmount + withholdingTax;
+      const fxRate = await getTransactionFxRate(dividend);
+
+      income.grossAmount += grossAmount;
+      income.withholdingTax += withholdingTax;
+      income.netAmount += dividend.totalAmount;
+      income.grossAmountKRW += grossAmount * fxRate;
+      income.netAmountKRW += dividend.totalAmount * fxRate;
+      income.paymentCount++;
+      income.lastPayDate = dividend.transactionDate;
+      incomeByHolding.set(key, income);
+    }
+
+    // 취득원가는 현재 환율로 환산 (통화별 한 번만 조회)
+    const currentRates = new Map<string, number>();
+    for (const currency of new Set(holdings.map(holding => holding.currency || 'KRW'))) {
+      currentRates.set(currency, await getExchangeRate(currency));
+    }
+
+    const items = holdings.map(holding => {
+      const currency = holding.currency || 'KRW';
+      const income = incomeByHolding.get(`${holding.accountId}_${holding.stockCode}`);
+      const totalCost = holding.quantity * holding.averagePrice;
+      const ttmGrossAmount = income?.grossAmount ?? 0;
+
+      return {
+        holdingId: holding.id,
+        account: holding.account,
+        stockCode: holding.stockCode,
+        stockName: holding.stockName,
+        currency,
+        quantity: holding.quantity,
+        totalCost,
+        ttmGrossAmount,
+        ttmWithholdingTax: income?.withholdingTax ?? 0,
+        ttmNetAmount: income?.netAmount ?? 0,
+        ttmGrossAmountKRW: income?.grossAmountKRW ?? 0,
+        ttmNetAmountKRW: income?.netAmountKRW ?? 0,
+        paymentCount: income?.paymentCount ?? 0,
+        lastPayDate: income?.lastPayDate ?? null,
+        // 취득원가 대비 세전 배당수익률 (%)
+        yieldOnCost: totalCost > 0 ? (ttmGrossAmount / totalCost) * 100 : 0,
+      };
+    }).sort((a, b) => b.ttmGrossAmountKRW - a.ttmGrossAmountKRW);
+
+    const totalCostKRW = items.reduce((sum, item) => sum + item.totalCost * (currentRates.get(item.currency) || 1), 0);
+    const ttmGrossAmountKRW = items.reduce((sum, item) => sum + item.ttmGrossAmountKRW, 0);
+
+    const summary = {
+      ttmGrossAmountKRW,
+      ttmNetAmountKRW: items.reduce((sum, item) => sum + item.ttmNetAmountKRW, 0),
+      totalCostKRW,
+      yieldOnCost: totalCostKRW > 0 ? (ttmGrossAmountKRW / totalCostKRW) * 100 : 0,
+    };
+
+    return NextResponse.json({ items, summary });
+  } catch (error) {
+    console.error('Failed to fetch dividend income:', error);
+    return NextResponse.json(
+      { error: '배당 수입 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
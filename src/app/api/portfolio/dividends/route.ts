@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getTransactionFxRate } from '@/lib/exchangeRates';
+
+interface MonthlyDividend {
+  month: string; // YYYY-MM
+  grossAmountKRW: number;
+  withholdingTaxKRW: number;
+  netAmountKRW: number;
+  count: number;
+}
+
+// GET: 배당금 내역과 월별 배당 수입 조회
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+    const stockCode = searchParams.get('stockCode');
+    const months = parseInt(searchParams.get('months') || '12');
+
+    if (isNaN(months) || months < 1 || months > 120) {
+      return NextResponse.json(
+        { error: '조회 기간(개월)은 1에서 120 사이여야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 이번 달을 포함한 최근 N개월
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth() - months + 1, 1);
+
+    const dividends = await prisma.transaction.findMany({
+      where: {
+        account: {
+          userId: payload.userId,
+        },
+        transactionType: 'DIVIDEND',
+        transactionDate: { gte: from },
+        ...(accountId && accountId !== 'all' && { accountId: accountId }),
+        ...(stockCode && { stockCode: stockCode }),
+      },
+      include: {
+        account: {
+          include: {
+            institution: true,
+          },
+        },
+      },
+      orderBy: {
+        transactionDate: 'desc',
+      },
+    });
+
+    // 배당별 원화 환산은 지급 거래에 기록된 환율 (기록이 없는 예전 거래는 지급일 환율)
+    const fxRates = new Map<string, number>();
+    for (const dividend of dividends) {
+      fxRates.set(dividend.id, await getTransactionFxRate(dividend));
+    }
+
+    // 빈 달도 차트에 표시되도록 미리 생성
+    const monthly: MonthlyDividend[] = [];
+    for (let i = 0; i < months; i++) {
+      const date = new Date(from.getFullYear(), from.getMonth() + i, 1);
+      monthly.push({
+        month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+        grossAmountKRW: 0,
+        withholdingTaxKRW: 0,
+        netAmountKRW: 0,
+        count: 0,
+      });
+    }
+
+    const items = dividends.map(dividend => {
+      const netAmount = dividend.totalAmount;
+      const withholdingTax = dividend.withholdingTax ?? 0;
+      const grossAmount = dividend.grossAmount ?? netAmount + withholdingTax;
+      const payDate = dividend.transactionDate;
+
+      const month = `${payDate.getFullYear()}-${String(payDate.getMonth() + 1).padStart(2, '0')}`;
+      const bucket = monthly.find(entry => entry.month === month);
+      if (bucket) {
+        const fxRate = fxRates.get(dividend.id) || 1;
+        bucket.grossAmountKRW += grossAmount * fxRate;
+        bucket.withholdingTaxKRW += withholdingTax * fxRate;
+        bucket.netAmountKRW += netAmount * fxRate;
+        bucket.count++;
+      }
+
+      return {
+        id: dividend.id,
+        account: dividend.account,
+        stockCode: dividend.stockCode,
+        stockName: dividend.stockName,
+        currency: dividend.currency,
+        quantity: dividend.quantity,
+        dividendPerShare: dividend.price,
+        grossAmount,
+        withholdingTax,
+        netAmount,
+        exDate: dividend.exDate,
+        payDate,
+      };
+    });
+
+    const summary = {
+      totalGrossAmountKRW: monthly.reduce((sum, entry) => sum + entry.grossAmountKRW, 0),
+      totalWithholdingTaxKRW: monthly.reduce((sum, entry) => sum + entry.withholdingTaxKRW, 0),
+      totalNetAmountKRW: monthly.reduce((sum, entry) => sum + entry.netAmountKRW, 0),
+    };
+
+    return NextResponse.json({ dividends: items, monthly, summary });
+  } catch (error) {
+    console.error('Failed to fetch dividends:', error);
+    return NextResponse.json(
+      { error: '배당금 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
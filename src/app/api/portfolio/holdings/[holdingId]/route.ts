@@ -1,35 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
 
 // PUT: 보유종목 수정
 export async function PUT(
@@ -37,7 +8,7 @@ export async function PUT(
   { params }: { params: { holdingId: string } }
 ) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -74,12 +45,7 @@ export async function PUT(
     }
 
     // 계좌 소유권 확인
-    const account = await prisma.account.findFirst({
-      where: {
-        id: accountId,
-        userId: userId,
-      },
-    });
+    const account = await findOwnedAccount(userId, accountId);
 
     if (!account) {
       return NextResponse.json(
@@ -142,7 +108,7 @@ export async function DELETE(
   { params }: { params: { holdingId: string } }
 ) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -1,206 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-import { getPreviousTradingDay, isAfterMarketClose } from '@/utils/dateUtils';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
-
-// 실제 주가 데이터를 가져오는 함수 (현재가와 전일종가 포함)
-async function getStockPriceData(stockCode: string, currency: string = 'KRW'): Promise<{
-  currentPrice: number;
-  previousClose: number;
-  change: number;
-  changePercent: number;
-}> {
-  try {
-    // 한국 주식인지 확인 (6자리 숫자)
-    const isKoreanStock = /^\d{6}$/.test(stockCode);
-    // M0으로 시작하는 금속 선물인지 확인 (야후에서 지원하지 않음)
-    const isMetalFutures = /^M0\d{7}$/.test(stockCode);
-    // 미국 주식인지 확인 (영문자)
-    const isUSStock = /^[A-Z]{1,5}$/.test(stockCode) && currency === 'USD';
-    
-    console.log(`getStockPriceData for: ${stockCode}, currency: ${currency}, isKoreanStock: ${isKoreanStock}, isMetalFutures: ${isMetalFutures}, isUSStock: ${isUSStock}`);
-    
-    // 주말/휴장일 체크
-    const now = new Date();
-    const afterMarketClose = isAfterMarketClose(stockCode);
-    const previousTradingDay = getPreviousTradingDay(stockCode, now);
-    
-    console.log(`Market status for ${stockCode}:`, {
-      afterMarketClose,
-      currentTime: now.toISOString(),
-      previousTradingDay: previousTradingDay.toISOString().split('T')[0]
-    });
-    
-    // 현재 요청의 base URL을 사용하여 API 호출
-    const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3001';
-    
-    if (isUSStock) {
-      // 미국 주식은 Yahoo Finance API 사용
-      try {
-        console.log(`Fetching US stock data for: ${stockCode}`);
-        const response = await fetch(`${baseUrl}/api/stock-data/yahoo?symbol=${stockCode}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`Yahoo API response for ${stockCode}:`, data);
-          
-          if (data.regularMarketPrice && data.regularMarketPrice > 0) {
-            // 주말/휴장일에는 이전 영업일 기준으로 계산
-            let previousClose = data.previousClose || data.regularMarketPreviousClose || data.regularMarketPrice;
-            let change = data.regularMarketChange || 0;
-            let changePercent = data.regularMarketChangePercent || 0;
-            
-            // 주말이나 휴장일에는 데이터가 다를 수 있으므로 재계산
-            if (afterMarketClose && data.previousTradingDayData) {
-              previousClose = data.previousTradingDayData.close;
-              change = data.regularMarketPrice - previousClose;
-              changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
-            }
-            
-            return {
-              currentPrice: data.regularMarketPrice,
-              previousClose,
-              change,
-              changePercent
-            };
-          }
-        } else {
-          console.warn(`Yahoo API failed for ${stockCode} with status: ${response.status}`);
-        }
-      } catch (error) {
-        console.error(`Yahoo API error for ${stockCode}:`, error);
-      }
-    } else if (isKoreanStock || isMetalFutures) {
-      // M0으로 시작하는 금속 선물은 야후를 건너뛰고 바로 네이버나 한국 API로
-      if (!isMetalFutures) {
-        // 일반 한국 주식은 기존 Korean API 사용
-        const response = await fetch(`${baseUrl}/api/stock-data/korean?symbol=${stockCode}`);
-        if (response.ok) {
-          const data = await response.json();
-          const currentPrice = data.regularMarketPrice || 0;
-          let previousClose = data.previousClose || currentPrice;
-          let change = currentPrice - previousClose;
-          let changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
-          
-          // 주말/휴장일에는 전일 대비 계산이 0이 될 수 있으므로 Yahoo Finance로 대체 시도
-          if (afterMarketClose && (change === 0 || changePercent === 0)) {
-            try {
-              console.log(`Trying Yahoo Finance for Korean stock ${stockCode} due to weekend/holiday`);
-              const yahooResponse = await fetch(`${baseUrl}/api/stock-data/yahoo?symbol=${stockCode}`);
-              if (yahooResponse.ok) {
-                const yahooData = await yahooResponse.json();
-                if (yahooData.regularMarketChange && yahooData.regularMarketChangePercent) {
-                  change = yahooData.regularMarketChange;
-                  changePercent = yahooData.regularMarketChangePercent;
-                  previousClose = currentPrice - change;
-                }
-              }
-            } catch (error) {
-              console.warn(`Yahoo fallback failed for ${stockCode}:`, error);
-            }
-          }
-          
-          return {
-            currentPrice,
-            previousClose,
-            change,
-            changePercent
-          };
-        }
-      } else {
-        console.log(`Skipping Yahoo Finance for metal futures in holdings API: ${stockCode}`);
-        // 금속 선물은 네이버 API를 먼저 시도
-        try {
-          const response = await fetch(`${baseUrl}/api/stock-data/naver?symbol=${stockCode}`);
-          if (response.ok) {
-            const data = await response.json();
-            const currentPrice = data.regularMarketPrice || 0;
-            const previousClose = data.previousClose || currentPrice;
-            const change = currentPrice - previousClose;
-            const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
-            
-            return {
-              currentPrice,
-              previousClose,
-              change,
-              changePercent
-            };
-          }
-        } catch (error) {
-          console.warn(`Naver API failed for ${stockCode} in holdings:`, error);
-        }
-      }
-    } else {
-      // 해외 주식의 경우 Yahoo Finance API 사용
-      const response = await fetch(`${baseUrl}/api/stock-data/yahoo?symbol=${stockCode}`);
-      if (response.ok) {
-        const data = await response.json();
-        const currentPrice = data.regularMarketPrice || 0;
-        let previousClose = data.previousClose || data.regularMarketPreviousClose || currentPrice;
-        let change = data.regularMarketChange || 0;
-        let changePercent = data.regularMarketChangePercent || 0;
-        
-        // 주말/휴장일에는 이전 영업일 기준으로 계산
-        if (afterMarketClose && data.previousTradingDayData) {
-          previousClose = data.previousTradingDayData.close;
-          change = currentPrice - previousClose;
-          changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
-        }
-        
-        return {
-          currentPrice,
-          previousClose,
-          change,
-          changePercent
-        };
-      }
-    }
-  } catch (error) {
-    console.error(`Failed to fetch price data for ${stockCode}:`, error);
-  }
-  
-  // API 호출 실패 시 기본값 반환
-  return {
-    currentPrice: 0,
-    previousClose: 0,
-    change: 0,
-    changePercent: 0
-  };
-}
+import { getCashBalances } from '@/lib/cashLedger';
+import { getExchangeRate } from '@/lib/exchangeRates';
+import { getCurrentPrices, getOldestAsOf } from '@/lib/priceHistory';
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
 
 // GET: 보유종목 목록 조회
 export async function GET(request: NextRequest) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -245,26 +53,35 @@ export async function GET(request: NextRequest) {
 
     const holdings = await prisma.holding.findMany(queryOptions);
 
-    // 환율 정보 가져오기
-    let exchangeRate = 1350; // 기본값
-    try {
-      const exchangeResponse = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3001'}/api/exchange-rate`);
-      if (exchangeResponse.ok) {
-        const exchangeData = await exchangeResponse.json();
-        exchangeRate = exchangeData.data.rate;
-        console.log(`Using exchange rate: ${exchangeRate}`);
-      }
-    } catch (error) {
-      console.warn('Failed to fetch exchange rate, using default:', error);
-    }
+    // 원장 엔진이 기록한 보유 로트 (종목별 취득 내역)
+    const lots = await prisma.lot.findMany({
+      where: {
+        accountId: { in: holdings.map(holding => holding.accountId) },
+        remainingQuantity: { gt: 0 },
+      },
+      orderBy: { acquiredAt: 'asc' },
+    });
+    const lotsByHolding = new Map<string, typeof lots>();
+    lots.forEach(lot => {
+      const key = `${lot.accountId}_${lot.stockCode}`;
+      lotsByHolding.set(key, [...(lotsByHolding.get(key) || []), lot]);
+    });
+
+    // 오늘 환율 (저장된 환율 우선, 없으면 외부 API 조회 후 저장)
+    const exchangeRate = await getExchangeRate('USD');
+    console.log(`Using exchange rate: ${exchangeRate}`);
+
+    // 현재가 (최근 저장 일봉 우선, 오래되면 실시간 조회 후 저장, 장 종료 후 전일 종가 보정은 시세 제공자가 처리)
+    const prices = await getCurrentPrices(holdings.map(holding => holding.stockCode));
 
     // Calculate current prices and portfolio metrics
-    const enrichedHoldings = await Promise.all(holdings.map(async (holding) => {
-      const priceData = await getStockPriceData(holding.stockCode, holding.currency || 'KRW');
-      const currentPrice = priceData.currentPrice;
-      const previousClose = priceData.previousClose;
-      const dailyChange = priceData.change;
-      const dailyChangePercent = priceData.changePercent;
+    const enrichedHoldings = holdings.map((holding) => {
+      const priceData = prices[holding.stockCode];
+      // 시세도 저장된 가격도 없으면 0으로 표시
+      const currentPrice = priceData?.price ?? 0;
+      const previousClose = priceData?.previousClose ?? 0;
+      const dailyChange = priceData?.change ?? 0;
+      const dailyChangePercent = priceData?.changePercent ?? 0;
       const currency = holding.currency || 'KRW';
       
       console.log(`Processing holding: ${holding.stockCode}, currency: ${currency}, currentPrice: ${currentPrice}, previousClose: ${previousClose}, dailyChange: ${dailyChange}, quantity: ${holding.quantity}, averagePrice: ${holding.averagePrice}`);
@@ -281,11 +98,21 @@ export async function GET(request: NextRequest) {
       const todayChangePercent = previousTotalValue > 0 ? (todayChange / previousTotalValue) * 100 : 0;
 
       // 원화 환산 값 (포트폴리오 전체 요약용)
+      // 원화 취득원가는 로트별 매수 시점 환율로 환산 (환율 기록이 없는 로트는 현재 환율)
+      const holdingLots = lotsByHolding.get(`${holding.accountId}_${holding.stockCode}`) || [];
       const totalValueKRW = currency === 'USD' ? totalValue * exchangeRate : totalValue;
-      const totalInvestmentKRW = currency === 'USD' ? totalInvestment * exchangeRate : totalInvestment;
+      const totalInvestmentKRW = currency === 'USD'
+        ? (holdingLots.length > 0
+            ? holdingLots.reduce((sum, lot) => sum + lot.remainingQuantity * lot.unitCost * (lot.fxRate ?? exchangeRate), 0)
+            : totalInvestment * exchangeRate)
+        : totalInvestment;
       const profitLossKRW = totalValueKRW - totalInvestmentKRW;
       const todayChangeKRW = currency === 'USD' ? todayChange * exchangeRate : todayChange;
 
+      // 외화 종목의 원화 손익을 주가 변동분과 환율 변동분으로 분리
+      const priceGainKRW = currency === 'USD' ? profitLoss * exchangeRate : profitLossKRW;
+      const fxGainKRW = currency === 'USD' ? totalInvestment * exchangeRate - totalInvestmentKRW : 0;
+
       console.log(`  Original values: totalValue=${totalValue}, totalInvestment=${totalInvestment}, todayChange=${todayChange}`);
       console.log(`  KRW converted: totalValueKRW=${totalValueKRW}, totalInvestmentKRW=${totalInvestmentKRW}, todayChangeKRW=${todayChangeKRW}, exchangeRate=${exchangeRate}`);
       console.log(`  Applied exchange rate: ${currency === 'USD' ? 'YES' : 'NO'}`);
@@ -293,6 +120,7 @@ export async function GET(request: NextRequest) {
 
       return {
         ...holding,
+        lots: holdingLots,
         currentPrice,
         previousClose,
         dailyChange,
@@ -304,18 +132,42 @@ export async function GET(request: NextRequest) {
         todayChange,
         todayChangePercent,
         currency,
+        priceAsOf: priceData?.asOf || null,
+        priceSource: priceData?.source || null,
+        priceStale: priceData?.stale ?? true,
         // 원화 환산 값들 (전체 요약용)
         totalValueKRW,
         totalInvestmentKRW,
         profitLossKRW,
+        priceGainKRW,
+        fxGainKRW,
         todayChangeKRW,
       };
+    });
+
+    // 계좌·통화별 예수금 (현금 원장)
+    const accounts = await prisma.account.findMany({
+      where: {
+        userId: userId,
+        ...(whereClause.accountId && { id: whereClause.accountId }),
+      },
+      include: { institution: true },
+    });
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const cashBalances = await getCashBalances({ userId, accountId: whereClause.accountId });
+    const cash = cashBalances.map(balance => ({
+      ...balance,
+      account: accountsById.get(balance.accountId),
+      balanceKRW: balance.currency === 'USD' ? balance.balance * exchangeRate : balance.balance,
+      isOverdrawn: balance.balance < 0 || balance.overdrafts.length > 0,
     }));
+    const totalCash = cash.reduce((sum, line) => sum + line.balanceKRW, 0);
 
     // Calculate portfolio summary (모든 자산을 원화로 환산해서 합계)
     const totalValue = enrichedHoldings.reduce((sum, holding) => sum + holding.totalValueKRW, 0);
     const totalInvestment = enrichedHoldings.reduce((sum, holding) => sum + holding.totalInvestmentKRW, 0);
     const totalProfitLoss = totalValue - totalInvestment;
+    const totalFxGain = enrichedHoldings.reduce((sum, holding) => sum + holding.fxGainKRW, 0);
     const totalProfitLossPercentage = totalInvestment > 0 ? (totalProfitLoss / totalInvestment) * 100 : 0;
     
     // 전일 대비 변동 금액 (전체 포트폴리오 기준)
@@ -359,14 +211,22 @@ export async function GET(request: NextRequest) {
       totalInvestment,
       totalProfitLoss,
       totalProfitLossPercentage,
+      totalPriceGain: totalProfitLoss - totalFxGain,
+      totalFxGain,
       totalTodayChange,
       totalTodayChangePercent,
+      totalCash,
+      totalAssets: totalValue + totalCash,
+      hasOverdraft: cash.some(line => line.isOverdrawn),
       exchangeRate,
+      pricesAsOf: getOldestAsOf(Object.values(prices)),
+      hasStalePrices: enrichedHoldings.some(holding => holding.priceStale),
       byCurrency: summaryByCurrency
     };
 
     return NextResponse.json({ 
       holdings: enrichedHoldings, 
+      cash,
       summary 
     });
   } catch (error) {
@@ -383,7 +243,7 @@ export async function POST(request: NextRequest) {
   console.log('POST /api/portfolio/holdings called');
   
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     console.log('User ID from token:', userId);
     
     if (!userId) {
@@ -407,12 +267,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 계좌 소유권 확인
-    const account = await prisma.account.findFirst({
-      where: {
-        id: accountId,
-        userId: userId,
-      },
-    });
+    const account = await findOwnedAccount(userId, accountId);
 
     if (!account) {
       return NextResponse.json(
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// GET: 보유 로트 목록 조회 (개별 로트 지정 매도 시 선택용)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+    const stockCode = searchParams.get('stockCode');
+
+    const lots = await prisma.lot.findMany({
+      where: {
+        account: {
+          userId: payload.userId,
+        },
+        remainingQuantity: { gt: 0 },
+        ...(accountId && accountId !== 'all' && { accountId: accountId }),
+        ...(stockCode && { stockCode: stockCode }),
+      },
+      orderBy: [
+        { stockCode: 'asc' },
+        { acquiredAt: 'asc' },
+      ],
+    });
+
+    return NextResponse.json({ lots });
+  } catch (error) {
+    console.error('Failed to fetch lots:', error);
+    return NextResponse.json(
+      { error: '로트 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rebuildHoldingLedger } from '@/lib/ledger';
+import { getTransactionFxRate } from '@/lib/exchangeRates';
+
+interface RealizedGainItem {
+  year: number;
+  accountId: string;
+  accountNumber: string;
+  accountNickname: string | null;
+  institutionName: string;
+  stockCode: string;
+  stockName: string;
+  currency: string;
+  sellCount: number;
+  quantity: number;
+  proceeds: number; // 수수료 차감 후 매도금액
+  costBasis: number;
+  fees: number;
+  realizedGain: number;
+  realizedGainKRW: number; // 매도 환율로 환산한 매도금액 - 매수 환율로 환산한 취득원가
+  priceGainKRW: number; // 가격 변동분 (현지 통화 실현손익 × 매도 환율)
+  fxGainKRW: number; // 환율 변동분 (취득원가 × (매도 환율 - 매수 환율))
+}
+
+// GET: 연도/계좌/종목/통화별 실현손익 조회
+// 외화 매도는 매도 거래의 환율과 소진된 로트의 매수 환율로 원화 손익을 계산하고 가격·환율 손익을 나눠 보여줍니다
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const year = searchParams.get('year');
+    const accountId = searchParams.get('accountId');
+
+    if (year && !/^\d{4}$/.test(year)) {
+      return NextResponse.json(
+        { error: '연도 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const whereClause = {
+      account: {
+        userId: payload.userId,
+      },
+      transactionType: 'SELL' as const,
+      ...(accountId && accountId !== 'all' && { accountId: accountId }),
+      ...(year && {
+        transactionDate: {
+          gte: new Date(`${year}-01-01T00:00:00.000Z`),
+          lt: new Date(`${parseInt(year) + 1}-01-01T00:00:00.000Z`),
+        },
+      }),
+    };
+
+    // 실현손익(외화는 원화 취득원가까지)이 아직 기록되지 않은 매도가 있으면 해당 종목 원장을 먼저 재생
+    const pendingSells = await prisma.transaction.findMany({
+      where: {
+        ...whereClause,
+        OR: [
+          { realizedGain: null },
+          { currency: { not: 'KRW' }, costBasisKRW: null },
+        ],
+      },
+      distinct: ['accountId', 'stockCode'],
+      select: { accountId: true, stockCode: true },
+    });
+    for (const pending of pendingSells) {
+      await rebuildHoldingLedger(pending.accountId, pending.stockCode);
+    }
+
+    const sells = await prisma.transaction.findMany({
+      where: whereClause,
+      include: {
+        account: {
+          include: {
+            institution: true,
+          },
+        },
+      },
+      orderBy: {
+        transactionDate: 'asc',
+      },
+    });
+
+    // 매도 거래에 기록된 환율 (기록이 없는 예전 매도는 매도일 환율)
+    const sellRates = new Map<string, number>();
+    for (const sell of sells) {
+      sellRates.set(sell.id, await getTransactionFxRate(sell));
+    }
+
+    const itemsMap = new Map<string, RealizedGainItem>();
+
+    sells.forEach(sell => {
+      const sellYear = sell.transactionDate.getFullYear();
+      const key = `${sellYear}_${sell.accountId}_${sell.stockCode}_${sell.currency}`;
+      const realizedGain = sell.realizedGain || 0;
+      const costBasis = sell.costBasis || 0;
+      const proceeds = costBasis + realizedGain;
+
+      const sellRate = sellRates.get(sell.id) || 1;
+      // 매수 환율이 없는 로트가 섞였으면 취득원가도 매도 환율로 환산 (환율 손익 0)
+      const costBasisKRW = sell.currency === 'KRW' ? costBasis : sell.costBasisKRW ?? costBasis * sellRate;
+
+      const item = itemsMap.get(key) || {
+        year: sellYear,
+        accountId: sell.accountId,
+        accountNumber: sell.account.accountNumber,
+        accountNickname: sell.account.nickname,
+        institutionName: sell.account.institution.name,
+        stockCode: sell.stockCode,
+        stockName: sell.stockName,
+        currency: sell.currency,
+        sellCount: 0,
+        quantity: 0,
+        proceeds: 0,
+        costBasis: 0,
+        fees: 0,
+        realizedGain: 0,
+        realizedGainKRW: 0,
+        priceGainKRW: 0,
+        fxGainKRW: 0,
+      };
+
+      item.sellCount++;
+      item.quantity += sell.quantity;
+      item.proceeds += proceeds;
+      item.costBasis += costBasis;
+      item.fees += sell.fees || 0;
+      item.realizedGain += realizedGain;
+      item.realizedGainKRW += proceeds * sellRate - costBasisKRW;
+      item.priceGainKRW += realizedGain * sellRate;
+      item.fxGainKRW += costBasis * sellRate - costBasisKRW;
+      itemsMap.set(key, item);
+    });
+
+    const items = Array.from(itemsMap.values()).sort((a, b) =>
+      b.year - a.year || a.stockName.localeCompare(b.stockName)
+    );
+
+    // 연도별·통화별 합계
+    const byYear: Record<number, {
+      realizedGainKRW: number;
+      priceGainKRW: number;
+      fxGainKRW: number;
+      byCurrency: Record<string, number>;
+    }> = {};
+
+    items.forEach(item => {
+      const yearSummary = byYear[item.year] || { realizedGainKRW: 0, priceGainKRW: 0, fxGainKRW: 0, byCurrency: {} };
+      yearSummary.realizedGainKRW += item.realizedGainKRW;
+      yearSummary.priceGainKRW += item.priceGainKRW;
+      yearSummary.fxGainKRW += item.fxGainKRW;
+      yearSummary.byCurrency[item.currency] = (yearSummary.byCurrency[item.currency] || 0) + item.realizedGain;
+      byYear[item.year] = yearSummary;
+    });
+
+    return NextResponse.json({
+      items,
+      summary: {
+        totalRealizedGainKRW: items.reduce((sum, item) => sum + item.realizedGainKRW, 0),
+        totalPriceGainKRW: items.reduce((sum, item) => sum + item.priceGainKRW, 0),
+        totalFxGainKRW: items.reduce((sum, item) => sum + item.fxGainKRW, 0),
+        byYear,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch realized gains:', error);
+    return NextResponse.json(
+      { error: '실현손익 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import type { AllocationDimension } from '@/generated/prisma';
+import {
+  ALLOCATION_DIMENSIONS,
+  loadAllocationPositions,
+  planRebalance,
+  validateTargets,
+  type RebalanceTarget,
+} from '@/lib/allocation';
+
+// GET: 목표 비중과 현재 배분 비교, 리밸런싱 주문 제안
+// (?dimension=SECURITY|SECTOR|ASSET_CLASS|CURRENCY&accountId=&noSelling=true)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dimension = (searchParams.get('dimension') || 'SECURITY').toUpperCase() as AllocationDimension;
+    const accountParam = searchParams.get('accountId');
+    const accountId = accountParam && accountParam !== 'all' ? accountParam : null;
+    const noSelling = searchParams.get('noSelling') === 'true';
+
+    if (!ALLOCATION_DIMENSIONS.includes(dimension)) {
+      return NextResponse.json(
+        { error: `배분 기준은 ${ALLOCATION_DIMENSIONS.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    if (accountId && !(await findOwnedAccount(payload.userId, accountId))) {
+      return NextResponse.json(
+        { error: '계좌를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const targets = await prisma.targetAllocation.findMany({
+      where: { userId: payload.userId, accountId: accountId, dimension },
+      orderBy: { weight: 'desc' },
+    });
+
+    const { positions, cashBalances } = await loadAllocationPositions(payload.userId, {
+      accountId: accountId || undefined,
+      securityTargets: dimension === 'SECURITY' ? targets.map(target => target.key) : [],
+    });
+
+    const plan = planRebalance(
+      positions,
+      cashBalances,
+      targets.map(target => ({ key: target.key, weight: target.weight, lotSize: target.lotSize })),
+      { dimension, noSelling }
+    );
+
+    console.log(`Rebalance plan for ${payload.userId}: ${dimension}, ${targets.length} targets, ${plan.orders.length} orders`);
+
+    return NextResponse.json({ targets, plan });
+  } catch (error) {
+    console.error('Failed to build rebalance plan:', error);
+    return NextResponse.json(
+      { error: '리밸런싱 계산 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: 목표 비중 저장 ({ accountId?, dimension, targets: [{ key, weight, lotSize? }] }, 해당 기준의 기존 목표를 교체)
+export async function PUT(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const dimension = String(body.dimension || '').toUpperCase() as AllocationDimension;
+    const accountId: string | null = body.accountId && body.accountId !== 'all' ? body.accountId : null;
+
+    if (!ALLOCATION_DIMENSIONS.includes(dimension)) {
+      return NextResponse.json(
+        { error: `배분 기준은 ${ALLOCATION_DIMENSIONS.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.targets)) {
+      return NextResponse.json(
+        { error: '목표 비중 목록이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const targets: RebalanceTarget[] = body.targets.map((target: { key?: string; weight?: number | string; lotSize?: number | string }) => ({
+      key: String(target.key || '').trim(),
+      weight: parseFloat(String(target.weight)),
+      lotSize: target.lotSize !== undefined && target.lotSize !== '' ? Number(target.lotSize) : undefined,
+    }));
+
+    const validationError = validateTargets(targets);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (accountId && !(await findOwnedAccount(payload.userId, accountId))) {
+      return NextResponse.json(
+        { error: '계좌를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.targetAllocation.deleteMany({
+        where: { userId: payload.userId, accountId: accountId, dimension },
+      }),
+      prisma.targetAllocation.createMany({
+        data: targets.map(target => ({
+          userId: payload.userId,
+          accountId,
+          dimension,
+          key: target.key,
+          weight: target.weight,
+          lotSize: dimension === 'SECURITY' ? target.lotSize || 1 : 1,
+        })),
+      }),
+    ]);
+
+    const saved = await prisma.targetAllocation.findMany({
+      where: { userId: payload.userId, accountId: accountId, dimension },
+      orderBy: { weight: 'desc' },
+    });
+
+    return NextResponse.json({ message: '목표 비중이 저장되었습니다.', targets: saved });
+  } catch (error) {
+    console.error('Failed to save target allocation:', error);
+    return NextResponse.json(
+      { error: '목표 비중 저장 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
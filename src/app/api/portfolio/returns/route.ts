@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import {
+  SNAPSHOT_RANGES,
+  ensurePortfolioSnapshots,
+  getRangeStart,
+  type SnapshotRange,
+} from '@/lib/portfolioSnapshots';
+import { calculatePortfolioReturns } from '@/lib/returns';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET: 기간 시간가중(TWR)·금액가중(XIRR) 수익률 - 포트폴리오 전체, 금융기관별, 계좌별
+// (?range=1M|3M|YTD|1Y|ALL 또는 ?from=YYYY-MM-DD&to=YYYY-MM-DD, from/to가 range보다 우선)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const range = (searchParams.get('range') || '1Y').toUpperCase() as SnapshotRange;
+
+    if ((fromParam && !DATE_PATTERN.test(fromParam)) || (toParam && !DATE_PATTERN.test(toParam))) {
+      return NextResponse.json(
+        { error: '날짜는 YYYY-MM-DD 형식이어야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!fromParam && !toParam && !SNAPSHOT_RANGES.includes(range)) {
+      return NextResponse.json(
+        { error: `조회 기간은 ${SNAPSHOT_RANGES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    const from = fromParam ? new Date(`${fromParam}T00:00:00.000Z`) : (toParam ? null : getRangeStart(range));
+    const to = toParam ? new Date(`${toParam}T00:00:00.000Z`) : null;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { error: '날짜 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (from && to && from > to) {
+      return NextResponse.json(
+        { error: '시작일은 종료일보다 늦을 수 없습니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 새로 추가된 거래나 비어 있는 거래일이 있으면 먼저 반영
+    await ensurePortfolioSnapshots(payload.userId);
+
+    const returns = await calculatePortfolioReturns(payload.userId, { from, to });
+    console.log(`Portfolio returns for ${payload.userId}: ${returns.from} ~ ${returns.to}, ${returns.accounts.length} accounts`);
+
+    return NextResponse.json({
+      range: fromParam || toParam ? null : range,
+      ...returns,
+    });
+  } catch (error) {
+    console.error('Failed to calculate portfolio returns:', error);
+    return NextResponse.json(
+      { error: '기간 수익률 계산 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
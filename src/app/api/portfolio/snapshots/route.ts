@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  SNAPSHOT_RANGES,
+  ensurePortfolioSnapshots,
+  getPortfolioSeries,
+  rebuildPortfolioSnapshots,
+  type SnapshotRange,
+} from '@/lib/portfolioSnapshots';
+
+// GET: 일자별 포트폴리오 가치 시계열 (?range=1M|3M|YTD|1Y|ALL&accountId=, 원화 환산)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = (searchParams.get('range') || '1Y').toUpperCase() as SnapshotRange;
+    const accountId = searchParams.get('accountId');
+
+    if (!SNAPSHOT_RANGES.includes(range)) {
+      return NextResponse.json(
+        { error: `조회 기간은 ${SNAPSHOT_RANGES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    // 새로 추가된 거래나 비어 있는 거래일이 있으면 먼저 반영
+    await ensurePortfolioSnapshots(payload.userId);
+
+    const points = await getPortfolioSeries(payload.userId, {
+      range,
+      accountId: accountId && accountId !== 'all' ? accountId : undefined,
+    });
+    const latest = await prisma.portfolioSnapshot.findFirst({
+      where: { userId: payload.userId },
+      orderBy: { updatedAt: 'desc' },
+      select: { updatedAt: true },
+    });
+
+    return NextResponse.json({
+      range,
+      points,
+      asOf: latest?.updatedAt.toISOString() || null,
+    });
+  } catch (error) {
+    console.error('Failed to fetch portfolio snapshots:', error);
+    return NextResponse.json(
+      { error: '포트폴리오 이력 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 포트폴리오 스냅샷 전체 재계산 ({ from? } 지정 시 해당 일자부터)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const from = body.from ? new Date(body.from) : undefined;
+
+    if (from && isNaN(from.getTime())) {
+      return NextResponse.json(
+        { error: '날짜 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const count = await rebuildPortfolioSnapshots(payload.userId, { from });
+
+    return NextResponse.json({ message: `${count}건의 스냅샷을 다시 계산했습니다.`, count });
+  } catch (error) {
+    console.error('Failed to rebuild portfolio snapshots:', error);
+    return NextResponse.json(
+      { error: '포트폴리오 스냅샷 재계산 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
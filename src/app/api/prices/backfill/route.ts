@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { backfillPriceHistory } from '@/lib/priceHistory';
+
+const MAX_BACKFILL_SYMBOLS = 20;
+
+// POST: 일봉 이력 백필 ({ symbols, from?, to?, days? }, 기본 최근 1년)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { symbols, from, to, days } = await request.json();
+
+    if (!Array.isArray(symbols) || symbols.length === 0) {
+      return NextResponse.json(
+        { error: '백필할 종목을 지정해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    if (symbols.length > MAX_BACKFILL_SYMBOLS) {
+      return NextResponse.json(
+        { error: `한 번에 최대 ${MAX_BACKFILL_SYMBOLS}개 종목까지 백필할 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from ? new Date(from) : new Date(toDate.getTime() - (parseInt(days) || 365) * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return NextResponse.json(
+        { error: '기간이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const results: Record<string, number> = {};
+    for (const symbol of symbols.map(String)) {
+      results[symbol] = await backfillPriceHistory(symbol, fromDate, toDate);
+    }
+
+    const failed = Object.keys(results).filter(symbol => results[symbol] === 0);
+    console.log(`일봉 백필 완료: ${symbols.length - failed.length}개 종목, 실패 ${failed.length}개`);
+
+    return NextResponse.json({
+      results,
+      failed,
+      from: fromDate.toISOString().split('T')[0],
+      to: toDate.toISOString().split('T')[0],
+    });
+  } catch (error) {
+    console.error('Price backfill error:', error);
+    return NextResponse.json(
+      { error: '가격 이력 백필 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { ensurePriceHistory } from '@/lib/priceHistory';
+
+// 한 번에 조회·백필할 수 있는 최대 기간
+const MAX_HISTORY_YEARS = 5;
+
+// GET: 종목 일봉 이력 조회 (?symbol=&from=&to=, 기본 최근 1년, 최대 5년, 저장된 이력이 부족하면 자동 백필)
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: '종목 코드가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from ? new Date(from) : new Date(toDate.getTime() - 365 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return NextResponse.json(
+        { error: '날짜 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 조회 기간을 최대 기간으로 제한 (시작일을 당김)
+    const earliest = new Date(toDate);
+    earliest.setUTCFullYear(earliest.getUTCFullYear() - MAX_HISTORY_YEARS);
+    const clampedFrom = fromDate < earliest ? earliest : fromDate;
+
+    const bars = await ensurePriceHistory(symbol, clampedFrom, toDate);
+    const latest = bars[bars.length - 1];
+
+    return NextResponse.json({
+      symbol,
+      currency: latest?.currency || null,
+      bars: bars.map(bar => ({
+        date: bar.date.toISOString().split('T')[0],
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume,
+      })),
+      asOf: latest ? latest.updatedAt.toISOString() : null,
+      source: latest?.source || null,
+    });
+  } catch (error) {
+    console.error('Price history error:', error);
+    return NextResponse.json(
+      { error: '가격 이력을 가져오는데 실패했습니다.' },
+      { status: 500 }
+    );
+  }
+}
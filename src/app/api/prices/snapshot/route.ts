@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { recordDailyCloses } from '@/lib/priceHistory';
+import { recordDailyPortfolioSnapshots } from '@/lib/portfolioSnapshots';
+import { evaluateAlertRules } from '@/lib/alerts';
+
+// POST: 보유 종목 당일 종가와 사용자별 포트폴리오 스냅샷 기록 (스케줄 작업용)
+// cron 등에서는 x-cron-secret 헤더에 CRON_SECRET 값을 넣어 호출하고, 관리자는 로그인 상태로 호출할 수 있습니다.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCronRequest = !!cronSecret && request.headers.get('x-cron-secret') === cronSecret;
+
+    if (!isCronRequest) {
+      const adminUserId = await requireAdmin(request);
+
+      if (!adminUserId) {
+        return NextResponse.json(
+          { error: '관리자 권한이 필요합니다.' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const symbols = Array.isArray(body.symbols) ? body.symbols.map(String) : undefined;
+
+    console.log(`가격 스냅샷 시작 (${isCronRequest ? 'cron' : 'admin'})`);
+    const result = await recordDailyCloses(symbols);
+    // 종가 기록 후 그 가격으로 당일 포트폴리오 가치를 계산
+    const portfolios = await recordDailyPortfolioSnapshots();
+    // 종가 기준으로 총자산·손실률·이벤트 알림 규칙 평가
+    const notifications = await evaluateAlertRules();
+
+    return NextResponse.json({ ...result, portfolios, notifications });
+  } catch (error) {
+    console.error('Price snapshot error:', error);
+    return NextResponse.json(
+      { error: '가격 스냅샷 기록 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
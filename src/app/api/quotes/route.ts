@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuotes, toStockDataResponse } from '@/lib/quotes';
+import { evaluateAlertRules } from '@/lib/alerts';
+import { verifyToken } from '@/lib/auth';
+
+const MAX_SYMBOLS = 100;
+
+// GET: 여러 종목 시세 일괄 조회 (symbols=005930,AAPL,M04020000)
+// 로그인 없이도 조회할 수 있고, 로그인한 사용자면 새 시세로 그 사용자의 알림 규칙만 평가합니다
+// (전체 사용자 평가는 /api/alerts/evaluate 예약 실행에서)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbols = (searchParams.get('symbols') || '')
+      .split(',')
+      .map(symbol => symbol.trim())
+      .filter(Boolean);
+
+    if (symbols.length === 0) {
+      return NextResponse.json({ error: 'symbols 파라미터가 필요합니다.' }, { status: 400 });
+    }
+
+    if (symbols.length > MAX_SYMBOLS) {
+      return NextResponse.json({ error: `한 번에 최대 ${MAX_SYMBOLS}개 종목까지 조회할 수 있습니다.` }, { status: 400 });
+    }
+
+    const quotes = await getQuotes(symbols);
+
+    // 새 시세로 조회한 사용자의 해당 종목 알림 규칙 평가 (실패해도 시세 응답은 그대로 반환)
+    const payload = await verifyToken(request);
+    if (payload) {
+      await evaluateAlertRules({ userId: payload.userId, prices: quotes }).catch(error => {
+        console.error('Alert evaluation after quote refresh failed:', error);
+      });
+    }
+
+    return NextResponse.json({
+      quotes: Object.fromEntries(
+        Object.entries(quotes).map(([symbol, quote]) => [symbol, toStockDataResponse(quote)])
+      ),
+      failed: symbols.filter(symbol => !quotes[symbol]),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Quotes API error:', error);
+    return NextResponse.json(
+      { error: '시세 정보를 가져오는데 실패했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { clearSessionCookies, revokeSession } from '@/lib/sessions';
+
+// DELETE: 기기(세션) 로그아웃 - 현재 기기면 쿠키도 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await revokeSession(payload.userId, params.id, 'USER_REVOKED');
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: '세션을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const current = params.id === payload.sid;
+    console.log(`Session revoked: ${params.id}${current ? ' (current)' : ''}`);
+
+    const response = NextResponse.json({ message: '해당 기기에서 로그아웃했습니다.', current });
+    if (current) {
+      clearSessionCookies(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
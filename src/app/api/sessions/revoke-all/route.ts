@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { clearSessionCookies, revokeUserSessions } from '@/lib/sessions';
+
+// POST: 모든 기기 로그아웃 ({ includeCurrent: true }가 아니면 현재 기기는 유지)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const includeCurrent = body?.includeCurrent === true;
+
+    const revoked = await revokeUserSessions(payload.userId, 'USER_REVOKED', includeCurrent ? undefined : payload.sid);
+    console.log(`Sessions revoked for user ${payload.userId}: ${revoked}${includeCurrent ? ' (including current)' : ''}`);
+
+    const response = NextResponse.json({ revoked, includeCurrent });
+    if (includeCurrent) {
+      clearSessionCookies(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('Sessions revoke error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
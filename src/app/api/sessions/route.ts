@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { listActiveSessions } from '@/lib/sessions';
+
+// GET: 로그인된 기기(세션) 목록 - 현재 기기 표시
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listActiveSessions(payload.userId);
+
+    return NextResponse.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === payload.sid,
+      })),
+    });
+  } catch (error) {
+    console.error('Sessions fetch error:', error);
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
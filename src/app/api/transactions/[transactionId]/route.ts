@@ -1,35 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
+import { rebuildHoldingLedger, validateLotSelections, LotSelectionInput } from '@/lib/ledger';
+import { resolveDividendAmounts } from '@/lib/dividends';
+import { resolveTransactionFxRate } from '@/lib/exchangeRates';
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
 
 // DELETE: 거래 내역 삭제
 export async function DELETE(
@@ -37,7 +11,7 @@ export async function DELETE(
   { params }: { params: { transactionId: string } }
 ) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -77,7 +51,7 @@ export async function DELETE(
 
     // 매수/매도 거래였다면 해당 종목의 보유종목 재계산
     if ((transactionType === 'BUY' || transactionType === 'SELL') && stockCode) {
-      await recalculateHoldingsForStock(accountId, stockCode);
+      await rebuildHoldingLedger(accountId, stockCode);
     }
 
     return NextResponse.json({ message: '거래 내역이 성공적으로 삭제되었습니다.' });
@@ -96,7 +70,7 @@ export async function PUT(
   { params }: { params: { transactionId: string } }
 ) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -135,11 +109,16 @@ export async function PUT(
       price, 
       amount, 
       currency, 
-      fee
+      fee,
+      lotSelections,
+      grossAmount,
+      withholdingTax,
+      exDate,
+      fxRate
     } = body;
 
     // 필수 필드 검증
-    if (!type || !date || !accountId || !amount) {
+    if (!type || !date || !accountId || (!amount && !(type === 'DIVIDEND' && grossAmount))) {
       return NextResponse.json(
         { error: '필수 필드가 누락되었습니다.' },
         { status: 400 }
@@ -147,12 +126,7 @@ export async function PUT(
     }
 
     // 계좌 소유권 확인
-    const account = await prisma.account.findFirst({
-      where: {
-        id: accountId,
-        userId: userId,
-      },
-    });
+    const account = await findOwnedAccount(userId, accountId);
 
     if (!account) {
       return NextResponse.json(
@@ -161,6 +135,53 @@ export async function PUT(
       );
     }
 
+    // 배당은 지급 종목과 연결하고 세전/세후 금액을 다시 계산
+    const dividendAmounts = type === 'DIVIDEND'
+      ? resolveDividendAmounts({
+          amount: amount ? parseFloat(amount.toString()) : undefined,
+          grossAmount: grossAmount ? parseFloat(grossAmount.toString()) : null,
+          withholdingTax: withholdingTax !== undefined && withholdingTax !== null && withholdingTax !== ''
+            ? parseFloat(withholdingTax.toString())
+            : null,
+          currency: currency || 'KRW',
+        })
+      : null;
+
+    if (type === 'DIVIDEND' && (!stockCode || !stockName)) {
+      return NextResponse.json(
+        { error: '배당금은 지급한 종목의 종목코드와 종목명을 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof dividendAmounts === 'string') {
+      return NextResponse.json(
+        { error: dividendAmounts },
+        { status: 400 }
+      );
+    }
+
+    // 로트 지정이 함께 오면 기존 지정을 교체 (생략 시 기존 지정 유지)
+    const selectedLots: LotSelectionInput[] | null = Array.isArray(lotSelections) ? lotSelections : null;
+    if (type === 'SELL' && selectedLots && selectedLots.length > 0) {
+      const selectionError = await validateLotSelections(accountId, stockCode, quantity || 0, selectedLots);
+      if (selectionError) {
+        return NextResponse.json(
+          { error: selectionError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 외화 거래는 거래일 환율을 기록 (찾지 못하면 수정하지 않음)
+    const fxRateResult = await resolveTransactionFxRate(currency || 'KRW', new Date(date), fxRate);
+    if ('error' in fxRateResult) {
+      return NextResponse.json(
+        { error: fxRateResult.error },
+        { status: 400 }
+      );
+    }
+
     // 거래 내역 업데이트
     const updatedTransaction = await prisma.transaction.update({
       where: {
@@ -171,18 +192,51 @@ export async function PUT(
         stockCode: stockCode || '',
         stockName: stockName || '',
         transactionType: type,
-        quantity: quantity || 0,
-        price: price || 0,
-        totalAmount: amount,
+        quantity: dividendAmounts ? (quantity || 1) : (quantity || 0),
+        price: dividendAmounts ? dividendAmounts.grossAmount / (quantity || 1) : (price || 0),
+        totalAmount: dividendAmounts ? dividendAmounts.netAmount : amount,
         fees: fee || 0,
         currency: currency || 'KRW',
+        grossAmount: dividendAmounts?.grossAmount ?? null,
+        withholdingTax: dividendAmounts?.withholdingTax ?? null,
+        exDate: dividendAmounts && exDate ? new Date(exDate) : null,
+        fxRate: fxRateResult.fxRate,
         transactionDate: new Date(date),
+        // 실현손익은 아래 원장 재계산에서 다시 기록
+        costBasis: null,
+        costBasisKRW: null,
+        realizedGain: null,
       },
     });
 
+    if (type !== 'SELL' || selectedLots) {
+      await prisma.lotSelection.deleteMany({
+        where: { sellTransactionId: transactionId },
+      });
+    }
+
+    if (type === 'SELL' && selectedLots && selectedLots.length > 0) {
+      await prisma.lotSelection.createMany({
+        data: selectedLots.map(selection => ({
+          sellTransactionId: transactionId,
+          buyTransactionId: selection.buyTransactionId,
+          quantity: selection.quantity,
+        })),
+      });
+    }
+
+    const isTrade = (type === 'BUY' || type === 'SELL') && stockCode;
+    const wasTrade = existingTransaction.transactionType === 'BUY' || existingTransaction.transactionType === 'SELL';
+    const samePosition = existingTransaction.accountId === accountId && existingTransaction.stockCode === stockCode;
+
+    // 계좌·종목·유형이 바뀐 경우 이전 종목의 보유종목도 재계산
+    if (wasTrade && !(isTrade && samePosition)) {
+      await rebuildHoldingLedger(existingTransaction.accountId, existingTransaction.stockCode);
+    }
+
     // 거래내역 수정 후 해당 종목의 보유종목 재계산
-    if ((type === 'BUY' || type === 'SELL') && stockCode) {
-      await recalculateHoldingsForStock(accountId, stockCode);
+    if (isTrade) {
+      await rebuildHoldingLedger(accountId, stockCode);
     }
 
     return NextResponse.json({ 
@@ -197,87 +251,3 @@ export async function PUT(
     );
   }
 }
-
-// 특정 종목의 보유종목을 거래내역 기반으로 재계산하는 함수
-async function recalculateHoldingsForStock(accountId: string, stockCode: string) {
-  try {
-    // 해당 계좌의 해당 종목 거래내역을 모두 조회
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        accountId: accountId,
-        stockCode: stockCode,
-        OR: [
-          { transactionType: 'BUY' },
-          { transactionType: 'SELL' }
-        ]
-      },
-      orderBy: {
-        transactionDate: 'asc',
-      },
-    });
-
-    let totalQuantity = 0;
-    let totalInvestment = 0;
-
-    // 거래내역을 순차적으로 처리하여 보유수량과 평단가 계산
-    transactions.forEach(transaction => {
-      if (transaction.transactionType === 'BUY') {
-        totalQuantity += transaction.quantity;
-        totalInvestment += transaction.totalAmount;
-      } else if (transaction.transactionType === 'SELL') {
-        const sellQuantity = transaction.quantity;
-        const sellRatio = sellQuantity / totalQuantity;
-        
-        totalQuantity -= sellQuantity;
-        totalInvestment *= (1 - sellRatio); // 매도 비율만큼 투자금액 감소
-      }
-    });
-
-    const averagePrice = totalQuantity > 0 ? totalInvestment / totalQuantity : 0;
-
-    // 기존 보유종목 조회
-    const existingHolding = await prisma.holding.findFirst({
-      where: {
-        accountId: accountId,
-        stockCode: stockCode,
-      },
-    });
-
-    if (totalQuantity > 0) {
-      if (existingHolding) {
-        // 기존 보유종목 업데이트
-        await prisma.holding.update({
-          where: { id: existingHolding.id },
-          data: {
-            quantity: totalQuantity,
-            averagePrice: averagePrice,
-            stockName: transactions[transactions.length - 1]?.stockName || existingHolding.stockName,
-            currency: transactions[transactions.length - 1]?.currency || existingHolding.currency,
-          },
-        });
-      } else {
-        // 새 보유종목 생성
-        const latestTransaction = transactions[transactions.length - 1];
-        await prisma.holding.create({
-          data: {
-            accountId: accountId,
-            stockCode: stockCode,
-            stockName: latestTransaction?.stockName || '',
-            quantity: totalQuantity,
-            averagePrice: averagePrice,
-            currency: latestTransaction?.currency || 'KRW',
-          },
-        });
-      }
-    } else if (existingHolding) {
-      // 보유수량이 0이면 기존 보유종목 삭제
-      await prisma.holding.delete({
-        where: { id: existingHolding.id },
-      });
-    }
-
-    console.log(`보유종목 재계산 완료 - ${stockCode}: 수량 ${totalQuantity}, 평단가 ${averagePrice}`);
-  } catch (error) {
-    console.error('Failed to recalculate holdings:', error);
-  }
-}
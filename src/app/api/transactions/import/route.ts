@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
+import { rebuildLedgers } from '@/lib/ledger';
+import { resolveTransactionFxRate } from '@/lib/exchangeRates';
+import {
+  IMPORT_PROFILES,
+  getDuplicateKey,
+  parseImportRows,
+  readImportFile,
+} from '@/lib/brokerImport';
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+// GET: 가져오기 지원 증권사 프로필 목록
+export async function GET() {
+  return NextResponse.json({
+    profiles: IMPORT_PROFILES.map(profile => ({ id: profile.id, name: profile.name })),
+  });
+}
+
+// POST: 증권사 거래내역 파일 가져오기 (dryRun=true면 미리보기만 반환)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const accountId = formData.get('accountId')?.toString();
+    const profileId = formData.get('profile')?.toString() || 'auto';
+    const dryRun = formData.get('dryRun')?.toString() !== 'false';
+
+    if (!(file instanceof File) || !accountId) {
+      return NextResponse.json(
+        { error: '계좌와 파일을 선택해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: '파일 크기는 5MB 이하여야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const account = await findOwnedAccount(payload.userId, accountId);
+
+    if (!account) {
+      return NextResponse.json(
+        { error: '계좌를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    let rows: string[][];
+    try {
+      rows = readImportFile(file.name, Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      console.error('가져오기 파일 읽기 실패:', error);
+      return NextResponse.json(
+        { error: '파일을 읽을 수 없습니다. CSV 또는 XLSX 파일인지 확인해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseImportRows(rows, profileId === 'auto' ? undefined : profileId);
+    if (typeof parsed === 'string') {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+
+    console.log(`거래내역 가져오기: ${file.name}, 프로필 ${parsed.profile.id}, ${parsed.rows.length}행, 오류 ${parsed.errors.length}행`);
+
+    // 기존 거래 및 파일 내 중복 행 검사
+    const existingTransactions = await prisma.transaction.findMany({
+      where: { accountId },
+      select: {
+        transactionType: true,
+        transactionDate: true,
+        stockCode: true,
+        quantity: true,
+        totalAmount: true,
+      },
+    });
+    // 같은 키의 거래가 DB에 있는 개수만큼만 중복으로 봄 (같은 파일 안의 동일한 부분 체결은 각각 가져옴)
+    const existingCounts = new Map<string, number>();
+    for (const transaction of existingTransactions) {
+      const key = getDuplicateKey(transaction);
+      existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+    }
+    const seenCounts = new Map<string, number>();
+
+    const previewRows = parsed.rows.map(row => {
+      const key = getDuplicateKey(row);
+      const seen = seenCounts.get(key) || 0;
+      seenCounts.set(key, seen + 1);
+      const duplicate = (existingCounts.get(key) || 0) > seen;
+      return { ...row, status: duplicate ? 'duplicate' as const : 'ok' as const };
+    });
+
+    // 미리보기에서 사용자가 중복 표시를 풀고 가져오기로 선택한 행 번호
+    const includeRows = new Set(
+      formData.getAll('includeRows').map(value => Number(value)).filter(Number.isInteger)
+    );
+
+    const summary = {
+      total: parsed.rows.length + parsed.errors.length,
+      valid: previewRows.filter(row => row.status === 'ok').length,
+      duplicates: previewRows.filter(row => row.status === 'duplicate').length,
+      errors: parsed.errors.length,
+    };
+
+    const profile = { id: parsed.profile.id, name: parsed.profile.name };
+
+    if (dryRun) {
+      return NextResponse.json({
+        profile,
+        rows: previewRows,
+        errors: parsed.errors,
+        summary,
+      });
+    }
+
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        { error: '인식할 수 없는 행이 있어 가져올 수 없습니다.', errors: parsed.errors, summary },
+        { status: 400 }
+      );
+    }
+
+    const rowsToImport = previewRows.filter(row => row.status === 'ok' || includeRows.has(row.rowNumber));
+    if (rowsToImport.length === 0) {
+      return NextResponse.json({ message: '가져올 새 거래가 없습니다.', imported: 0, summary });
+    }
+
+    // 환율 조회는 외부 API를 호출할 수 있으므로 트랜잭션 밖에서 미리 결정
+    const createData = [];
+    const fxRateErrors: { rowNumber: number; error: string }[] = [];
+    for (const row of rowsToImport) {
+      const fxRateResult = await resolveTransactionFxRate(row.currency, row.transactionDate);
+      if ('error' in fxRateResult) {
+        fxRateErrors.push({ rowNumber: row.rowNumber, error: fxRateResult.error });
+        continue;
+      }
+
+      const isDividend = row.transactionType === 'DIVIDEND';
+      createData.push({
+        accountId,
+        stockCode: row.stockCode,
+        stockName: row.stockName,
+        transactionType: row.transactionType,
+        quantity: row.quantity,
+        price: row.price,
+        totalAmount: row.totalAmount,
+        fees: row.fees,
+        currency: row.currency,
+        grossAmount: isDividend ? row.totalAmount + (row.withholdingTax || 0) : null,
+        withholdingTax: isDividend ? row.withholdingTax : null,
+        fxRate: fxRateResult.fxRate,
+        transactionDate: row.transactionDate,
+      });
+    }
+
+    // 거래일 환율을 찾지 못한 행이 있으면 하나도 가져오지 않음
+    if (fxRateErrors.length > 0) {
+      return NextResponse.json(
+        { error: '거래일 환율을 찾지 못한 행이 있어 가져올 수 없습니다.', errors: fxRateErrors, summary },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      createData.map(data => prisma.transaction.create({ data }))
+    );
+
+    console.log(`거래내역 가져오기 완료: ${createData.length}건`);
+
+    // 가져온 계좌의 보유종목 재계산
+    const holdingsCount = await rebuildLedgers({ userId: payload.userId, accountId });
+
+    return NextResponse.json({
+      message: `${createData.length}건의 거래를 가져왔습니다.`,
+      imported: createData.length,
+      skipped: previewRows.length - rowsToImport.length,
+      holdingsCount,
+      summary,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to import transactions:', error);
+    return NextResponse.json(
+      { error: '거래내역 가져오기 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
-
-function getUserFromToken(request: NextRequest): string | null {
-  // 먼저 auth-token 쿠키를 확인
-  let token = request.cookies.get('auth-token')?.value;
-  
-  // auth-token이 없으면 token 쿠키를 확인
-  if (!token) {
-    token = request.cookies.get('token')?.value;
-  }
-  
-  console.log('사용 가능한 쿠키들:', request.cookies.getAll().map(c => c.name));
-  console.log('추출한 토큰:', token ? '존재함' : '없음');
-  
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    console.log('토큰에서 추출한 사용자 ID:', payload.userId);
-    return payload.userId;
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
-  }
-}
+import { rebuildHoldingLedger, validateLotSelections, LotSelectionInput } from '@/lib/ledger';
+import { getCashBalances } from '@/lib/cashLedger';
+import { resolveDividendAmounts } from '@/lib/dividends';
+import { resolveTransactionFxRate } from '@/lib/exchangeRates';
+import { findOwnedAccount, verifyToken } from '@/lib/auth';
 
 // GET: 거래 내역 목록 조회
 export async function GET(request: NextRequest) {
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       return NextResponse.json(
@@ -98,7 +69,7 @@ export async function POST(request: NextRequest) {
   console.log('POST /api/transactions 호출됨');
   
   try {
-    const userId = getUserFromToken(request);
+    const userId = (await verifyToken(request))?.userId;
     
     if (!userId) {
       console.log('인증 실패');
@@ -123,11 +94,17 @@ export async function POST(request: NextRequest) {
       price,
       amount,
       currency,
-      fee = 0
+      fee = 0,
+      lotSelections,
+      grossAmount,
+      withholdingTax,
+      exDate,
+      fxRate
     } = body;
+    const selectedLots: LotSelectionInput[] = Array.isArray(lotSelections) ? lotSelections : [];
 
-    // 기본 필수 필드 검증
-    if (!accountId || !type || !date || !amount || !currency) {
+    // 기본 필수 필드 검증 (배당은 세전 배당금만 입력해도 됨)
+    if (!accountId || !type || !date || !currency || (!amount && !(type === 'DIVIDEND' && grossAmount))) {
       console.log('필수 필드 누락');
       return NextResponse.json(
         { error: '필수 필드를 모두 입력해주세요.' },
@@ -137,6 +114,32 @@ export async function POST(request: NextRequest) {
 
     console.log('기본 필드 검증 통과');
 
+    // 배당은 지급 종목과 연결하고 세전 배당금, 원천징수세, 세후 수령액을 확정
+    const dividendAmounts = type === 'DIVIDEND'
+      ? resolveDividendAmounts({
+          amount: amount ? parseFloat(amount.toString()) : undefined,
+          grossAmount: grossAmount ? parseFloat(grossAmount.toString()) : null,
+          withholdingTax: withholdingTax !== undefined && withholdingTax !== null && withholdingTax !== ''
+            ? parseFloat(withholdingTax.toString())
+            : null,
+          currency,
+        })
+      : null;
+
+    if (type === 'DIVIDEND' && (!stockCode || !stockName)) {
+      return NextResponse.json(
+        { error: '배당금은 지급한 종목의 종목코드와 종목명을 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof dividendAmounts === 'string') {
+      return NextResponse.json(
+        { error: dividendAmounts },
+        { status: 400 }
+      );
+    }
+
     // 매수/매도 거래의 경우 추가 필드 검증
     if ((type === 'BUY' || type === 'SELL') && (!stockCode || !stockName || !quantity || !price)) {
       console.log('매수/매도 필수 필드 누락');
@@ -149,54 +152,35 @@ export async function POST(request: NextRequest) {
     // 계좌 소유권 확인
     console.log('계좌 조회 시도:', { accountId, userId });
     
-    const account = await prisma.account.findFirst({
-      where: {
-        id: accountId,
-        userId: userId,
-      },
-    });
+    const account = await findOwnedAccount(userId, accountId);
 
     console.log('계좌 조회 결과:', account);
 
     if (!account) {
-      // 계좌가 존재하는지만 확인
-      const accountExists = await prisma.account.findFirst({
-        where: {
-          id: accountId,
-        },
-      });
-      console.log('계좌 존재 여부:', accountExists);
-      
-      // 사용자의 모든 계좌 확인
-      const userAccounts = await prisma.account.findMany({
-        where: {
-          userId: userId,
-        },
-        select: {
-          id: true,
-          accountNumber: true,
-        },
-      });
-      console.log('사용자 계좌 목록:', userAccounts);
-      
-      console.log('계좌를 찾을 수 없음 - 사용자 ID 불일치');
-      console.log('요청 사용자 ID:', userId);
-      console.log('계좌 소유자 ID:', accountExists?.userId);
       return NextResponse.json(
-        { 
-          error: '본인 소유가 아닌 계좌입니다. 로그아웃 후 다시 로그인해주세요.',
-          details: {
-            requestUserId: userId,
-            accountOwnerId: accountExists?.userId,
-            accountId: accountId
-          }
-        },
-        { status: 403 }
+        { error: '계좌를 찾을 수 없습니다.' },
+        { status: 404 }
       );
     }
 
     console.log('계좌 확인 완료');
 
+    // 개별 로트 지정 매도인 경우 지정한 로트 검증
+    if (type === 'SELL' && selectedLots.length > 0) {
+      const selectionError = await validateLotSelections(
+        accountId,
+        stockCode,
+        parseInt(quantity.toString()),
+        selectedLots
+      );
+      if (selectionError) {
+        return NextResponse.json(
+          { error: selectionError },
+          { status: 400 }
+        );
+      }
+    }
+
     // 모든 거래에 필요한 stockCode, stockName, quantity, price 설정
     let finalStockCode = stockCode;
     let finalStockName = stockName;
@@ -204,11 +188,10 @@ export async function POST(request: NextRequest) {
     let finalPrice = price;
 
     // 매수/매도가 아닌 경우 기본값 설정
-    if (type === 'DIVIDEND') {
-      finalStockCode = finalStockCode || 'DIVIDEND';
-      finalStockName = finalStockName || '배당금';
-      finalQuantity = 1;
-      finalPrice = amount;
+    if (type === 'DIVIDEND' && dividendAmounts) {
+      // 수량은 배당 기준 보유수량(미입력 시 1), 단가는 주당 세전 배당금
+      finalQuantity = quantity ? parseInt(quantity.toString()) : 1;
+      finalPrice = dividendAmounts.grossAmount / finalQuantity;
     } else if (type === 'DEPOSIT') {
       finalStockCode = 'CASH';
       finalStockName = '입금';
@@ -233,6 +216,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 외화 거래는 거래일 환율을 기록 (찾지 못하면 저장하지 않음)
+    const fxRateResult = await resolveTransactionFxRate(currency, new Date(date), fxRate);
+    if ('error' in fxRateResult) {
+      return NextResponse.json(
+        { error: fxRateResult.error },
+        { status: 400 }
+      );
+    }
+
     const transactionCreateData = {
       accountId: accountId,
       stockCode: finalStockCode,
@@ -240,9 +232,13 @@ export async function POST(request: NextRequest) {
       transactionType: type,
       quantity: parseInt(finalQuantity.toString()),
       price: parseFloat(finalPrice.toString()),
-      totalAmount: amount,
+      totalAmount: dividendAmounts ? dividendAmounts.netAmount : amount,
       fees: fee,
       currency: currency,
+      grossAmount: dividendAmounts?.grossAmount ?? null,
+      withholdingTax: dividendAmounts?.withholdingTax ?? null,
+      exDate: dividendAmounts && exDate ? new Date(exDate) : null,
+      fxRate: fxRateResult.fxRate,
       transactionDate: new Date(date),
     };
 
@@ -261,12 +257,34 @@ export async function POST(request: NextRequest) {
 
     console.log('거래 생성 완료:', transaction.id);
 
+    if (type === 'SELL' && selectedLots.length > 0) {
+      await prisma.lotSelection.createMany({
+        data: selectedLots.map(selection => ({
+          sellTransactionId: transaction.id,
+          buyTransactionId: selection.buyTransactionId,
+          quantity: selection.quantity,
+        })),
+      });
+    }
+
     // 매수/매도 거래인 경우 해당 종목의 보유종목 재계산
     if ((type === 'BUY' || type === 'SELL') && stockCode) {
-      await recalculateHoldingsForStock(accountId, stockCode);
+      await rebuildHoldingLedger(accountId, stockCode);
     }
 
-    return NextResponse.json({ transaction }, { status: 201 });
+    // 매수 금액이 예수금을 초과하면 경고와 함께 저장
+    let overdraft = null;
+    if (type === 'BUY') {
+      const cashBalances = await getCashBalances({ userId, accountId });
+      overdraft = cashBalances
+        .flatMap(balance => balance.overdrafts)
+        .find(entry => entry.transactionId === transaction.id) || null;
+      if (overdraft) {
+        console.log('예수금 초과 매수:', overdraft);
+      }
+    }
+
+    return NextResponse.json({ transaction, overdraft }, { status: 201 });
   } catch (error) {
     console.error('Failed to create transaction:', error);
     return NextResponse.json(
@@ -275,90 +293,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// 특정 종목의 보유종목을 거래내역 기반으로 재계산하는 함수
-async function recalculateHoldingsForStock(accountId: string, stockCode: string) {
-  try {
-    // 해당 계좌의 해당 종목 거래내역을 모두 조회
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        accountId: accountId,
-        stockCode: stockCode,
-        OR: [
-          { transactionType: 'BUY' },
-          { transactionType: 'SELL' }
-        ]
-      },
-      orderBy: {
-        transactionDate: 'asc',
-      },
-    });
-
-    let totalQuantity = 0;
-    let totalInvestment = 0;
-
-    // 거래내역을 순차적으로 처리하여 보유수량과 평단가 계산
-    transactions.forEach(transaction => {
-      if (transaction.transactionType === 'BUY') {
-        totalQuantity += transaction.quantity;
-        totalInvestment += transaction.totalAmount;
-      } else if (transaction.transactionType === 'SELL') {
-        const sellQuantity = transaction.quantity;
-        const sellRatio = sellQuantity / totalQuantity;
-        
-        totalQuantity -= sellQuantity;
-        totalInvestment *= (1 - sellRatio); // 매도 비율만큼 투자금액 감소
-      }
-    });
-
-    const averagePrice = totalQuantity > 0 ? totalInvestment / totalQuantity : 0;
-
-    // 기존 보유종목 조회
-    const existingHolding = await prisma.holding.findFirst({
-      where: {
-        accountId: accountId,
-        stockCode: stockCode,
-      },
-    });
-
-    if (totalQuantity > 0) {
-      if (existingHolding) {
-        // 기존 보유종목 업데이트
-        await prisma.holding.update({
-          where: { id: existingHolding.id },
-          data: {
-            quantity: totalQuantity,
-            averagePrice: averagePrice,
-            stockName: transactions[transactions.length - 1]?.stockName || existingHolding.stockName,
-            currency: transactions[transactions.length - 1]?.currency || existingHolding.currency,
-          },
-        });
-        console.log('기존 보유종목 업데이트 완료');
-      } else {
-        // 새 보유종목 생성
-        const latestTransaction = transactions[transactions.length - 1];
-        await prisma.holding.create({
-          data: {
-            accountId: accountId,
-            stockCode: stockCode,
-            stockName: latestTransaction?.stockName || '',
-            quantity: totalQuantity,
-            averagePrice: averagePrice,
-            currency: latestTransaction?.currency || 'KRW',
-          },
-        });
-        console.log('새 보유종목 생성 완료');
-      }
-    } else if (existingHolding) {
-      // 보유수량이 0이면 기존 보유종목 삭제
-      await prisma.holding.delete({
-        where: { id: existingHolding.id },
-      });
-      console.log('보유종목 삭제 완료');
-    }
-
-    console.log(`보유종목 재계산 완료 - ${stockCode}: 수량 ${totalQuantity}, 평단가 ${averagePrice}`);
-  } catch (error) {
-    console.error('Failed to recalculate holdings:', error);
-  }
-}
@@ -21,6 +21,7 @@ export async function GET(request: NextRequest) {
         username: true,
         email: true,
         role: true,
+        totpEnabledAt: true,
         createdAt: true,
       },
     });
@@ -32,7 +33,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ user });
+    const { totpEnabledAt, ...rest } = user;
+    return NextResponse.json({ user: { ...rest, twoFactorEnabled: !!totpEnabledAt } });
   } catch (error) {
     console.error('Failed to fetch user:', error);
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyToken } from '@/lib/auth';
+import { listLoginEvents } from '@/lib/loginSecurity';
 
 export async function GET(request: NextRequest) {
   try {
@@ -32,7 +33,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ user }, { status: 200 });
+    // 최근 로그인 기록 (새 기기 로그인 표시 포함)
+    const loginEvents = await listLoginEvents(user.id);
+
+    return NextResponse.json({ user, loginEvents }, { status: 200 });
 
   } catch (error) {
     console.error('Profile fetch error:', error);
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// DELETE: 관심종목 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const result = await prisma.watchlistItem.deleteMany({
+      where: {
+        id: params.id,
+        userId: payload.userId,
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: '관심종목을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: '관심종목이 삭제되었습니다.' });
+  } catch (error) {
+    console.error('Failed to delete watchlist item:', error);
+    return NextResponse.json(
+      { error: '관심종목 삭제 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
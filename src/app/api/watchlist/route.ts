@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// GET: 관심종목 목록
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const items = await prisma.watchlistItem.findMany({
+      where: { userId: payload.userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Failed to fetch watchlist:', error);
+    return NextResponse.json(
+      { error: '관심종목 조회 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 관심종목 추가 ({ stockCode, stockName? })
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await verifyToken(request);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const stockCode = typeof body.stockCode === 'string' ? body.stockCode.trim().toUpperCase() : '';
+
+    if (!stockCode) {
+      return NextResponse.json(
+        { error: '종목코드를 입력해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.watchlistItem.findUnique({
+      where: { userId_stockCode: { userId: payload.userId, stockCode } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: '이미 관심종목에 있습니다.' },
+        { status: 409 }
+      );
+    }
+
+    const item = await prisma.watchlistItem.create({
+      data: {
+        userId: payload.userId,
+        stockCode,
+        stockName: typeof body.stockName === 'string' && body.stockName.trim() ? body.stockName.trim() : null,
+      },
+    });
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to add watchlist item:', error);
+    return NextResponse.json(
+      { error: '관심종목 추가 중 오류가 발생했습니다.' },
+      { status: 500 }
+    );
+  }
+}
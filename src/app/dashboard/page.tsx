@@ -6,6 +6,8 @@ import Navigation from '@/components/Navigation';
 // 간단한 타입 정의
 interface PortfolioSnapshot {
   totalValue: number;
+  totalCash: number;
+  hasOverdraft: boolean;
   todayChange: number;
   todayChangePercent: number;
   totalReturn: number;
@@ -75,6 +77,8 @@ export default function SimpleDashboard() {
         if (data.summary) {
           setPortfolio({
             totalValue: Math.round(data.summary.totalValue || 0),
+            totalCash: Math.round(data.summary.totalCash || 0),
+            hasOverdraft: !!data.summary.hasOverdraft,
             todayChange: Math.round(data.summary.totalTodayChange || 0),
             todayChangePercent: Number((data.summary.totalTodayChangePercent || 0).toFixed(2)),
             totalReturn: Math.round(data.summary.totalProfitLoss || 0),
@@ -346,13 +350,23 @@ export default function SimpleDashboard() {
             {portfolio ? (
               <div className="p-6">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  {/* 총 평가금액 */}
+                  {/* 총 자산 (주식 평가금액 + 예수금) */}
                   <div className="text-center">
-                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-2">총 평가금액</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-2">총 자산</div>
                     <div className="text-3xl font-bold text-gray-900 dark:text-white mb-1">
-                      ₩{portfolio.totalValue.toLocaleString()}
+                      ₩{(portfolio.totalValue + portfolio.totalCash).toLocaleString()}
                     </div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400"></div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      주식 ₩{portfolio.totalValue.toLocaleString()} · 현금{' '}
+                      <span className={portfolio.totalCash < 0 ? 'text-blue-600 dark:text-blue-400' : ''}>
+                        ₩{portfolio.totalCash.toLocaleString()}
+                      </span>
+                    </div>
+                    {portfolio.hasOverdraft && (
+                      <div className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                        ⚠️ 예수금을 초과한 매수가 있습니다
+                      </div>
+                    )}
                   </div>
                   
                   {/* 오늘 손익 */}
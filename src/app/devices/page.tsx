@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navigation from '@/components/Navigation';
+
+interface SessionItem {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export default function DevicesPage() {
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sessions');
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions);
+      } else if (response.status === 401) {
+        router.push('/login');
+      }
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revokeSession = async (session: SessionItem) => {
+    const message = session.current
+      ? '이 기기에서 로그아웃하시겠습니까?'
+      : `${session.deviceName || '이 기기'}에서 로그아웃하시겠습니까?`;
+    if (!confirm(message)) return;
+
+    setError('');
+    try {
+      const response = await fetch(`/api/sessions/${session.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '로그아웃에 실패했습니다.');
+        return;
+      }
+      if (data.current) {
+        router.push('/login');
+        return;
+      }
+      await fetchSessions();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      setError('로그아웃에 실패했습니다.');
+    }
+  };
+
+  const revokeAll = async (includeCurrent: boolean) => {
+    const message = includeCurrent
+      ? '이 기기를 포함한 모든 기기에서 로그아웃하시겠습니까?'
+      : '이 기기를 제외한 다른 모든 기기에서 로그아웃하시겠습니까?';
+    if (!confirm(message)) return;
+
+    setError('');
+    try {
+      const response = await fetch('/api/sessions/revoke-all', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ includeCurrent }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '로그아웃에 실패했습니다.');
+        return;
+      }
+      if (includeCurrent) {
+        router.push('/login');
+        return;
+      }
+      await fetchSessions();
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+      setError('로그아웃에 실패했습니다.');
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">로그인 기기</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                현재 로그인되어 있는 기기 목록입니다. 모르는 기기가 있으면 로그아웃시키고 비밀번호를 변경하세요.
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Link href="/security" className="px-4 py-2 text-blue-600 dark:text-blue-400 hover:underline">
+                보안 설정
+              </Link>
+              <button
+                onClick={() => revokeAll(false)}
+                disabled={otherSessions.length === 0}
+                className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                다른 기기 모두 로그아웃
+              </button>
+              <button
+                onClick={() => revokeAll(true)}
+                className="px-4 py-2 rounded-md bg-red-600 text-white hover:bg-red-700"
+              >
+                모든 기기 로그아웃
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* 세션 목록 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">불러오는 중...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">로그인된 기기가 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">기기</th>
+                    <th className="py-2 pr-4 font-medium">IP 주소</th>
+                    <th className="py-2 pr-4 font-medium">마지막 사용</th>
+                    <th className="py-2 pr-4 font-medium">로그인</th>
+                    <th className="py-2 font-medium text-right"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map(session => (
+                    <tr key={session.id} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white" title={session.userAgent || undefined}>
+                        {session.deviceName || '알 수 없는 기기'}
+                        {session.current && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-xs">현재 기기</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{session.ipAddress || '-'}</td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{new Date(session.lastUsedAt).toLocaleString('ko-KR')}</td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{new Date(session.createdAt).toLocaleString('ko-KR')}</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button onClick={() => revokeSession(session)} className="text-red-600 dark:text-red-400 hover:underline">
+                          로그아웃
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -16,6 +16,15 @@ interface Account {
   accountNumber: string;
   accountType: string;
   nickname?: string;
+  costBasisMethod?: 'FIFO' | 'AVERAGE' | 'SPECIFIC';
+}
+
+interface Lot {
+  id: string;
+  acquiredAt: string;
+  quantity: number;
+  remainingQuantity: number;
+  unitCost: number;
 }
 
 interface Holding {
@@ -29,9 +38,17 @@ interface Holding {
   totalValue: number;
   profitLoss: number;
   profitLossPercentage: number;
+  fxGainKRW?: number; // 외화 종목의 환율 변동 손익 (원화)
+  lots?: Lot[];
   account: Account;
 }
 
+const COST_BASIS_METHOD_LABELS: Record<string, string> = {
+  FIFO: '선입선출',
+  AVERAGE: '총평균',
+  SPECIFIC: '개별 로트 지정',
+};
+
 export default function HoldingsPage() {
   const [holdings, setHoldings] = useState<Holding[]>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
@@ -485,6 +502,15 @@ export default function HoldingsPage() {
     return new Intl.NumberFormat('ko-KR').format(number);
   };
 
+  // 로트별 취득 내역 툴팁
+  const getLotsTooltip = (holding: Holding) => {
+    const method = COST_BASIS_METHOD_LABELS[holding.account.costBasisMethod || 'FIFO'];
+    const lines = (holding.lots || []).map(lot =>
+      `${new Date(lot.acquiredAt).toLocaleDateString('ko-KR')} · ${formatNumber(lot.remainingQuantity)}/${formatNumber(lot.quantity)}주 · ${formatCurrencyByCurrency(lot.unitCost, holding.currency)}`
+    );
+    return [`취득원가 산정: ${method}`, ...lines].join('\n');
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -1136,6 +1162,11 @@ export default function HoldingsPage() {
                           </td>
                           <td className="px-4 py-3 text-right text-sm text-gray-900 dark:text-white">
                             {formatNumber(holding.quantity)}
+                            {holding.lots && holding.lots.length > 0 && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400 cursor-help" title={getLotsTooltip(holding)}>
+                                {holding.lots.length}개 로트
+                              </div>
+                            )}
                           </td>
                           <td className="px-4 py-3 text-right text-sm text-gray-900 dark:text-white">
                             {formatCurrencyByCurrency(holding.averagePrice, holding.currency)}
@@ -1173,6 +1204,11 @@ export default function HoldingsPage() {
                               : 'text-blue-600 dark:text-blue-400'
                           }`}>
                             {formatCurrencyByCurrency(holding.profitLoss, holding.currency)}
+                            {holding.currency === 'USD' && holding.fxGainKRW !== undefined && (
+                              <div className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                                환차손익 {formatCurrencyByCurrency(holding.fxGainKRW, 'KRW')}
+                              </div>
+                            )}
                           </td>
                           <td className={`px-4 py-3 text-right text-sm font-medium ${
                             holding.profitLossPercentage >= 0 
@@ -1280,6 +1316,11 @@ export default function HoldingsPage() {
                           <div>
                             <span className="text-gray-500 dark:text-gray-400">수량</span>
                             <p className="font-medium text-gray-900 dark:text-white">{formatNumber(holding.quantity)}주</p>
+                            {holding.lots && holding.lots.length > 0 && (
+                              <p className="text-gray-500 dark:text-gray-400" title={getLotsTooltip(holding)}>
+                                {holding.lots.length}개 로트 · {COST_BASIS_METHOD_LABELS[holding.account.costBasisMethod || 'FIFO']}
+                              </p>
+                            )}
                           </div>
                           <div>
                             <span className="text-gray-500 dark:text-gray-400">매입가</span>
@@ -1321,6 +1362,11 @@ export default function HoldingsPage() {
                             }`}>
                               {formatCurrencyByCurrency(holding.profitLoss, holding.currency)}
                             </p>
+                            {holding.currency === 'USD' && holding.fxGainKRW !== undefined && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                환차손익 {formatCurrencyByCurrency(holding.fxGainKRW, 'KRW')}
+                              </p>
+                            )}
                           </div>
                           <div>
                             <span className="text-gray-500 dark:text-gray-400">수익률</span>
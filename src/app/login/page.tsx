@@ -11,6 +11,12 @@ export default function LoginPage() {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  // 2단계 인증 - 비밀번호 확인 후 받은 확인 토큰
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  // 이메일 인증 전인 계정 - 인증 메일 다시 보내기 안내
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [notice, setNotice] = useState('');
   const router = useRouter();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -24,6 +30,8 @@ export default function LoginPage() {
     e.preventDefault();
     setIsLoading(true);
     setError('');
+    setNotice('');
+    setNeedsVerification(false);
 
     try {
       const response = await fetch('/api/auth/login', {
@@ -36,11 +44,16 @@ export default function LoginPage() {
 
       const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.twoFactorRequired) {
+        // 2단계 인증 코드 입력으로 이동
+        setChallengeToken(data.challengeToken);
+        setCode('');
+      } else if (response.ok) {
         // 로그인 성공 시 대시보드로 이동
         router.push('/dashboard');
       } else {
         setError(data.error || '로그인에 실패했습니다.');
+        setNeedsVerification(!!data.emailVerificationRequired);
       }
     } catch (error) {
       console.error('Login error:', error);
@@ -50,6 +63,71 @@ export default function LoginPage() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/login/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        if (typeof data.recoveryCodesRemaining === 'number') {
+          alert(`복구 코드로 로그인했습니다. 남은 복구 코드: ${data.recoveryCodesRemaining}개`);
+        }
+        router.push('/dashboard');
+      } else if (response.status === 401 && !data.remainingAttempts) {
+        // 확인 시간이 지났거나 시도 횟수 초과 - 비밀번호부터 다시
+        setChallengeToken(null);
+        setError(data.error || '다시 로그인해주세요.');
+      } else {
+        setError(data.error || '인증에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      setError('서버 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resendVerification = async () => {
+    setError('');
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: formData.email }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setNeedsVerification(false);
+        setNotice(data.message);
+      } else {
+        setError(data.error || '인증 메일을 보내지 못했습니다.');
+      }
+    } catch (error) {
+      console.error('Verification resend error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
+  const cancelVerify = () => {
+    setChallengeToken(null);
+    setCode('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -72,57 +150,126 @@ export default function LoginPage() {
             </Link>
           </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          {error && (
-            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded">
-              {error}
-            </div>
-          )}
-          <div className="space-y-4">
+        {challengeToken ? (
+          <form className="mt-8 space-y-6" onSubmit={handleVerify}>
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
             <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                이메일
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                2단계 인증 코드
               </label>
               <input
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
+                id="code"
+                name="code"
+                type="text"
+                autoComplete="one-time-code"
+                autoFocus
                 required
-                value={formData.email}
-                onChange={handleChange}
-                className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="이메일을 입력하세요"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm tracking-widest"
+                placeholder="123456"
               />
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                인증 앱에 표시된 6자리 코드를 입력하세요. 기기를 사용할 수 없으면 복구 코드를 입력할 수 있습니다.
+              </p>
             </div>
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                비밀번호
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                value={formData.password}
-                onChange={handleChange}
-                className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="비밀번호를 입력하세요"
-              />
+
+            <div className="space-y-2">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? '확인 중...' : '확인'}
+              </button>
+              <button
+                type="button"
+                onClick={cancelVerify}
+                className="w-full text-center text-sm text-gray-600 dark:text-gray-400 hover:underline"
+              >
+                다른 계정으로 로그인
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+                {error}
+                {needsVerification && (
+                  <button
+                    type="button"
+                    onClick={resendVerification}
+                    className="block mt-2 text-sm font-medium underline"
+                  >
+                    인증 메일 다시 보내기
+                  </button>
+                )}
+              </div>
+            )}
+            {notice && (
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded">
+                {notice}
+              </div>
+            )}
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  이메일
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={formData.email}
+                  onChange={handleChange}
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                  placeholder="이메일을 입력하세요"
+                />
+              </div>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  비밀번호
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={formData.password}
+                  onChange={handleChange}
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                  placeholder="비밀번호를 입력하세요"
+                />
+              </div>
+              <div className="text-right">
+                <Link
+                  href="/forgot-password"
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+                >
+                  비밀번호를 잊으셨나요?
+                </Link>
+              </div>
             </div>
-          </div>
 
-          <div>
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? '로그인 중...' : '로그인'}
-            </button>
-          </div>
-        </form>
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? '로그인 중...' : '로그인'}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navigation from '@/components/Navigation';
+
+interface ProfileUser {
+  id: string;
+  username: string;
+  email: string;
+  createdAt: string;
+}
+
+interface LoginEventItem {
+  id: string;
+  success: boolean;
+  reason: string | null;
+  ipAddress: string | null;
+  deviceName: string | null;
+  newDevice: boolean;
+  createdAt: string;
+}
+
+const FAILURE_REASON_LABELS: Record<string, string> = {
+  INVALID_PASSWORD: '비밀번호 오류',
+  INVALID_TWO_FACTOR: '인증 코드 오류',
+  LOCKED: '계정 잠김',
+  RATE_LIMITED: '시도 횟수 초과',
+  EMAIL_NOT_VERIFIED: '이메일 미인증',
+};
+
+// 이 기간 안에 새 기기 로그인이 있으면 상단에 경고 표시
+const NEW_DEVICE_WARNING_DAYS = 7;
+
+export default function ProfilePage() {
+  const [user, setUser] = useState<ProfileUser | null>(null);
+  const [loginEvents, setLoginEvents] = useState<LoginEventItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const router = useRouter();
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/profile');
+      if (response.ok) {
+        const data = await response.json();
+        setUser(data.user);
+        setLoginEvents(data.loginEvents);
+      } else if (response.status === 401) {
+        router.push('/login');
+      }
+    } catch (error) {
+      console.error('Failed to fetch profile:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const warningSince = Date.now() - NEW_DEVICE_WARNING_DAYS * 24 * 60 * 60 * 1000;
+  const recentNewDevices = loginEvents.filter(event => event.newDevice && new Date(event.createdAt).getTime() > warningSince);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">내 정보</h2>
+              {user && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  {user.username} · {user.email} · {new Date(user.createdAt).toLocaleDateString('ko-KR')} 가입
+                </p>
+              )}
+            </div>
+            <div className="flex gap-4 text-sm">
+              <Link href="/security" className="text-blue-600 dark:text-blue-400 hover:underline">
+                보안 설정
+              </Link>
+              <Link href="/devices" className="text-blue-600 dark:text-blue-400 hover:underline">
+                로그인 기기 관리
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        {recentNewDevices.length > 0 && (
+          <div className="mb-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-800 dark:text-yellow-300">
+            최근 {NEW_DEVICE_WARNING_DAYS}일 동안 처음 보는 기기에서 {recentNewDevices.length}번 로그인했습니다.
+            본인이 아니라면 <Link href="/security" className="underline">비밀번호를 변경</Link>하고{' '}
+            <Link href="/devices" className="underline">로그인 기기</Link>에서 해당 기기를 로그아웃하세요.
+          </div>
+        )}
+
+        {/* 로그인 기록 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">최근 로그인 기록</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            로그인에 성공하거나 실패한 기록을 최근 90일 동안 보관합니다.
+          </p>
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">불러오는 중...</p>
+          ) : loginEvents.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">로그인 기록이 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">시각</th>
+                    <th className="py-2 pr-4 font-medium">결과</th>
+                    <th className="py-2 pr-4 font-medium">기기</th>
+                    <th className="py-2 pr-4 font-medium">IP 주소</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {loginEvents.map(event => (
+                    <tr key={event.id} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{new Date(event.createdAt).toLocaleString('ko-KR')}</td>
+                      <td className="py-2 pr-4">
+                        {event.success ? (
+                          <span className="text-green-600 dark:text-green-400">성공</span>
+                        ) : (
+                          <span className="text-red-600 dark:text-red-400">
+                            실패{event.reason && FAILURE_REASON_LABELS[event.reason] && ` (${FAILURE_REASON_LABELS[event.reason]})`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                        {event.deviceName || '알 수 없는 기기'}
+                        {event.newDevice && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 text-xs">새 기기</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{event.ipAddress || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
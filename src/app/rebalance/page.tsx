@@ -0,0 +1,393 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Navigation from '@/components/Navigation';
+import type { RebalancePlan } from '@/lib/allocation';
+
+interface Account {
+  id: string;
+  accountNumber: string;
+  nickname?: string;
+  institution: { name: string };
+}
+
+interface TargetRow {
+  key: string;
+  weight: string;
+  lotSize: string;
+}
+
+const DIMENSION_OPTIONS = [
+  { value: 'SECURITY', label: '종목' },
+  { value: 'SECTOR', label: '섹터' },
+  { value: 'ASSET_CLASS', label: '자산군' },
+  { value: 'CURRENCY', label: '통화' },
+];
+
+export default function RebalancePage() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState<string>('all');
+  const [dimension, setDimension] = useState<string>('SECURITY');
+  const [noSelling, setNoSelling] = useState(false);
+  const [targets, setTargets] = useState<TargetRow[]>([]);
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const router = useRouter();
+
+  const formatKRW = (value: number) => `₩${Math.round(value).toLocaleString()}`;
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      if (response.ok) {
+        const data = await response.json();
+        setAccounts(data.accounts);
+      } else if (response.status === 401) {
+        router.push('/login');
+      }
+    } catch (error) {
+      console.error('Failed to fetch accounts:', error);
+    }
+  }, [router]);
+
+  // 저장된 목표 비중과 리밸런싱 제안 가져오기
+  const fetchPlan = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ dimension, accountId, noSelling: String(noSelling) });
+      const response = await fetch(`/api/portfolio/rebalance?${params.toString()}`);
+      const data = await response.json();
+      if (response.ok) {
+        setPlan(data.plan);
+        setTargets(data.targets.map((target: { key: string; weight: number; lotSize: number }) => ({
+          key: target.key,
+          weight: String(target.weight),
+          lotSize: String(target.lotSize),
+        })));
+        setError('');
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || '리밸런싱 계산에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Failed to fetch rebalance plan:', error);
+      setError('리밸런싱 계산에 실패했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dimension, accountId, noSelling, router]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const updateTarget = (index: number, field: keyof TargetRow, value: string) => {
+    setTargets(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  // 현재 비중을 목표 초안으로 사용
+  const fillWithCurrent = () => {
+    if (!plan) return;
+    setTargets(plan.allocations
+      .filter(line => line.currentValue > 0)
+      .map(line => ({ key: line.key, weight: line.currentWeight.toFixed(1), lotSize: '1' })));
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setMessage('');
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/portfolio/rebalance', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountId,
+          dimension,
+          targets: targets
+            .filter(row => row.key.trim())
+            .map(row => ({ key: row.key.trim(), weight: row.weight, lotSize: dimension === 'SECURITY' ? row.lotSize : undefined })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '목표 비중 저장에 실패했습니다.');
+        return;
+      }
+      setMessage(data.message);
+      await fetchPlan();
+    } catch (error) {
+      console.error('Failed to save targets:', error);
+      setError('목표 비중 저장에 실패했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalWeight = targets.reduce((sum, row) => sum + (parseFloat(row.weight) || 0), 0);
+  const accountName = (id: string) => {
+    const account = accounts.find(item => item.id === id);
+    return account ? `${account.institution.name} ${account.nickname || account.accountNumber}` : id;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex justify-between items-center flex-wrap gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">리밸런싱</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                목표 비중을 정하고 현재 배분과 비교해 매수·매도 주문을 제안받으세요.
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="all">포트폴리오 전체</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{accountName(account.id)}</option>
+                ))}
+              </select>
+              <select
+                value={dimension}
+                onChange={(e) => setDimension(e.target.value)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {DIMENSION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label} 기준</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={noSelling} onChange={(e) => setNoSelling(e.target.checked)} />
+                매도 없이
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-700 dark:text-green-300">
+            {message}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          {/* 목표 비중 */}
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">목표 비중</h3>
+              <button onClick={fillWithCurrent} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                현재 비중으로 채우기
+              </button>
+            </div>
+            <div className="space-y-2">
+              {targets.map((row, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="text"
+                    value={row.key}
+                    placeholder={dimension === 'SECURITY' ? '종목코드' : '항목'}
+                    onChange={(e) => updateTarget(index, 'key', e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={row.weight}
+                    onChange={(e) => updateTarget(index, 'weight', e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <span className="text-gray-500">%</span>
+                  {dimension === 'SECURITY' && (
+                    <input
+                      type="number"
+                      min="1"
+                      title="주문 단위 (주)"
+                      value={row.lotSize}
+                      onChange={(e) => updateTarget(index, 'lotSize', e.target.value)}
+                      className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                  )}
+                  <button
+                    onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between items-center mt-4 text-sm">
+              <button
+                onClick={() => setTargets(prev => [...prev, { key: '', weight: '', lotSize: '1' }])}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + 항목 추가
+              </button>
+              <span className={totalWeight > 100 ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'}>
+                합계 {totalWeight.toFixed(1)}% · 현금 {Math.max(0, 100 - totalWeight).toFixed(1)}%
+              </span>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="mt-4 w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium"
+            >
+              {isSaving ? '저장 중...' : '저장하고 다시 계산'}
+            </button>
+          </div>
+
+          {/* 현재 vs 목표 배분 */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">현재 배분과 목표</h3>
+            {isLoading ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">계산 중...</div>
+            ) : plan ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">항목</th>
+                      <th className="py-2 pr-4 font-medium text-right">평가금액</th>
+                      <th className="py-2 pr-4 font-medium text-right">현재</th>
+                      <th className="py-2 pr-4 font-medium text-right">목표</th>
+                      <th className="py-2 pr-4 font-medium text-right">차이</th>
+                      <th className="py-2 font-medium text-right">조정 후</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.allocations.map(line => (
+                      <tr key={line.key} className="border-b border-gray-100 dark:border-gray-700">
+                        <td className="py-2 pr-4 text-gray-900 dark:text-white">{line.key}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatKRW(line.currentValue)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{line.currentWeight.toFixed(1)}%</td>
+                        <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">
+                          {line.targetWeight !== null ? `${line.targetWeight.toFixed(1)}%` : '-'}
+                        </td>
+                        <td className={`py-2 pr-4 text-right ${line.difference >= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                          {line.difference >= 0 ? '+' : ''}{formatKRW(line.difference)}
+                        </td>
+                        <td className="py-2 text-right text-gray-900 dark:text-white">{line.afterWeight.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">현금</td>
+                      <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatKRW(plan.cash)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">
+                        {plan.totalValue > 0 ? ((plan.cash / plan.totalValue) * 100).toFixed(1) : '0.0'}%
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{plan.cashTargetWeight.toFixed(1)}%</td>
+                      <td className="py-2 pr-4"></td>
+                      <td className="py-2 text-right text-gray-900 dark:text-white">{formatKRW(plan.cashAfter)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+          </div>
+        </div>
+
+        {/* 제안 주문 */}
+        {plan && (
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">제안 주문</h3>
+            {plan.warnings.length > 0 && (
+              <ul className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md text-sm text-yellow-800 dark:text-yellow-200 list-disc list-inside">
+                {plan.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+            {plan.orders.length > 0 ? (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 pr-4 font-medium">구분</th>
+                        <th className="py-2 pr-4 font-medium">종목</th>
+                        <th className="py-2 pr-4 font-medium">계좌</th>
+                        <th className="py-2 pr-4 font-medium text-right">수량</th>
+                        <th className="py-2 pr-4 font-medium text-right">현재가</th>
+                        <th className="py-2 pr-4 font-medium text-right">금액 (원화)</th>
+                        <th className="py-2 pr-4 font-medium text-right">예상 수수료</th>
+                        <th className="py-2 font-medium text-right">예상 세금</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.orders.map(order => (
+                        <tr key={`${order.side}-${order.accountId}-${order.stockCode}`} className="border-b border-gray-100 dark:border-gray-700">
+                          <td className={`py-2 pr-4 font-medium ${order.side === 'BUY' ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                            {order.side === 'BUY' ? '매수' : '매도'}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900 dark:text-white">{order.stockName} ({order.stockCode})</td>
+                          <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{accountName(order.accountId)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{order.quantity.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">
+                            {order.price.toLocaleString()} {order.currency}
+                          </td>
+                          <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatKRW(order.amountKRW)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{formatKRW(order.estimatedFee)}</td>
+                          <td className="py-2 text-right text-gray-900 dark:text-white">{formatKRW(order.estimatedTax)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-gray-500 dark:text-gray-400">매수 합계</div>
+                    <div className="font-medium text-gray-900 dark:text-white">{formatKRW(plan.totals.buyAmount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 dark:text-gray-400">매도 합계</div>
+                    <div className="font-medium text-gray-900 dark:text-white">{formatKRW(plan.totals.sellAmount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 dark:text-gray-400">예상 수수료</div>
+                    <div className="font-medium text-gray-900 dark:text-white">{formatKRW(plan.totals.fees)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 dark:text-gray-400">예상 세금</div>
+                    <div className="font-medium text-gray-900 dark:text-white">{formatKRW(plan.totals.taxes)}</div>
+                  </div>
+                </div>
+                <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                  수수료와 세금은 추정치입니다 (국내주식 증권거래세 0.15%, 해외주식 양도차익 22%, 기본공제 미반영). 외화 종목은 환전 비용을 포함하지 않습니다.
+                </p>
+              </>
+            ) : (
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {plan.allocations.some(line => line.targetWeight !== null)
+                  ? '목표 비중에 맞춰져 있어 제안할 주문이 없습니다.'
+                  : '목표 비중을 저장하면 주문을 제안합니다.'}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navigation from '@/components/Navigation';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface SetupInfo {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeSvg: string;
+}
+
+export default function SecurityPage() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [setupInfo, setSetupInfo] = useState<SetupInfo | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [passwordForm, setPasswordForm] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const router = useRouter();
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor');
+      if (response.ok) {
+        setStatus(await response.json());
+      } else if (response.status === 401) {
+        router.push('/login');
+      }
+    } catch (error) {
+      console.error('Failed to fetch two-factor status:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // 코드 입력이 필요한 요청 공통 처리
+  const submitCode = async (url: string) => {
+    setError('');
+    setSuccess('');
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '처리 중 오류가 발생했습니다.');
+        return null;
+      }
+      setCode('');
+      return data;
+    } catch (error) {
+      console.error('Two-factor request error:', error);
+      setError('서버 오류가 발생했습니다.');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setError('새 비밀번호가 일치하지 않습니다.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/password', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentPassword: passwordForm.currentPassword,
+          newPassword: passwordForm.newPassword,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '비밀번호 변경에 실패했습니다.');
+        return;
+      }
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setSuccess(data.message);
+    } catch (error) {
+      console.error('Password change error:', error);
+      setError('서버 오류가 발생했습니다.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startSetup = async () => {
+    setError('');
+    setSuccess('');
+    setRecoveryCodes([]);
+    try {
+      const response = await fetch('/api/auth/two-factor/setup', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '2단계 인증 등록을 시작하지 못했습니다.');
+        return;
+      }
+      setSetupInfo(data);
+      setCode('');
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      setError('서버 오류가 발생했습니다.');
+    }
+  };
+
+  const enable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submitCode('/api/auth/two-factor/enable');
+    if (data) {
+      setSetupInfo(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setSuccess(data.message);
+      await fetchStatus();
+    }
+  };
+
+  const regenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('기존 복구 코드는 더 이상 사용할 수 없습니다. 새로 발급하시겠습니까?')) return;
+    const data = await submitCode('/api/auth/two-factor/recovery-codes');
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      setSuccess(data.message);
+      await fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    if (!confirm('2단계 인증을 해제하시겠습니까?')) return;
+    const data = await submitCode('/api/auth/two-factor/disable');
+    if (data) {
+      setRecoveryCodes([]);
+      setSuccess(data.message);
+      await fetchStatus();
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm tracking-widest';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* 페이지 헤더 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">보안 설정</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                비밀번호를 변경하고, 로그인할 때 인증 앱의 코드를 한 번 더 확인하도록 설정할 수 있습니다.
+              </p>
+            </div>
+            <div className="flex gap-4 text-sm">
+              <Link href="/api-tokens" className="text-blue-600 dark:text-blue-400 hover:underline">
+                API 토큰
+              </Link>
+              <Link href="/devices" className="text-blue-600 dark:text-blue-400 hover:underline">
+                로그인 기기 관리
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-700 dark:text-green-300">
+            {success}
+          </div>
+        )}
+
+        {/* 비밀번호 변경 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">비밀번호 변경</h3>
+          <form onSubmit={changePassword} className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            {([
+              { name: 'currentPassword', label: '현재 비밀번호', autoComplete: 'current-password' },
+              { name: 'newPassword', label: '새 비밀번호 (최소 6자)', autoComplete: 'new-password' },
+              { name: 'confirmPassword', label: '새 비밀번호 확인', autoComplete: 'new-password' },
+            ] as const).map(field => (
+              <div key={field.name}>
+                <label htmlFor={field.name} className="block text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
+                <input
+                  id={field.name}
+                  type="password"
+                  autoComplete={field.autoComplete}
+                  required
+                  value={passwordForm[field.name]}
+                  onChange={(e) => setPasswordForm(prev => ({ ...prev, [field.name]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+            ))}
+            <div className="md:col-span-3 flex flex-wrap items-center justify-between gap-2">
+              <p className="text-gray-500 dark:text-gray-400">변경하면 이 기기를 제외한 모든 기기에서 로그아웃됩니다.</p>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                비밀번호 변경
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* 2단계 인증 */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">2단계 인증 (OTP)</h3>
+            {status && (
+              <span className={`px-2 py-0.5 rounded text-xs ${
+                status.enabled
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+              }`}>
+                {status.enabled ? '사용 중' : '사용 안 함'}
+              </span>
+            )}
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">불러오는 중...</p>
+          ) : !status ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">2단계 인증 정보를 불러오지 못했습니다.</p>
+          ) : status.enabled ? (
+            <div className="space-y-4 text-sm">
+              <p className="text-gray-600 dark:text-gray-300">
+                {status.enabledAt && `${new Date(status.enabledAt).toLocaleDateString('ko-KR')}부터 사용 중입니다. `}
+                남은 복구 코드: <span className="font-medium">{status.recoveryCodesRemaining}개</span>
+              </p>
+              <form onSubmit={regenerate} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="인증 코드"
+                  className={inputClassName}
+                />
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !code}
+                  className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  복구 코드 다시 발급
+                </button>
+                {!status.required && (
+                  <button
+                    type="button"
+                    onClick={disable}
+                    disabled={isSubmitting || !code}
+                    className="px-4 py-2 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                  >
+                    2단계 인증 해제
+                  </button>
+                )}
+              </form>
+              <p className="text-gray-500 dark:text-gray-400">
+                {status.required
+                  ? '관리자 계정은 2단계 인증을 해제할 수 없습니다.'
+                  : '복구 코드를 다시 발급하거나 해제하려면 인증 앱의 현재 코드를 입력하세요.'}
+              </p>
+            </div>
+          ) : setupInfo ? (
+            <form onSubmit={enable} className="space-y-4 text-sm">
+              <p className="text-gray-600 dark:text-gray-300">
+                1. Google Authenticator, Microsoft Authenticator 등 인증 앱으로 아래 QR 코드를 스캔하세요.
+              </p>
+              <div className="flex flex-wrap items-start gap-6">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(setupInfo.qrCodeSvg)}`}
+                  alt="2단계 인증 등록 QR 코드"
+                  className="w-48 h-48 border border-gray-200 dark:border-gray-700 rounded"
+                />
+                <div className="space-y-2">
+                  <p className="text-gray-500 dark:text-gray-400">QR 코드를 스캔할 수 없으면 이 키를 직접 입력하세요.</p>
+                  <code className="block px-3 py-2 rounded bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white break-all">
+                    {setupInfo.secret.match(/.{1,4}/g)?.join(' ')}
+                  </code>
+                  <a href={setupInfo.otpauthUrl} className="inline-block text-blue-600 dark:text-blue-400 hover:underline">
+                    이 기기의 인증 앱에서 열기
+                  </a>
+                </div>
+              </div>
+              <p className="text-gray-600 dark:text-gray-300">2. 인증 앱에 표시된 6자리 코드를 입력하세요.</p>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  className={inputClassName}
+                />
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !code}
+                  className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? '확인 중...' : '확인 후 사용'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSetupInfo(null)}
+                  className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:underline"
+                >
+                  취소
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-4 text-sm">
+              {status.required && (
+                <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-yellow-800 dark:text-yellow-300">
+                  관리자 계정은 2단계 인증을 설정해야 관리자 기능을 사용할 수 있습니다.
+                </div>
+              )}
+              <p className="text-gray-600 dark:text-gray-300">
+                2단계 인증을 사용하면 비밀번호가 유출되더라도 인증 앱이 있는 기기 없이는 로그인할 수 없습니다.
+              </p>
+              <button
+                onClick={startSetup}
+                className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+              >
+                2단계 인증 설정
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* 새로 발급한 복구 코드 (이번 한 번만 표시) */}
+        {recoveryCodes.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">복구 코드</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              인증 앱을 사용할 수 없을 때 코드 대신 입력할 수 있습니다. 각 코드는 한 번만 쓸 수 있고 이 화면을 벗어나면 다시 볼 수 없으니 안전한 곳에 보관하세요.
+            </p>
+            <ul className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode} className="px-3 py-2 rounded bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white text-center">
+                  {recoveryCode}
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+              className="mt-4 px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              복사
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
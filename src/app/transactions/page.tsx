@@ -3,6 +3,8 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Navigation from '@/components/Navigation';
+import TransactionImportPanel from '@/components/TransactionImportPanel';
+import { calculateWithholdingTax } from '@/lib/dividends';
 
 interface User {
   id: string;
@@ -21,9 +23,19 @@ interface Account {
   accountNumber: string;
   accountType: string;
   nickname?: string;
+  costBasisMethod?: 'FIFO' | 'AVERAGE' | 'SPECIFIC';
   institution: Institution;
 }
 
+interface Lot {
+  id: string;
+  transactionId: string;
+  acquiredAt: string;
+  quantity: number;
+  remainingQuantity: number;
+  unitCost: number;
+}
+
 interface Transaction {
   id: string;
   type: 'DEPOSIT' | 'WITHDRAWAL' | 'DIVIDEND' | 'BUY' | 'SELL';
@@ -37,6 +49,10 @@ interface Transaction {
   currency: string;
   fees?: number | null; // DB 필드명과 일치
   fee?: number | null; // 호환성을 위해 유지
+  grossAmount?: number | null; // 배당: 세전 배당금
+  withholdingTax?: number | null; // 배당: 원천징수세
+  exDate?: string | null; // 배당: 배당락일
+  fxRate?: number | null; // 거래 시점 원화 환율 (외화 거래)
   description?: string;
   account: Account;
   createdAt: string;
@@ -79,6 +95,7 @@ export default function TransactionsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   
@@ -101,6 +118,10 @@ export default function TransactionsPage() {
     amount: '',
     currency: 'KRW',
     fee: '',
+    grossAmount: '',
+    withholdingTax: '',
+    exDate: '',
+    fxRate: '',
     description: ''
   });
 
@@ -108,6 +129,10 @@ export default function TransactionsPage() {
   const [showStockDropdown, setShowStockDropdown] = useState(false);
   const [stockSearchTerm, setStockSearchTerm] = useState('');
 
+  // 개별 로트 지정 매도 상태 (매수 거래 ID -> 매도 수량)
+  const [availableLots, setAvailableLots] = useState<Lot[]>([]);
+  const [lotSelections, setLotSelections] = useState<Record<string, string>>({});
+
   const router = useRouter();
 
   const fetchData = useCallback(async () => {
@@ -176,6 +201,31 @@ export default function TransactionsPage() {
     fetchData();
   }, [fetchData]);
 
+  // 개별 로트 지정 계좌에서 매도하는 경우에만 로트 선택 표시
+  const isSpecificLotSell = formData.type === 'SELL' &&
+    !!formData.stockCode &&
+    accounts.find(account => account.id === formData.accountId)?.costBasisMethod === 'SPECIFIC';
+
+  useEffect(() => {
+    if (!isSpecificLotSell) {
+      setAvailableLots([]);
+      return;
+    }
+
+    const fetchLots = async () => {
+      try {
+        const response = await fetch(`/api/portfolio/lots?accountId=${formData.accountId}&stockCode=${encodeURIComponent(formData.stockCode)}`);
+        if (response.ok) {
+          const data = await response.json();
+          setAvailableLots(data.lots || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch lots:', error);
+      }
+    };
+    fetchLots();
+  }, [isSpecificLotSell, formData.accountId, formData.stockCode]);
+
   // 필터된 거래내역
   const filteredTransactions = useMemo(() => {
     return transactions.filter(transaction => {
@@ -250,7 +300,7 @@ export default function TransactionsPage() {
         return;
       }
 
-      if ((formData.type === 'BUY' || formData.type === 'SELL') && !formData.stockCode) {
+      if ((formData.type === 'BUY' || formData.type === 'SELL' || formData.type === 'DIVIDEND') && !formData.stockCode) {
         setError('종목 코드를 입력해주세요.');
         return;
       }
@@ -260,6 +310,10 @@ export default function TransactionsPage() {
         return;
       }
 
+      const selectedLots = Object.entries(lotSelections)
+        .filter(([, quantity]) => parseInt(quantity) > 0)
+        .map(([buyTransactionId, quantity]) => ({ buyTransactionId, quantity: parseInt(quantity) }));
+
       const transactionData = {
         type: formData.type,
         date: formData.date,
@@ -271,7 +325,12 @@ export default function TransactionsPage() {
         amount: parseFloat(formData.amount),
         currency: formData.currency,
         fee: formData.fee ? parseFloat(formData.fee) : undefined,
-        description: formData.description || undefined
+        grossAmount: formData.type === 'DIVIDEND' && formData.grossAmount ? parseFloat(formData.grossAmount) : undefined,
+        withholdingTax: formData.type === 'DIVIDEND' && formData.withholdingTax ? parseFloat(formData.withholdingTax) : undefined,
+        exDate: formData.type === 'DIVIDEND' && formData.exDate ? formData.exDate : undefined,
+        fxRate: formData.currency !== 'KRW' && formData.fxRate ? parseFloat(formData.fxRate) : undefined,
+        description: formData.description || undefined,
+        lotSelections: isSpecificLotSell && selectedLots.length > 0 ? selectedLots : undefined
       };
 
       const url = editingTransaction ? `/api/transactions/${editingTransaction.id}` : '/api/transactions';
@@ -286,6 +345,10 @@ export default function TransactionsPage() {
       });
 
       if (response.ok) {
+        const data = await response.json();
+        if (data.overdraft) {
+          alert(`예수금이 부족합니다. 부족 금액: ${data.overdraft.shortfall.toLocaleString()} ${formData.currency}`);
+        }
         await fetchData();
         resetForm();
         setShowForm(false);
@@ -331,6 +394,10 @@ export default function TransactionsPage() {
       amount: amount?.toString() || '',
       currency: transaction.currency,
       fee: fee?.toString() || '',
+      grossAmount: transaction.grossAmount?.toString() || '',
+      withholdingTax: transaction.withholdingTax?.toString() || '',
+      exDate: transaction.exDate ? transaction.exDate.split('T')[0] : '',
+      fxRate: transaction.fxRate?.toString() || '',
       description: transaction.description || ''
     });
     setShowStockDropdown(false);
@@ -369,10 +436,15 @@ export default function TransactionsPage() {
       amount: '',
       currency: 'KRW',
       fee: '',
+      grossAmount: '',
+      withholdingTax: '',
+      exDate: '',
+      fxRate: '',
       description: ''
     });
     setShowStockDropdown(false);
     setStockSearchTerm('');
+    setLotSelections({});
   };
 
   const getTransactionTypeInfo = (type: TransactionType) => {
@@ -470,6 +542,16 @@ export default function TransactionsPage() {
             <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
               <button
                 onClick={() => {
+                  setShowForm(false);
+                  setShowImport(!showImport);
+                }}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+              >
+                📥 가져오기
+              </button>
+              <button
+                onClick={() => {
+                  setShowImport(false);
                   resetForm();
                   setEditingTransaction(null);
                   setShowForm(!showForm);
@@ -598,6 +680,15 @@ export default function TransactionsPage() {
           </div>
         </div>
 
+        {/* 증권사 거래내역 가져오기 */}
+        {showImport && (
+          <TransactionImportPanel
+            accounts={accounts.map(account => ({ id: account.id, label: getAccountDisplayName(account) }))}
+            onClose={() => setShowImport(false)}
+            onImported={fetchData}
+          />
+        )}
+
         {/* 거래내역 등록 폼 */}
         {showForm && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
@@ -638,7 +729,9 @@ export default function TransactionsPage() {
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">거래 날짜</label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {formData.type === 'DIVIDEND' ? '지급일' : '거래 날짜'}
+                  </label>
                   <input
                     type="date"
                     value={formData.date}
@@ -670,7 +763,7 @@ export default function TransactionsPage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="relative">
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      종목 코드 {formData.type === 'DIVIDEND' && <span className="text-gray-500 dark:text-gray-400">(선택)</span>}
+                      종목 코드
                     </label>
                     <div className="relative">
                       <input
@@ -766,7 +859,7 @@ export default function TransactionsPage() {
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      종목명 {formData.type === 'DIVIDEND' && <span className="text-gray-500 dark:text-gray-400">(선택)</span>}
+                      종목명
                     </label>
                     <input
                       type="text"
@@ -835,9 +928,58 @@ export default function TransactionsPage() {
                   </>
                 )}
 
+                {formData.type === 'DIVIDEND' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">세전 배당금</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.grossAmount}
+                        onChange={(e) => {
+                          const grossAmount = e.target.value;
+                          // 기본 원천징수세율(국내 15.4%, 미국 15%) 적용
+                          const withholdingTax = grossAmount
+                            ? calculateWithholdingTax(parseFloat(grossAmount), formData.currency).toString()
+                            : '';
+                          setFormData(prev => ({
+                            ...prev,
+                            grossAmount,
+                            withholdingTax,
+                            amount: grossAmount ? (parseFloat(grossAmount) - parseFloat(withholdingTax)).toString() : prev.amount
+                          }));
+                        }}
+                        className="w-full px-3 py-2 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">원천징수세</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.withholdingTax}
+                        onChange={(e) => {
+                          const withholdingTax = e.target.value;
+                          setFormData(prev => ({
+                            ...prev,
+                            withholdingTax,
+                            amount: prev.grossAmount
+                              ? (parseFloat(prev.grossAmount) - (parseFloat(withholdingTax) || 0)).toString()
+                              : prev.amount
+                          }));
+                        }}
+                        className="w-full px-3 py-2 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    {(formData.type === 'BUY' || formData.type === 'SELL') ? '총 금액' : '금액'}
+                    {(formData.type === 'BUY' || formData.type === 'SELL') ? '총 금액' : formData.type === 'DIVIDEND' ? '세후 수령액' : '금액'}
                   </label>
                   <input
                     type="number"
@@ -847,7 +989,7 @@ export default function TransactionsPage() {
                     onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
                     className="w-full px-3 py-2 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                     required
-                    readOnly={formData.type === 'BUY' || formData.type === 'SELL'}
+                    readOnly={formData.type === 'BUY' || formData.type === 'SELL' || (formData.type === 'DIVIDEND' && !!formData.grossAmount)}
                   />
                 </div>
 
@@ -864,6 +1006,65 @@ export default function TransactionsPage() {
                 </div>
               </div>
 
+              {(formData.type === 'DIVIDEND' || formData.currency !== 'KRW') && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {formData.type === 'DIVIDEND' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">배당락일 (선택)</label>
+                      <input
+                        type="date"
+                        value={formData.exDate}
+                        onChange={(e) => setFormData(prev => ({ ...prev, exDate: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  {formData.currency !== 'KRW' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">적용 환율 (선택)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.fxRate}
+                        onChange={(e) => setFormData(prev => ({ ...prev, fxRate: e.target.value }))}
+                        placeholder="미입력 시 거래일 환율"
+                        className="w-full px-3 py-2 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {isSpecificLotSell && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    매도할 로트 지정 (미지정 수량은 선입선출)
+                  </label>
+                  {availableLots.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">보유 중인 로트가 없습니다.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {availableLots.map((lot) => (
+                        <div key={lot.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                          <span>
+                            {new Date(lot.acquiredAt).toLocaleDateString('ko-KR')} · 잔량 {lot.remainingQuantity.toLocaleString()}주 · 단가 {formatAmount(lot.unitCost, formData.currency)}
+                          </span>
+                          <input
+                            type="number"
+                            min="0"
+                            max={lot.remainingQuantity}
+                            value={lotSelections[lot.transactionId] || ''}
+                            onChange={(e) => setLotSelections(prev => ({ ...prev, [lot.transactionId]: e.target.value }))}
+                            className="w-24 px-2 py-1 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">수수료 (선택)</label>
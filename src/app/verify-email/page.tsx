@@ -0,0 +1,88 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+
+function VerifyEmailResult() {
+  const token = useSearchParams().get('token') || '';
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>(token ? 'loading' : 'error');
+  const [message, setMessage] = useState(token ? '' : '인증 링크가 올바르지 않습니다. 메일의 링크를 다시 확인해주세요.');
+  // 개발 모드에서 effect가 두 번 실행돼도 토큰은 한 번만 사용
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+        setStatus(response.ok ? 'success' : 'error');
+        setMessage(response.ok ? data.message : data.error || '이메일 인증에 실패했습니다.');
+      } catch (error) {
+        console.error('Email verification error:', error);
+        setStatus('error');
+        setMessage('서버 오류가 발생했습니다.');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  if (status === 'loading') {
+    return <p className="text-center text-sm text-gray-500 dark:text-gray-400">이메일을 인증하는 중...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className={status === 'success'
+        ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded'
+        : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded'}
+      >
+        {message}
+      </div>
+      <Link
+        href="/login"
+        className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+      >
+        로그인으로 이동
+      </Link>
+      {status === 'error' && (
+        <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+          로그인 화면에서 인증 메일을 다시 받을 수 있습니다.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <Link href="/" className="flex justify-center">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              myAccountIsEmpty
+            </h1>
+          </Link>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+            이메일 인증
+          </h2>
+        </div>
+        {/* 주소의 token 파라미터를 읽으므로 Suspense로 감쌈 */}
+        <Suspense fallback={<p className="text-center text-sm text-gray-500 dark:text-gray-400">불러오는 중...</p>}>
+          <VerifyEmailResult />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
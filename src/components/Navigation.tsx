@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
+import NotificationBell from '@/components/NotificationBell';
 
 interface NavItem {
   href: string;
@@ -15,8 +16,12 @@ interface User {
   username: string;
   email: string;
   role: string;
+  twoFactorEnabled: boolean;
 }
 
+// 액세스 토큰(15분)이 만료되기 전에 갱신하는 주기
+const SESSION_REFRESH_INTERVAL = 4 * 60 * 1000;
+
 export default function Navigation() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [user, setUser] = useState<User | null>(null);
@@ -39,6 +44,23 @@ export default function Navigation() {
     fetchUser();
   }, []);
 
+  useEffect(() => {
+    // 열려 있는 페이지의 로그인 유지 - 세션이 폐기됐으면 로그인 화면으로
+    const refreshSession = async () => {
+      try {
+        const response = await fetch('/api/auth/refresh', { method: 'POST' });
+        if (response.status === 401) {
+          router.push('/login');
+        }
+      } catch (error) {
+        console.error('Failed to refresh session:', error);
+      }
+    };
+
+    const interval = setInterval(refreshSession, SESSION_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [router]);
+
   const navItems: NavItem[] = [
     {
       href: '/dashboard',
@@ -58,6 +80,15 @@ export default function Navigation() {
         </svg>
       )
     },
+    {
+      href: '/rebalance',
+      label: '리밸런싱',
+      icon: (
+        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+        </svg>
+      )
+    },
     {
       href: '/transactions',
       label: '거래내역관리',
@@ -104,11 +135,14 @@ export default function Navigation() {
   const isAdmin = user?.role === 'ADMIN';
   const allNavItems = isAdmin ? [...navItems, ...adminNavItems] : navItems;
 
-  const handleLogout = () => {
-    // 쿠키 삭제
-    document.cookie = 'auth-token=; path=/; expires=Thu, 01 Jan 1970 00:00:01 GMT';
-    document.cookie = 'token=; path=/; expires=Thu, 01 Jan 1970 00:00:01 GMT';
-    
+  const handleLogout = async () => {
+    // 인증 쿠키는 httpOnly라 서버에서 삭제
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+
     // 홈으로 이동
     router.push('/');
   };
@@ -147,6 +181,41 @@ export default function Navigation() {
                 {item.label}
               </Link>
             ))}
+
+            {/* 알림함 */}
+            <NotificationBell />
+
+            {/* 내 정보 (로그인 기록) */}
+            <Link
+              href="/profile"
+              className={`p-2 rounded-md ${
+                isCurrentPath('/profile')
+                  ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+                  : 'text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              aria-label="내 정보"
+              title="내 정보"
+            >
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+            </Link>
+
+            {/* 로그인 기기 관리 */}
+            <Link
+              href="/devices"
+              className={`p-2 rounded-md ${
+                isCurrentPath('/devices')
+                  ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+                  : 'text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              aria-label="로그인 기기"
+              title="로그인 기기"
+            >
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+            </Link>
             
             {/* 로그아웃 버튼 */}
             <button
@@ -162,6 +231,7 @@ export default function Navigation() {
 
           {/* 모바일 메뉴 버튼 */}
           <div className="md:hidden flex items-center">
+            <NotificationBell />
             <button
               onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
               className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 p-2"
@@ -197,6 +267,32 @@ export default function Navigation() {
                 </Link>
               ))}
               
+              <Link
+                href="/profile"
+                onClick={() => setIsMobileMenuOpen(false)}
+                className="flex items-center px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                <span className="mr-3">
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                  </svg>
+                </span>
+                내 정보
+              </Link>
+
+              <Link
+                href="/devices"
+                onClick={() => setIsMobileMenuOpen(false)}
+                className="flex items-center px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                <span className="mr-3">
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                  </svg>
+                </span>
+                로그인 기기
+              </Link>
+
               {/* 모바일 로그아웃 버튼 */}
               <button
                 onClick={() => {
@@ -214,6 +310,18 @@ export default function Navigation() {
           </div>
         )}
       </div>
+
+      {/* 2단계 인증을 켜지 않은 관리자 안내 (관리자 API는 2단계 인증 후에만 허용) */}
+      {isAdmin && !user?.twoFactorEnabled && pathname !== '/security' && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border-t border-yellow-200 dark:border-yellow-800">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 text-sm text-yellow-800 dark:text-yellow-300">
+            관리자 기능을 사용하려면 2단계 인증을 설정해야 합니다.{' '}
+            <Link href="/security" className="font-medium underline">
+              설정하기
+            </Link>
+          </div>
+        </div>
+      )}
     </nav>
   );
 }
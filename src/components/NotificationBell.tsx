@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+interface NotificationItem {
+  id: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const POLL_INTERVAL = 60 * 1000;
+
+const SNOOZE_OPTIONS = [
+  { label: '1시간', minutes: 60 },
+  { label: '1일', minutes: 24 * 60 },
+];
+
+function formatTime(value: string) {
+  const date = new Date(value);
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (diffMinutes < 1) return '방금';
+  if (diffMinutes < 60) return `${diffMinutes}분 전`;
+  if (diffMinutes < 24 * 60) return `${Math.floor(diffMinutes / 60)}시간 전`;
+  return date.toLocaleDateString('ko-KR');
+}
+
+export default function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const router = useRouter();
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const updateNotification = async (id: string, body: { read?: boolean; snoozeMinutes?: number }) => {
+    try {
+      const response = await fetch(`/api/notifications/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (response.ok) {
+        await fetchNotifications();
+      }
+    } catch (error) {
+      console.error('Failed to update notification:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications/read-all', { method: 'POST' });
+      if (response.ok) {
+        await fetchNotifications();
+      }
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
+  };
+
+  const openNotification = async (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      await updateNotification(notification.id, { read: true });
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700"
+        aria-label="알림"
+      >
+        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[1.1rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">알림</span>
+            <div className="flex items-center space-x-3 text-xs">
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  모두 읽음
+                </button>
+              )}
+              <Link href="/alerts" onClick={() => setIsOpen(false)} className="text-gray-500 dark:text-gray-400 hover:underline">
+                알림 설정
+              </Link>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">새 알림이 없습니다.</p>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${
+                    notification.readAt ? '' : 'bg-blue-50 dark:bg-blue-900/20'
+                  }`}
+                >
+                  <button onClick={() => openNotification(notification)} className="block w-full text-left">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</p>
+                    <p className="mt-0.5 text-xs text-gray-600 dark:text-gray-300">{notification.message}</p>
+                  </button>
+                  <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                    <span>{formatTime(notification.createdAt)}</span>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => updateNotification(notification.id, { read: !notification.readAt })}
+                        className="hover:underline"
+                      >
+                        {notification.readAt ? '안 읽음' : '읽음'}
+                      </button>
+                      {SNOOZE_OPTIONS.map((option) => (
+                        <button
+                          key={option.minutes}
+                          onClick={() => updateNotification(notification.id, { snoozeMinutes: option.minutes })}
+                          className="hover:underline"
+                          title={`${option.label} 뒤에 다시 알림`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ImportAccountOption {
+  id: string;
+  label: string;
+}
+
+interface ImportProfileOption {
+  id: string;
+  name: string;
+}
+
+interface PreviewRow {
+  rowNumber: number;
+  transactionType: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL';
+  transactionDate: string;
+  stockCode: string;
+  stockName: string;
+  quantity: number;
+  price: number;
+  totalAmount: number;
+  fees: number;
+  currency: string;
+  status: 'ok' | 'duplicate';
+}
+
+interface PreviewError {
+  rowNumber: number;
+  error: string;
+}
+
+interface ImportPreview {
+  profile: ImportProfileOption;
+  rows: PreviewRow[];
+  errors: PreviewError[];
+  summary: {
+    total: number;
+    valid: number;
+    duplicates: number;
+    errors: number;
+  };
+}
+
+interface TransactionImportPanelProps {
+  accounts: ImportAccountOption[];
+  onClose: () => void;
+  onImported: () => void | Promise<void>;
+}
+
+const TYPE_LABELS: Record<PreviewRow['transactionType'], string> = {
+  BUY: '매수',
+  SELL: '매도',
+  DIVIDEND: '배당금',
+  DEPOSIT: '입금',
+  WITHDRAWAL: '출금',
+};
+
+export default function TransactionImportPanel({ accounts, onClose, onImported }: TransactionImportPanelProps) {
+  const [profiles, setProfiles] = useState<ImportProfileOption[]>([]);
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [profileId, setProfileId] = useState('auto');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  // 중복으로 표시됐지만 사용자가 가져오기로 선택한 행 번호
+  const [includedRows, setIncludedRows] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/transactions/import')
+      .then(response => response.json())
+      .then(data => setProfiles(data.profiles || []))
+      .catch(error => console.error('Failed to fetch import profiles:', error));
+  }, []);
+
+  const sendImport = async (dryRun: boolean) => {
+    if (!file || !accountId) {
+      setError('계좌와 파일을 선택해주세요.');
+      return null;
+    }
+
+    const body = new FormData();
+    body.append('file', file);
+    body.append('accountId', accountId);
+    body.append('profile', profileId);
+    body.append('dryRun', String(dryRun));
+    if (!dryRun) {
+      includedRows.forEach(rowNumber => body.append('includeRows', String(rowNumber)));
+    }
+
+    const response = await fetch('/api/transactions/import', { method: 'POST', body });
+    const data = await response.json();
+
+    if (!response.ok) {
+      // 행별 오류(거래일 환율 없음 등)가 있으면 함께 표시
+      const rowErrors = ((data.errors || []) as PreviewError[]).map(rowError => `${rowError.rowNumber}행: ${rowError.error}`);
+      setError([data.error || '가져오기에 실패했습니다.', ...rowErrors].join('\n'));
+      return null;
+    }
+
+    return data;
+  };
+
+  const handlePreview = async () => {
+    setIsLoading(true);
+    setError('');
+    setPreview(null);
+    setIncludedRows(new Set());
+
+    try {
+      const data = await sendImport(true);
+      if (data) setPreview(data);
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      setError('미리보기 중 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const data = await sendImport(false);
+      if (data) {
+        alert(data.message);
+        await onImported();
+        onClose();
+      }
+    } catch (error) {
+      console.error('Failed to import transactions:', error);
+      setError('가져오기 중 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleIncludedRow = (rowNumber: number) => {
+    setIncludedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const importCount = (preview?.summary.valid ?? 0) + includedRows.size;
+
+  const formatNumber = (value: number, currency: string) =>
+    new Intl.NumberFormat('ko-KR', {
+      maximumFractionDigits: currency === 'KRW' ? 0 : 2,
+    }).format(value);
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">증권사 거래내역 가져오기</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            증권사 HTS/MTS에서 내려받은 CSV 또는 XLSX 파일을 미리 확인한 뒤 가져옵니다.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+        >
+          <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">계좌</label>
+          <select
+            value={accountId}
+            onChange={(e) => {
+              setAccountId(e.target.value);
+              setPreview(null);
+            }}
+            className={inputClassName}
+          >
+            <option value="">계좌 선택</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{account.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">증권사 형식</label>
+          <select
+            value={profileId}
+            onChange={(e) => {
+              setProfileId(e.target.value);
+              setPreview(null);
+            }}
+            className={inputClassName}
+          >
+            <option value="auto">자동 감지</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">파일</label>
+          <input
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setPreview(null);
+            }}
+            className="w-full text-sm text-gray-700 dark:text-gray-300"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-md text-sm text-red-700 dark:text-red-300 whitespace-pre-line">
+          {error}
+        </div>
+      )}
+
+      {preview && (
+        <div className="mb-4">
+          <div className="flex flex-wrap gap-4 mb-3 text-sm text-gray-700 dark:text-gray-300">
+            <span>형식: <strong>{preview.profile.name}</strong></span>
+            <span>전체 {preview.summary.total}건</span>
+            <span className="text-green-600 dark:text-green-400">가져올 거래 {importCount}건</span>
+            <span className="text-yellow-600 dark:text-yellow-400">중복 {preview.summary.duplicates}건</span>
+            <span className="text-red-600 dark:text-red-400">오류 {preview.summary.errors}건</span>
+          </div>
+
+          {preview.summary.duplicates > 0 && (
+            <p className="mb-3 text-sm text-gray-500 dark:text-gray-400">
+              이미 등록된 거래와 일자·구분·종목·수량·금액이 같은 행은 건너뜁니다. 실제로 다른 거래라면 체크해서 함께 가져오세요.
+            </p>
+          )}
+
+          {preview.errors.length > 0 && (
+            <ul className="mb-3 space-y-1 text-sm text-red-600 dark:text-red-400">
+              {preview.errors.map(rowError => (
+                <li key={rowError.rowNumber}>{rowError.rowNumber}행: {rowError.error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="max-h-96 overflow-auto border border-gray-200 dark:border-gray-700 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr>
+                  {['행', '상태', '일자', '구분', '종목', '수량', '단가', '금액', '수수료'].map(header => (
+                    <th key={header} className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-300">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {preview.rows.map(row => (
+                  <tr key={row.rowNumber} className={row.status === 'duplicate' ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}>
+                    <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.rowNumber}</td>
+                    <td className="px-3 py-2">
+                      {row.status === 'duplicate' ? (
+                        <label className="flex items-center gap-1 text-yellow-700 dark:text-yellow-300 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={includedRows.has(row.rowNumber)}
+                            onChange={() => toggleIncludedRow(row.rowNumber)}
+                          />
+                          {includedRows.has(row.rowNumber) ? '중복 (가져옴)' : '중복 (건너뜀)'}
+                        </label>
+                      ) : (
+                        <span className="text-green-700 dark:text-green-300">신규</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">{row.transactionDate.split('T')[0]}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">{TYPE_LABELS[row.transactionType]}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">
+                      {row.stockCode === 'CASH' ? '-' : `${row.stockName} (${row.stockCode})`}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{row.quantity}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatNumber(row.price, row.currency)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatNumber(row.totalAmount, row.currency)} {row.currency}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatNumber(row.fees, row.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={handlePreview}
+          disabled={isLoading || !file || !accountId}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+        >
+          {isLoading && !preview ? '확인 중...' : '미리보기'}
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={isLoading || !preview || preview.summary.errors > 0 || importCount === 0}
+          className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isLoading && preview ? '가져오는 중...' : `${importCount}건 가져오기`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
   RadialLinearScale,
 } from 'chart.js';
 import { Bar, Doughnut, Radar } from 'react-chartjs-2';
+import type { RiskMetrics } from '@/lib/riskMetrics';
 
 ChartJS.register(
   CategoryScale,
@@ -34,16 +35,9 @@ interface PortfolioAnalytics {
   totalInvestment: number;
   totalReturn: number;
   totalReturnPercent: number;
-  sharpeRatio: number;
-  volatility: number;
-  maxDrawdown: number;
   diversificationScore: number;
   sectorAllocation: { [key: string]: number };
-  riskMetrics: {
-    var95: number;
-    beta: number;
-    alpha: number;
-  };
+  riskMetrics: RiskMetrics;
   performance: {
     daily: number;
     weekly: number;
@@ -139,7 +133,9 @@ export function SectorAllocationChart({ analytics }: AnalyticsChartsProps) {
 }
 
 export function RiskMetricsChart({ analytics }: AnalyticsChartsProps) {
-  // 리스크 지표를 0-100 스케일로 정규화
+  const risk = analytics.riskMetrics;
+
+  // 리스크 지표를 0-100 스케일로 정규화 (이력이 부족해 계산하지 못한 지표는 0)
   const normalizeRisk = (value: number, min: number, max: number) => {
     return Math.max(0, Math.min(100, ((value - min) / (max - min)) * 100));
   };
@@ -150,10 +146,10 @@ export function RiskMetricsChart({ analytics }: AnalyticsChartsProps) {
       {
         label: '리스크 프로파일',
         data: [
-          normalizeRisk(analytics.volatility, 0, 50),
-          normalizeRisk(analytics.riskMetrics.beta, 0, 2) * 100,
-          normalizeRisk(Math.abs(analytics.maxDrawdown), 0, 50),
-          normalizeRisk(analytics.sharpeRatio, -2, 3) * 20,
+          normalizeRisk(risk.volatility ?? 0, 0, 50),
+          normalizeRisk(risk.beta ?? 0, 0, 2),
+          normalizeRisk(Math.abs(risk.maxDrawdown?.percent ?? 0), 0, 50),
+          normalizeRisk(risk.sharpeRatio ?? 0, -2, 3),
           analytics.diversificationScore,
         ],
         backgroundColor: 'rgba(59, 130, 246, 0.2)',
@@ -197,13 +193,16 @@ export function RiskMetricsChart({ analytics }: AnalyticsChartsProps) {
       <div style={{ height: '300px' }}>
         <Radar data={chartData} options={options} />
       </div>
+      {risk.message && (
+        <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-300">{risk.message}</p>
+      )}
       <div className="mt-4 grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-400">
-        <div>변동성: {analytics.volatility.toFixed(1)}%</div>
-        <div>베타: {analytics.riskMetrics.beta.toFixed(2)}</div>
-        <div>최대손실: {analytics.maxDrawdown.toFixed(1)}%</div>
-        <div>샤프비율: {analytics.sharpeRatio.toFixed(2)}</div>
+        <div>변동성: {risk.volatility != null ? `${risk.volatility.toFixed(1)}%` : '-'}</div>
+        <div>베타: {risk.beta != null ? risk.beta.toFixed(2) : '-'}</div>
+        <div>최대손실: {risk.maxDrawdown ? `${risk.maxDrawdown.percent.toFixed(1)}%` : '-'}</div>
+        <div>샤프비율: {risk.sharpeRatio != null ? risk.sharpeRatio.toFixed(2) : '-'}</div>
         <div>다양화점수: {analytics.diversificationScore.toFixed(0)}</div>
-        <div>VaR 95%: {new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(analytics.riskMetrics.var95)}</div>
+        <div>VaR {Math.round((risk.valueAtRisk?.confidence ?? 0.95) * 100)}%: {risk.valueAtRisk ? new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(risk.valueAtRisk.historical.varAmount) : '-'}</div>
       </div>
     </div>
   );
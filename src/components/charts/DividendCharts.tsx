@@ -0,0 +1,113 @@
+'use client';
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+);
+
+interface MonthlyDividendData {
+  month: string; // YYYY-MM
+  netAmountKRW: number;
+  withholdingTaxKRW: number;
+}
+
+interface MonthlyDividendChartProps {
+  data: MonthlyDividendData[];
+}
+
+export function MonthlyDividendChart({ data }: MonthlyDividendChartProps) {
+  const chartData = {
+    labels: data.map(d => `${d.month.slice(2, 4)}.${d.month.slice(5, 7)}`),
+    datasets: [
+      {
+        label: '세후 배당금',
+        data: data.map(d => d.netAmountKRW),
+        backgroundColor: '#10B981',
+        borderColor: '#059669',
+        borderWidth: 1,
+      },
+      {
+        label: '원천징수세',
+        data: data.map(d => d.withholdingTaxKRW),
+        backgroundColor: '#D1D5DB',
+        borderColor: '#9CA3AF',
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context: TooltipItem<'bar'>) {
+            const value = new Intl.NumberFormat('ko-KR', {
+              style: 'currency',
+              currency: 'KRW',
+            }).format(context.parsed.y);
+            return `${context.dataset.label}: ${value}`;
+          },
+          footer: function(items: TooltipItem<'bar'>[]) {
+            const gross = items.reduce((sum, item) => sum + item.parsed.y, 0);
+            return `세전 합계: ${new Intl.NumberFormat('ko-KR', {
+              style: 'currency',
+              currency: 'KRW',
+            }).format(gross)}`;
+          },
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        stacked: true,
+        ticks: {
+          callback: function(value: string | number) {
+            return new Intl.NumberFormat('ko-KR', {
+              style: 'currency',
+              currency: 'KRW',
+              notation: 'compact',
+            }).format(value as number);
+          },
+        },
+      },
+      x: {
+        stacked: true,
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">월별 배당 수입</h3>
+      <div style={{ height: '300px' }}>
+        <Bar data={chartData} options={options} />
+      </div>
+    </div>
+  );
+}
@@ -439,3 +439,196 @@ export function PerformanceChart({ holdings }: PortfolioChartsProps) {
     </div>
   );
 }
+
+interface NetWorthPoint {
+  date: string; // YYYY-MM-DD
+  totalValue: number;
+  investedCapital: number;
+  cash: number;
+}
+
+interface NetWorthChartProps {
+  points: NetWorthPoint[];
+}
+
+export function NetWorthChart({ points }: NetWorthChartProps) {
+  const formatKRW = (value: number, compact = false) => new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency: 'KRW',
+    ...(compact && { notation: 'compact' as const }),
+  }).format(value);
+
+  const chartData = {
+    labels: points.map(point => point.date.slice(2).replace(/-/g, '.')),
+    datasets: [
+      {
+        label: '총 자산',
+        data: points.map(point => point.totalValue),
+        borderColor: '#3B82F6',
+        backgroundColor: '#3B82F6',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+      },
+      {
+        label: '투자 원금',
+        data: points.map(point => point.investedCapital),
+        borderColor: '#9CA3AF',
+        backgroundColor: '#9CA3AF',
+        borderWidth: 1,
+        borderDash: [4, 4],
+        pointRadius: 0,
+      },
+      {
+        label: '예수금',
+        data: points.map(point => point.cash),
+        borderColor: '#10B981',
+        backgroundColor: '#10B981',
+        borderWidth: 1,
+        pointRadius: 0,
+        hidden: true,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context: TooltipItem<'line'>) {
+            return `${context.dataset.label}: ${formatKRW(context.parsed.y)}`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          maxTicksLimit: 8,
+        },
+      },
+      y: {
+        ticks: {
+          callback: function(value: string | number) {
+            return formatKRW(value as number, true);
+          },
+        },
+        grid: {
+          color: '#E5E7EB',
+        },
+      },
+    },
+  };
+
+  return (
+    <div style={{ height: '300px' }}>
+      {points.length > 0 ? (
+        <Line data={chartData} options={options} />
+      ) : (
+        <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+          기록된 포트폴리오 이력이 없습니다.
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 벤치마크 비교 차트 (누적 수익률 %)
+interface CumulativePoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+interface BenchmarkComparisonChartProps {
+  portfolio: CumulativePoint[];
+  benchmarks: Array<{ id: string; name: string; series: CumulativePoint[] }>;
+}
+
+const BENCHMARK_COLORS = ['#9CA3AF', '#F59E0B', '#10B981', '#8B5CF6', '#EF4444'];
+
+export function BenchmarkComparisonChart({ portfolio, benchmarks }: BenchmarkComparisonChartProps) {
+  const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+  const chartData = {
+    labels: portfolio.map(point => point.date.slice(2).replace(/-/g, '.')),
+    datasets: [
+      {
+        label: '내 포트폴리오',
+        data: portfolio.map(point => point.value),
+        borderColor: '#3B82F6',
+        backgroundColor: '#3B82F6',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+      },
+      ...benchmarks.map((benchmark, index) => ({
+        label: benchmark.name,
+        data: benchmark.series.map(point => point.value),
+        borderColor: BENCHMARK_COLORS[index % BENCHMARK_COLORS.length],
+        backgroundColor: BENCHMARK_COLORS[index % BENCHMARK_COLORS.length],
+        borderWidth: 1,
+        pointRadius: 0,
+        tension: 0.1,
+      })),
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context: TooltipItem<'line'>) {
+            return `${context.dataset.label}: ${formatPercent(context.parsed.y)}`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          maxTicksLimit: 8,
+        },
+      },
+      y: {
+        ticks: {
+          callback: function(value: string | number) {
+            return `${value}%`;
+          },
+        },
+        grid: {
+          color: '#E5E7EB',
+        },
+      },
+    },
+  };
+
+  return (
+    <div style={{ height: '300px' }}>
+      {portfolio.length > 1 ? (
+        <Line data={chartData} options={options} />
+      ) : (
+        <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+          비교할 포트폴리오 이력이 없습니다.
+        </div>
+      )}
+    </div>
+  );
+}
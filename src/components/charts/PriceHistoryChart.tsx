@@ -0,0 +1,122 @@
+'use client';
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+  TooltipItem,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+);
+
+interface PriceBarData {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+interface PriceHistoryChartProps {
+  title: string;
+  bars: PriceBarData[];
+  currency: string;
+  averagePrice?: number; // 평균 매수가 기준선
+}
+
+export function PriceHistoryChart({ title, bars, currency, averagePrice }: PriceHistoryChartProps) {
+  const formatPrice = (value: number) => new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: currency === 'KRW' ? 0 : 2,
+  }).format(value);
+
+  const chartData = {
+    labels: bars.map(bar => bar.date.slice(2).replace(/-/g, '.')),
+    datasets: [
+      {
+        label: '종가',
+        data: bars.map(bar => bar.close),
+        borderColor: '#3B82F6',
+        backgroundColor: 'rgba(59, 130, 246, 0.1)',
+        borderWidth: 2,
+        fill: true,
+        pointRadius: 0,
+        tension: 0.1,
+      },
+      ...(averagePrice ? [{
+        label: '평균 매수가',
+        data: bars.map(() => averagePrice),
+        borderColor: '#9CA3AF',
+        backgroundColor: 'transparent',
+        borderWidth: 1,
+        borderDash: [4, 4],
+        fill: false,
+        pointRadius: 0,
+      }] : []),
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context: TooltipItem<'line'>) {
+            return `${context.dataset.label}: ${formatPrice(context.parsed.y)}`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          maxTicksLimit: 8,
+        },
+      },
+      y: {
+        ticks: {
+          callback: function(value: string | number) {
+            return formatPrice(value as number);
+          },
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{title}</h3>
+      <div style={{ height: '300px' }}>
+        {bars.length > 0 ? (
+          <Line data={chartData} options={options} />
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            가격 이력이 없습니다.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
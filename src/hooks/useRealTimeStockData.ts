@@ -87,104 +87,21 @@ export function useRealTimeStockData({
 
     setIsLoading(true);
     setError(null);
-    console.log(`111`);
 
     try {
-      // 모든 심볼에 대해 병렬로 데이터 가져오기
-      const promises = symbolsToFetch.map(async (symbol) => {
-        try {
-          // 한국 종목 (6자리 숫자)인지 확인
-          const isKoreanStock = /^\d{6}$/.test(symbol);
-          // 한국 선물/옵션 (M으로 시작하는 8자리)인지 확인
-          const isKoreanFutures = /^M\d{8}$/.test(symbol);
-          // M0으로 시작하는 금속 선물인지 확인 (야후에서 지원하지 않음)
-          const isMetalFutures = /^M0\d{7}$/.test(symbol);
-          
-          console.log(`Processing symbol: ${symbol}, isMetalFutures: ${isMetalFutures}, isKoreanFutures: ${isKoreanFutures}`);
-          
-          let response;
-          let data = null;
-            
-          if (isKoreanStock || isMetalFutures) {
-            // 한국 종목/선물은 여러 API 순차적으로 시도
-            
-            // M0으로 시작하는 금속 선물은 야후를 건너뛰고 바로 네이버로
-            if (!isMetalFutures) {
-              // 1. Yahoo Finance 시도 (금속 선물이 아닌 경우에만)
-              try {
-                const yahooSymbol = isKoreanStock ? `${symbol}.KS` : symbol;
-                response = await fetch(`/api/stock-data/yahoo?symbol=${encodeURIComponent(yahooSymbol)}`);
-                if (response.ok) {
-                  data = await response.json();
-                  console.log(`Yahoo Finance success for ${symbol}`);
-                }
-              } catch (yahooError) {
-                console.warn(`Yahoo Finance failed for ${symbol}:`, yahooError);
-              }
-            } else {
-              console.log(`Skipping Yahoo Finance for metal futures (M0 series): ${symbol}`);
-            }
-
-            // 2. Yahoo Finance 실패 시 또는 금속 선물인 경우 네이버 시도
-            if (!data) {
-              try {
-                response = await fetch(`/api/stock-data/naver?symbol=${encodeURIComponent(symbol)}`);
-                if (response.ok) {
-                  data = await response.json();
-                  console.log(`Naver Finance success for ${symbol}`);
-                }
-              } catch (naverError) {
-                console.warn(`Naver Finance failed for ${symbol}:`, naverError);
-              }
-            }
-
-            // 3. 네이버도 실패 시 기존 Korean API 시도 (일반 주식에만, 마지막 폴백)
-            if (!data && isKoreanStock && !isMetalFutures) {
-              try {
-                response = await fetch(`/api/stock-data/korean?symbol=${encodeURIComponent(symbol)}`);
-                if (response.ok) {
-                  data = await response.json();
-                  console.log(`Korean API fallback success for ${symbol}`);
-                }
-              } catch (koreanError) {
-                console.warn(`Korean API failed for ${symbol}:`, koreanError);
-              }
-            }
+      // 서버의 시세 제공자 레지스트리를 통해 일괄 조회 (종목별 제공자 선택과 폴백은 서버에서 처리)
+      const response = await fetch(`/api/quotes?symbols=${symbolsToFetch.map(encodeURIComponent).join(',')}`);
+      if (!response.ok) {
+        throw new Error(`시세 조회 실패 (상태코드: ${response.status})`);
+      }
 
-          } else {
-            // 해외 종목은 Yahoo Finance API만 사용
-            try {
-              response = await fetch(`/api/stock-data/yahoo?symbol=${encodeURIComponent(symbol)}`);
-              if (response.ok) {
-                data = await response.json();
-              }
-            } catch (yahooError) {
-              console.warn(`Yahoo Finance failed for foreign stock ${symbol}:`, yahooError);
-            }
-          }
-          
-          if (!data) {
-            throw new Error(`All APIs failed for ${symbol}`);
-          }
-          
-          return { symbol, data };
-        } catch (err) {
-          console.error(`Error fetching data for ${symbol}:`, err);
-          return { symbol, data: null };
-        }
-      });
+      const data: { quotes: Record<string, StockData>; failed: string[] } = await response.json();
+      const newStockData = data.quotes || {};
+      const successCount = Object.keys(newStockData).length;
 
-      const results = await Promise.all(promises);
-      
-      // 결과를 stockData 객체에 병합
-      const newStockData: Record<string, StockData> = {};
-      let successCount = 0;
-      results.forEach(({ symbol, data }) => {
-        if (data) {
-          newStockData[symbol] = data;
-          successCount++;
-        }
-      });
+      if (data.failed?.length > 0) {
+        console.warn('시세 조회 실패 종목:', data.failed);
+      }
 
       setStockData(prev => ({ ...prev, ...newStockData }));
       setLastUpdate(new Date());
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import type { AccountTokenPurpose } from '@/generated/prisma';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+
+// 이메일 인증·비밀번호 재설정 - 토큰을 메일 링크로 보내고 DB에는 SHA-256 해시만 저장합니다.
+//
+// - 새 토큰을 발급하면 같은 용도의 이전 토큰은 폐기
+// - 만료됐거나 한 번 사용한 토큰은 거부
+// - 같은 메일을 짧은 간격으로 여러 번 보내지 않음 (RESEND_INTERVAL_MS)
+// - 링크 주소는 설정값으로만 만듦 (요청의 Host 헤더는 위조할 수 있으므로 사용하지 않음)
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+  PASSWORD_RESET: 60 * 60 * 1000,
+};
+
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+interface MailUser {
+  id: string;
+  email: string;
+  username: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 개발 환경에서 주소를 설정하지 않았을 때 사용
+const DEVELOPMENT_APP_URL = 'http://localhost:3000';
+
+/**
+ * 메일 링크에 쓸 서비스 주소 - 운영 환경은 APP_URL 필수, 개발 환경은 APP_URL > NEXTAUTH_URL > localhost
+ * (설정되지 않았으면 null)
+ */
+export function getAppUrl(): string | null {
+  const url = process.env.NODE_ENV === 'production'
+    ? process.env.APP_URL
+    : process.env.APP_URL || process.env.NEXTAUTH_URL || DEVELOPMENT_APP_URL;
+  if (!url) {
+    console.error('Account mail: APP_URL is not configured, not sending links');
+    return null;
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * 토큰을 발급합니다 (방금 같은 용도로 발급했으면 null)
+ */
+export async function createAccountToken(userId: string, purpose: AccountTokenPurpose): Promise<string | null> {
+  const now = Date.now();
+  const recent = await prisma.accountToken.findFirst({
+    where: { userId, purpose, usedAt: null, createdAt: { gt: new Date(now - RESEND_INTERVAL_MS) } },
+    select: { id: true },
+  });
+  if (recent) {
+    console.log(`Account token (${purpose}) was issued recently for user ${userId}, skipping`);
+    return null;
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await prisma.$transaction([
+    prisma.accountToken.deleteMany({ where: { userId, purpose } }),
+    prisma.accountToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now + TOKEN_TTL_MS[purpose]),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * 토큰을 사용 처리하고 사용자 ID를 반환합니다 (없거나 만료·사용된 토큰이면 null)
+ */
+export async function consumeAccountToken(token: string, purpose: AccountTokenPurpose): Promise<string | null> {
+  const record = await prisma.accountToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  const now = new Date();
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= now) {
+    return null;
+  }
+
+  // 같은 토큰으로 동시에 들어온 요청은 하나만 통과
+  const { count } = await prisma.accountToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: now },
+  });
+  return count > 0 ? record.userId : null;
+}
+
+/**
+ * 이메일 인증 메일 발송
+ */
+export async function sendEmailVerification(user: MailUser): Promise<boolean> {
+  const appUrl = getAppUrl();
+  if (!appUrl) return false;
+
+  const token = await createAccountToken(user.id, 'EMAIL_VERIFICATION');
+  if (!token) return false;
+
+  const link = `${appUrl}/verify-email?token=${token}`;
+  return sendMail({
+    to: user.email,
+    subject: '[myAccountIsEmpty] 이메일 주소를 인증해주세요',
+    text: [
+      `${user.username}님, 가입해주셔서 감사합니다.`,
+      '',
+      '아래 링크를 열어 이메일 주소 인증을 완료하면 로그인할 수 있습니다.',
+      link,
+      '',
+      '링크는 24시간 동안 유효합니다. 직접 가입하지 않았다면 이 메일을 무시하세요.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * 비밀번호 재설정 메일 발송
+ */
+export async function sendPasswordReset(user: MailUser): Promise<boolean> {
+  const appUrl = getAppUrl();
+  if (!appUrl) return false;
+
+  const token = await createAccountToken(user.id, 'PASSWORD_RESET');
+  if (!token) return false;
+
+  const link = `${appUrl}/reset-password?token=${token}`;
+  return sendMail({
+    to: user.email,
+    subject: '[myAccountIsEmpty] 비밀번호 재설정 안내',
+    text: [
+      `${user.username}님, 비밀번호 재설정을 요청하셨습니다.`,
+      '',
+      '아래 링크에서 새 비밀번호를 설정하세요.',
+      link,
+      '',
+      '링크는 1시간 동안 유효하며 한 번만 사용할 수 있습니다. 직접 요청하지 않았다면 이 메일을 무시하세요. 비밀번호는 바뀌지 않습니다.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * 비밀번호가 바뀌었음을 알리는 메일 발송
+ */
+export async function sendPasswordChangedNotice(user: MailUser): Promise<boolean> {
+  return sendMail({
+    to: user.email,
+    subject: '[myAccountIsEmpty] 비밀번호가 변경되었습니다',
+    text: [
+      `${user.username}님, 계정의 비밀번호가 ${new Date().toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' })}에 변경되었습니다.`,
+      '',
+      '본인이 변경하지 않았다면 즉시 비밀번호 재설정을 진행하고 로그인 기기 목록을 확인해주세요.',
+    ].join('\n'),
+  });
+}
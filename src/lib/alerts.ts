@@ -0,0 +1,269 @@
+import { prisma } from '@/lib/prisma';
+import type { AlertRule, AlertType } from '@/generated/prisma';
+import { loadAllocationPositions, type AllocationPosition } from '@/lib/allocation';
+import { MARKET_EVENT_TYPE_LABELS, fetchUpcomingEvents } from '@/lib/marketEvents';
+import { getCurrentPrices } from '@/lib/priceHistory';
+
+// 알림 규칙 평가 - 시세 갱신(/api/quotes)과 스케줄 작업(/api/alerts/evaluate, /api/prices/snapshot) 때
+// 규칙을 평가해 조건을 새로 충족한 경우에만 알림함(Notification)에 기록합니다.
+//
+// - 가격·포트폴리오 규칙은 조건이 풀렸다가(active=false) 다시 충족될 때만 알림
+// - 이벤트 규칙은 이벤트마다 한 번만 알림 (dedupeKey)
+
+export const ALERT_TYPES: AlertType[] = [
+  'PRICE_ABOVE',
+  'PRICE_BELOW',
+  'DAILY_CHANGE',
+  'DRAWDOWN_FROM_COST',
+  'PORTFOLIO_ABOVE',
+  'PORTFOLIO_BELOW',
+  'UPCOMING_EVENT',
+];
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  PRICE_ABOVE: '현재가 이상',
+  PRICE_BELOW: '현재가 이하',
+  DAILY_CHANGE: '일간 등락률',
+  DRAWDOWN_FROM_COST: '평균 매수가 대비 손실',
+  PORTFOLIO_ABOVE: '총자산 이상',
+  PORTFOLIO_BELOW: '총자산 이하',
+  UPCOMING_EVENT: '배당·실적 일정',
+};
+
+// 종목을 지정해야 하는 규칙
+const STOCK_ALERT_TYPES: AlertType[] = ['PRICE_ABOVE', 'PRICE_BELOW', 'DAILY_CHANGE', 'DRAWDOWN_FROM_COST'];
+const PORTFOLIO_ALERT_TYPES: AlertType[] = ['PORTFOLIO_ABOVE', 'PORTFOLIO_BELOW'];
+
+export const DEFAULT_EVENT_LEAD_DAYS = 2;
+
+export interface AlertPrice {
+  price: number;
+  changePercent: number;
+  currency?: string;
+}
+
+interface RuleResult {
+  met: boolean;
+  title?: string;
+  message?: string;
+  link?: string;
+}
+
+/**
+ * 알림 규칙 입력값을 검증합니다 (오류 메시지 또는 null)
+ */
+export function validateAlertRule(input: { type?: string; stockCode?: string | null; threshold?: number }): string | null {
+  if (!input.type || !ALERT_TYPES.includes(input.type as AlertType)) {
+    return `알림 유형은 ${ALERT_TYPES.join(', ')} 중 하나여야 합니다.`;
+  }
+
+  if (STOCK_ALERT_TYPES.includes(input.type as AlertType) && !input.stockCode) {
+    return '종목코드를 입력해주세요.';
+  }
+
+  if (typeof input.threshold !== 'number' || isNaN(input.threshold)) {
+    return '기준값을 입력해주세요.';
+  }
+
+  if (input.type === 'UPCOMING_EVENT' && (input.threshold < 0 || input.threshold > 30)) {
+    return '이벤트 알림은 0일에서 30일 전 사이로 설정해주세요.';
+  }
+
+  if (input.type !== 'UPCOMING_EVENT' && input.threshold <= 0) {
+    return '기준값은 0보다 커야 합니다.';
+  }
+
+  return null;
+}
+
+function formatNumber(value: number, digits = 2): string {
+  return value.toLocaleString('ko-KR', { maximumFractionDigits: digits });
+}
+
+/**
+ * 종목 규칙 평가 (가격, 등락률, 평균 매수가 대비 손실)
+ */
+function evaluateStockRule(rule: AlertRule, quote: AlertPrice | undefined, positions: AllocationPosition[]): RuleResult {
+  if (!quote || !rule.stockCode) return { met: false };
+
+  const link = '/holdings';
+  switch (rule.type) {
+    case 'PRICE_ABOVE':
+      return {
+        met: quote.price >= rule.threshold,
+        title: `${rule.stockCode} 목표가 도달`,
+        message: `현재가 ${formatNumber(quote.price)}이(가) 설정한 ${formatNumber(rule.threshold)} 이상입니다.`,
+        link,
+      };
+    case 'PRICE_BELOW':
+      return {
+        met: quote.price <= rule.threshold,
+        title: `${rule.stockCode} 하한가 도달`,
+        message: `현재가 ${formatNumber(quote.price)}이(가) 설정한 ${formatNumber(rule.threshold)} 이하입니다.`,
+        link,
+      };
+    case 'DAILY_CHANGE':
+      return {
+        met: Math.abs(quote.changePercent) >= rule.threshold,
+        title: `${rule.stockCode} 급${quote.changePercent >= 0 ? '등' : '락'}`,
+        message: `전일 대비 ${quote.changePercent >= 0 ? '+' : ''}${quote.changePercent.toFixed(2)}% 변동했습니다 (기준 ±${rule.threshold}%).`,
+        link,
+      };
+    case 'DRAWDOWN_FROM_COST': {
+      const held = positions.filter(position => position.stockCode === rule.stockCode && position.quantity > 0);
+      const quantity = held.reduce((sum, position) => sum + position.quantity, 0);
+      if (quantity === 0) return { met: false };
+
+      const averagePrice = held.reduce((sum, position) => sum + position.averagePrice * position.quantity, 0) / quantity;
+      const drawdown = averagePrice > 0 ? ((quote.price - averagePrice) / averagePrice) * 100 : 0;
+      return {
+        met: drawdown <= -rule.threshold,
+        title: `${held[0].stockName} 손실 경고`,
+        message: `평균 매수가 ${formatNumber(averagePrice)} 대비 ${drawdown.toFixed(2)}%입니다 (기준 -${rule.threshold}%).`,
+        link,
+      };
+    }
+    default:
+      return { met: false };
+  }
+}
+
+/**
+ * 포트폴리오 총자산 규칙 평가
+ */
+function evaluatePortfolioRule(rule: AlertRule, totalAssets: number): RuleResult {
+  const above = rule.type === 'PORTFOLIO_ABOVE';
+  return {
+    met: above ? totalAssets >= rule.threshold : totalAssets <= rule.threshold,
+    title: above ? '총자산 목표 도달' : '총자산 하한 도달',
+    message: `총자산 ₩${formatNumber(totalAssets, 0)}이(가) 설정한 ₩${formatNumber(rule.threshold, 0)} ${above ? '이상' : '이하'}입니다.`,
+    link: '/dashboard',
+  };
+}
+
+/**
+ * 조건 충족 상태를 갱신하고, 새로 충족했으면 알림을 기록합니다
+ */
+async function applyRuleResult(rule: AlertRule, result: RuleResult): Promise<boolean> {
+  if (result.met && !rule.active) {
+    await prisma.$transaction([
+      prisma.notification.create({
+        data: {
+          userId: rule.userId,
+          alertRuleId: rule.id,
+          title: result.title || ALERT_TYPE_LABELS[rule.type],
+          message: result.message || '',
+          link: result.link,
+        },
+      }),
+      prisma.alertRule.update({
+        where: { id: rule.id },
+        data: { active: true, lastTriggeredAt: new Date() },
+      }),
+    ]);
+    return true;
+  }
+
+  if (!result.met && rule.active) {
+    await prisma.alertRule.update({ where: { id: rule.id }, data: { active: false } });
+  }
+
+  return false;
+}
+
+/**
+ * 이벤트 규칙 평가 - 보유종목의 배당락·배당금 지급·실적 발표 일정이 기준일 이내면 이벤트마다 한 번 알림
+ */
+async function applyEventRule(rule: AlertRule, positions: AllocationPosition[]): Promise<number> {
+  const codes = new Set(positions
+    .filter(position => position.quantity > 0 && (!rule.stockCode || position.stockCode === rule.stockCode))
+    .map(position => position.stockCode));
+
+  const events = await fetchUpcomingEvents(rule.userId, { days: rule.threshold });
+
+  let created = 0;
+  for (const event of events) {
+    if (event.type !== 'dividend' && event.type !== 'earnings') continue;
+    if (!event.stockCode || !codes.has(event.stockCode)) continue;
+
+    const dedupeKey = `event:${rule.id}:${event.id}`;
+    const existing = await prisma.notification.findUnique({
+      where: { userId_dedupeKey: { userId: rule.userId, dedupeKey } },
+    });
+    if (existing) continue;
+
+    await prisma.notification.create({
+      data: {
+        userId: rule.userId,
+        alertRuleId: rule.id,
+        title: `${event.stockName} ${MARKET_EVENT_TYPE_LABELS[event.eventType]} 일정`,
+        message: event.message,
+        link: '/dashboard',
+        dedupeKey,
+      },
+    });
+    created++;
+  }
+
+  if (created > 0) {
+    await prisma.alertRule.update({ where: { id: rule.id }, data: { lastTriggeredAt: new Date() } });
+  }
+  return created;
+}
+
+/**
+ * 활성화된 알림 규칙을 평가합니다 (생성한 알림 개수 반환)
+ *
+ * prices를 넘기면 시세 갱신 시점의 평가로 보고 해당 종목의 종목 규칙만 평가합니다.
+ * 넘기지 않으면(스케줄 작업) 모든 규칙을 평가하며 필요한 시세는 저장된 가격을 사용합니다.
+ */
+export async function evaluateAlertRules(options: { userId?: string; prices?: Record<string, AlertPrice> } = {}): Promise<number> {
+  const quoteRefresh = !!options.prices;
+  const rules = await prisma.alertRule.findMany({
+    where: {
+      enabled: true,
+      ...(options.userId && { userId: options.userId }),
+      ...(quoteRefresh && {
+        type: { in: STOCK_ALERT_TYPES },
+        stockCode: { in: Object.keys(options.prices!) },
+      }),
+    },
+  });
+  if (rules.length === 0) return 0;
+
+  const prices: Record<string, AlertPrice> = options.prices
+    || await getCurrentPrices(rules.map(rule => rule.stockCode).filter((code): code is string => !!code));
+
+  // 사용자별 보유종목·총자산 (손실률, 총자산, 이벤트 규칙에 필요)
+  const needsPositions = rules.some(rule => rule.type === 'DRAWDOWN_FROM_COST' || rule.type === 'UPCOMING_EVENT' || PORTFOLIO_ALERT_TYPES.includes(rule.type));
+  const portfolios = new Map<string, { positions: AllocationPosition[]; totalAssets: number }>();
+  if (needsPositions) {
+    for (const userId of Array.from(new Set(rules.map(rule => rule.userId)))) {
+      const { positions, cash } = await loadAllocationPositions(userId);
+      portfolios.set(userId, {
+        positions,
+        totalAssets: positions.reduce((sum, position) => sum + position.valueKRW, 0) + cash,
+      });
+    }
+  }
+
+  let created = 0;
+  for (const rule of rules) {
+    try {
+      const portfolio = portfolios.get(rule.userId) || { positions: [], totalAssets: 0 };
+
+      if (rule.type === 'UPCOMING_EVENT') {
+        created += await applyEventRule(rule, portfolio.positions);
+      } else if (PORTFOLIO_ALERT_TYPES.includes(rule.type)) {
+        if (await applyRuleResult(rule, evaluatePortfolioRule(rule, portfolio.totalAssets))) created++;
+      } else if (await applyRuleResult(rule, evaluateStockRule(rule, prices[rule.stockCode || ''], portfolio.positions))) {
+        created++;
+      }
+    } catch (error) {
+      console.error(`Alert rule ${rule.id} evaluation failed:`, error);
+    }
+  }
+
+  console.log(`Alert rules evaluated: ${rules.length} rules, ${created} notifications${quoteRefresh ? ' (quote refresh)' : ''}`);
+  return created;
+}
@@ -0,0 +1,498 @@
+import { prisma } from '@/lib/prisma';
+import type { AllocationDimension } from '@/generated/prisma';
+import { getCashBalances } from '@/lib/cashLedger';
+import { getExchangeRate } from '@/lib/exchangeRates';
+import { getCurrentPrices } from '@/lib/priceHistory';
+
+// 자산 배분과 리밸런싱 - 보유종목을 종목/섹터/자산군/통화 기준으로 분류하고,
+// 목표 비중(TargetAllocation)과 비교해 주문 단위·계좌별 예수금·매도 금지 조건을 지키는 매수/매도 주문을 제안합니다.
+
+export const ALLOCATION_DIMENSIONS: AllocationDimension[] = ['SECURITY', 'SECTOR', 'ASSET_CLASS', 'CURRENCY'];
+
+export const ALLOCATION_DIMENSION_LABELS: Record<AllocationDimension, string> = {
+  SECURITY: '종목',
+  SECTOR: '섹터',
+  ASSET_CLASS: '자산군',
+  CURRENCY: '통화',
+};
+
+// 섹터 분류 (간단한 예시)
+export const SECTOR_MAPPING: { [key: string]: string } = {
+  '005930': '반도체',
+  '000660': '반도체',
+  '035420': 'IT서비스',
+  '051910': '화학',
+  '006400': '배터리',
+  '035720': 'IT서비스',
+  '207940': '바이오',
+  '068270': '바이오',
+  '005380': '자동차',
+  '012330': '자동차부품',
+};
+
+// 통화별 예상 거래 비용 (추정치, 증권사·시장에 따라 다름)
+// - feeRate: 매매 수수료율
+// - sellTaxRate: 매도 금액에 부과되는 거래세 (국내 상장주식 증권거래세, 2025년 기준)
+// - capitalGainsTaxRate: 매도 차익에 대한 양도소득세 (해외주식, 연 250만원 기본공제 미반영)
+export const DEFAULT_TRADING_COSTS: Record<string, { feeRate: number; sellTaxRate: number; capitalGainsTaxRate: number }> = {
+  KRW: { feeRate: 0.00015, sellTaxRate: 0.0015, capitalGainsTaxRate: 0 },
+  USD: { feeRate: 0.0025, sellTaxRate: 0, capitalGainsTaxRate: 0.22 },
+};
+
+export interface AllocationPosition {
+  accountId: string;
+  stockCode: string;
+  stockName: string;
+  currency: string;
+  quantity: number;
+  averagePrice: number;
+  price: number; // 현재가 (해당 통화)
+  fxRate: number; // 원화 환율 (원화는 1)
+  valueKRW: number;
+}
+
+// 계좌·통화별 예수금
+export interface AllocationCash {
+  accountId: string;
+  accountName: string;
+  currency: string;
+  balance: number; // 해당 통화
+  fxRate: number;
+  balanceKRW: number;
+}
+
+export interface RebalanceTarget {
+  key: string;
+  weight: number; // %
+  lotSize?: number;
+}
+
+export interface RebalanceOrder {
+  accountId: string;
+  stockCode: string;
+  stockName: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  currency: string;
+  amount: number; // 주문 금액 (해당 통화)
+  amountKRW: number;
+  estimatedFee: number; // 원화
+  estimatedTax: number; // 원화
+}
+
+export interface AllocationLine {
+  key: string;
+  currentValue: number; // 원화
+  currentWeight: number; // %
+  targetWeight: number | null; // 목표가 없는 항목은 null (목표 0%로 간주)
+  targetValue: number;
+  difference: number; // 목표 - 현재 (원화)
+  afterValue: number; // 제안 주문 체결 후
+  afterWeight: number;
+}
+
+export interface RebalancePlan {
+  dimension: AllocationDimension;
+  noSelling: boolean;
+  totalValue: number; // 보유종목 + 예수금 (원화)
+  cash: number;
+  cashTargetWeight: number; // 100 - 목표 비중 합계
+  cashAfter: number;
+  allocations: AllocationLine[];
+  orders: RebalanceOrder[];
+  totals: { buyAmount: number; sellAmount: number; fees: number; taxes: number };
+  warnings: string[];
+}
+
+export function getSector(stockCode: string): string {
+  return SECTOR_MAPPING[stockCode] || '기타';
+}
+
+export function getAssetClass(stockCode: string, currency: string): string {
+  if (/^M\d{8}$/.test(stockCode)) return '금';
+  if (currency === 'KRW') return '국내주식';
+  return '해외주식';
+}
+
+/**
+ * 보유종목이 기준별로 속하는 분류 키
+ */
+export function getAllocationKey(position: Pick<AllocationPosition, 'stockCode' | 'currency'>, dimension: AllocationDimension): string {
+  switch (dimension) {
+    case 'SECURITY':
+      return position.stockCode;
+    case 'SECTOR':
+      return getSector(position.stockCode);
+    case 'ASSET_CLASS':
+      return getAssetClass(position.stockCode, position.currency);
+    case 'CURRENCY':
+      return position.currency;
+  }
+}
+
+/**
+ * 목표 비중 입력값을 검증합니다 (오류 메시지 또는 null)
+ */
+export function validateTargets(targets: RebalanceTarget[]): string | null {
+  const keys = new Set<string>();
+
+  for (const target of targets) {
+    if (!target.key || !target.key.trim()) {
+      return '목표 항목을 입력해주세요.';
+    }
+    if (keys.has(target.key)) {
+      return `${target.key} 항목이 중복되었습니다.`;
+    }
+    keys.add(target.key);
+    if (typeof target.weight !== 'number' || isNaN(target.weight) || target.weight < 0 || target.weight > 100) {
+      return '목표 비중은 0에서 100 사이여야 합니다.';
+    }
+    if (target.lotSize !== undefined && (!Number.isInteger(target.lotSize) || target.lotSize < 1)) {
+      return '주문 단위는 1 이상의 정수여야 합니다.';
+    }
+  }
+
+  const totalWeight = targets.reduce((sum, target) => sum + target.weight, 0);
+  if (totalWeight > 100.01) {
+    return `목표 비중 합계는 100%를 넘을 수 없습니다 (현재 ${totalWeight}%).`;
+  }
+
+  return null;
+}
+
+function getTradingCosts(currency: string) {
+  return DEFAULT_TRADING_COSTS[currency] || DEFAULT_TRADING_COSTS.USD;
+}
+
+function toOrder(position: AllocationPosition, side: 'BUY' | 'SELL', quantity: number): RebalanceOrder {
+  const costs = getTradingCosts(position.currency);
+  const amount = quantity * position.price;
+  const amountKRW = amount * position.fxRate;
+  const gainKRW = (position.price - position.averagePrice) * quantity * position.fxRate;
+
+  return {
+    accountId: position.accountId,
+    stockCode: position.stockCode,
+    stockName: position.stockName,
+    side,
+    quantity,
+    price: position.price,
+    currency: position.currency,
+    amount,
+    amountKRW,
+    estimatedFee: amountKRW * costs.feeRate,
+    estimatedTax: side === 'SELL'
+      ? amountKRW * costs.sellTaxRate + Math.max(0, gainKRW) * costs.capitalGainsTaxRate
+      : 0,
+  };
+}
+
+/**
+ * 현재 보유종목과 예수금을 목표 비중에 맞추는 주문을 제안합니다
+ *
+ * 1. 기준별 목표금액(총자산 × 목표 비중)과 현재 평가금액의 차이를 구하고, 목표가 없는 항목은 0%로 봅니다.
+ * 2. 차이를 같은 분류의 보유종목에 평가금액 비율로 나누고, 주문 단위 배수로 내림한 수량으로 주문합니다.
+ * 3. 계좌마다 그 계좌의 예수금과 매도 대금(수수료·세금 차감)으로만 매수하며, 부족하면 그 계좌의 매수 주문을 같은 비율로 줄입니다.
+ *    다른 계좌의 예수금을 옮겨야 목표대로 살 수 있거나 계좌 안에서 환전이 필요하면 경고합니다.
+ *
+ * noSelling이면 매도 없이 예수금만으로 부족한 항목을 매수합니다.
+ */
+export function planRebalance(
+  positions: AllocationPosition[],
+  cashBalances: AllocationCash[],
+  targets: RebalanceTarget[],
+  options: { dimension: AllocationDimension; noSelling?: boolean }
+): RebalancePlan {
+  const { dimension } = options;
+  const noSelling = !!options.noSelling;
+  const warnings: string[] = [];
+
+  const holdingsValue = positions.reduce((sum, position) => sum + position.valueKRW, 0);
+  const cash = cashBalances.reduce((sum, balance) => sum + balance.balanceKRW, 0);
+  const totalValue = holdingsValue + cash;
+  const targetWeight = targets.reduce((sum, target) => sum + target.weight, 0);
+  const targetsByKey = new Map(targets.map(target => [target.key, target]));
+
+  const groups = new Map<string, AllocationPosition[]>();
+  positions.forEach(position => {
+    const key = getAllocationKey(position, dimension);
+    groups.set(key, [...(groups.get(key) || []), position]);
+  });
+
+  const keys = Array.from(new Set([...targets.map(target => target.key), ...Array.from(groups.keys())]));
+
+  // 종목별 희망 수량 변화
+  const desired: { position: AllocationPosition; quantity: number; lotSize: number }[] = [];
+  keys.forEach(key => {
+    const group = groups.get(key) || [];
+    const target = targetsByKey.get(key);
+    const currentValue = group.reduce((sum, position) => sum + position.valueKRW, 0);
+    const difference = ((target?.weight ?? 0) / 100) * totalValue - currentValue;
+
+    if (group.length === 0) {
+      if (target && target.weight > 0) {
+        warnings.push(`${key}: 목표가 있지만 해당하는 보유종목·시세가 없어 매수 주문을 만들 수 없습니다.`);
+      }
+      return;
+    }
+
+    const lotSize = dimension === 'SECURITY' ? target?.lotSize || 1 : 1;
+    group.forEach(position => {
+      if (position.price <= 0) {
+        warnings.push(`${position.stockName}(${position.stockCode}): 현재가가 없어 주문에서 제외했습니다.`);
+        return;
+      }
+      const share = currentValue > 0 ? position.valueKRW / currentValue : 1 / group.length;
+      const shares = (difference * share) / (position.price * position.fxRate);
+      const lots = Math.floor(Math.abs(shares) / lotSize) * lotSize;
+      if (lots === 0) return;
+
+      const quantity = shares < 0 ? -Math.min(lots, Math.floor(position.quantity / lotSize) * lotSize) : lots;
+      if (quantity !== 0) desired.push({ position, quantity, lotSize });
+    });
+  });
+
+  // 계좌별 사용 가능 예수금 (원화 환산)과 계좌·통화별 잔액 (해당 통화)
+  const available = new Map<string, number>();
+  const currencyBalances = new Map<string, number>();
+  const accountNames = new Map<string, string>();
+  cashBalances.forEach(balance => {
+    available.set(balance.accountId, (available.get(balance.accountId) || 0) + balance.balanceKRW);
+    const currencyKey = `${balance.accountId}:${balance.currency}`;
+    currencyBalances.set(currencyKey, (currencyBalances.get(currencyKey) || 0) + balance.balance);
+    accountNames.set(balance.accountId, balance.accountName);
+  });
+  const accountName = (accountId: string) => accountNames.get(accountId) || accountId;
+
+  // 매도 (매도 금지가 아니면) - 매도 대금은 매도한 계좌의 예수금으로 들어옴
+  const orders: RebalanceOrder[] = [];
+  if (!noSelling) {
+    desired.filter(item => item.quantity < 0).forEach(item => {
+      const order = toOrder(item.position, 'SELL', -item.quantity);
+      orders.push(order);
+      const proceedsKRW = order.amountKRW - order.estimatedFee - order.estimatedTax;
+      available.set(order.accountId, (available.get(order.accountId) || 0) + proceedsKRW);
+      const currencyKey = `${order.accountId}:${order.currency}`;
+      currencyBalances.set(currencyKey, (currencyBalances.get(currencyKey) || 0) + proceedsKRW / item.position.fxRate);
+    });
+  } else if (desired.some(item => item.quantity < 0)) {
+    warnings.push('매도 금지 모드이므로 비중 초과 종목은 매도하지 않았습니다.');
+  }
+
+  // 매수 - 계좌별로 그 계좌의 예수금을 넘으면 같은 비율로 줄인 뒤 주문 단위로 내림
+  const costOf = (quantity: number, position: AllocationPosition) =>
+    quantity * position.price * position.fxRate * (1 + getTradingCosts(position.currency).feeRate);
+  const buysByAccount = new Map<string, typeof desired>();
+  desired.filter(item => item.quantity > 0).forEach(item => {
+    const accountId = item.position.accountId;
+    buysByAccount.set(accountId, [...(buysByAccount.get(accountId) || []), item]);
+  });
+
+  const shortfalls = new Map<string, number>();
+  const currencyNeeds = new Map<string, number>();
+  buysByAccount.forEach((buys, accountId) => {
+    const requested = buys.reduce((sum, item) => sum + costOf(item.quantity, item.position), 0);
+    const accountAvailable = Math.max(0, available.get(accountId) || 0);
+    const scale = requested > accountAvailable ? accountAvailable / requested : 1;
+    if (scale < 1) {
+      warnings.push(`${accountName(accountId)}: 예수금이 부족해 매수 주문을 목표보다 적게 제안했습니다.`);
+      shortfalls.set(accountId, requested - accountAvailable);
+    }
+
+    let spent = 0;
+    buys.forEach(item => {
+      const quantity = Math.floor((item.quantity * scale) / item.lotSize) * item.lotSize;
+      if (quantity <= 0) return;
+      orders.push(toOrder(item.position, 'BUY', quantity));
+      const cost = costOf(quantity, item.position);
+      spent += cost;
+      const currencyKey = `${accountId}:${item.position.currency}`;
+      currencyNeeds.set(currencyKey, (currencyNeeds.get(currencyKey) || 0) + cost / item.position.fxRate);
+    });
+    available.set(accountId, accountAvailable - spent);
+  });
+
+  // 예수금이 남는 다른 계좌가 있으면 옮겨야 목표대로 매수할 수 있음
+  if (shortfalls.size > 0) {
+    const surplus = Array.from(available.entries())
+      .filter(([accountId]) => !shortfalls.has(accountId))
+      .reduce((sum, [, value]) => sum + Math.max(0, value), 0);
+    const shortfall = Array.from(shortfalls.values()).reduce((sum, value) => sum + value, 0);
+    const transfer = Math.min(surplus, shortfall);
+    if (transfer >= 1) {
+      const names = Array.from(shortfalls.keys()).map(accountName).join(', ');
+      warnings.push(`다른 계좌의 예수금 ${Math.round(transfer).toLocaleString('ko-KR')}원을 ${names} 계좌로 옮기면 목표에 더 가깝게 매수할 수 있습니다.`);
+    }
+  }
+
+  // 계좌 안에서 매수 통화 예수금이 모자라면 환전 필요
+  currencyNeeds.forEach((need, currencyKey) => {
+    const [accountId, currency] = currencyKey.split(':');
+    const balance = currencyBalances.get(currencyKey) || 0;
+    if (need > balance + 0.01) {
+      warnings.push(`${accountName(accountId)}: ${currency} 예수금이 부족해 매수하려면 환전이 필요합니다.`);
+    }
+  });
+
+  const totals = {
+    buyAmount: orders.filter(order => order.side === 'BUY').reduce((sum, order) => sum + order.amountKRW, 0),
+    sellAmount: orders.filter(order => order.side === 'SELL').reduce((sum, order) => sum + order.amountKRW, 0),
+    fees: orders.reduce((sum, order) => sum + order.estimatedFee, 0),
+    taxes: orders.reduce((sum, order) => sum + order.estimatedTax, 0),
+  };
+  const cashAfter = cash + totals.sellAmount - totals.buyAmount - totals.fees - totals.taxes;
+
+  // 주문 체결 후 기준별 평가금액
+  const afterByKey = new Map<string, number>();
+  groups.forEach((group, key) => {
+    afterByKey.set(key, group.reduce((sum, position) => sum + position.valueKRW, 0));
+  });
+  orders.forEach(order => {
+    const key = getAllocationKey(order, dimension);
+    const change = order.side === 'BUY' ? order.amountKRW : -order.amountKRW;
+    afterByKey.set(key, (afterByKey.get(key) || 0) + change);
+  });
+  const totalAfter = Array.from(afterByKey.values()).reduce((sum, value) => sum + value, 0) + cashAfter;
+
+  const allocations: AllocationLine[] = keys.map(key => {
+    const currentValue = (groups.get(key) || []).reduce((sum, position) => sum + position.valueKRW, 0);
+    const target = targetsByKey.get(key);
+    const targetValue = ((target?.weight ?? 0) / 100) * totalValue;
+    const afterValue = afterByKey.get(key) || 0;
+
+    return {
+      key,
+      currentValue,
+      currentWeight: totalValue > 0 ? (currentValue / totalValue) * 100 : 0,
+      targetWeight: target ? target.weight : null,
+      targetValue,
+      difference: targetValue - currentValue,
+      afterValue,
+      afterWeight: totalAfter > 0 ? (afterValue / totalAfter) * 100 : 0,
+    };
+  }).sort((a, b) => b.currentValue - a.currentValue);
+
+  return {
+    dimension,
+    noSelling,
+    totalValue,
+    cash,
+    cashTargetWeight: Math.max(0, 100 - targetWeight),
+    cashAfter,
+    allocations,
+    orders,
+    totals,
+    warnings,
+  };
+}
+
+/**
+ * 사용자(또는 계좌)의 보유종목을 현재가·원화로 평가하고 계좌·통화별 예수금과 합계를 조회합니다
+ *
+ * 종목 기준 목표에 아직 보유하지 않은 종목이 있으면 수량 0인 항목으로 추가해 매수할 수 있게 합니다
+ * (계좌를 지정하지 않으면 예수금이 가장 많은 계좌에 배정).
+ */
+export async function loadAllocationPositions(
+  userId: string,
+  options: { accountId?: string; securityTargets?: string[] } = {}
+): Promise<{ positions: AllocationPosition[]; cash: number; cashBalances: AllocationCash[] }> {
+  const holdings = await prisma.holding.findMany({
+    where: {
+      account: { userId: userId },
+      ...(options.accountId && { accountId: options.accountId }),
+      quantity: { gt: 0 },
+    },
+  });
+
+  const balances = await getCashBalances({ userId, accountId: options.accountId });
+  const accounts = await prisma.account.findMany({
+    where: { userId: userId, ...(options.accountId && { id: options.accountId }) },
+    select: { id: true, accountNumber: true, nickname: true, institution: { select: { name: true } } },
+  });
+  const accountNames = new Map(accounts.map(account => [
+    account.id,
+    `${account.institution.name} ${account.nickname || account.accountNumber}`,
+  ]));
+  const missing = (options.securityTargets || []).filter(code => !holdings.some(holding => holding.stockCode === code));
+  const prices = await getCurrentPrices([...holdings.map(holding => holding.stockCode), ...missing]);
+
+  const rates = new Map<string, number>();
+  const rateFor = async (currency: string) => {
+    if (!rates.has(currency)) rates.set(currency, await getExchangeRate(currency));
+    return rates.get(currency)!;
+  };
+
+  const positions: AllocationPosition[] = [];
+  for (const holding of holdings) {
+    const currency = holding.currency || 'KRW';
+    const fxRate = await rateFor(currency);
+    const price = prices[holding.stockCode]?.price ?? 0;
+    positions.push({
+      accountId: holding.accountId,
+      stockCode: holding.stockCode,
+      stockName: holding.stockName,
+      currency,
+      quantity: holding.quantity,
+      averagePrice: holding.averagePrice,
+      price,
+      fxRate,
+      valueKRW: holding.quantity * price * fxRate,
+    });
+  }
+
+  let cash = 0;
+  const cashBalances: AllocationCash[] = [];
+  const cashByAccount = new Map<string, number>();
+  for (const balance of balances) {
+    const fxRate = await rateFor(balance.currency);
+    const balanceKRW = balance.balance * fxRate;
+    cash += balanceKRW;
+    cashByAccount.set(balance.accountId, (cashByAccount.get(balance.accountId) || 0) + balanceKRW);
+    cashBalances.push({
+      accountId: balance.accountId,
+      accountName: accountNames.get(balance.accountId) || balance.accountId,
+      currency: balance.currency,
+      balance: balance.balance,
+      fxRate,
+      balanceKRW,
+    });
+  }
+  // 예수금 기록이 없는 계좌도 0원으로 포함 (계좌별 매수 한도 계산용)
+  for (const account of accounts) {
+    if (!cashByAccount.has(account.id)) {
+      cashBalances.push({
+        accountId: account.id,
+        accountName: accountNames.get(account.id)!,
+        currency: 'KRW',
+        balance: 0,
+        fxRate: 1,
+        balanceKRW: 0,
+      });
+    }
+  }
+
+  const buyAccountId = options.accountId
+    || Array.from(cashByAccount.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+    || holdings[0]?.accountId;
+
+  if (buyAccountId) {
+    for (const stockCode of missing) {
+      const price = prices[stockCode];
+      if (!price) continue;
+      positions.push({
+        accountId: buyAccountId,
+        stockCode,
+        stockName: stockCode,
+        currency: price.currency,
+        quantity: 0,
+        averagePrice: 0,
+        price: price.price,
+        fxRate: await rateFor(price.currency),
+        valueKRW: 0,
+      });
+    }
+  }
+
+  return { positions, cash, cashBalances };
+}
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getClientIp } from '@/lib/sessions';
+import type { JWTPayload } from '@/lib/auth';
+
+// 개인 API 토큰 - 스크립트에서 로그인 없이 Authorization: Bearer pat_...로 API를 호출합니다.
+//
+// - 토큰은 발급할 때 한 번만 보여주고 DB에는 SHA-256 해시만 저장
+// - 권한(scope)은 "read:holdings"처럼 읽기/쓰기와 대상으로 나누고, 요청 경로와 메서드로 필요한 권한을 정함
+// - 아래 경로 목록에 없는 API(로그인·세션·보안 설정·관리자 등)는 API 토큰으로 호출할 수 없음
+
+export const API_TOKEN_PREFIX = 'pat_';
+
+export const API_TOKEN_SCOPES = [
+  'read:accounts',
+  'write:accounts',
+  'read:holdings',
+  'write:holdings',
+  'read:transactions',
+  'write:transactions',
+  'read:analytics',
+  'write:analytics',
+  'read:alerts',
+  'write:alerts',
+  'read:watchlist',
+  'write:watchlist',
+  'read:events',
+  'read:export',
+  'read:profile',
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// 경로별 대상 (위에서부터 먼저 맞는 항목 사용, null이면 API 토큰 불가)
+const API_TOKEN_RESOURCES: { path: string; resource: string | null }[] = [
+  { path: '/api/accounts', resource: 'accounts' },
+  { path: '/api/holdings', resource: 'holdings' },
+  { path: '/api/portfolio/holdings', resource: 'holdings' },
+  { path: '/api/portfolio/lots', resource: 'holdings' },
+  { path: '/api/transactions', resource: 'transactions' },
+  { path: '/api/import', resource: 'transactions' },
+  { path: '/api/corporate-actions', resource: 'transactions' },
+  { path: '/api/portfolio', resource: 'analytics' },
+  { path: '/api/benchmarks', resource: 'analytics' },
+  { path: '/api/alerts/evaluate', resource: null },
+  { path: '/api/alerts', resource: 'alerts' },
+  { path: '/api/notifications', resource: 'alerts' },
+  { path: '/api/watchlist', resource: 'watchlist' },
+  { path: '/api/events/calendar-token', resource: null },
+  { path: '/api/events', resource: 'events' },
+  { path: '/api/export', resource: 'export' },
+  { path: '/api/user', resource: 'profile' },
+];
+
+export const MAX_API_TOKENS_PER_USER = 20;
+export const MAX_API_TOKEN_TTL_DAYS = 365;
+
+// 마지막 사용 시각은 이 간격보다 자주 기록하지 않음 (요청마다 DB 쓰기 방지)
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export function parseScopes(scopes: string): string[] {
+  return scopes.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * 권한 목록 검증 (문제가 있으면 오류 메시지)
+ */
+export function validateScopes(scopes: unknown): string | null {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return '권한을 하나 이상 선택해주세요.';
+  }
+  const unknown = scopes.filter(scope => !API_TOKEN_SCOPES.includes(scope));
+  if (unknown.length > 0) {
+    return `알 수 없는 권한입니다: ${unknown.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * 요청에 필요한 권한 (API 토큰으로 호출할 수 없는 경로면 null)
+ */
+export function getRequiredScope(method: string, pathname: string): string | null {
+  const rule = API_TOKEN_RESOURCES.find(item => pathname === item.path || pathname.startsWith(`${item.path}/`));
+  if (!rule?.resource) return null;
+
+  const access = method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+  const scope = `${access}:${rule.resource}`;
+  return API_TOKEN_SCOPES.includes(scope as ApiTokenScope) ? scope : null;
+}
+
+/**
+ * API 토큰을 발급합니다 (원문 토큰은 이 반환값에서만 확인 가능)
+ */
+export async function createApiToken(userId: string, name: string, scopes: string[], expiresInDays: number) {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 8),
+      scopes: [...new Set(scopes)].join(' '),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    },
+  });
+  return { token, apiToken };
+}
+
+/**
+ * 사용 중인 API 토큰 수 (폐기·만료된 토큰 제외)
+ */
+export async function countActiveApiTokens(userId: string): Promise<number> {
+  return prisma.apiToken.count({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+  });
+}
+
+/**
+ * API 토큰 목록 (최근 발급 순)
+ */
+export async function listApiTokens(userId: string) {
+  const tokens = await prisma.apiToken.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      name: true,
+      tokenPrefix: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      lastUsedIp: true,
+      revokedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  return tokens.map(token => ({ ...token, scopes: parseScopes(token.scopes) }));
+}
+
+/**
+ * API 토큰 하나를 폐기합니다 (이미 폐기됐거나 다른 사용자의 토큰이면 false)
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * 사용자의 모든 API 토큰을 폐기합니다 (폐기한 개수 반환)
+ */
+export async function revokeUserApiTokens(userId: string): Promise<number> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * API 토큰으로 요청을 인증합니다 (토큰이 유효하고 이 요청에 필요한 권한이 있으면 인증 정보)
+ */
+export async function verifyApiToken(token: string, request: NextRequest): Promise<JWTPayload | null> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, email: true, username: true } } },
+  });
+
+  const now = new Date();
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= now) {
+    console.log('Auth: API token is invalid, revoked or expired');
+    return null;
+  }
+
+  const requiredScope = getRequiredScope(request.method, request.nextUrl.pathname);
+  if (!requiredScope) {
+    console.log(`Auth: API tokens are not allowed for ${request.method} ${request.nextUrl.pathname}`);
+    return null;
+  }
+  if (!parseScopes(apiToken.scopes).includes(requiredScope)) {
+    console.log(`Auth: API token ${apiToken.id} is missing scope ${requiredScope}`);
+    return null;
+  }
+
+  await prisma.apiToken.updateMany({
+    where: {
+      id: apiToken.id,
+      OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS) } }],
+    },
+    data: { lastUsedAt: now, lastUsedIp: getClientIp(request) },
+  });
+
+  return {
+    userId: apiToken.user.id,
+    email: apiToken.user.email,
+    username: apiToken.user.username,
+    sid: apiToken.id,
+    apiTokenId: apiToken.id,
+  };
+}
@@ -1,58 +1,42 @@
 import jwt from 'jsonwebtoken';
 import { NextRequest } from 'next/server';
+import type { UserRole } from '@/generated/prisma';
+import { ACCESS_TOKEN_TTL_SECONDS, AUTH_COOKIE_NAME, getJwtSecret, type SessionTokenPayload } from '@/lib/authToken';
 
-export interface JWTPayload {
-  userId: string;
-  email: string;
-  username: string;
-  iat?: number;
-  exp?: number;
+// 인증·권한 확인 - 모든 API 라우트는 여기의 함수로 세션을 확인합니다.
+// - 토큰: Authorization: Bearer 헤더 또는 auth-token 쿠키
+// - Bearer 값이 pat_로 시작하면 개인 API 토큰으로 확인합니다 (권한 확인은 @/lib/apiTokens)
+// - JWT_SECRET이 없으면 토큰을 발급하지도, 통과시키지도 않습니다
+// - 액세스 토큰은 로그인 세션(sid)에 묶여 있어 세션을 폐기하면 바로 거부됩니다 (세션 관리는 @/lib/sessions)
+// - 역할은 토큰이 아닌 DB 값으로 확인합니다 (권한 변경이 바로 반영되도록)
+// - 관리자 권한은 2단계 인증을 켠 관리자에게만 인정합니다 (@/lib/twoFactor)
+
+export { AUTH_COOKIE_NAME };
+
+export interface JWTPayload extends SessionTokenPayload {
+  // 개인 API 토큰으로 인증했으면 토큰 ID (이때 sid도 토큰 ID - 세션 API는 API 토큰을 허용하지 않음)
+  apiTokenId?: string;
 }
 
 export function generateToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: '7d' });
+  const secret = getJwtSecret();
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwt.sign(payload, secret, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
 }
 
 export function verifyTokenString(token: string): JWTPayload | null {
-  try {
-    const payload = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
-    return payload;
-  } catch (error) {
-    console.error('Token verification failed:', error);
+  const secret = getJwtSecret();
+  if (!secret) {
     return null;
   }
-}
 
-export async function verifyToken(request: NextRequest): Promise<JWTPayload | null> {
   try {
-    console.log('Auth: Starting token verification');
-    
-    // 먼저 Authorization 헤더에서 토큰 확인
-    const authHeader = request.headers.get('authorization');
-    console.log('Auth: Authorization header:', authHeader ? 'Present' : 'Missing');
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      console.log('Auth: Using Bearer token');
-      return verifyTokenString(token);
-    }
-
-    // 쿠키에서 토큰 확인
-    const token = request.cookies.get('auth-token')?.value;
-    console.log('Auth: Cookie token:', token ? 'Present' : 'Missing');
-    console.log('Auth: All cookies:', request.cookies.getAll().map(c => c.name));
-    
-    if (!token) {
-      console.log('Auth: No token found in cookies or headers');
-      return null;
-    }
-
-    console.log('Auth: Attempting to verify cookie token');
-    const payload = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
-    console.log('Auth: Token verification successful for user:', payload.userId);
-    return payload;
+    const payload = jwt.verify(token, secret, { algorithms: ['HS256'] }) as JWTPayload;
+    return payload.userId && payload.sid ? payload : null;
   } catch (error) {
-    console.error('Auth: Token verification failed:', error);
+    console.error('Token verification failed:', error);
     return null;
   }
 }
@@ -65,37 +49,117 @@ export function extractTokenFromRequest(request: NextRequest): string | null {
   }
 
   // 쿠키에서 토큰 확인
-  const token = request.cookies.get('auth-token')?.value;
+  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
   return token || null;
 }
 
-export async function isAdmin(userId: string): Promise<boolean> {
+export async function verifyToken(request: NextRequest): Promise<JWTPayload | null> {
+  const token = extractTokenFromRequest(request);
+
+  if (!token) {
+    console.log('Auth: No token found in cookies or headers');
+    return null;
+  }
+
+  const { isApiToken, verifyApiToken } = await import('@/lib/apiTokens');
+  if (isApiToken(token)) {
+    const apiPayload = await verifyApiToken(token, request);
+    if (apiPayload) {
+      console.log('Auth: API token verification successful for user:', apiPayload.userId);
+    }
+    return apiPayload;
+  }
+
+  const payload = verifyTokenString(token);
+  if (!payload) {
+    return null;
+  }
+
+  if (!(await isSessionActive(payload.sid, payload.userId))) {
+    console.log('Auth: Session is revoked or expired:', payload.sid);
+    return null;
+  }
+
+  console.log('Auth: Token verification successful for user:', payload.userId);
+  return payload;
+}
+
+/**
+ * 로그인 세션이 폐기·만료되지 않았는지 확인
+ */
+async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  try {
+    const { prisma } = await import('@/lib/prisma');
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  } catch (error) {
+    console.error('Failed to check session:', error);
+    return false;
+  }
+}
+
+/**
+ * 사용자에게 해당 역할이 있는지 확인 (ADMIN은 2단계 인증을 켜야 인정)
+ */
+export async function hasRole(userId: string, role: UserRole): Promise<boolean> {
   try {
     const { prisma } = await import('@/lib/prisma');
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { role: true },
+      select: { role: true, totpEnabledAt: true },
     });
-    
-    return user?.role === 'ADMIN';
+
+    if (user?.role !== role) {
+      return false;
+    }
+
+    if (role === 'ADMIN' && !user.totpEnabledAt) {
+      console.log('Auth: Admin access requires two-factor authentication:', userId);
+      return false;
+    }
+
+    return true;
   } catch (error) {
-    console.error('Failed to check admin status:', error);
+    console.error('Failed to check user role:', error);
     return false;
   }
 }
 
-export async function requireAdmin(request: NextRequest): Promise<string | null> {
+export async function isAdmin(userId: string): Promise<boolean> {
+  return hasRole(userId, 'ADMIN');
+}
+
+/**
+ * 로그인한 사용자가 해당 역할이면 사용자 ID, 아니면 null
+ */
+export async function requireRole(request: NextRequest, role: UserRole): Promise<string | null> {
   const payload = await verifyToken(request);
-  
+
   if (!payload) {
     return null;
   }
-  
-  const adminStatus = await isAdmin(payload.userId);
-  
-  if (!adminStatus) {
+
+  if (!(await hasRole(payload.userId, role))) {
     return null;
   }
-  
+
   return payload.userId;
 }
+
+export async function requireAdmin(request: NextRequest): Promise<string | null> {
+  return requireRole(request, 'ADMIN');
+}
+
+/**
+ * 사용자가 소유한 계좌 조회 (없거나 다른 사용자의 계좌면 null)
+ */
+export async function findOwnedAccount(userId: string, accountId: string) {
+  const { prisma } = await import('@/lib/prisma');
+  return prisma.account.findFirst({
+    where: { id: accountId, userId },
+  });
+}
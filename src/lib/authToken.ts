@@ -0,0 +1,75 @@
+// 인증 토큰 공통 설정 - middleware(Edge 런타임)에서도 쓰므로 Node 전용 모듈(jsonwebtoken, prisma)을 가져오지 않습니다.
+// API 라우트의 인증은 @/lib/auth를 사용합니다.
+
+// 액세스 토큰(JWT, 짧은 만료)과 리프레시 토큰(세션 ID.비밀값, 사용할 때마다 교체)
+export const AUTH_COOKIE_NAME = 'auth-token';
+export const REFRESH_COOKIE_NAME = 'refresh-token';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// 만료까지 이 시간보다 적게 남았으면 페이지 이동 시 미리 갱신
+export const ACCESS_TOKEN_REFRESH_THRESHOLD_SECONDS = 5 * 60;
+
+export interface SessionTokenPayload {
+  userId: string;
+  email: string;
+  username: string;
+  // 로그인 세션 ID (세션이 폐기되면 토큰도 거부)
+  sid: string;
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * JWT 서명 키 - 설정되지 않았으면 null (모든 인증을 거부)
+ */
+export function getJwtSecret(): string | null {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    console.error('Auth: JWT_SECRET is not configured, rejecting authentication');
+    return null;
+  }
+  return secret;
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * HS256 JWT를 Web Crypto로 검증합니다 (서명·만료 확인, 실패하면 null)
+ */
+export async function verifySessionToken(token: string): Promise<SessionTokenPayload | null> {
+  const secret = getJwtSecret();
+  if (!secret) return null;
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const decoder = new TextDecoder();
+    const { alg } = JSON.parse(decoder.decode(base64UrlDecode(header)));
+    if (alg !== 'HS256') return null;
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), encoder.encode(`${header}.${payload}`));
+    if (!valid) return null;
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(payload))) as SessionTokenPayload;
+    if (!claims.userId || !claims.sid || (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now())) {
+      return null;
+    }
+    return claims;
+  } catch (error) {
+    console.error('Auth: Session token verification failed:', error);
+    return null;
+  }
+}
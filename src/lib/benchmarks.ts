@@ -0,0 +1,271 @@
+import { prisma } from '@/lib/prisma';
+import { ensurePriceHistory, toBarDate } from '@/lib/priceHistory';
+import { TRADING_DAYS_PER_YEAR, standardDeviation, type DailyReturn } from '@/lib/riskMetrics';
+
+// 벤치마크 지수 - 포트폴리오 수익률과 비교할 지수의 일간 수익률을 저장된 일봉으로 계산합니다.
+// 사용자 정의 혼합 벤치마크(CustomBenchmark)는 기본 지수 수익률을 비중대로 합산합니다 (매일 리밸런싱 가정).
+
+export interface Benchmark {
+  id: string;
+  name: string;
+  symbol: string; // 일봉 조회 심볼
+  currency: string; // 지수 통화
+}
+
+export const BENCHMARKS: Benchmark[] = [
+  { id: 'KOSPI', name: 'KOSPI', symbol: '^KS11', currency: 'KRW' },
+  { id: 'KOSDAQ', name: 'KOSDAQ', symbol: '^KQ11', currency: 'KRW' },
+  { id: 'SP500', name: 'S&P 500', symbol: '^GSPC', currency: 'USD' },
+  { id: 'NASDAQ', name: 'NASDAQ', symbol: '^IXIC', currency: 'USD' },
+];
+
+export const DEFAULT_BENCHMARK_ID = 'KOSPI';
+export const MAX_COMPARED_BENCHMARKS = 5;
+
+export type BenchmarkCurrency = 'KRW' | 'LOCAL';
+
+// 비교 대상 벤치마크 (기본 지수는 비중 100%인 구성 요소 하나)
+export interface BenchmarkDefinition {
+  id: string;
+  name: string;
+  currency: BenchmarkCurrency;
+  custom: boolean;
+  components: { benchmark: Benchmark; weight: number }[]; // weight는 %
+}
+
+export interface BenchmarkComparison {
+  id: string;
+  name: string;
+  observations: number; // 포트폴리오와 함께 수익률이 있는 일수
+  cumulativeReturn: number; // 벤치마크 누적 수익률 (%)
+  excessReturn: number; // 포트폴리오 누적 수익률 - 벤치마크 누적 수익률 (%p)
+  trackingError: number | null; // 일간 초과수익률 표준편차 연환산 (%)
+  informationRatio: number | null; // 연환산 초과수익률 / 추적오차
+  series: { date: string; value: number }[]; // 누적 수익률 (%)
+}
+
+export function getBenchmark(id: string): Benchmark | undefined {
+  return BENCHMARKS.find(benchmark => benchmark.id === id.toUpperCase());
+}
+
+/**
+ * 사용자 정의 벤치마크 입력값을 검증합니다 (오류 메시지 또는 null)
+ */
+export function validateCustomBenchmark(input: {
+  name?: string;
+  currency?: string;
+  components?: { benchmarkId?: string; weight?: number }[];
+}): string | null {
+  if (!input.name || !input.name.trim()) {
+    return '벤치마크 이름을 입력해주세요.';
+  }
+
+  if (input.currency && input.currency !== 'KRW' && input.currency !== 'LOCAL') {
+    return '통화 기준은 KRW 또는 LOCAL이어야 합니다.';
+  }
+
+  if (!Array.isArray(input.components) || input.components.length === 0) {
+    return '구성 지수를 하나 이상 지정해주세요.';
+  }
+
+  const ids = new Set<string>();
+  for (const component of input.components) {
+    if (!component.benchmarkId || !getBenchmark(component.benchmarkId)) {
+      return `구성 지수는 ${BENCHMARKS.map(benchmark => benchmark.id).join(', ')} 중 하나여야 합니다.`;
+    }
+    if (ids.has(component.benchmarkId.toUpperCase())) {
+      return '같은 지수를 두 번 지정할 수 없습니다.';
+    }
+    ids.add(component.benchmarkId.toUpperCase());
+    if (typeof component.weight !== 'number' || isNaN(component.weight) || component.weight <= 0) {
+      return '비중은 0보다 커야 합니다.';
+    }
+  }
+
+  const totalWeight = input.components.reduce((sum, component) => sum + (component.weight || 0), 0);
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    return `비중 합계는 100%여야 합니다 (현재 ${totalWeight}%).`;
+  }
+
+  return null;
+}
+
+/**
+ * 벤치마크 ID 목록을 비교 대상 정의로 변환합니다 (기본 지수 ID 또는 사용자 정의 벤치마크 ID)
+ */
+export async function resolveBenchmarks(
+  userId: string,
+  ids: string[]
+): Promise<{ definitions: BenchmarkDefinition[]; unknown: string[] }> {
+  const definitions: BenchmarkDefinition[] = [];
+  const unknown: string[] = [];
+
+  const customIds = ids.filter(id => !getBenchmark(id));
+  const customBenchmarks = customIds.length > 0
+    ? await prisma.customBenchmark.findMany({
+        where: { userId: userId, id: { in: customIds } },
+        include: { components: true },
+      })
+    : [];
+
+  for (const id of ids) {
+    const benchmark = getBenchmark(id);
+    if (benchmark) {
+      definitions.push({
+        id: benchmark.id,
+        name: benchmark.name,
+        currency: 'LOCAL',
+        custom: false,
+        components: [{ benchmark, weight: 100 }],
+      });
+      continue;
+    }
+
+    const custom = customBenchmarks.find(item => item.id === id);
+    if (!custom) {
+      unknown.push(id);
+      continue;
+    }
+
+    definitions.push({
+      id: custom.id,
+      name: custom.name,
+      currency: custom.currency === 'LOCAL' ? 'LOCAL' : 'KRW',
+      custom: true,
+      components: custom.components
+        .filter(component => getBenchmark(component.benchmarkId))
+        .map(component => ({ benchmark: getBenchmark(component.benchmarkId)!, weight: component.weight })),
+    });
+  }
+
+  return { definitions, unknown };
+}
+
+/**
+ * 심볼의 일봉 종가로 주어진 날짜 구간마다 수익률을 계산합니다
+ *
+ * dates는 [기준일, 1일차, 2일차, ...] 형태로, 각 날짜의 수익률은 직전 날짜 종가 대비입니다.
+ * 휴장일처럼 해당 날짜 봉이 없으면 직전 종가를 사용합니다.
+ */
+async function getSymbolReturns(symbol: string, dates: string[]): Promise<DailyReturn[]> {
+  if (dates.length < 2) return [];
+
+  const from = new Date(toBarDate(dates[0]).getTime() - 7 * 24 * 60 * 60 * 1000);
+  const bars = await ensurePriceHistory(symbol, from, toBarDate(dates[dates.length - 1]));
+  const closes = bars.map(bar => ({ date: bar.date.toISOString().split('T')[0], close: bar.close }));
+
+  const closeOn = (date: string) => {
+    let close: number | undefined;
+    for (const bar of closes) {
+      if (bar.date > date) break;
+      close = bar.close;
+    }
+    return close;
+  };
+
+  const returns: DailyReturn[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    const previous = closeOn(dates[i - 1]);
+    const current = closeOn(dates[i]);
+    if (previous && current) {
+      returns.push({ date: dates[i], value: current / previous - 1 });
+    }
+  }
+
+  return returns;
+}
+
+/**
+ * 주어진 날짜 구간마다 벤치마크 지수의 현지 통화 수익률을 계산합니다
+ */
+export async function getBenchmarkReturns(benchmark: Benchmark, dates: string[]): Promise<DailyReturn[]> {
+  return getSymbolReturns(benchmark.symbol, dates);
+}
+
+/**
+ * 벤치마크 정의(기본 지수 또는 혼합)의 일간 수익률을 계산합니다
+ *
+ * 원화 기준이면 해외 지수 수익률에 환율 변동을 곱해 (1 + 지수) × (1 + 환율) - 1 로 환산하고,
+ * 모든 구성 지수의 수익률이 있는 날만 비중대로 합산합니다.
+ */
+export async function getBlendedReturns(definition: BenchmarkDefinition, dates: string[]): Promise<DailyReturn[]> {
+  const componentReturns: { weight: number; returns: Map<string, number> }[] = [];
+
+  for (const component of definition.components) {
+    let returns = await getBenchmarkReturns(component.benchmark, dates);
+
+    if (definition.currency === 'KRW' && component.benchmark.currency !== 'KRW') {
+      const fxReturns = new Map(
+        (await getSymbolReturns(`${component.benchmark.currency}KRW=X`, dates)).map(daily => [daily.date, daily.value])
+      );
+      returns = returns.map(daily => ({
+        date: daily.date,
+        value: (1 + daily.value) * (1 + (fxReturns.get(daily.date) ?? 0)) - 1,
+      }));
+    }
+
+    componentReturns.push({
+      weight: component.weight / 100,
+      returns: new Map(returns.map(daily => [daily.date, daily.value])),
+    });
+  }
+
+  const blended: DailyReturn[] = [];
+  for (const date of dates.slice(1)) {
+    if (!componentReturns.every(component => component.returns.has(date))) continue;
+    blended.push({
+      date,
+      value: componentReturns.reduce((sum, component) => sum + component.weight * component.returns.get(date)!, 0),
+    });
+  }
+
+  return blended;
+}
+
+/**
+ * 날짜별 누적 수익률(%) 시계열 (수익률이 없는 날은 전일 값 유지)
+ */
+export function toCumulativeSeries(returns: DailyReturn[], dates: string[]): { date: string; value: number }[] {
+  const byDate = new Map(returns.map(daily => [daily.date, daily.value]));
+  let growth = 1;
+
+  return dates.map((date, i) => {
+    if (i > 0) growth *= 1 + (byDate.get(date) ?? 0);
+    return { date, value: (growth - 1) * 100 };
+  });
+}
+
+/**
+ * 포트폴리오 일간 수익률을 벤치마크와 비교해 초과수익률, 추적오차, 정보비율을 계산합니다
+ */
+export function compareToBenchmark(
+  portfolioReturns: DailyReturn[],
+  benchmark: { id: string; name: string; returns: DailyReturn[] },
+  dates: string[]
+): BenchmarkComparison {
+  const series = toCumulativeSeries(benchmark.returns, dates);
+  const portfolioSeries = toCumulativeSeries(portfolioReturns, dates);
+  const cumulativeReturn = series.length > 0 ? series[series.length - 1].value : 0;
+  const portfolioCumulative = portfolioSeries.length > 0 ? portfolioSeries[portfolioSeries.length - 1].value : 0;
+
+  const benchmarkByDate = new Map(benchmark.returns.map(daily => [daily.date, daily.value]));
+  const active = portfolioReturns
+    .filter(daily => benchmarkByDate.has(daily.date))
+    .map(daily => daily.value - benchmarkByDate.get(daily.date)!);
+
+  const trackingError = active.length >= 2 ? standardDeviation(active) * Math.sqrt(TRADING_DAYS_PER_YEAR) : null;
+  const annualizedActive = active.length > 0
+    ? active.reduce((sum, value) => sum + value, 0) / active.length * TRADING_DAYS_PER_YEAR
+    : 0;
+
+  return {
+    id: benchmark.id,
+    name: benchmark.name,
+    observations: active.length,
+    cumulativeReturn,
+    excessReturn: portfolioCumulative - cumulativeReturn,
+    trackingError: trackingError !== null ? trackingError * 100 : null,
+    informationRatio: trackingError ? annualizedActive / trackingError : null,
+    series,
+  };
+}
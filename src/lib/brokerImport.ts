@@ -0,0 +1,433 @@
+import type { TransactionType } from '@/generated/prisma';
+import { readXlsxRows } from '@/lib/xlsx';
+
+// 증권사 거래내역 가져오기 - 증권사별 컬럼 매핑 프로필로 CSV/XLSX 파일을 거래 행으로 변환합니다.
+// 새 증권사는 IMPORT_PROFILES에 프로필을 추가하면 자동 감지 대상에 포함됩니다.
+
+type ImportField =
+  | 'date'
+  | 'type'
+  | 'stockCode'
+  | 'stockName'
+  | 'quantity'
+  | 'price'
+  | 'amount'
+  | 'fees'
+  | 'tax'
+  | 'currency';
+
+export interface BrokerImportProfile {
+  id: string;
+  name: string;
+  // 필드별로 인식할 헤더 이름 (앞에 있을수록 우선)
+  columns: Partial<Record<ImportField, string[]>>;
+  // 거래구분 문구 -> 거래 유형 (기본 키워드 분류보다 우선)
+  typeMap?: Record<string, TransactionType>;
+}
+
+export interface ImportedRow {
+  rowNumber: number; // 파일 기준 행 번호 (1부터)
+  transactionType: TransactionType;
+  transactionDate: Date;
+  stockCode: string;
+  stockName: string;
+  quantity: number;
+  price: number;
+  totalAmount: number;
+  fees: number;
+  withholdingTax: number | null; // 배당 행의 세금 컬럼
+  currency: string;
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  error: string;
+  raw: string[];
+}
+
+export interface ParsedImport {
+  profile: BrokerImportProfile;
+  rows: ImportedRow[];
+  errors: ImportRowError[];
+}
+
+// 여러 증권사에서 공통으로 쓰는 헤더
+const COMMON_COLUMNS: Required<BrokerImportProfile['columns']> = {
+  date: ['거래일자', '거래일', '매매일자', '체결일자', '일자'],
+  type: ['거래구분', '거래종류', '매매구분', '거래유형', '적요명', '적요'],
+  stockCode: ['종목코드', '종목번호', '단축코드'],
+  stockName: ['종목명'],
+  quantity: ['거래수량', '체결수량', '수량'],
+  price: ['거래단가', '체결단가', '단가', '체결가'],
+  amount: ['거래금액', '체결금액', '정산금액', '금액'],
+  fees: ['수수료', '매매수수료'],
+  tax: ['제세금', '세금', '거래세', '원천징수세'],
+  currency: ['통화', '통화코드', '결제통화'],
+};
+
+export const IMPORT_PROFILES: BrokerImportProfile[] = [
+  {
+    id: 'kiwoom',
+    name: '키움증권',
+    columns: {
+      ...COMMON_COLUMNS,
+      type: ['거래종류', '거래구분', '적요명'],
+      stockCode: ['종목번호', '종목코드'],
+    },
+  },
+  {
+    id: 'mirae',
+    name: '미래에셋증권',
+    columns: {
+      ...COMMON_COLUMNS,
+      type: ['거래구분', '적요'],
+    },
+  },
+  {
+    id: 'kis',
+    name: '한국투자증권',
+    columns: {
+      ...COMMON_COLUMNS,
+      date: ['매매일자', '거래일자'],
+      type: ['매매구분', '거래구분'],
+      quantity: ['체결수량', '수량'],
+      price: ['체결단가', '단가'],
+      amount: ['체결금액', '거래금액'],
+    },
+  },
+  {
+    id: 'samsung',
+    name: '삼성증권',
+    columns: {
+      ...COMMON_COLUMNS,
+      date: ['거래일', '거래일자'],
+      type: ['거래유형', '거래구분'],
+    },
+  },
+  {
+    id: 'nh',
+    name: 'NH투자증권',
+    columns: {
+      ...COMMON_COLUMNS,
+      type: ['적요명', '거래구분'],
+    },
+    typeMap: {
+      '장내매수': 'BUY',
+      '장내매도': 'SELL',
+      '배당금입금': 'DIVIDEND',
+    },
+  },
+  {
+    // 이 앱의 내보내기 형식 및 직접 작성한 파일
+    id: 'generic',
+    name: '기본 형식',
+    columns: {
+      date: ['date', 'transactionDate', ...COMMON_COLUMNS.date],
+      type: ['type', 'transactionType', ...COMMON_COLUMNS.type],
+      stockCode: ['stockCode', ...COMMON_COLUMNS.stockCode],
+      stockName: ['stockName', ...COMMON_COLUMNS.stockName],
+      quantity: ['quantity', ...COMMON_COLUMNS.quantity],
+      price: ['price', ...COMMON_COLUMNS.price],
+      amount: ['amount', 'totalAmount', ...COMMON_COLUMNS.amount],
+      fees: ['fees', 'fee', ...COMMON_COLUMNS.fees],
+      tax: ['withholdingTax', 'tax', ...COMMON_COLUMNS.tax],
+      currency: ['currency', ...COMMON_COLUMNS.currency],
+    },
+  },
+];
+
+const REQUIRED_FIELDS: ImportField[] = ['date', 'type', 'amount'];
+
+/**
+ * 파일 내용을 문자열로 디코딩합니다 (UTF-8 BOM/유효성 확인 후 실패하면 EUC-KR)
+ */
+export function decodeImportText(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8');
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    // 국내 증권사 HTS 내보내기 파일은 대부분 EUC-KR(CP949)
+    return new TextDecoder('euc-kr').decode(buffer);
+  }
+}
+
+/**
+ * CSV 텍스트를 행 배열로 파싱합니다 (따옴표, 따옴표 안의 쉼표/줄바꿈 지원)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === '\t') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * 업로드 파일을 행 배열로 읽습니다
+ */
+export function readImportFile(fileName: string, buffer: Buffer): string[][] {
+  if (/\.xlsx$/i.test(fileName)) {
+    return readXlsxRows(buffer);
+  }
+  return parseCsv(decodeImportText(buffer));
+}
+
+const normalizeHeader = (header: string) => header.replace(/\s+/g, '').toLowerCase();
+
+// 헤더 위치 매핑과 함께, 후보 목록에서 몇 번째 이름으로 일치했는지의 합(rank)을 반환
+function mapColumns(
+  profile: BrokerImportProfile,
+  headers: string[]
+): { mapping: Partial<Record<ImportField, number>>; rank: number } {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: Partial<Record<ImportField, number>> = {};
+  let rank = 0;
+
+  (Object.keys(profile.columns) as ImportField[]).forEach(field => {
+    const candidates = profile.columns[field] || [];
+    for (const [candidateIndex, candidate] of candidates.entries()) {
+      const index = normalized.indexOf(normalizeHeader(candidate));
+      if (index >= 0) {
+        mapping[field] = index;
+        rank += candidateIndex;
+        break;
+      }
+    }
+  });
+
+  return { mapping, rank };
+}
+
+/**
+ * 헤더 행을 찾고 가장 많은 컬럼이 일치하는 프로필을 고릅니다
+ *
+ * 증권사 파일은 상단에 계좌 정보 등이 있는 경우가 많아 앞쪽 20행에서 헤더를 찾습니다.
+ * 일치한 컬럼 수가 같으면 각 프로필의 우선 헤더 이름과 더 잘 맞는 프로필을 고릅니다.
+ */
+export function detectProfile(
+  rows: string[][],
+  profileId?: string
+): { profile: BrokerImportProfile; headerIndex: number; mapping: Partial<Record<ImportField, number>> } | null {
+  const candidates = profileId && profileId !== 'auto'
+    ? IMPORT_PROFILES.filter(profile => profile.id === profileId)
+    : IMPORT_PROFILES;
+
+  let best: { profile: BrokerImportProfile; headerIndex: number; mapping: Partial<Record<ImportField, number>> } | null = null;
+  let bestScore = -Infinity;
+
+  for (const [headerIndex, row] of rows.slice(0, 20).entries()) {
+    for (const profile of candidates) {
+      const { mapping, rank } = mapColumns(profile, row);
+      if (!REQUIRED_FIELDS.every(field => mapping[field] !== undefined)) continue;
+
+      const score = Object.keys(mapping).length * 100 - rank;
+      if (score > bestScore) {
+        best = { profile, headerIndex, mapping };
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+function parseNumber(value: string | undefined): number {
+  if (!value) return 0;
+  const cleaned = value.replace(/[,\s원$₩]/g, '');
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  // 엑셀 날짜 일련번호 (1900 기준)
+  if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    return new Date(Math.round((parseFloat(trimmed) - 25569) * 86400000));
+  }
+
+  const match = trimmed.match(/^(\d{4})[.\-/]?(\d{1,2})[.\-/]?(\d{1,2})/);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function classifyType(value: string, profile: BrokerImportProfile): TransactionType | null {
+  const trimmed = value.replace(/\s+/g, '');
+  if (profile.typeMap?.[trimmed]) return profile.typeMap[trimmed];
+
+  const upper = trimmed.toUpperCase();
+  if (['BUY', 'SELL', 'DIVIDEND', 'DEPOSIT', 'WITHDRAWAL'].includes(upper)) {
+    return upper as TransactionType;
+  }
+
+  // '배당금입금', '매도대금입금' 같은 문구가 입금으로 분류되지 않도록 입출금은 마지막에 확인
+  if (trimmed.includes('배당')) return 'DIVIDEND';
+  if (trimmed.includes('매도')) return 'SELL';
+  if (trimmed.includes('매수')) return 'BUY';
+  if (trimmed.includes('출금') || trimmed.includes('이체출')) return 'WITHDRAWAL';
+  if (trimmed.includes('입금') || trimmed.includes('이체입')) return 'DEPOSIT';
+  return null;
+}
+
+// 'A005930' 같은 HTS 종목번호를 6자리 코드로 정리
+function normalizeStockCode(value: string): string {
+  const trimmed = value.trim().toUpperCase();
+  return /^A\d{6}$/.test(trimmed) ? trimmed.slice(1) : trimmed;
+}
+
+/**
+ * 파일 행을 거래 행으로 변환합니다
+ */
+export function parseImportRows(rows: string[][], profileId?: string): ParsedImport | string {
+  const detected = detectProfile(rows, profileId);
+  if (!detected) {
+    return '파일에서 거래내역 헤더(거래일자, 거래구분, 금액)를 찾을 수 없습니다.';
+  }
+
+  const { profile, headerIndex, mapping } = detected;
+  const result: ParsedImport = { profile, rows: [], errors: [] };
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] !== undefined ? (row[mapping[field]!] || '').trim() : '';
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const rowNumber = headerIndex + index + 2;
+    if (row.every(value => !value || !value.trim())) return;
+
+    const transactionDate = parseDate(cell(row, 'date'));
+    const transactionType = classifyType(cell(row, 'type'), profile);
+    const stockCode = normalizeStockCode(cell(row, 'stockCode'));
+    const stockName = cell(row, 'stockName');
+    const quantity = Math.round(Math.abs(parseNumber(cell(row, 'quantity'))));
+    const price = Math.abs(parseNumber(cell(row, 'price')));
+    const amount = Math.abs(parseNumber(cell(row, 'amount')));
+    const fees = Math.abs(parseNumber(cell(row, 'fees')));
+    const tax = Math.abs(parseNumber(cell(row, 'tax')));
+    const currency = (cell(row, 'currency') || 'KRW').toUpperCase();
+
+    const fail = (error: string) => result.errors.push({ rowNumber, error, raw: row });
+
+    if (!transactionDate) return fail('거래일자를 인식할 수 없습니다.');
+    if (!transactionType) return fail(`거래구분을 인식할 수 없습니다: ${cell(row, 'type')}`);
+
+    if (transactionType === 'BUY' || transactionType === 'SELL') {
+      if (!stockCode || !stockName) return fail('매수/매도 거래에 종목코드 또는 종목명이 없습니다.');
+      if (quantity <= 0) return fail('수량이 올바르지 않습니다.');
+
+      const unitPrice = price || (amount > 0 ? amount / quantity : 0);
+      if (unitPrice <= 0) return fail('단가가 올바르지 않습니다.');
+
+      result.rows.push({
+        rowNumber,
+        transactionType,
+        transactionDate,
+        stockCode,
+        stockName,
+        quantity,
+        price: unitPrice,
+        totalAmount: unitPrice * quantity,
+        // 매도 시 거래세 등 제세금은 수수료와 같이 매도 대금에서 차감
+        fees: fees + tax,
+        withholdingTax: null,
+        currency,
+      });
+      return;
+    }
+
+    if (amount <= 0) return fail('금액이 올바르지 않습니다.');
+
+    if (transactionType === 'DIVIDEND') {
+      if (!stockCode || !stockName) return fail('배당 거래에 종목코드 또는 종목명이 없습니다.');
+
+      // 증권사 내역의 배당금은 세후 입금액, 세금 컬럼은 원천징수세
+      result.rows.push({
+        rowNumber,
+        transactionType,
+        transactionDate,
+        stockCode,
+        stockName,
+        quantity: quantity || 1,
+        price: (amount + tax) / (quantity || 1),
+        totalAmount: amount,
+        fees,
+        withholdingTax: tax,
+        currency,
+      });
+      return;
+    }
+
+    result.rows.push({
+      rowNumber,
+      transactionType,
+      transactionDate,
+      stockCode: 'CASH',
+      stockName: transactionType === 'DEPOSIT' ? '입금' : '출금',
+      quantity: 1,
+      price: amount,
+      totalAmount: amount,
+      fees,
+      withholdingTax: null,
+      currency,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * 가져온 행과 기존 거래가 같은 거래인지 판단하기 위한 키 (일자·유형·종목·수량·금액)
+ */
+export function getDuplicateKey(row: {
+  transactionType: string;
+  transactionDate: Date;
+  stockCode: string;
+  quantity: number;
+  totalAmount: number;
+}): string {
+  return [
+    row.transactionDate.toISOString().split('T')[0],
+    row.transactionType,
+    row.stockCode,
+    row.quantity,
+    Math.round(row.totalAmount * 100) / 100,
+  ].join('|');
+}
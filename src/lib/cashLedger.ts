@@ -0,0 +1,141 @@
+import { prisma } from '@/lib/prisma';
+
+// 현금 원장 - 계좌·통화별 예수금을 거래내역으로부터 계산합니다.
+// 입금·매도·배당은 현금을 늘리고, 매수·출금은 줄이며, 수수료는 항상 차감됩니다.
+
+export interface CashLedgerTransaction {
+  id: string;
+  accountId: string;
+  transactionType: string;
+  stockCode: string;
+  totalAmount: number;
+  fees: number | null;
+  currency: string;
+  transactionDate: Date;
+}
+
+export interface CashOverdraft {
+  transactionId: string;
+  stockCode: string;
+  transactionDate: Date;
+  required: number;   // 매수금액 + 수수료
+  available: number;  // 매수 직전 예수금
+  shortfall: number;  // 부족 금액
+}
+
+export interface CashBalance {
+  accountId: string;
+  currency: string;
+  balance: number;
+  deposits: number;
+  withdrawals: number;
+  dividends: number;
+  buys: number;
+  sells: number;
+  fees: number;
+  overdrafts: CashOverdraft[];
+}
+
+function emptyBalance(accountId: string, currency: string): CashBalance {
+  return {
+    accountId,
+    currency,
+    balance: 0,
+    deposits: 0,
+    withdrawals: 0,
+    dividends: 0,
+    buys: 0,
+    sells: 0,
+    fees: 0,
+    overdrafts: [],
+  };
+}
+
+/**
+ * 거래내역을 날짜순으로 재생하여 계좌·통화별 예수금을 계산합니다 (DB 접근 없음)
+ *
+ * 매수 금액이 직전 예수금을 초과하면 초과 매수(overdraft)로 기록하되 잔액 계산은 그대로 진행합니다.
+ */
+export function replayCashLedger(transactions: CashLedgerTransaction[]): CashBalance[] {
+  const balances = new Map<string, CashBalance>();
+
+  for (const transaction of transactions) {
+    const currency = transaction.currency || 'KRW';
+    const key = `${transaction.accountId}_${currency}`;
+    const cash = balances.get(key) || emptyBalance(transaction.accountId, currency);
+    const amount = transaction.totalAmount || 0;
+    const fees = transaction.fees || 0;
+
+    switch (transaction.transactionType) {
+      case 'DEPOSIT':
+        cash.deposits += amount;
+        cash.balance += amount;
+        break;
+      case 'WITHDRAWAL':
+        cash.withdrawals += amount;
+        cash.balance -= amount;
+        break;
+      case 'DIVIDEND':
+        cash.dividends += amount;
+        cash.balance += amount;
+        break;
+      case 'SELL':
+        cash.sells += amount;
+        cash.balance += amount;
+        break;
+      case 'BUY':
+        if (amount + fees > cash.balance) {
+          cash.overdrafts.push({
+            transactionId: transaction.id,
+            stockCode: transaction.stockCode,
+            transactionDate: transaction.transactionDate,
+            required: amount + fees,
+            available: cash.balance,
+            shortfall: amount + fees - cash.balance,
+          });
+        }
+        cash.buys += amount;
+        cash.balance -= amount;
+        break;
+      default:
+        continue;
+    }
+
+    cash.fees += fees;
+    cash.balance -= fees;
+    balances.set(key, cash);
+  }
+
+  return Array.from(balances.values());
+}
+
+/**
+ * 사용자(또는 특정 계좌)의 계좌·통화별 예수금을 조회합니다
+ */
+export async function getCashBalances(scope: {
+  userId: string;
+  accountId?: string;
+}): Promise<CashBalance[]> {
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      account: { userId: scope.userId },
+      ...(scope.accountId && { accountId: scope.accountId }),
+    },
+    select: {
+      id: true,
+      accountId: true,
+      transactionType: true,
+      stockCode: true,
+      totalAmount: true,
+      fees: true,
+      currency: true,
+      transactionDate: true,
+    },
+    orderBy: [
+      { transactionDate: 'asc' },
+      { createdAt: 'asc' },
+    ],
+  });
+
+  return replayCashLedger(transactions);
+}
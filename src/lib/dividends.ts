@@ -0,0 +1,63 @@
+// 배당금 계산 유틸리티 - 세전 배당금, 원천징수세, 세후 배당금 산출
+// DB에 접근하지 않으므로 클라이언트 화면에서도 사용할 수 있습니다.
+
+// 통화별 기본 원천징수세율 (국내 배당소득세 14% + 지방소득세 1.4%, 미국 조세조약 15%)
+export const DEFAULT_WITHHOLDING_RATES: Record<string, number> = {
+  KRW: 0.154,
+  USD: 0.15,
+};
+
+export interface DividendAmounts {
+  grossAmount: number;
+  withholdingTax: number;
+  netAmount: number;
+}
+
+export function getDefaultWithholdingRate(currency: string): number {
+  return DEFAULT_WITHHOLDING_RATES[currency] ?? 0;
+}
+
+/**
+ * 원천징수세를 통화 단위에 맞게 절사합니다 (원화는 원 단위, 외화는 센트 단위)
+ */
+export function calculateWithholdingTax(grossAmount: number, currency: string, rate?: number): number {
+  const tax = grossAmount * (rate ?? getDefaultWithholdingRate(currency));
+  return currency === 'KRW' ? Math.floor(tax) : Math.floor(tax * 100) / 100;
+}
+
+/**
+ * 배당금 입력값으로부터 세전/세금/세후 금액을 결정합니다
+ *
+ * - 세전 배당금이 있으면 원천징수세(미입력 시 기본 세율)를 차감해 세후 금액을 계산
+ * - 세전 배당금이 없으면 입력 금액을 세후 수령액으로 보고, 원천징수세가 있으면 더해 세전 금액을 계산
+ */
+export function resolveDividendAmounts(input: {
+  amount?: number;
+  grossAmount?: number | null;
+  withholdingTax?: number | null;
+  currency: string;
+}): DividendAmounts | string {
+  const withholdingTax = input.withholdingTax ?? null;
+
+  if (withholdingTax !== null && withholdingTax < 0) {
+    return '원천징수세는 0 이상이어야 합니다.';
+  }
+
+  if (input.grossAmount !== undefined && input.grossAmount !== null) {
+    if (!(input.grossAmount > 0)) {
+      return '세전 배당금을 올바르게 입력해주세요.';
+    }
+    const tax = withholdingTax ?? calculateWithholdingTax(input.grossAmount, input.currency);
+    if (tax > input.grossAmount) {
+      return '원천징수세가 세전 배당금보다 클 수 없습니다.';
+    }
+    return { grossAmount: input.grossAmount, withholdingTax: tax, netAmount: input.grossAmount - tax };
+  }
+
+  if (!input.amount || !(input.amount > 0)) {
+    return '배당금을 올바르게 입력해주세요.';
+  }
+
+  const tax = withholdingTax ?? 0;
+  return { grossAmount: input.amount + tax, withholdingTax: tax, netAmount: input.amount };
+}
@@ -0,0 +1,270 @@
+import { prisma } from '@/lib/prisma';
+
+// 환율 조회/저장 - 외부 API에서 가져온 환율과 수동 입력 환율을 일자별로 저장하고,
+// 거래 시점이나 특정 일자의 원화 환율이 필요할 때 저장된 값을 우선 사용합니다.
+//
+// 거래에 기록하는 환율(findExchangeRate)은 그 일자의 환율만 사용하고, 찾지 못하면 대략적 값을 쓰지 않고 거부합니다.
+// 현재 평가액 계산(getExchangeRate)만 마지막 저장 환율이나 기본값으로 대신합니다.
+
+export const DEFAULT_USD_KRW_RATE = 1350; // 평가용 조회가 모두 실패했을 때 사용하는 대략적 값
+
+// 주말·연휴에는 고시 환율이 없으므로 이 기간 안의 직전 환율을 그 날의 환율로 사용
+const RATE_LOOKBACK_DAYS = 7;
+
+const RATE_PROVIDERS = [
+  { source: 'exchangerate-api', url: (base: string) => `https://api.exchangerate-api.com/v4/latest/${base}` },
+  { source: 'open-er-api', url: (base: string) => `https://open.er-api.com/v6/latest/${base}` },
+];
+
+// 과거 일자 환율 (유럽중앙은행 고시 기준, 주말·휴일이면 직전 영업일 환율을 반환)
+const HISTORICAL_RATE_PROVIDER = {
+  source: 'frankfurter',
+  url: (base: string, date: string) => `https://api.frankfurter.app/${date}?from=${base}&to=KRW`,
+};
+
+export interface ExchangeRateRow {
+  date: Date;
+  baseCurrency: string;
+  rate: number;
+}
+
+/**
+ * 날짜를 환율 기준일(UTC 자정)로 맞춥니다
+ */
+export function toRateDate(date: Date | string): Date {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+/**
+ * 외부 API에서 현재 환율을 조회합니다 (실패 시 null)
+ */
+export async function fetchLatestRate(baseCurrency: string = 'USD'): Promise<{ rate: number; source: string } | null> {
+  for (const provider of RATE_PROVIDERS) {
+    try {
+      const response = await fetch(provider.url(baseCurrency), {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const krwRate = data.rates?.KRW;
+
+        if (krwRate && krwRate > 0) {
+          console.log(`Exchange rate ${baseCurrency} to KRW: ${krwRate} from ${provider.source}`);
+          return { rate: krwRate, source: provider.source };
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch exchange rate from ${provider.source}:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 외부 API에서 과거 일자의 환율을 조회합니다 (실패 시 null, date는 실제 고시일)
+ */
+export async function fetchHistoricalRate(
+  baseCurrency: string,
+  date: Date
+): Promise<{ rate: number; source: string; date: Date } | null> {
+  const dateKey = toRateDate(date).toISOString().split('T')[0];
+  try {
+    const response = await fetch(HISTORICAL_RATE_PROVIDER.url(baseCurrency, dateKey));
+    if (response.ok) {
+      const data = await response.json();
+      const krwRate = data.rates?.KRW;
+
+      if (krwRate && krwRate > 0 && data.date) {
+        console.log(`Exchange rate ${baseCurrency} to KRW on ${data.date}: ${krwRate} from ${HISTORICAL_RATE_PROVIDER.source}`);
+        return { rate: krwRate, source: HISTORICAL_RATE_PROVIDER.source, date: toRateDate(data.date) };
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch ${dateKey} exchange rate from ${HISTORICAL_RATE_PROVIDER.source}:`, error);
+  }
+
+  return null;
+}
+
+// 관리자가 직접 입력하거나 CSV로 올린 환율의 출처
+export const MANUAL_RATE_SOURCES = ['manual', 'csv'];
+
+/**
+ * 일자별 환율을 저장합니다 (같은 날짜는 덮어씀)
+ */
+export async function saveExchangeRate(
+  date: Date | string,
+  baseCurrency: string,
+  rate: number,
+  source: string
+) {
+  const rateDate = toRateDate(date);
+
+  return prisma.exchangeRate.upsert({
+    where: {
+      date_baseCurrency_quoteCurrency: { date: rateDate, baseCurrency, quoteCurrency: 'KRW' },
+    },
+    update: { rate, source },
+    create: { date: rateDate, baseCurrency, quoteCurrency: 'KRW', rate, source },
+  });
+}
+
+/**
+ * 수동 입력·CSV 환율을 저장합니다 (외부 API에서 받은 환율이 이미 있으면 overwrite일 때만 덮어쓰고, 아니면 null)
+ */
+export async function saveManualExchangeRate(
+  date: Date | string,
+  baseCurrency: string,
+  rate: number,
+  source: 'manual' | 'csv',
+  overwrite: boolean = false
+) {
+  const existing = await prisma.exchangeRate.findUnique({
+    where: {
+      date_baseCurrency_quoteCurrency: { date: toRateDate(date), baseCurrency, quoteCurrency: 'KRW' },
+    },
+  });
+
+  if (existing && !MANUAL_RATE_SOURCES.includes(existing.source) && !overwrite) {
+    return null;
+  }
+
+  return saveExchangeRate(date, baseCurrency, rate, source);
+}
+
+/**
+ * 특정 일자의 원화 환율을 찾습니다 (없으면 null)
+ *
+ * 1. 해당 일자 또는 직전 며칠(주말·연휴) 안의 저장 환율 (오늘은 오늘 날짜 환율만)
+ * 2. 외부 API에서 조회 후 저장 (오늘은 현재 환율, 과거는 해당 일자 고시 환율)
+ * 3. 오늘 환율 조회에 실패하면 직전 며칠 안의 저장 환율
+ */
+export async function findExchangeRate(baseCurrency: string, date: Date = new Date()): Promise<number | null> {
+  if (baseCurrency === 'KRW') return 1;
+
+  const rateDate = toRateDate(date);
+  const isToday = rateDate.getTime() === toRateDate(new Date()).getTime();
+
+  const stored = await prisma.exchangeRate.findFirst({
+    where: {
+      baseCurrency,
+      quoteCurrency: 'KRW',
+      date: { lte: rateDate, gte: new Date(rateDate.getTime() - RATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000) },
+    },
+    orderBy: { date: 'desc' },
+  });
+
+  if (stored && (!isToday || stored.date.getTime() === rateDate.getTime())) {
+    return stored.rate;
+  }
+
+  if (isToday) {
+    const latest = await fetchLatestRate(baseCurrency);
+    if (latest) {
+      await saveExchangeRate(rateDate, baseCurrency, latest.rate, latest.source);
+      return latest.rate;
+    }
+  } else {
+    const historical = await fetchHistoricalRate(baseCurrency, rateDate);
+    if (historical) {
+      await saveExchangeRate(historical.date, baseCurrency, historical.rate, historical.source);
+      return historical.rate;
+    }
+  }
+
+  return stored ? stored.rate : null;
+}
+
+/**
+ * 평가액 계산용 원화 환율 (해당 일자 환율이 없으면 마지막 저장 환율, 그것도 없으면 기본 환율)
+ *
+ * 거래에 기록할 환율에는 사용하지 마세요 (resolveTransactionFxRate 사용)
+ */
+export async function getExchangeRate(baseCurrency: string, date: Date = new Date()): Promise<number> {
+  const rate = await findExchangeRate(baseCurrency, date);
+  if (rate !== null) return rate;
+
+  const rateDate = toRateDate(date);
+  const lastStored = await prisma.exchangeRate.findFirst({
+    where: { baseCurrency, quoteCurrency: 'KRW', date: { lte: rateDate } },
+    orderBy: { date: 'desc' },
+  });
+  if (lastStored) {
+    console.warn(`No exchange rate for ${baseCurrency} on ${rateDate.toISOString().split('T')[0]}, using ${lastStored.date.toISOString().split('T')[0]} rate`);
+    return lastStored.rate;
+  }
+
+  console.warn(`No exchange rate for ${baseCurrency} on ${rateDate.toISOString().split('T')[0]}, using fallback rate`);
+  return baseCurrency === 'USD' ? DEFAULT_USD_KRW_RATE : 1;
+}
+
+/**
+ * 거래의 원화 환율 - 거래에 기록된 환율, 기록이 없는 예전 거래는 거래일 환율 (원화 거래는 1)
+ */
+export async function getTransactionFxRate(transaction: {
+  currency: string;
+  fxRate: number | null;
+  transactionDate: Date;
+}): Promise<number> {
+  if (transaction.currency === 'KRW') return 1;
+  return transaction.fxRate || getExchangeRate(transaction.currency, transaction.transactionDate);
+}
+
+export type TransactionFxRateResult = { fxRate: number | null } | { error: string };
+
+/**
+ * 거래에 기록할 환율을 결정합니다 (원화 거래는 null, 그 일자의 환율을 찾지 못하면 오류)
+ */
+export async function resolveTransactionFxRate(
+  currency: string,
+  transactionDate: Date,
+  fxRate?: number | string | null
+): Promise<TransactionFxRateResult> {
+  if (!currency || currency === 'KRW') return { fxRate: null };
+
+  // 사용자가 실제 체결 환율을 입력한 경우 그대로 사용
+  const manualRate = fxRate !== undefined && fxRate !== null && fxRate !== '' ? parseFloat(fxRate.toString()) : NaN;
+  if (manualRate > 0) return { fxRate: manualRate };
+
+  const rate = await findExchangeRate(currency, transactionDate);
+  if (rate === null) {
+    const dateKey = toRateDate(transactionDate).toISOString().split('T')[0];
+    console.warn(`No ${currency} exchange rate for transaction on ${dateKey}`);
+    return { error: `${dateKey} ${currency} 환율을 찾을 수 없습니다. 체결 환율을 직접 입력하거나 환율을 먼저 등록해주세요.` };
+  }
+  return { fxRate: rate };
+}
+
+/**
+ * 환율 CSV를 파싱합니다 (date,currency,rate 형식, 헤더 선택)
+ */
+export function parseExchangeRateCsv(text: string): { rows: ExchangeRateRow[]; errors: string[] } {
+  const rows: ExchangeRateRow[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const [dateValue, currencyValue, rateValue] = trimmed.split(',').map(value => value.trim());
+    if (index === 0 && isNaN(new Date(dateValue).getTime())) return; // 헤더
+
+    const date = new Date(dateValue);
+    const rate = parseFloat(rateValue);
+    const baseCurrency = (currencyValue || '').toUpperCase();
+
+    if (isNaN(date.getTime()) || !/^[A-Z]{3}$/.test(baseCurrency) || !(rate > 0)) {
+      errors.push(`${index + 1}행: 형식이 올바르지 않습니다 (${trimmed})`);
+      return;
+    }
+
+    rows.push({ date: toRateDate(date), baseCurrency, rate });
+  });
+
+  return { rows, errors };
+}
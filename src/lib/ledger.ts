@@ -0,0 +1,579 @@
+import { prisma } from '@/lib/prisma';
+import type { CorporateActionType, CostBasisMethod, Prisma } from '@/generated/prisma';
+
+// 원장 엔진 - 거래내역을 순서대로 재생하여 로트, 보유수량, 평단가를 계산합니다.
+// 보유종목(Holding)과 로트(Lot)는 모두 이 엔진의 결과로만 갱신됩니다.
+
+export interface LedgerTransaction {
+  id: string;
+  transactionType: string;
+  stockCode: string;
+  stockName: string;
+  quantity: number;
+  price: number;
+  fees: number | null;
+  currency: string;
+  fxRate?: number | null;
+  transactionDate: Date;
+}
+
+export interface LedgerLot {
+  transactionId: string;
+  stockCode: string; // 코드 변경·합병 후에는 새 종목코드
+  acquiredAt: Date;
+  quantity: number;
+  remainingQuantity: number;
+  unitCost: number; // 수수료 포함 주당 취득원가
+  fxRate: number | null; // 매수 시점 원화 환율 (외화 로트만)
+}
+
+export interface LotMatch {
+  transactionId: string; // 소진된 로트의 매수 거래 ID
+  quantity: number;
+  unitCost: number;
+  fxRate: number | null;
+}
+
+export interface SellResult {
+  transactionId: string;
+  quantity: number;
+  proceeds: number; // 수수료 차감 후 매도금액
+  costBasis: number;
+  costBasisKRW: number | null; // 외화 매도의 원화 취득원가 (로트별 매수 환율 기준, 환율이 없는 로트가 있으면 null)
+  realizedGain: number;
+  matches: LotMatch[];
+}
+
+export interface LedgerResult {
+  stockName: string;
+  currency: string;
+  lots: LedgerLot[]; // 잔량이 남은 로트만
+  quantity: number;
+  totalCost: number;
+  averagePrice: number;
+  sells: SellResult[];
+}
+
+export interface LotSelectionInput {
+  buyTransactionId: string;
+  quantity: number;
+}
+
+// 매도 거래 ID -> 사용자가 지정한 로트 목록
+export type LotSelectionMap = Map<string, LotSelectionInput[]>;
+
+export interface LedgerCorporateAction {
+  id: string;
+  type: CorporateActionType;
+  stockCode: string;
+  newStockCode: string | null;
+  newStockName: string | null;
+  ratio: number;
+  effectiveDate: Date;
+}
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  FIFO: '선입선출',
+  AVERAGE: '총평균',
+  SPECIFIC: '개별 로트 지정',
+};
+
+export const COST_BASIS_METHODS = Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[];
+
+export const CORPORATE_ACTION_TYPE_LABELS: Record<CorporateActionType, string> = {
+  SPLIT: '액면분할',
+  REVERSE_SPLIT: '액면병합',
+  BONUS_ISSUE: '무상증자',
+  CODE_CHANGE: '종목코드 변경',
+  MERGER: '합병',
+};
+
+export const CORPORATE_ACTION_TYPES = Object.keys(CORPORATE_ACTION_TYPE_LABELS) as CorporateActionType[];
+
+/**
+ * 코드 변경·합병을 따라가 최종 종목코드를 찾습니다
+ */
+export function resolveStockCode(stockCode: string, actions: LedgerCorporateAction[]): string {
+  const visited = new Set<string>();
+  let current = stockCode;
+
+  while (!visited.has(current)) {
+    visited.add(current);
+    const rename = actions.find(action => action.stockCode === current && action.newStockCode);
+    if (!rename?.newStockCode) break;
+    current = rename.newStockCode;
+  }
+
+  return current;
+}
+
+/**
+ * 최종 종목코드로 이어지는 모든 종목코드 (변경 전 코드 포함)
+ */
+export function getStockCodeChain(stockCode: string, actions: LedgerCorporateAction[]): string[] {
+  const target = resolveStockCode(stockCode, actions);
+  const codes = new Set<string>([target]);
+
+  actions.forEach(action => {
+    if (action.newStockCode && resolveStockCode(action.stockCode, actions) === target) {
+      codes.add(action.stockCode);
+    }
+  });
+
+  return Array.from(codes);
+}
+
+/**
+ * 기업 이벤트를 남은 로트에 반영합니다
+ *
+ * 취득원가 총액은 유지하고 수량만 비율대로 조정하며, 단주(소수점 이하 주식)는 절사합니다.
+ * 단주 대금은 별도의 매도 또는 입금 거래로 기록해야 합니다.
+ */
+function applyCorporateAction(lots: LedgerLot[], action: LedgerCorporateAction): void {
+  const affected = lots.filter(lot => lot.stockCode === action.stockCode && lot.remainingQuantity > 0);
+  if (affected.length === 0) return;
+
+  // 분할·병합 비율은 종목 전체 수량에 한 번만 적용하고 절사 (로트별로 절사하면 주식이 사라짐)
+  // 부동소수점 오차로 인한 절사 방지
+  const totalQuantity = affected.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const newTotalQuantity = Math.floor(totalQuantity * action.ratio + 1e-9);
+
+  // 새 수량을 로트별 비율대로 나누고, 남는 주식은 소수점 이하가 큰 로트부터 (같으면 먼저 산 로트부터) 배정
+  const shares = affected.map((lot, index) => {
+    const exact = lot.remainingQuantity * action.ratio;
+    const base = Math.floor(exact + 1e-9);
+    return { lot, index, base, fraction: exact - base, cost: lot.remainingQuantity * lot.unitCost };
+  });
+  let leftover = newTotalQuantity - shares.reduce((sum, share) => sum + share.base, 0);
+  [...shares]
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+    .forEach(share => {
+      if (leftover > 0) {
+        share.base++;
+        leftover--;
+      }
+    });
+
+  // 수량이 0이 된 로트의 취득원가는 마지막으로 남은 로트로 옮겨 종목 전체 취득원가를 유지
+  const lastRemaining = [...shares].reverse().find(share => share.base > 0);
+  shares.forEach(share => {
+    if (share.base === 0 && lastRemaining) {
+      lastRemaining.cost += share.cost;
+      share.cost = 0;
+    }
+  });
+
+  shares.forEach(({ lot, base, cost }) => {
+    lot.quantity = Math.round((lot.quantity - lot.remainingQuantity) * action.ratio) + base;
+    lot.remainingQuantity = base;
+    lot.unitCost = base > 0 ? cost / base : 0;
+    if (action.newStockCode) {
+      lot.stockCode = action.newStockCode;
+    }
+  });
+}
+
+/**
+ * 로트에서 지정 수량을 소진하고 매칭 결과를 기록합니다
+ */
+function consumeLot(lot: LedgerLot, quantity: number, matches: LotMatch[]): number {
+  const consumed = Math.min(lot.remainingQuantity, quantity);
+  if (consumed <= 0) return 0;
+
+  lot.remainingQuantity -= consumed;
+  matches.push({ transactionId: lot.transactionId, quantity: consumed, unitCost: lot.unitCost, fxRate: lot.fxRate });
+  return consumed;
+}
+
+/**
+ * 거래내역을 재생하여 로트와 보유 현황을 계산합니다 (DB 접근 없음)
+ *
+ * - FIFO: 가장 먼저 매수한 로트부터 소진
+ * - AVERAGE: 매도 직전 남은 로트 전체를 평균 단가로 맞춘 뒤 소진 (평단가 유지)
+ * - SPECIFIC: 지정한 로트를 먼저 소진하고, 부족분은 FIFO로 소진
+ *
+ * 매도 수수료는 매도 대금에서 차감되는 비용이므로 남은 로트의 취득원가에는 반영하지 않습니다.
+ * 기업 이벤트는 효력일 당일 거래보다 먼저 반영됩니다.
+ */
+export function replayLedger(
+  transactions: LedgerTransaction[],
+  method: CostBasisMethod,
+  selections: LotSelectionMap = new Map(),
+  actions: LedgerCorporateAction[] = []
+): LedgerResult {
+  const lots: LedgerLot[] = [];
+  const sells: SellResult[] = [];
+  const pendingActions = [...actions].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  let stockName = '';
+  let currency = 'KRW';
+
+  const applyActionsUntil = (date: Date) => {
+    while (pendingActions.length > 0 && pendingActions[0].effectiveDate <= date) {
+      const action = pendingActions.shift()!;
+      applyCorporateAction(lots, action);
+      stockName = action.newStockName || stockName;
+    }
+  };
+
+  for (const transaction of transactions) {
+    applyActionsUntil(transaction.transactionDate);
+    stockName = transaction.stockName || stockName;
+    currency = transaction.currency || currency;
+
+    if (transaction.transactionType === 'BUY') {
+      const quantity = transaction.quantity || 0;
+      if (quantity <= 0) continue;
+
+      const cost = quantity * (transaction.price || 0) + (transaction.fees || 0);
+      lots.push({
+        transactionId: transaction.id,
+        stockCode: transaction.stockCode,
+        acquiredAt: transaction.transactionDate,
+        quantity,
+        remainingQuantity: quantity,
+        unitCost: cost / quantity,
+        fxRate: transaction.fxRate ?? null,
+      });
+    } else if (transaction.transactionType === 'SELL') {
+      const openLots = lots.filter(lot => lot.stockCode === transaction.stockCode && lot.remainingQuantity > 0);
+      const matches: LotMatch[] = [];
+      let remaining = transaction.quantity || 0;
+
+      if (method === 'AVERAGE') {
+        const openQuantity = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+        const openCost = openLots.reduce((sum, lot) => sum + lot.remainingQuantity * lot.unitCost, 0);
+        const average = openQuantity > 0 ? openCost / openQuantity : 0;
+        // 원화 취득원가도 유지되도록 환율을 취득원가 가중평균으로 맞춤
+        const hasFxRates = openLots.length > 0 && openLots.every(lot => lot.fxRate !== null);
+        const averageFxRate = hasFxRates && openCost > 0
+          ? openLots.reduce((sum, lot) => sum + lot.remainingQuantity * lot.unitCost * (lot.fxRate || 0), 0) / openCost
+          : null;
+        openLots.forEach(lot => {
+          lot.unitCost = average;
+          lot.fxRate = averageFxRate;
+        });
+      }
+
+      if (method === 'SPECIFIC') {
+        for (const selection of selections.get(transaction.id) || []) {
+          const lot = openLots.find(candidate => candidate.transactionId === selection.buyTransactionId);
+          if (!lot) {
+            console.warn(`지정한 로트를 찾을 수 없습니다 - 매도 ${transaction.id}, 로트 ${selection.buyTransactionId}`);
+            continue;
+          }
+          remaining -= consumeLot(lot, Math.min(selection.quantity, remaining), matches);
+        }
+      }
+
+      for (const lot of openLots) {
+        if (remaining <= 0) break;
+        remaining -= consumeLot(lot, remaining, matches);
+      }
+
+      if (remaining > 0) {
+        console.warn(`보유수량을 초과한 매도입니다 - 매도 ${transaction.id}, 초과 수량 ${remaining}`);
+      }
+
+      const proceeds = (transaction.quantity || 0) * (transaction.price || 0) - (transaction.fees || 0);
+      const costBasis = matches.reduce((sum, match) => sum + match.quantity * match.unitCost, 0);
+      const hasFxRates = (transaction.currency || 'KRW') !== 'KRW' && matches.every(match => match.fxRate !== null);
+
+      sells.push({
+        transactionId: transaction.id,
+        quantity: matches.reduce((sum, match) => sum + match.quantity, 0),
+        proceeds,
+        costBasis,
+        costBasisKRW: hasFxRates
+          ? matches.reduce((sum, match) => sum + match.quantity * match.unitCost * (match.fxRate || 0), 0)
+          : null,
+        realizedGain: proceeds - costBasis,
+        matches,
+      });
+    }
+  }
+
+  // 마지막 거래 이후 현재까지 효력이 발생한 기업 이벤트도 반영
+  applyActionsUntil(new Date());
+
+  const openLots = lots.filter(lot => lot.remainingQuantity > 0);
+  const quantity = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const totalCost = openLots.reduce((sum, lot) => sum + lot.remainingQuantity * lot.unitCost, 0);
+
+  return {
+    stockName,
+    currency,
+    lots: openLots,
+    quantity,
+    totalCost,
+    averagePrice: quantity > 0 ? totalCost / quantity : 0,
+    sells,
+  };
+}
+
+/**
+ * 매도 거래들에 지정된 로트 선택을 조회합니다
+ */
+export async function loadLotSelections(
+  client: Prisma.TransactionClient,
+  sellTransactionIds: string[]
+): Promise<LotSelectionMap> {
+  const selections: LotSelectionMap = new Map();
+  if (sellTransactionIds.length === 0) return selections;
+
+  const rows = await client.lotSelection.findMany({
+    where: { sellTransactionId: { in: sellTransactionIds } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  rows.forEach(row => {
+    const list = selections.get(row.sellTransactionId) || [];
+    list.push({ buyTransactionId: row.buyTransactionId, quantity: row.quantity });
+    selections.set(row.sellTransactionId, list);
+  });
+
+  return selections;
+}
+
+/**
+ * 사용자가 등록한 기업 이벤트를 효력일 순으로 조회합니다
+ */
+export async function loadCorporateActions(
+  client: Prisma.TransactionClient,
+  userId: string
+): Promise<LedgerCorporateAction[]> {
+  return client.corporateAction.findMany({
+    where: { userId: userId },
+    orderBy: [
+      { effectiveDate: 'asc' },
+      { createdAt: 'asc' },
+    ],
+  });
+}
+
+/**
+ * 계좌의 특정 종목 원장을 다시 계산하여 로트와 보유종목을 갱신합니다
+ *
+ * 코드 변경·합병이 있으면 변경 전 코드의 거래까지 함께 재생하여 최종 종목코드의 보유종목으로 합칩니다.
+ */
+export async function rebuildHoldingLedger(accountId: string, stockCode: string): Promise<LedgerResult> {
+  let targetCode = stockCode;
+
+  const result = await prisma.$transaction(async (tx) => {
+    const account = await tx.account.findUnique({
+      where: { id: accountId },
+      select: { userId: true, costBasisMethod: true },
+    });
+    const allActions = account ? await loadCorporateActions(tx, account.userId) : [];
+    targetCode = resolveStockCode(stockCode, allActions);
+    const codes = getStockCodeChain(targetCode, allActions);
+    const actions = allActions.filter(action => codes.includes(action.stockCode));
+
+    const transactions = await tx.transaction.findMany({
+      where: {
+        accountId: accountId,
+        stockCode: { in: codes },
+        transactionType: { in: ['BUY', 'SELL'] },
+      },
+      orderBy: [
+        { transactionDate: 'asc' },
+        { createdAt: 'asc' },
+      ],
+    });
+    const selections = await loadLotSelections(
+      tx,
+      transactions.filter(t => t.transactionType === 'SELL').map(t => t.id)
+    );
+    const ledger = replayLedger(transactions, account?.costBasisMethod || 'FIFO', selections, actions);
+
+    await tx.lot.deleteMany({
+      where: { accountId: accountId, stockCode: { in: codes } },
+    });
+
+    if (ledger.lots.length > 0) {
+      await tx.lot.createMany({
+        data: ledger.lots.map(lot => ({
+          accountId: accountId,
+          transactionId: lot.transactionId,
+          stockCode: lot.stockCode,
+          stockName: ledger.stockName,
+          currency: ledger.currency,
+          acquiredAt: lot.acquiredAt,
+          quantity: lot.quantity,
+          remainingQuantity: lot.remainingQuantity,
+          unitCost: lot.unitCost,
+          fxRate: lot.fxRate,
+        })),
+      });
+    }
+
+    // 매도별 취득원가와 실현손익 기록
+    for (const sell of ledger.sells) {
+      await tx.transaction.update({
+        where: { id: sell.transactionId },
+        data: {
+          costBasis: sell.costBasis,
+          costBasisKRW: sell.costBasisKRW,
+          realizedGain: sell.realizedGain,
+        },
+      });
+    }
+
+    // 변경 전 코드의 보유종목은 최종 종목코드로 합쳐지므로 삭제
+    await tx.holding.deleteMany({
+      where: { accountId: accountId, stockCode: { in: codes.filter(code => code !== targetCode) } },
+    });
+
+    if (ledger.quantity > 0) {
+      await tx.holding.upsert({
+        where: {
+          accountId_stockCode: { accountId: accountId, stockCode: targetCode },
+        },
+        update: {
+          quantity: ledger.quantity,
+          averagePrice: ledger.averagePrice,
+          stockName: ledger.stockName,
+          currency: ledger.currency,
+        },
+        create: {
+          accountId: accountId,
+          stockCode: targetCode,
+          stockName: ledger.stockName,
+          quantity: ledger.quantity,
+          averagePrice: ledger.averagePrice,
+          currency: ledger.currency,
+        },
+      });
+    } else {
+      await tx.holding.deleteMany({
+        where: { accountId: accountId, stockCode: targetCode },
+      });
+    }
+
+    return ledger;
+  });
+
+  console.log(`보유종목 재계산 완료 - ${targetCode}: 수량 ${result.quantity}, 평단가 ${result.averagePrice}`);
+  return result;
+}
+
+/**
+ * 사용자(또는 특정 계좌/종목) 범위의 모든 원장을 다시 계산합니다
+ */
+export async function rebuildLedgers(scope: {
+  userId: string;
+  accountId?: string;
+  stockCode?: string;
+}): Promise<number> {
+  const pairs = await prisma.transaction.findMany({
+    where: {
+      account: { userId: scope.userId },
+      transactionType: { in: ['BUY', 'SELL'] },
+      ...(scope.accountId && { accountId: scope.accountId }),
+      ...(scope.stockCode && { stockCode: scope.stockCode }),
+    },
+    distinct: ['accountId', 'stockCode'],
+    select: { accountId: true, stockCode: true },
+  });
+
+  // 코드 변경·합병으로 같은 보유종목이 되는 조합은 한 번만 재계산
+  const actions = await loadCorporateActions(prisma, scope.userId);
+  const rebuilt = new Set<string>();
+
+  let holdingsCount = 0;
+  for (const pair of pairs) {
+    const key = `${pair.accountId}_${resolveStockCode(pair.stockCode, actions)}`;
+    if (rebuilt.has(key)) continue;
+    rebuilt.add(key);
+
+    const ledger = await rebuildHoldingLedger(pair.accountId, pair.stockCode);
+    if (ledger.quantity > 0) holdingsCount++;
+  }
+
+  return holdingsCount;
+}
+
+/**
+ * 매도 시 지정한 로트 목록을 검증합니다 (오류 메시지 또는 null 반환)
+ */
+export async function validateLotSelections(
+  accountId: string,
+  stockCode: string,
+  sellQuantity: number,
+  selections: LotSelectionInput[]
+): Promise<string | null> {
+  const totalSelected = selections.reduce((sum, selection) => sum + (selection.quantity || 0), 0);
+  if (selections.some(selection => !selection.buyTransactionId || !(selection.quantity > 0))) {
+    return '지정한 로트의 수량이 올바르지 않습니다.';
+  }
+  if (totalSelected > sellQuantity) {
+    return '지정한 로트 수량의 합이 매도 수량을 초과합니다.';
+  }
+
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: { userId: true },
+  });
+  const actions = account ? await loadCorporateActions(prisma, account.userId) : [];
+
+  const buyTransactions = await prisma.transaction.findMany({
+    where: {
+      id: { in: selections.map(selection => selection.buyTransactionId) },
+      accountId: accountId,
+      stockCode: { in: getStockCodeChain(stockCode, actions) },
+      transactionType: 'BUY',
+    },
+    select: { id: true },
+  });
+
+  if (buyTransactions.length !== new Set(selections.map(selection => selection.buyTransactionId)).size) {
+    return '같은 계좌, 같은 종목의 매수 로트만 지정할 수 있습니다.';
+  }
+
+  return null;
+}
+
+/**
+ * 기업 이벤트 입력값을 검증합니다 (오류 메시지 또는 null 반환)
+ */
+export function validateCorporateAction(input: {
+  type: string;
+  stockCode?: string;
+  newStockCode?: string | null;
+  newStockName?: string | null;
+  ratio?: number;
+  effectiveDate?: string;
+}): string | null {
+  if (!CORPORATE_ACTION_TYPES.includes(input.type as CorporateActionType)) {
+    return '지원하지 않는 기업 이벤트 유형입니다.';
+  }
+  if (!input.stockCode || !input.effectiveDate) {
+    return '종목코드와 효력일을 입력해주세요.';
+  }
+  if (isNaN(new Date(input.effectiveDate).getTime())) {
+    return '효력일 형식이 올바르지 않습니다.';
+  }
+
+  const ratio = input.ratio ?? 1;
+  switch (input.type as CorporateActionType) {
+    case 'SPLIT':
+    case 'BONUS_ISSUE':
+      if (!(ratio > 1)) return '분할·무상증자 비율은 1보다 커야 합니다.';
+      break;
+    case 'REVERSE_SPLIT':
+      if (!(ratio > 0 && ratio < 1)) return '병합 비율은 0과 1 사이여야 합니다.';
+      break;
+    case 'CODE_CHANGE':
+      if (!input.newStockCode && !input.newStockName) return '변경 후 종목코드 또는 종목명을 입력해주세요.';
+      break;
+    case 'MERGER':
+      if (!input.newStockCode) return '합병 후 종목코드를 입력해주세요.';
+      if (!(ratio > 0)) return '합병 교환비율은 0보다 커야 합니다.';
+      break;
+  }
+
+  if (input.newStockCode && input.newStockCode === input.stockCode) {
+    return '변경 후 종목코드가 기존 종목코드와 같습니다.';
+  }
+
+  return null;
+}
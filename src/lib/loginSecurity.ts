@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+import { consumeRateLimit, resetRateLimit, RateLimitRule } from '@/lib/rateLimit';
+import { describeDevice, getClientIp } from '@/lib/sessions';
+
+// 로그인 보호 - 시도 횟수 제한, 연속 실패 시 계정 잠금, 로그인 기록을 담당합니다.
+//
+// - IP별·계정(이메일)별로 최근 15분 동안의 시도 횟수를 제한 (비밀번호·2단계 인증 모두)
+// - 비밀번호나 2단계 인증 코드를 연속으로 틀리면 계정을 잠시 잠그고, 잠금이 반복될수록 두 배씩 늘림
+// - 성공·실패를 LoginEvent에 남기고, 처음 보는 기기에서 로그인하면 알림과 메일을 보냄
+
+export type LoginFailureReason =
+  | 'INVALID_PASSWORD'
+  | 'INVALID_TWO_FACTOR'
+  | 'UNKNOWN_USER'
+  | 'LOCKED'
+  | 'RATE_LIMITED'
+  | 'EMAIL_NOT_VERIFIED';
+
+const IP_RATE_LIMIT: RateLimitRule = { limit: 30, windowMs: 15 * 60 * 1000 };
+const ACCOUNT_RATE_LIMIT: RateLimitRule = { limit: 10, windowMs: 15 * 60 * 1000 };
+
+// 연속 실패가 이 횟수에 이르면 잠금 (이후 실패할 때마다 잠금 시간이 두 배)
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+// 기기 식별 쿠키 (새 기기 로그인 판단용)
+const DEVICE_COOKIE_NAME = 'device-id';
+const DEVICE_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+// 로그인 기록 보관 기간
+const LOGIN_EVENT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+interface LoginUser {
+  id: string;
+  email: string;
+  username: string;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * IP별·계정별 시도 횟수를 기록하고, 넘었으면 다시 시도할 수 있을 때까지 남은 초를 반환합니다 (허용이면 0)
+ */
+export async function consumeLoginRateLimit(request: NextRequest, email: string): Promise<number> {
+  const ip = getClientIp(request) || 'unknown';
+  const [byIp, byAccount] = await Promise.all([
+    consumeRateLimit(`login:ip:${ip}`, IP_RATE_LIMIT),
+    consumeRateLimit(`login:account:${normalizeEmail(email)}`, ACCOUNT_RATE_LIMIT),
+  ]);
+
+  if (byIp.allowed && byAccount.allowed) return 0;
+  console.log(`Login rate limit exceeded (ip ${ip}, account ${email})`);
+  return Math.max(byIp.retryAfterSeconds, byAccount.retryAfterSeconds);
+}
+
+/**
+ * 시도 횟수 초과·계정 잠금 응답 (Retry-After 헤더 포함)
+ */
+export function tooManyAttemptsResponse(retryAfterSeconds: number, locked: boolean = false): NextResponse {
+  const minutes = Math.max(1, Math.ceil(retryAfterSeconds / 60));
+  const response = NextResponse.json(
+    {
+      error: locked
+        ? `로그인에 여러 번 실패해 계정이 잠겼습니다. ${minutes}분 후 다시 시도하거나 비밀번호를 재설정해주세요.`
+        : `로그인 시도가 너무 많습니다. ${minutes}분 후 다시 시도해주세요.`,
+      retryAfterSeconds,
+      ...(locked && { locked: true }),
+    },
+    { status: 429 }
+  );
+  response.headers.set('Retry-After', String(retryAfterSeconds));
+  return response;
+}
+
+/**
+ * 계정이 잠겨 있으면 풀릴 때까지 남은 초 (잠겨 있지 않으면 0)
+ */
+export function getLockoutSeconds(user: { lockedUntil: Date | null }): number {
+  if (!user.lockedUntil) return 0;
+  const remainingMs = user.lockedUntil.getTime() - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+}
+
+/**
+ * 연속 실패 횟수를 늘리고, 기준을 넘었으면 계정을 잠급니다 (잠갔으면 남은 초, 아니면 0)
+ */
+export async function recordLoginFailure(userId: string): Promise<number> {
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+  if (failedLoginCount < LOCKOUT_THRESHOLD) return 0;
+
+  const lockoutMs = Math.min(LOCKOUT_BASE_MS * 2 ** (failedLoginCount - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: new Date(Date.now() + lockoutMs) },
+  });
+  console.log(`Account ${userId} locked for ${lockoutMs / 1000}s after ${failedLoginCount} failed logins`);
+  return Math.ceil(lockoutMs / 1000);
+}
+
+/**
+ * 연속 실패 횟수와 잠금을 초기화합니다 (로그인 성공·비밀번호 재설정)
+ */
+export async function resetLoginFailures(userId: string, email: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+  await resetRateLimit(`login:account:${normalizeEmail(email)}`);
+}
+
+function getDeviceId(request: NextRequest): string | null {
+  const deviceId = request.cookies.get(DEVICE_COOKIE_NAME)?.value;
+  return deviceId && /^[\w-]{16,64}$/.test(deviceId) ? deviceId : null;
+}
+
+/**
+ * 실패한 로그인 시도를 기록합니다 (없는 계정이면 userId 없이)
+ */
+export async function recordFailedLogin(
+  request: NextRequest,
+  email: string,
+  reason: LoginFailureReason,
+  userId: string | null = null
+): Promise<void> {
+  const userAgent = request.headers.get('user-agent');
+  await prisma.loginEvent.create({
+    data: {
+      userId,
+      email,
+      success: false,
+      reason,
+      ipAddress: getClientIp(request),
+      userAgent,
+      deviceName: describeDevice(userAgent),
+      deviceId: getDeviceId(request),
+    },
+  });
+}
+
+/**
+ * 로그인 성공 처리 - 실패 횟수 초기화, 기록, 새 기기 알림, 기기 쿠키 설정
+ */
+export async function recordSuccessfulLogin(user: LoginUser, request: NextRequest, response: NextResponse): Promise<void> {
+  await resetLoginFailures(user.id, user.email);
+
+  // 오래된 기록 정리
+  await prisma.loginEvent.deleteMany({
+    where: { userId: user.id, createdAt: { lt: new Date(Date.now() - LOGIN_EVENT_RETENTION_MS) } },
+  });
+
+  const deviceId = getDeviceId(request) || crypto.randomBytes(24).toString('base64url');
+  const [knownDevice, previousLogin] = await Promise.all([
+    prisma.loginEvent.findFirst({ where: { userId: user.id, deviceId, success: true }, select: { id: true } }),
+    prisma.loginEvent.findFirst({ where: { userId: user.id, success: true }, select: { id: true } }),
+  ]);
+
+  // 처음 로그인하는 사용자는 모든 기기가 새 기기이므로 알리지 않음
+  const newDevice = !knownDevice && !!previousLogin;
+  const userAgent = request.headers.get('user-agent');
+  const deviceName = describeDevice(userAgent);
+  const ipAddress = getClientIp(request);
+
+  await prisma.loginEvent.create({
+    data: {
+      userId: user.id,
+      email: user.email,
+      success: true,
+      ipAddress,
+      userAgent,
+      deviceName,
+      deviceId,
+      newDevice,
+    },
+  });
+
+  response.cookies.set(DEVICE_COOKIE_NAME, deviceId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: DEVICE_COOKIE_MAX_AGE_SECONDS,
+    path: '/',
+  });
+
+  if (newDevice) {
+    await notifyNewDeviceLogin(user, deviceName, ipAddress);
+  }
+}
+
+async function notifyNewDeviceLogin(user: LoginUser, deviceName: string, ipAddress: string | null): Promise<void> {
+  console.log(`New device login for user ${user.id}: ${deviceName} (${ipAddress || 'unknown IP'})`);
+  const location = ipAddress ? `${deviceName}, IP ${ipAddress}` : deviceName;
+
+  await prisma.notification.create({
+    data: {
+      userId: user.id,
+      title: '새 기기에서 로그인',
+      message: `${location}에서 로그인했습니다. 본인이 아니라면 비밀번호를 변경하고 로그인 기기를 확인해주세요.`,
+      link: '/profile',
+    },
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: '[myAccountIsEmpty] 새 기기에서 로그인했습니다',
+    text: [
+      `${user.username}님, 처음 보는 기기에서 계정에 로그인했습니다.`,
+      '',
+      `기기: ${deviceName}`,
+      `IP: ${ipAddress || '알 수 없음'}`,
+      `시각: ${new Date().toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' })}`,
+      '',
+      '본인이 로그인했다면 이 메일을 무시하세요. 그렇지 않다면 즉시 비밀번호를 변경하고 로그인 기기 목록에서 해당 기기를 로그아웃해주세요.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * 최근 로그인 기록 (최신 순)
+ */
+export async function listLoginEvents(userId: string, take: number = 20) {
+  return prisma.loginEvent.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      success: true,
+      reason: true,
+      ipAddress: true,
+      deviceName: true,
+      newDevice: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
@@ -0,0 +1,59 @@
+import type { MailMessage, MailTransport } from './types';
+import { smtpTransport } from './transports/smtp';
+import { fileTransport } from './transports/file';
+import { consoleTransport } from './transports/console';
+
+// 메일 발송 진입점 - 서버의 모든 메일은 이 모듈을 통해 설정된 발송 방식으로 보냅니다.
+//
+// MAIL_TRANSPORT=smtp|file|console (지정하지 않으면 SMTP_HOST가 있을 때 smtp, 없으면 console)
+// MAIL_FROM: 보내는 사람 (예: "myAccountIsEmpty <no-reply@example.com>")
+
+export type { MailMessage, MailTransport, OutgoingMail } from './types';
+
+const DEFAULT_MAIL_FROM = 'myAccountIsEmpty <no-reply@localhost>';
+
+const transports = new Map<string, MailTransport>();
+
+/**
+ * 발송 방식을 등록합니다 (같은 ID는 교체)
+ */
+export function registerMailTransport(transport: MailTransport) {
+  transports.set(transport.id, transport);
+}
+
+export function getMailTransport(id: string): MailTransport | undefined {
+  return transports.get(id);
+}
+
+/**
+ * 사용할 발송 방식 ID
+ */
+export function resolveMailTransport(): string {
+  if (process.env.MAIL_TRANSPORT) {
+    return process.env.MAIL_TRANSPORT.trim();
+  }
+  return process.env.SMTP_HOST ? 'smtp' : 'console';
+}
+
+/**
+ * 메일을 보냅니다 (실패하면 로그를 남기고 false)
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const transportId = resolveMailTransport();
+  const transport = transports.get(transportId);
+  if (!transport) {
+    console.error(`Unknown mail transport: ${transportId}`);
+    return false;
+  }
+
+  try {
+    await transport.send({ ...message, from: process.env.MAIL_FROM || DEFAULT_MAIL_FROM });
+    console.log(`Mail sent to ${message.to} via ${transport.id}: ${message.subject}`);
+    return true;
+  } catch (error) {
+    console.error(`Mail transport ${transport.id} failed for ${message.to}:`, error);
+    return false;
+  }
+}
+
+[smtpTransport, fileTransport, consoleTransport].forEach(registerMailTransport);
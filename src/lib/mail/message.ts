@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import type { OutgoingMail } from './types';
+
+// RFC 5322 메일 원문 생성 - 한글 제목·본문을 위해 UTF-8 base64로 인코딩합니다.
+
+function encodeHeader(value: string): string {
+  // ASCII만 있으면 그대로, 아니면 RFC 2047 인코딩
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(value: string): string {
+  const base64 = Buffer.from(value.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return base64.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+/**
+ * "이름 <주소>" 형태에서 메일 주소만 꺼냅니다
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function formatAddress(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return extractAddress(value);
+  return `${encodeHeader(match[1])} <${match[2].trim()}>`;
+}
+
+function textPart(contentType: string, body: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(body),
+  ];
+}
+
+/**
+ * 메일 원문 (헤더 + 본문, 줄바꿈은 CRLF)
+ */
+export function buildMimeMessage(mail: OutgoingMail, date: Date = new Date()): string {
+  const domain = extractAddress(mail.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${formatAddress(mail.from)}`,
+    `To: ${formatAddress(mail.to)}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!mail.html) {
+    return [...headers, ...textPart('text/plain', mail.text)].join('\r\n');
+  }
+
+  // 텍스트와 HTML을 함께 보내고 메일 앱이 고르게 함
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart('text/plain', mail.text),
+    `--${boundary}`,
+    ...textPart('text/html', mail.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
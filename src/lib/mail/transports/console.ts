@@ -0,0 +1,19 @@
+import type { MailTransport, OutgoingMail } from '../types';
+
+// 콘솔 발송 - 실제로 보내지 않고 서버 로그에 내용을 출력합니다 (SMTP를 설정하지 않았을 때 기본값).
+
+export const consoleTransport: MailTransport = {
+  id: 'console',
+  name: '콘솔 출력',
+  async send(mail: OutgoingMail) {
+    console.log([
+      '----- Mail (console transport) -----',
+      `From: ${mail.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      '',
+      mail.text,
+      '------------------------------------',
+    ].join('\n'));
+  },
+};
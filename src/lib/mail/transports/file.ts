@@ -0,0 +1,26 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailTransport, OutgoingMail } from '../types';
+import { buildMimeMessage } from '../message';
+
+// 파일 발송 - 실제로 보내지 않고 메일 원문을 .eml 파일로 저장합니다 (로컬 개발·테스트용).
+// MAIL_FILE_DIR로 저장 위치를 바꿀 수 있습니다 (기본 ./tmp/mail).
+
+function getMailDirectory(): string {
+  return process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail');
+}
+
+export const fileTransport: MailTransport = {
+  id: 'file',
+  name: '파일 저장',
+  async send(mail: OutgoingMail) {
+    const directory = getMailDirectory();
+    await mkdir(directory, { recursive: true });
+
+    const recipient = mail.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}_${recipient}.eml`);
+    await writeFile(filePath, buildMimeMessage(mail), 'utf8');
+
+    console.log(`Mail saved to ${filePath}`);
+  },
+};
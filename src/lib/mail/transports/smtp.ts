@@ -0,0 +1,215 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { MailTransport, OutgoingMail } from '../types';
+import { buildMimeMessage, extractAddress } from '../message';
+
+// SMTP 발송 - 외부 라이브러리 없이 필요한 명령(EHLO, STARTTLS, AUTH, MAIL, RCPT, DATA)만 구현합니다.
+//
+// SMTP_HOST, SMTP_PORT(기본 587, SMTP_SECURE=true면 465), SMTP_USER, SMTP_PASSWORD
+// SMTP_SECURE=true면 처음부터 TLS로 연결하고, 아니면 서버가 지원할 때 STARTTLS로 전환합니다.
+
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+function getSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  };
+}
+
+// 응답을 줄 단위로 읽어 "250-..." 여러 줄 응답을 하나로 묶음
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.replyLines.push(line);
+
+      // "250 OK"처럼 코드 뒤가 공백이면 응답의 마지막 줄
+      if (/^\d{3}( |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.replyLines.map(l => l.slice(4)) });
+        this.replyLines = [];
+        this.flush();
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else if (this.failure) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  async expect(expectedCode: number, label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (reply.code !== expectedCode) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  // label: 오류 메시지에 쓸 이름 (인증 정보가 담긴 명령은 내용 대신 이름만 남김)
+  async command(line: string, expectedCode: number, label: string = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCode, label);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  // STARTTLS 이후 같은 연결을 TLS로 감쌈
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('timeout');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onConnect = () => {
+      socket.off('error', reject);
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    };
+    const onTimeout = () => socket.destroy(new Error('SMTP connection timed out'));
+
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect);
+    socket.once('error', reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, onTimeout);
+  });
+}
+
+function parseExtensions(reply: SmtpReply): string[] {
+  return reply.lines.slice(1).map(line => line.toUpperCase());
+}
+
+// DATA 본문 - 줄 맨 앞의 "."은 ".."로 (RFC 5321 4.5.2)
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, '..');
+}
+
+export const smtpTransport: MailTransport = {
+  id: 'smtp',
+  name: 'SMTP',
+  async send(mail: OutgoingMail) {
+    const config = getSmtpConfig();
+    const connection = new SmtpConnection(await connect(config));
+
+    try {
+      await connection.expect(220, 'greeting');
+      const hostname = os.hostname() || 'localhost';
+      let extensions = parseExtensions(await connection.command(`EHLO ${hostname}`, 250));
+
+      if (!config.secure && extensions.includes('STARTTLS')) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(config.host);
+        extensions = parseExtensions(await connection.command(`EHLO ${hostname}`, 250));
+      }
+
+      if (config.user && config.password) {
+        const authMethods = extensions.find(line => line.startsWith('AUTH'))?.split(/[\s=]+/) || [];
+        if (authMethods.includes('PLAIN')) {
+          const credentials = Buffer.from(`\0${config.user}\0${config.password}`, 'utf8').toString('base64');
+          await connection.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH PLAIN');
+        } else {
+          await connection.command('AUTH LOGIN', 334);
+          await connection.command(Buffer.from(config.user, 'utf8').toString('base64'), 334, 'AUTH LOGIN username');
+          await connection.command(Buffer.from(config.password, 'utf8').toString('base64'), 235, 'AUTH LOGIN password');
+        }
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(mail.from)}>`, 250);
+      await connection.command(`RCPT TO:<${extractAddress(mail.to)}>`, 250);
+      await connection.command('DATA', 354);
+      connection.write(`${dotStuff(buildMimeMessage(mail))}\r\n.\r\n`);
+      await connection.expect(250, 'DATA');
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  },
+};
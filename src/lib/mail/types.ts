@@ -0,0 +1,20 @@
+// 메일 발송 공통 타입
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// 발송 직전의 메일 (보내는 사람 주소 포함)
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  id: string;
+  name: string;
+  // 발송에 실패하면 예외
+  send(mail: OutgoingMail): Promise<void>;
+}
@@ -0,0 +1,461 @@
+import { prisma } from '@/lib/prisma';
+import type { MarketEvent, MarketEventImportance, MarketEventType } from '@/generated/prisma';
+import { parseCsv } from '@/lib/brokerImport';
+import { toBarDate } from '@/lib/priceHistory';
+
+// 시장 이벤트 - 관리자가 등록하거나 CSV/ICS로 가져온 경제지표 발표, 실적 발표, 배당락일, 배당금 지급일 일정(MarketEvent)을
+// 사용자의 보유종목·관심종목 기준으로 걸러 제공합니다. 경제지표 일정은 모든 사용자에게 보입니다.
+
+export const MARKET_EVENT_TYPES: MarketEventType[] = ['ECONOMIC', 'EARNINGS', 'EX_DIVIDEND', 'DIVIDEND_PAYMENT'];
+export const MARKET_EVENT_IMPORTANCES: MarketEventImportance[] = ['HIGH', 'MEDIUM', 'LOW']; // 높은 순
+
+export const MARKET_EVENT_TYPE_LABELS: Record<MarketEventType, string> = {
+  ECONOMIC: '경제지표',
+  EARNINGS: '실적 발표',
+  EX_DIVIDEND: '배당락',
+  DIVIDEND_PAYMENT: '배당금 지급',
+};
+
+export const DEFAULT_EVENT_DAYS = 2; // 기본 조회 기간: 오늘부터 모레까지
+export const MAX_EVENT_DAYS = 90;
+
+// 국가 코드별 표시 이름
+const COUNTRY_LABELS: Record<string, string> = {
+  KR: '🇰🇷 한국',
+  US: '🇺🇸 미국',
+  CN: '🇨🇳 중국',
+  JP: '🇯🇵 일본',
+  EU: '🇪🇺 유럽',
+};
+
+// 이벤트 타입 정의 (대시보드 알림 목록 형식)
+export interface EventAlert {
+  id: string;
+  type: 'dividend' | 'earnings' | 'news' | 'economic';
+  stockCode?: string;
+  stockName: string;
+  message: string;
+  date: string;
+  priority: 'high' | 'medium' | 'low';
+  country?: string; // 국가 정보 추가
+  eventType: MarketEventType; // 저장된 이벤트 유형 (배당락과 배당금 지급은 type이 모두 dividend)
+}
+
+// 등록·가져오기 입력값
+export interface MarketEventInput {
+  type: MarketEventType;
+  date: string; // YYYY-MM-DD (한국 날짜)
+  time?: string | null;
+  title: string;
+  description?: string | null;
+  country?: string | null;
+  stockCode?: string | null;
+  stockName?: string | null;
+  importance?: MarketEventImportance;
+  uid?: string | null;
+}
+
+/**
+ * 한국 날짜(YYYY-MM-DD)를 반환합니다
+ */
+export function toKoreanDate(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'Asia/Seoul',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * 시장 이벤트 입력값을 검증합니다 (오류 메시지 또는 null)
+ */
+export function validateMarketEvent(input: Partial<MarketEventInput>): string | null {
+  if (!input.type || !MARKET_EVENT_TYPES.includes(input.type)) {
+    return `이벤트 유형은 ${MARKET_EVENT_TYPES.join(', ')} 중 하나여야 합니다.`;
+  }
+
+  if (!input.date || !/^\d{4}-\d{2}-\d{2}$/.test(input.date) || isNaN(new Date(input.date).getTime())) {
+    return '날짜는 YYYY-MM-DD 형식이어야 합니다.';
+  }
+
+  if (input.time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.time)) {
+    return '시각은 HH:mm 형식이어야 합니다.';
+  }
+
+  if (!input.title || !input.title.trim()) {
+    return '이벤트 제목을 입력해주세요.';
+  }
+
+  if (input.type !== 'ECONOMIC' && !input.stockCode) {
+    return '실적·배당 이벤트는 종목코드가 필요합니다.';
+  }
+
+  if (input.importance && !MARKET_EVENT_IMPORTANCES.includes(input.importance)) {
+    return `중요도는 ${MARKET_EVENT_IMPORTANCES.join(', ')} 중 하나여야 합니다.`;
+  }
+
+  return null;
+}
+
+/**
+ * 입력값을 저장 형식으로 변환합니다
+ */
+export function toMarketEventData(input: MarketEventInput, source: string) {
+  return {
+    type: input.type,
+    date: toBarDate(input.date),
+    time: input.time || null,
+    title: input.title.trim(),
+    description: input.description?.trim() || null,
+    country: input.country ? input.country.trim().toUpperCase() : null,
+    stockCode: input.stockCode ? input.stockCode.trim().toUpperCase() : null,
+    stockName: input.stockName?.trim() || null,
+    importance: input.importance || 'MEDIUM',
+    source,
+    uid: input.uid || null,
+  };
+}
+
+/**
+ * 가져온 이벤트를 저장합니다 (uid가 같은 일정은 갱신)
+ */
+export async function saveMarketEvents(inputs: MarketEventInput[], source: string): Promise<{ created: number; updated: number }> {
+  let created = 0;
+  let updated = 0;
+
+  for (const input of inputs) {
+    const data = toMarketEventData(input, source);
+    if (data.uid) {
+      const existing = await prisma.marketEvent.findUnique({ where: { uid: data.uid } });
+      if (existing) {
+        await prisma.marketEvent.update({ where: { id: existing.id }, data });
+        updated++;
+        continue;
+      }
+    }
+    await prisma.marketEvent.create({ data });
+    created++;
+  }
+
+  return { created, updated };
+}
+
+/**
+ * 시장 이벤트 CSV를 파싱합니다
+ * (date,type,title,stockCode,stockName,country,time,importance,description 형식, 헤더 선택, 7열 이후 생략 가능)
+ */
+export function parseMarketEventCsv(text: string): { events: MarketEventInput[]; errors: string[] } {
+  const events: MarketEventInput[] = [];
+  const errors: string[] = [];
+
+  parseCsv(text.replace(/^\uFEFF/, '')).forEach((row, index) => {
+    const values = row.map(value => value.trim());
+    if (values.every(value => !value)) return;
+    if (index === 0 && values[0].toLowerCase() === 'date') return; // 헤더
+
+    const [date, type, title, stockCode, stockName, country, time, importance, description] = values;
+    const input: MarketEventInput = {
+      type: (type || '').toUpperCase() as MarketEventType,
+      date,
+      time: time || null,
+      title,
+      description: description || null,
+      country: country || null,
+      stockCode: stockCode || null,
+      stockName: stockName || null,
+      importance: importance ? importance.toUpperCase() as MarketEventImportance : undefined,
+      uid: `csv:${date}:${(type || '').toUpperCase()}:${(stockCode || country || '').toUpperCase()}:${title}`,
+    };
+
+    const validationError = validateMarketEvent(input);
+    if (validationError) {
+      errors.push(`${index + 1}행: ${validationError}`);
+      return;
+    }
+    events.push(input);
+  });
+
+  return { events, errors };
+}
+
+// 특정 시간대의 현지 시각(YYYY-MM-DDTHH:mm:ss)을 실제 시각으로 변환
+function zonedTimeToUtc(wall: string, timeZone: string): Date {
+  const guess = new Date(`${wall}Z`);
+  try {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(guess);
+    const value = (type: string) => parts.find(part => part.type === type)?.value;
+    const zoned = new Date(`${value('year')}-${value('month')}-${value('day')}T${value('hour')}:${value('minute')}:${value('second')}Z`);
+    return new Date(guess.getTime() - (zoned.getTime() - guess.getTime()));
+  } catch {
+    return guess; // 알 수 없는 시간대는 UTC로 간주
+  }
+}
+
+// ICS 텍스트 값의 이스케이프 해제
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * ICS(iCalendar) 일정을 파싱합니다
+ *
+ * CATEGORIES에 ECONOMIC/EARNINGS/EX_DIVIDEND가 있으면 그 유형으로, 없으면 defaultType으로 가져옵니다.
+ * 종목 이벤트는 X-STOCK-CODE, X-STOCK-NAME, 경제지표는 X-COUNTRY 속성을 읽습니다.
+ * 시각이 있는 일정(UTC 또는 TZID)은 한국 날짜·시각으로 변환합니다.
+ */
+export function parseMarketEventIcs(
+  text: string,
+  defaultType: MarketEventType = 'ECONOMIC'
+): { events: MarketEventInput[]; errors: string[] } {
+  const events: MarketEventInput[] = [];
+  const errors: string[] = [];
+
+  // 접힌 줄 펼치기 (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  let current: Record<string, { params: string; value: string }> | null = null;
+  let eventIndex = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      eventIndex++;
+      continue;
+    }
+
+    if (line === 'END:VEVENT' && current) {
+      const start = current['DTSTART'];
+      const categories = (current['CATEGORIES']?.value || '').toUpperCase().split(',').map(value => value.trim());
+      const type = MARKET_EVENT_TYPES.find(value => categories.includes(value)) || defaultType;
+
+      let date = '';
+      let time: string | null = null;
+      if (start) {
+        const match = start.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+        if (match) {
+          const [, year, month, day, hour, minute, , utc] = match;
+          const timeZone = start.params.match(/TZID=([^;:]+)/i)?.[1];
+          if (hour && (utc || timeZone)) {
+            // UTC·타임존 지정 시각은 한국 날짜·시각으로 변환
+            const wall = `${year}-${month}-${day}T${hour}:${minute}:00`;
+            const instant = utc ? new Date(`${wall}Z`) : zonedTimeToUtc(wall, timeZone!);
+            date = toKoreanDate(instant);
+            time = new Intl.DateTimeFormat('en-GB', { timeZone: 'Asia/Seoul', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(instant);
+          } else {
+            // 날짜만 있거나 시간대가 없는 시각은 한국시간으로 간주
+            date = `${year}-${month}-${day}`;
+            time = hour ? `${hour}:${minute}` : null;
+          }
+        }
+      }
+
+      const priority = parseInt(current['PRIORITY']?.value || '');
+      const input: MarketEventInput = {
+        type,
+        date,
+        time,
+        title: unescapeIcsText(current['SUMMARY']?.value || ''),
+        description: current['DESCRIPTION'] ? unescapeIcsText(current['DESCRIPTION'].value) : null,
+        country: current['X-COUNTRY']?.value || null,
+        stockCode: current['X-STOCK-CODE']?.value || null,
+        stockName: current['X-STOCK-NAME'] ? unescapeIcsText(current['X-STOCK-NAME'].value) : null,
+        // PRIORITY 1–4 높음, 5 보통, 6–9 낮음
+        importance: isNaN(priority) || priority === 0 ? undefined : priority < 5 ? 'HIGH' : priority === 5 ? 'MEDIUM' : 'LOW',
+        uid: current['UID'] ? `ics:${current['UID'].value}` : null,
+      };
+
+      const validationError = validateMarketEvent(input);
+      if (validationError) {
+        errors.push(`${eventIndex}번째 일정(${input.title || '제목 없음'}): ${validationError}`);
+      } else {
+        events.push(input);
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const [name, ...params] = line.slice(0, separator).split(';');
+    current[name.toUpperCase()] = { params: params.join(';'), value: line.slice(separator + 1) };
+  }
+
+  return { events, errors };
+}
+
+/**
+ * 사용자의 보유종목과 관심종목 코드
+ */
+export async function getUserEventSymbols(userId: string): Promise<string[]> {
+  const [holdings, watchlist] = await Promise.all([
+    prisma.holding.findMany({
+      where: { account: { userId: userId }, quantity: { gt: 0 } },
+      select: { stockCode: true },
+    }),
+    prisma.watchlistItem.findMany({
+      where: { userId: userId },
+      select: { stockCode: true },
+    }),
+  ]);
+
+  return Array.from(new Set([...holdings, ...watchlist].map(item => item.stockCode.toUpperCase())));
+}
+
+/**
+ * 저장된 이벤트를 대시보드 알림 형식으로 변환합니다
+ */
+export function toEventAlert(event: MarketEvent): EventAlert {
+  const date = event.date.toISOString().split('T')[0];
+  const [, month, day] = date.split('-').map(Number);
+  const when = `${month}월 ${day}일${event.time ? ` ${event.time} KST` : ''}`;
+  const country = event.country ? COUNTRY_LABELS[event.country] || event.country : undefined;
+
+  return {
+    id: event.id,
+    type: event.type === 'ECONOMIC' ? 'economic' : event.type === 'EARNINGS' ? 'earnings' : 'dividend',
+    stockCode: event.stockCode || undefined,
+    stockName: event.type === 'ECONOMIC' ? country || '🌍 국제' : event.stockName || event.stockCode || '',
+    message: `${event.title} (${when})`,
+    date,
+    priority: event.importance === 'HIGH' ? 'high' : event.importance === 'LOW' ? 'low' : 'medium',
+    country,
+    eventType: event.type,
+  };
+}
+
+/**
+ * 사용자에게 보이는 이벤트 (경제지표 + 보유·관심종목 이벤트, 날짜 범위는 from–to 포함)
+ */
+export async function listUserEvents(
+  userId: string,
+  options: { from: Date; to: Date; types?: MarketEventType[]; minImportance?: MarketEventImportance }
+): Promise<MarketEvent[]> {
+  const symbols = await getUserEventSymbols(userId);
+  const importances = options.minImportance
+    ? MARKET_EVENT_IMPORTANCES.slice(0, MARKET_EVENT_IMPORTANCES.indexOf(options.minImportance) + 1)
+    : MARKET_EVENT_IMPORTANCES;
+
+  return prisma.marketEvent.findMany({
+    where: {
+      date: { gte: options.from, lte: options.to },
+      importance: { in: importances },
+      ...(options.types && { type: { in: options.types } }),
+      OR: [
+        { type: 'ECONOMIC' },
+        { stockCode: { in: symbols } },
+      ],
+    },
+    orderBy: [{ date: 'asc' }, { time: 'asc' }],
+  });
+}
+
+/**
+ * 사용자에게 보여줄 다가오는 이벤트 (오늘부터 days일 뒤까지, 경제지표 + 보유·관심종목 이벤트)
+ */
+export async function fetchUpcomingEvents(userId: string, options: { days?: number } = {}): Promise<EventAlert[]> {
+  const days = Math.min(Math.max(options.days ?? DEFAULT_EVENT_DAYS, 0), MAX_EVENT_DAYS);
+  const from = toBarDate(toKoreanDate());
+  const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const events = await listUserEvents(userId, { from, to });
+  return events.map(toEventAlert);
+}
+
+// ICS 텍스트 값 이스케이프
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// 75바이트 단위 줄 접기 (RFC 5545 3.1, 멀티바이트 문자는 나누지 않음)
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+// Date → YYYYMMDDTHHMMSSZ
+function toIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * 이벤트를 iCalendar(VCALENDAR) 텍스트로 변환합니다
+ *
+ * UID는 이벤트 ID로 고정해 일정이 수정돼도 캘린더 앱에서 같은 일정으로 갱신되고,
+ * SEQUENCE는 마지막 수정 시각(초)으로 매겨 항상 증가합니다.
+ * 시각이 없는 이벤트는 종일 일정, 있는 이벤트는 한국시간을 UTC로 바꿔 30분 일정으로 씁니다.
+ */
+export function toIcsCalendar(events: MarketEvent[], calendarName: string): string {
+  const now = toIcsDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//myAccountIsEmpty//Market Events//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Seoul',
+  ];
+
+  for (const event of events) {
+    const date = event.date.toISOString().split('T')[0];
+    const target = event.type === 'ECONOMIC'
+      ? (event.country ? COUNTRY_LABELS[event.country] || event.country : '')
+      : event.stockName || event.stockCode || '';
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.id}@myaccountisempty`);
+    lines.push(`DTSTAMP:${now}`);
+    lines.push(`LAST-MODIFIED:${toIcsDateTime(event.updatedAt)}`);
+    lines.push(`SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`);
+
+    if (event.time) {
+      const start = new Date(`${date}T${event.time}:00+09:00`);
+      lines.push(`DTSTART:${toIcsDateTime(start)}`);
+      lines.push(`DTEND:${toIcsDateTime(new Date(start.getTime() + 30 * 60 * 1000))}`);
+    } else {
+      const next = new Date(event.date.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      lines.push(`DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`);
+      lines.push(`DTEND;VALUE=DATE:${next.replace(/-/g, '')}`);
+      lines.push('TRANSP:TRANSPARENT');
+    }
+
+    lines.push(`SUMMARY:${escapeIcsText(`[${MARKET_EVENT_TYPE_LABELS[event.type]}] ${target ? `${target} ` : ''}${event.title}`)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    lines.push(`CATEGORIES:${event.type}`);
+    lines.push(`PRIORITY:${event.importance === 'HIGH' ? 1 : event.importance === 'LOW' ? 9 : 5}`);
+    if (event.stockCode) lines.push(`X-STOCK-CODE:${escapeIcsText(event.stockCode)}`);
+    if (event.stockName) lines.push(`X-STOCK-NAME:${escapeIcsText(event.stockName)}`);
+    if (event.country) lines.push(`X-COUNTRY:${escapeIcsText(event.country)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
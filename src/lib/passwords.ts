@@ -0,0 +1,26 @@
+import bcrypt from 'bcryptjs';
+
+// 비밀번호 규칙·해싱 - 회원가입, 비밀번호 변경·재설정에서 같이 씁니다.
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * 비밀번호 규칙 검사 (문제가 있으면 오류 메시지)
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || !password) {
+    return '비밀번호를 입력해주세요.';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `비밀번호는 최소 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`;
+  }
+  return null;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 12);
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  return bcrypt.compare(password, hash);
+}
@@ -0,0 +1,568 @@
+import { prisma } from '@/lib/prisma';
+import {
+  CORPORATE_ACTION_TYPES,
+  COST_BASIS_METHODS,
+  rebuildLedgers,
+} from '@/lib/ledger';
+import { getDuplicateKey } from '@/lib/brokerImport';
+import type {
+  CorporateActionType,
+  CostBasisMethod,
+  InstitutionType,
+  TransactionType,
+} from '@/generated/prisma';
+
+// 포트폴리오 백업/복원 - 사용자의 계좌, 계좌 설정, 보유종목, 거래내역, 기업 이벤트를
+// 버전이 있는 JSON 아카이브로 내보내고, 다른 인스턴스에서 계좌번호 기준으로 병합 복원합니다.
+// 로트와 실현손익은 거래내역으로부터 다시 계산되므로 아카이브에 포함하지 않습니다.
+
+export const PORTFOLIO_ARCHIVE_FORMAT = 'my-account-is-empty/portfolio';
+export const PORTFOLIO_ARCHIVE_VERSION = 1;
+
+const INSTITUTION_TYPES: InstitutionType[] = ['SECURITIES', 'BANK', 'INSURANCE', 'CRYPTO', 'INVESTMENT', 'OTHER'];
+const TRANSACTION_TYPES: TransactionType[] = ['BUY', 'SELL', 'DIVIDEND', 'DEPOSIT', 'WITHDRAWAL'];
+
+export interface ArchiveHolding {
+  stockCode: string;
+  stockName: string;
+  quantity: number;
+  averagePrice: number;
+  currentPrice: number | null;
+  currency: string;
+}
+
+export interface ArchiveTransaction {
+  ref: string; // 아카이브 내 참조용 ID (로트 지정 연결에 사용)
+  transactionType: TransactionType;
+  transactionDate: string;
+  stockCode: string;
+  stockName: string;
+  quantity: number;
+  price: number;
+  totalAmount: number;
+  fees: number | null;
+  currency: string;
+  fxRate: number | null;
+  grossAmount: number | null;
+  withholdingTax: number | null;
+  exDate: string | null;
+}
+
+export interface ArchiveLotSelection {
+  sellRef: string;
+  buyRef: string;
+  quantity: number;
+}
+
+export interface ArchiveAccount {
+  accountNumber: string;
+  accountType: string;
+  nickname: string | null;
+  costBasisMethod: CostBasisMethod;
+  institution: {
+    name: string;
+    type: InstitutionType;
+  };
+  holdings: ArchiveHolding[];
+  transactions: ArchiveTransaction[];
+  lotSelections: ArchiveLotSelection[];
+}
+
+export interface ArchiveCorporateAction {
+  type: CorporateActionType;
+  stockCode: string;
+  newStockCode: string | null;
+  newStockName: string | null;
+  ratio: number;
+  effectiveDate: string;
+  description: string | null;
+}
+
+export interface PortfolioArchive {
+  format: typeof PORTFOLIO_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  accounts: ArchiveAccount[];
+  corporateActions: ArchiveCorporateAction[];
+}
+
+export interface RestoreSummary {
+  accountsCreated: number;
+  accountsMerged: number;
+  holdingsImported: number;
+  transactionsImported: number;
+  transactionsSkipped: number; // 기존 거래와 중복되어 건너뛴 거래
+  corporateActionsImported: number;
+  holdingsCount: number;
+}
+
+export type ArchiveEntity = 'accounts' | 'holdings' | 'transactions' | 'corporateActions';
+
+export const ARCHIVE_ENTITIES: ArchiveEntity[] = ['accounts', 'holdings', 'transactions', 'corporateActions'];
+
+const toDateString = (date: Date | null) => (date ? date.toISOString() : null);
+
+/**
+ * 사용자의 전체 포트폴리오를 아카이브로 만듭니다
+ */
+export async function buildPortfolioArchive(userId: string): Promise<PortfolioArchive> {
+  const [accounts, corporateActions] = await Promise.all([
+    prisma.account.findMany({
+      where: { userId },
+      include: {
+        institution: true,
+        holdings: { orderBy: { stockCode: 'asc' } },
+        transactions: {
+          orderBy: [{ transactionDate: 'asc' }, { createdAt: 'asc' }],
+          include: { sellLotSelections: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.corporateAction.findMany({
+      where: { userId },
+      orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  return {
+    format: PORTFOLIO_ARCHIVE_FORMAT,
+    version: PORTFOLIO_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    accounts: accounts.map(account => ({
+      accountNumber: account.accountNumber,
+      accountType: account.accountType,
+      nickname: account.nickname,
+      costBasisMethod: account.costBasisMethod,
+      institution: {
+        name: account.institution.name,
+        type: account.institution.type,
+      },
+      holdings: account.holdings.map(holding => ({
+        stockCode: holding.stockCode,
+        stockName: holding.stockName,
+        quantity: holding.quantity,
+        averagePrice: holding.averagePrice,
+        currentPrice: holding.currentPrice,
+        currency: holding.currency,
+      })),
+      transactions: account.transactions.map(transaction => ({
+        ref: transaction.id,
+        transactionType: transaction.transactionType,
+        transactionDate: transaction.transactionDate.toISOString(),
+        stockCode: transaction.stockCode,
+        stockName: transaction.stockName,
+        quantity: transaction.quantity,
+        price: transaction.price,
+        totalAmount: transaction.totalAmount,
+        fees: transaction.fees,
+        currency: transaction.currency,
+        fxRate: transaction.fxRate,
+        grossAmount: transaction.grossAmount,
+        withholdingTax: transaction.withholdingTax,
+        exDate: toDateString(transaction.exDate),
+      })),
+      lotSelections: account.transactions.flatMap(transaction =>
+        transaction.sellLotSelections.map(selection => ({
+          sellRef: selection.sellTransactionId,
+          buyRef: selection.buyTransactionId,
+          quantity: selection.quantity,
+        }))
+      ),
+    })),
+    corporateActions: corporateActions.map(action => ({
+      type: action.type,
+      stockCode: action.stockCode,
+      newStockCode: action.newStockCode,
+      newStockName: action.newStockName,
+      ratio: action.ratio,
+      effectiveDate: action.effectiveDate.toISOString(),
+      description: action.description,
+    })),
+  };
+}
+
+/**
+ * 아카이브 구조를 검증합니다 (오류가 없으면 빈 배열)
+ */
+export function validatePortfolioArchive(data: unknown): string[] {
+  const errors: string[] = [];
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isText = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+  const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+  const isOptionalNumber = (value: unknown) => value === null || value === undefined || isNumber(value);
+  const isDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+  const check = (condition: boolean, path: string, message: string) => {
+    if (!condition) errors.push(`${path}: ${message}`);
+  };
+
+  if (!isObject(data)) {
+    return ['아카이브는 JSON 객체여야 합니다.'];
+  }
+
+  if (data.format !== PORTFOLIO_ARCHIVE_FORMAT) {
+    return [`지원하지 않는 파일 형식입니다: ${String(data.format)}`];
+  }
+
+  if (typeof data.version !== 'number' || data.version < 1 || data.version > PORTFOLIO_ARCHIVE_VERSION) {
+    return [`지원하지 않는 아카이브 버전입니다: ${String(data.version)}`];
+  }
+
+  if (!Array.isArray(data.accounts)) {
+    return ['accounts: 계좌 목록이 없습니다.'];
+  }
+
+  const accountNumbers = new Set<string>();
+
+  data.accounts.forEach((account, accountIndex) => {
+    const path = `accounts[${accountIndex}]`;
+    if (!isObject(account)) {
+      errors.push(`${path}: 계좌 형식이 올바르지 않습니다.`);
+      return;
+    }
+
+    check(isText(account.accountNumber), `${path}.accountNumber`, '계좌번호가 없습니다.');
+    check(!accountNumbers.has(account.accountNumber as string), `${path}.accountNumber`, '계좌번호가 중복되었습니다.');
+    accountNumbers.add(account.accountNumber as string);
+    check(isText(account.accountType), `${path}.accountType`, '계좌 유형이 없습니다.');
+    check(
+      typeof account.costBasisMethod === 'string' && COST_BASIS_METHODS.includes(account.costBasisMethod as CostBasisMethod),
+      `${path}.costBasisMethod`,
+      '지원하지 않는 취득원가 산정 방식입니다.'
+    );
+    check(
+      isObject(account.institution) && isText(account.institution.name)
+        && INSTITUTION_TYPES.includes(account.institution.type as InstitutionType),
+      `${path}.institution`,
+      '금융기관 정보가 올바르지 않습니다.'
+    );
+
+    const holdings = Array.isArray(account.holdings) ? account.holdings : null;
+    const transactions = Array.isArray(account.transactions) ? account.transactions : null;
+    const lotSelections = Array.isArray(account.lotSelections) ? account.lotSelections : null;
+    check(holdings !== null, `${path}.holdings`, '보유종목 목록이 없습니다.');
+    check(transactions !== null, `${path}.transactions`, '거래내역 목록이 없습니다.');
+    check(lotSelections !== null, `${path}.lotSelections`, '로트 지정 목록이 없습니다.');
+
+    holdings?.forEach((holding, index) => {
+      const itemPath = `${path}.holdings[${index}]`;
+      check(
+        isObject(holding) && isText(holding.stockCode) && isText(holding.stockName)
+          && Number.isInteger(holding.quantity) && isNumber(holding.averagePrice)
+          && isOptionalNumber(holding.currentPrice) && isText(holding.currency),
+        itemPath,
+        '보유종목 형식이 올바르지 않습니다.'
+      );
+    });
+
+    const refs = new Set<string>();
+    transactions?.forEach((transaction, index) => {
+      const itemPath = `${path}.transactions[${index}]`;
+      if (!isObject(transaction)) {
+        errors.push(`${itemPath}: 거래 형식이 올바르지 않습니다.`);
+        return;
+      }
+
+      check(isText(transaction.ref) && !refs.has(transaction.ref as string), `${itemPath}.ref`, '참조 ID가 없거나 중복되었습니다.');
+      refs.add(transaction.ref as string);
+      check(TRANSACTION_TYPES.includes(transaction.transactionType as TransactionType), `${itemPath}.transactionType`, '지원하지 않는 거래 유형입니다.');
+      check(isDate(transaction.transactionDate), `${itemPath}.transactionDate`, '날짜 형식이 올바르지 않습니다.');
+      check(isText(transaction.stockCode) && isText(transaction.stockName), `${itemPath}.stockCode`, '종목코드 또는 종목명이 없습니다.');
+      check(Number.isInteger(transaction.quantity) && (transaction.quantity as number) >= 0, `${itemPath}.quantity`, '수량이 올바르지 않습니다.');
+      check(isNumber(transaction.price) && isNumber(transaction.totalAmount), `${itemPath}.totalAmount`, '금액이 올바르지 않습니다.');
+      check(isText(transaction.currency), `${itemPath}.currency`, '통화가 없습니다.');
+      check(
+        [transaction.fees, transaction.fxRate, transaction.grossAmount, transaction.withholdingTax].every(isOptionalNumber),
+        itemPath,
+        '수수료, 환율, 배당 금액은 숫자 또는 null이어야 합니다.'
+      );
+      check(transaction.exDate === null || transaction.exDate === undefined || isDate(transaction.exDate), `${itemPath}.exDate`, '날짜 형식이 올바르지 않습니다.');
+    });
+
+    lotSelections?.forEach((selection, index) => {
+      check(
+        isObject(selection) && refs.has(selection.sellRef as string) && refs.has(selection.buyRef as string)
+          && Number.isInteger(selection.quantity) && (selection.quantity as number) > 0,
+        `${path}.lotSelections[${index}]`,
+        '로트 지정이 존재하지 않는 거래를 참조합니다.'
+      );
+    });
+  });
+
+  if (!Array.isArray(data.corporateActions)) {
+    errors.push('corporateActions: 기업 이벤트 목록이 없습니다.');
+  } else {
+    data.corporateActions.forEach((action, index) => {
+      check(
+        isObject(action) && typeof action.type === 'string' && CORPORATE_ACTION_TYPES.includes(action.type as CorporateActionType)
+          && isText(action.stockCode) && isNumber(action.ratio) && isDate(action.effectiveDate),
+        `corporateActions[${index}]`,
+        '기업 이벤트 형식이 올바르지 않습니다.'
+      );
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * 아카이브를 사용자 데이터에 복원합니다
+ *
+ * 같은 계좌번호의 계좌가 있으면 그 계좌에 병합하고(복원 전부터 있던 거래와 중복되는 거래는 건너뜀),
+ * 없으면 계좌를 새로 만듭니다. 복원 후 원장을 다시 계산하여 보유종목을 갱신합니다.
+ */
+export async function restorePortfolioArchive(userId: string, archive: PortfolioArchive): Promise<RestoreSummary> {
+  const summary: RestoreSummary = {
+    accountsCreated: 0,
+    accountsMerged: 0,
+    holdingsImported: 0,
+    transactionsImported: 0,
+    transactionsSkipped: 0,
+    corporateActionsImported: 0,
+    holdingsCount: 0,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    for (const archiveAccount of archive.accounts) {
+      let account = await tx.account.findFirst({
+        where: { userId, accountNumber: archiveAccount.accountNumber },
+      });
+
+      if (account) {
+        summary.accountsMerged++;
+      } else {
+        // 다른 인스턴스의 금융기관은 이름으로 찾고, 없으면 새로 등록
+        const institution = await tx.institution.upsert({
+          where: { name: archiveAccount.institution.name },
+          update: {},
+          create: {
+            name: archiveAccount.institution.name,
+            type: archiveAccount.institution.type,
+          },
+        });
+
+        account = await tx.account.create({
+          data: {
+            userId,
+            institutionId: institution.id,
+            accountNumber: archiveAccount.accountNumber,
+            accountType: archiveAccount.accountType,
+            nickname: archiveAccount.nickname,
+            costBasisMethod: archiveAccount.costBasisMethod,
+          },
+        });
+        summary.accountsCreated++;
+      }
+
+      const accountId = account.id;
+      const existingTransactions = await tx.transaction.findMany({
+        where: { accountId },
+        select: {
+          id: true,
+          transactionType: true,
+          transactionDate: true,
+          stockCode: true,
+          quantity: true,
+          totalAmount: true,
+        },
+      });
+
+      // 복원 전부터 있던 거래만 중복 판단에 사용 - 같은 키의 거래가 여러 건이면 아카이브 거래와 하나씩 짝지음
+      // (같은 날 같은 금액의 체결·입금이 여러 건일 수 있으므로 복원 중에 만든 거래는 넣지 않음)
+      const existingIds = new Map<string, string[]>();
+      for (const transaction of existingTransactions) {
+        const key = getDuplicateKey(transaction);
+        existingIds.set(key, [...(existingIds.get(key) || []), transaction.id]);
+      }
+
+      // 아카이브 참조 ID -> 복원된(또는 기존) 거래 ID
+      const refMap = new Map<string, string>();
+      const importedRefs = new Set<string>();
+
+      for (const archiveTransaction of archiveAccount.transactions) {
+        const transactionDate = new Date(archiveTransaction.transactionDate);
+        const key = getDuplicateKey({ ...archiveTransaction, transactionDate });
+        const existingId = existingIds.get(key)?.shift();
+
+        if (existingId) {
+          refMap.set(archiveTransaction.ref, existingId);
+          summary.transactionsSkipped++;
+          continue;
+        }
+
+        const transaction = await tx.transaction.create({
+          data: {
+            accountId,
+            transactionType: archiveTransaction.transactionType,
+            transactionDate,
+            stockCode: archiveTransaction.stockCode,
+            stockName: archiveTransaction.stockName,
+            quantity: archiveTransaction.quantity,
+            price: archiveTransaction.price,
+            totalAmount: archiveTransaction.totalAmount,
+            fees: archiveTransaction.fees ?? null,
+            currency: archiveTransaction.currency,
+            fxRate: archiveTransaction.fxRate ?? null,
+            grossAmount: archiveTransaction.grossAmount ?? null,
+            withholdingTax: archiveTransaction.withholdingTax ?? null,
+            exDate: archiveTransaction.exDate ? new Date(archiveTransaction.exDate) : null,
+          },
+        });
+
+        refMap.set(archiveTransaction.ref, transaction.id);
+        importedRefs.add(archiveTransaction.ref);
+        summary.transactionsImported++;
+      }
+
+      // 새로 복원한 매도 거래의 로트 지정만 연결
+      const lotSelections = archiveAccount.lotSelections.filter(selection => importedRefs.has(selection.sellRef));
+      if (lotSelections.length > 0) {
+        await tx.lotSelection.createMany({
+          data: lotSelections.map(selection => ({
+            sellTransactionId: refMap.get(selection.sellRef)!,
+            buyTransactionId: refMap.get(selection.buyRef)!,
+            quantity: selection.quantity,
+          })),
+        });
+      }
+
+      // 거래내역이 없는 보유종목(직접 등록분)은 그대로 복원, 나머지는 원장 재계산으로 생성
+      const tradedCodes = new Set(
+        archiveAccount.transactions
+          .filter(transaction => transaction.transactionType === 'BUY' || transaction.transactionType === 'SELL')
+          .map(transaction => transaction.stockCode)
+      );
+
+      for (const holding of archiveAccount.holdings) {
+        if (tradedCodes.has(holding.stockCode)) continue;
+
+        const existingHolding = await tx.holding.findUnique({
+          where: { accountId_stockCode: { accountId, stockCode: holding.stockCode } },
+        });
+        if (existingHolding) continue;
+
+        await tx.holding.create({
+          data: {
+            accountId,
+            stockCode: holding.stockCode,
+            stockName: holding.stockName,
+            quantity: holding.quantity,
+            averagePrice: holding.averagePrice,
+            currentPrice: holding.currentPrice ?? null,
+            currency: holding.currency,
+          },
+        });
+        summary.holdingsImported++;
+      }
+    }
+
+    const existingActions = await tx.corporateAction.findMany({ where: { userId } });
+    const actionKey = (action: { type: string; stockCode: string; effectiveDate: Date }) =>
+      `${action.type}|${action.stockCode}|${action.effectiveDate.toISOString().split('T')[0]}`;
+    const existingActionKeys = new Set(existingActions.map(actionKey));
+
+    for (const archiveAction of archive.corporateActions) {
+      const effectiveDate = new Date(archiveAction.effectiveDate);
+      const key = actionKey({ ...archiveAction, effectiveDate });
+      if (existingActionKeys.has(key)) continue;
+
+      await tx.corporateAction.create({
+        data: {
+          userId,
+          type: archiveAction.type,
+          stockCode: archiveAction.stockCode,
+          newStockCode: archiveAction.newStockCode ?? null,
+          newStockName: archiveAction.newStockName ?? null,
+          ratio: archiveAction.ratio,
+          effectiveDate,
+          description: archiveAction.description ?? null,
+        },
+      });
+      existingActionKeys.add(key);
+      summary.corporateActionsImported++;
+    }
+  }, { timeout: 60000 });
+
+  summary.holdingsCount = await rebuildLedgers({ userId });
+
+  return summary;
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 아카이브의 특정 항목을 CSV로 변환합니다 (엑셀 호환을 위해 UTF-8 BOM 포함)
+ */
+export function archiveEntityToCsv(archive: PortfolioArchive, entity: ArchiveEntity): string {
+  let headers: string[];
+  let rows: unknown[][];
+
+  switch (entity) {
+    case 'accounts':
+      headers = ['accountNumber', 'accountType', 'nickname', 'costBasisMethod', 'institutionName', 'institutionType'];
+      rows = archive.accounts.map(account => [
+        account.accountNumber,
+        account.accountType,
+        account.nickname,
+        account.costBasisMethod,
+        account.institution.name,
+        account.institution.type,
+      ]);
+      break;
+    case 'holdings':
+      headers = ['accountNumber', 'stockCode', 'stockName', 'quantity', 'averagePrice', 'currentPrice', 'currency'];
+      rows = archive.accounts.flatMap(account => account.holdings.map(holding => [
+        account.accountNumber,
+        holding.stockCode,
+        holding.stockName,
+        holding.quantity,
+        holding.averagePrice,
+        holding.currentPrice,
+        holding.currency,
+      ]));
+      break;
+    case 'transactions':
+      headers = [
+        'accountNumber', 'transactionDate', 'transactionType', 'stockCode', 'stockName', 'quantity', 'price',
+        'totalAmount', 'fees', 'currency', 'fxRate', 'grossAmount', 'withholdingTax', 'exDate',
+      ];
+      rows = archive.accounts.flatMap(account => account.transactions.map(transaction => [
+        account.accountNumber,
+        transaction.transactionDate.split('T')[0],
+        transaction.transactionType,
+        transaction.stockCode,
+        transaction.stockName,
+        transaction.quantity,
+        transaction.price,
+        transaction.totalAmount,
+        transaction.fees,
+        transaction.currency,
+        transaction.fxRate,
+        transaction.grossAmount,
+        transaction.withholdingTax,
+        transaction.exDate?.split('T')[0],
+      ]));
+      break;
+    case 'corporateActions':
+      headers = ['effectiveDate', 'type', 'stockCode', 'newStockCode', 'newStockName', 'ratio', 'description'];
+      rows = archive.corporateActions.map(action => [
+        action.effectiveDate.split('T')[0],
+        action.type,
+        action.stockCode,
+        action.newStockCode,
+        action.newStockName,
+        action.ratio,
+        action.description,
+      ]);
+      break;
+  }
+
+  const lines = [headers, ...rows].map(row => row.map(toCsvValue).join(','));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
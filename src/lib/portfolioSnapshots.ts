@@ -0,0 +1,573 @@
+import { prisma } from '@/lib/prisma';
+import type { CostBasisMethod, PortfolioSnapshot, Prisma, Transaction } from '@/generated/prisma';
+import { replayCashLedger, type CashBalance } from '@/lib/cashLedger';
+import { getExchangeRate, getTransactionFxRate } from '@/lib/exchangeRates';
+import {
+  loadCorporateActions,
+  loadLotSelections,
+  replayLedger,
+  resolveStockCode,
+  type LedgerCorporateAction,
+  type LedgerTransaction,
+  type LotSelectionMap,
+} from '@/lib/ledger';
+import { ensurePriceHistory, toBarDate } from '@/lib/priceHistory';
+import type { DailyReturn } from '@/lib/riskMetrics';
+
+// 포트폴리오 스냅샷 - 거래내역을 거래일마다 재생하고 저장된 일봉 종가로 평가하여
+// 계좌·통화별 평가금액, 취득원가, 예수금을 일자별로 기록합니다.
+// 스냅샷은 언제든 거래내역으로부터 다시 만들 수 있으므로 원본 데이터가 아닌 계산 결과입니다.
+
+export type SnapshotRange = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export const SNAPSHOT_RANGES: SnapshotRange[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+
+export interface PortfolioSeriesPoint {
+  date: string; // YYYY-MM-DD
+  totalValue: number; // 이하 모두 원화 환산
+  holdingsValue: number;
+  investedCapital: number;
+  cash: number;
+  profitLoss: number; // 평가금액 - 취득원가
+}
+
+export interface ValuationPoint {
+  date: string; // YYYY-MM-DD
+  holdingsValue: number; // 보유종목 평가금액 (원화 환산)
+  flow: number; // 당일 순매수금액
+  income: number; // 당일 배당 수령액
+}
+
+interface Position {
+  stockCode: string;
+  currency: string;
+  quantity: number;
+  cost: number;
+}
+
+interface DatedValue {
+  date: string;
+  value: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * 조회 기간의 시작일을 계산합니다 (ALL은 null)
+ */
+export function getRangeStart(range: SnapshotRange, today: Date = new Date()): Date | null {
+  const start = toBarDate(formatDate(today));
+
+  switch (range) {
+    case '1M':
+      start.setUTCMonth(start.getUTCMonth() - 1);
+      return start;
+    case '3M':
+      start.setUTCMonth(start.getUTCMonth() - 3);
+      return start;
+    case 'YTD':
+      return new Date(Date.UTC(start.getUTCFullYear(), 0, 1));
+    case '1Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+      return start;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 기간 내 거래일(주말 제외) 목록을 반환합니다
+ */
+export function getTradingDays(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  const cursor = toBarDate(formatDate(from));
+  const end = toBarDate(formatDate(to));
+
+  while (cursor.getTime() <= end.getTime()) {
+    const day = cursor.getUTCDay();
+    if (day !== 0 && day !== 6) days.push(formatDate(cursor));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return days;
+}
+
+/**
+ * 날짜순 목록에서 기준일 이전의 가장 최근 값을 찾습니다
+ */
+function findOnOrBefore(rows: DatedValue[], date: string): DatedValue | undefined {
+  let low = 0;
+  let high = rows.length - 1;
+  let found: DatedValue | undefined;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (rows[mid].date <= date) {
+      found = rows[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * 기준일까지의 매매 거래를 종목별로 재생해 남은 로트를 보유 포지션으로 변환합니다
+ */
+function replayPositions(
+  transactions: LedgerTransaction[],
+  method: CostBasisMethod,
+  selections: LotSelectionMap,
+  actions: LedgerCorporateAction[]
+): Position[] {
+  // 코드 변경·합병으로 같은 종목이 되는 거래는 함께 재생
+  const groups = new Map<string, LedgerTransaction[]>();
+  transactions
+    .filter(transaction => transaction.transactionType === 'BUY' || transaction.transactionType === 'SELL')
+    .forEach(transaction => {
+      const code = resolveStockCode(transaction.stockCode, actions);
+      groups.set(code, [...(groups.get(code) || []), transaction]);
+    });
+
+  const positions: Position[] = [];
+  groups.forEach(group => {
+    const ledger = replayLedger(group, method, selections, actions);
+    ledger.lots.forEach(lot => {
+      positions.push({
+        stockCode: lot.stockCode,
+        currency: ledger.currency,
+        quantity: lot.remainingQuantity,
+        cost: lot.remainingQuantity * lot.unitCost,
+      });
+    });
+  });
+
+  return positions;
+}
+
+/**
+ * 통화별 원화 환율 이력을 조회합니다 (저장된 환율이 없으면 현재 환율 하나로 대체)
+ */
+async function loadRateSeries(currency: string): Promise<DatedValue[]> {
+  const rates = await prisma.exchangeRate.findMany({
+    where: { baseCurrency: currency, quoteCurrency: 'KRW' },
+    orderBy: { date: 'asc' },
+  });
+
+  if (rates.length === 0) {
+    return [{ date: '0000-00-00', value: await getExchangeRate(currency) }];
+  }
+
+  return rates.map(rate => ({ date: formatDate(rate.date), value: rate.rate }));
+}
+
+/**
+ * 사용자의 포트폴리오 스냅샷을 거래내역으로부터 다시 계산합니다 (기록한 스냅샷 개수 반환)
+ *
+ * from을 지정하면 해당 일자 이후만 다시 계산합니다. 일봉이 비어 있는 종목은 먼저 백필하고,
+ * 그래도 가격이 없는 날은 직전 종가, 직전 종가도 없으면 취득원가로 평가합니다.
+ */
+export async function rebuildPortfolioSnapshots(
+  userId: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<number> {
+  const transactions = await prisma.transaction.findMany({
+    where: { account: { userId: userId } },
+    orderBy: [
+      { transactionDate: 'asc' },
+      { createdAt: 'asc' },
+    ],
+  });
+
+  if (transactions.length === 0) {
+    await prisma.portfolioSnapshot.deleteMany({ where: { userId: userId } });
+    return 0;
+  }
+
+  const firstDate = transactions[0].transactionDate;
+  const from = options.from && options.from > firstDate ? options.from : firstDate;
+  const days = getTradingDays(from, options.to || new Date());
+  if (days.length === 0) return 0;
+
+  const accounts = await prisma.account.findMany({
+    where: { userId: userId },
+    select: { id: true, costBasisMethod: true },
+  });
+  const actions = await loadCorporateActions(prisma, userId);
+  const selections = await loadLotSelections(
+    prisma,
+    transactions.filter(transaction => transaction.transactionType === 'SELL').map(transaction => transaction.id)
+  );
+
+  // 종목별 일봉 (직전 종가를 찾을 수 있도록 기간 시작 일주일 전부터)
+  const symbols = new Set<string>();
+  transactions
+    .filter(transaction => transaction.transactionType === 'BUY' || transaction.transactionType === 'SELL')
+    .forEach(transaction => symbols.add(transaction.stockCode));
+  actions.forEach(action => {
+    if (action.newStockCode) symbols.add(action.newStockCode);
+  });
+
+  const priceFrom = new Date(toBarDate(days[0]).getTime() - 7 * DAY_MS);
+  const priceTo = toBarDate(days[days.length - 1]);
+  const prices = new Map<string, DatedValue[]>();
+  for (const symbol of Array.from(symbols)) {
+    const bars = await ensurePriceHistory(symbol, priceFrom, priceTo);
+    prices.set(symbol, bars.map(bar => ({ date: formatDate(bar.date), value: bar.close })));
+  }
+
+  const rates = new Map<string, DatedValue[]>();
+  for (const currency of Array.from(new Set(transactions.map(transaction => transaction.currency || 'KRW')))) {
+    if (currency !== 'KRW') rates.set(currency, await loadRateSeries(currency));
+  }
+
+  const rows: Prisma.PortfolioSnapshotCreateManyInput[] = [];
+
+  for (const account of accounts) {
+    const accountTransactions = transactions.filter(transaction => transaction.accountId === account.id);
+    if (accountTransactions.length === 0) continue;
+
+    let cursor = 0;
+    let replayKey = '';
+    let positions: Position[] = [];
+    let cashBalances: CashBalance[] = [];
+
+    for (const day of days) {
+      const endOfDay = new Date(`${day}T23:59:59.999Z`);
+      while (cursor < accountTransactions.length && accountTransactions[cursor].transactionDate <= endOfDay) {
+        cursor++;
+      }
+      if (cursor === 0) continue; // 첫 거래 이전
+
+      // 거래나 기업 이벤트가 바뀐 날만 다시 재생
+      const effectiveActions = actions.filter(action => action.effectiveDate <= endOfDay);
+      const key = `${cursor}:${effectiveActions.length}`;
+      if (key !== replayKey) {
+        replayKey = key;
+        const replayed = accountTransactions.slice(0, cursor);
+        positions = replayPositions(replayed, account.costBasisMethod, selections, effectiveActions);
+        cashBalances = replayCashLedger(replayed);
+      }
+
+      const totals = new Map<string, { holdingsValue: number; investedCapital: number; cash: number }>();
+      const totalFor = (currency: string) => {
+        const total = totals.get(currency) || { holdingsValue: 0, investedCapital: 0, cash: 0 };
+        totals.set(currency, total);
+        return total;
+      };
+
+      positions.forEach(position => {
+        const close = findOnOrBefore(prices.get(position.stockCode) || [], day)?.value;
+        const total = totalFor(position.currency);
+        total.holdingsValue += close !== undefined ? position.quantity * close : position.cost;
+        total.investedCapital += position.cost;
+      });
+      cashBalances.forEach(balance => {
+        totalFor(balance.currency).cash += balance.balance;
+      });
+
+      totals.forEach((total, currency) => {
+        if (total.holdingsValue === 0 && total.investedCapital === 0 && total.cash === 0) return;
+
+        const rateSeries = rates.get(currency);
+        const fxRate = rateSeries ? (findOnOrBefore(rateSeries, day) || rateSeries[0]).value : 1;
+
+        rows.push({
+          userId: userId,
+          accountId: account.id,
+          date: toBarDate(day),
+          currency,
+          holdingsValue: total.holdingsValue,
+          investedCapital: total.investedCapital,
+          cash: total.cash,
+          totalValue: total.holdingsValue + total.cash,
+          fxRate,
+        });
+      });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.portfolioSnapshot.deleteMany({
+      where: {
+        userId: userId,
+        date: { gte: toBarDate(days[0]), lte: toBarDate(days[days.length - 1]) },
+      },
+    }),
+    prisma.portfolioSnapshot.createMany({ data: rows }),
+  ]);
+
+  console.log(`포트폴리오 스냅샷 재계산 완료 - ${userId}: ${days[0]} ~ ${days[days.length - 1]}, ${rows.length}건`);
+  return rows.length;
+}
+
+/**
+ * 스냅샷이 최신 거래내역을 반영하도록 필요한 구간만 다시 계산합니다
+ *
+ * - 마지막 계산 이후 추가된 거래가 있으면 그 거래일부터
+ * - 마지막 스냅샷 이후 거래일이 지났으면 마지막 스냅샷 일자부터
+ *
+ * 거래 수정·삭제는 감지하지 못하므로 그런 경우에는 전체 재계산(rebuildPortfolioSnapshots)을 호출해야 합니다.
+ */
+export async function ensurePortfolioSnapshots(userId: string): Promise<void> {
+  const latest = await prisma.portfolioSnapshot.findFirst({
+    where: { userId: userId },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  const added = await prisma.transaction.findFirst({
+    where: {
+      account: { userId: userId },
+      ...(latest && { createdAt: { gt: latest.updatedAt } }),
+    },
+    orderBy: { transactionDate: 'asc' },
+  });
+
+  if (added) {
+    await rebuildPortfolioSnapshots(userId, { from: added.transactionDate });
+    return;
+  }
+
+  if (!latest) return;
+
+  const newest = await prisma.portfolioSnapshot.findFirst({
+    where: { userId: userId },
+    orderBy: { date: 'desc' },
+  });
+  if (newest && getTradingDays(newest.date, new Date()).length > 1) {
+    await rebuildPortfolioSnapshots(userId, { from: newest.date });
+  }
+}
+
+/**
+ * 거래내역이 있는 모든 사용자의 당일 스냅샷을 기록합니다 (스케줄 작업용)
+ */
+export async function recordDailyPortfolioSnapshots(date: Date = new Date()) {
+  const users = await prisma.user.findMany({
+    where: { accounts: { some: { transactions: { some: {} } } } },
+    select: { id: true },
+  });
+
+  let count = 0;
+  for (const user of users) {
+    count += await rebuildPortfolioSnapshots(user.id, { from: date, to: date });
+  }
+
+  console.log(`Daily portfolio snapshot: ${users.length} users, ${count} rows`);
+  return { users: users.length, snapshots: count };
+}
+
+/**
+ * 일자별 포트폴리오 가치 시계열을 원화로 합산해 반환합니다
+ */
+export async function getPortfolioSeries(
+  userId: string,
+  options: { range?: SnapshotRange; accountId?: string } = {}
+): Promise<PortfolioSeriesPoint[]> {
+  const start = getRangeStart(options.range || 'ALL');
+
+  const snapshots = await prisma.portfolioSnapshot.findMany({
+    where: {
+      userId: userId,
+      ...(options.accountId && { accountId: options.accountId }),
+      ...(start && { date: { gte: start } }),
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  const points = new Map<string, PortfolioSeriesPoint>();
+  snapshots.forEach(snapshot => {
+    const date = formatDate(snapshot.date);
+    const point = points.get(date) || {
+      date,
+      totalValue: 0,
+      holdingsValue: 0,
+      investedCapital: 0,
+      cash: 0,
+      profitLoss: 0,
+    };
+
+    point.totalValue += snapshot.totalValue * snapshot.fxRate;
+    point.holdingsValue += snapshot.holdingsValue * snapshot.fxRate;
+    point.investedCapital += snapshot.investedCapital * snapshot.fxRate;
+    point.cash += snapshot.cash * snapshot.fxRate;
+    point.profitLoss = point.holdingsValue - point.investedCapital;
+    points.set(date, point);
+  });
+
+  return Array.from(points.values());
+}
+
+// 평가금액 시계열에 쓰는 거래 (외화 거래는 원화 환율이 정해져 있어야 함)
+export type ValuationTransaction = Omit<
+  Pick<Transaction, 'transactionType' | 'transactionDate' | 'currency' | 'fxRate' | 'totalAmount' | 'fees'>,
+  'fxRate'
+> & { fxRate: number };
+
+/**
+ * 거래에 기록된 환율이 없으면 거래일 환율(없으면 마지막 저장 환율)로 채웁니다
+ */
+export async function withTransactionFxRates<T extends Pick<Transaction, 'currency' | 'fxRate' | 'transactionDate'>>(
+  transactions: T[]
+): Promise<(T & { fxRate: number })[]> {
+  const resolved: (T & { fxRate: number })[] = [];
+  for (const transaction of transactions) {
+    const fxRate = await getTransactionFxRate({ ...transaction, currency: transaction.currency || 'KRW' });
+    resolved.push({ ...transaction, fxRate });
+  }
+  return resolved;
+}
+
+/**
+ * 스냅샷과 거래내역으로 일자별 보유종목 평가금액과 외부 흐름을 원화로 집계합니다
+ *
+ * - flow: 당일 순매수금액 (매수금액+수수료 - (매도금액-수수료)), 보유종목으로 들어온 돈
+ * - income: 당일 배당 수령액 (세후), 보유종목이 만들어 낸 수익
+ *
+ * 주말에 기록된 거래는 다음 거래일에 반영하고, 첫 일자 이전·마지막 일자 이후 거래는 무시합니다.
+ * 예수금은 입출금을 기록하지 않는 사용자도 있으므로 수익률 계산에서 제외합니다.
+ */
+export function buildValuationSeries(
+  snapshots: Pick<PortfolioSnapshot, 'date' | 'currency' | 'holdingsValue' | 'fxRate'>[],
+  transactions: ValuationTransaction[]
+): ValuationPoint[] {
+  const points: ValuationPoint[] = [];
+  snapshots.forEach(snapshot => {
+    const date = formatDate(snapshot.date);
+    let point = points[points.length - 1];
+    if (!point || point.date !== date) {
+      point = { date, holdingsValue: 0, flow: 0, income: 0 };
+      points.push(point);
+    }
+    point.holdingsValue += snapshot.holdingsValue * snapshot.fxRate;
+  });
+
+  if (points.length === 0) return [];
+
+  const firstDate = points[0].date;
+  let pointIndex = 1;
+  for (const transaction of transactions) {
+    const transactionDate = formatDate(transaction.transactionDate);
+    if (transactionDate <= firstDate) continue; // 첫 일자 평가금액에 이미 반영됨
+    while (pointIndex < points.length && points[pointIndex].date < transactionDate) pointIndex++;
+    if (pointIndex >= points.length) break;
+
+    const point = points[pointIndex];
+    const fxRate = transaction.fxRate;
+    const fees = transaction.fees || 0;
+
+    if (transaction.transactionType === 'BUY') {
+      point.flow += (transaction.totalAmount + fees) * fxRate;
+    } else if (transaction.transactionType === 'SELL') {
+      point.flow -= (transaction.totalAmount - fees) * fxRate;
+    } else if (transaction.transactionType === 'DIVIDEND') {
+      point.income += transaction.totalAmount * fxRate;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * 일자별 평가금액에서 일간 수익률을 계산합니다
+ *
+ * r = (당일 평가금액 - 전일 평가금액 - 당일 순매수금액 + 당일 배당) / 전일 평가금액
+ */
+export function toDailyReturns(points: ValuationPoint[]): DailyReturn[] {
+  const returns: DailyReturn[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1].holdingsValue;
+    if (previous <= 0) continue; // 보유종목이 없던 날 다음은 수익률 없음
+    returns.push({
+      date: points[i].date,
+      value: (points[i].holdingsValue - previous - points[i].flow + points[i].income) / previous,
+    });
+  }
+  return returns;
+}
+
+/**
+ * 기간 내 스냅샷과 매매·배당 거래를 조회해 평가금액 시계열을 만듭니다
+ */
+export async function getValuationSeries(
+  userId: string,
+  options: { from?: Date | null; to?: Date | null; accountIds?: string[] } = {}
+): Promise<ValuationPoint[]> {
+  const dateFilter = {
+    ...(options.from && { gte: toBarDate(formatDate(options.from)) }),
+    ...(options.to && { lte: toBarDate(formatDate(options.to)) }),
+  };
+  const accountFilter = options.accountIds && { accountId: { in: options.accountIds } };
+
+  const snapshots = await prisma.portfolioSnapshot.findMany({
+    where: {
+      userId: userId,
+      ...accountFilter,
+      ...((options.from || options.to) && { date: dateFilter }),
+    },
+    orderBy: { date: 'asc' },
+  });
+  if (snapshots.length === 0) return [];
+
+  const first = snapshots[0].date;
+  const last = snapshots[snapshots.length - 1].date;
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      account: { userId: userId },
+      ...accountFilter,
+      transactionType: { in: ['BUY', 'SELL', 'DIVIDEND'] },
+      transactionDate: {
+        gt: new Date(`${formatDate(first)}T23:59:59.999Z`),
+        lte: new Date(`${formatDate(last)}T23:59:59.999Z`),
+      },
+    },
+    orderBy: { transactionDate: 'asc' },
+  });
+
+  return buildValuationSeries(snapshots, await withTransactionFxRates(transactions));
+}
+
+/**
+ * 보유종목 평가금액의 일간 수익률을 계산합니다 (원화 기준, 매수·매도 금액은 수익에서 제외, 배당은 포함)
+ *
+ * 반환값의 startDate는 첫 수익률의 직전 일자이고, dates는 평가금액이 있는 모든 일자입니다 (벤치마크 정렬용).
+ */
+export async function getDailyReturns(
+  userId: string,
+  options: { range?: SnapshotRange; accountId?: string } = {}
+): Promise<{ startDate: string | null; dates: string[]; returns: DailyReturn[]; holdingsValue: number }> {
+  const points = await getValuationSeries(userId, {
+    from: getRangeStart(options.range || 'ALL'),
+    accountIds: options.accountId ? [options.accountId] : undefined,
+  });
+
+  return {
+    startDate: points[0]?.date || null,
+    dates: points.map(point => point.date),
+    returns: toDailyReturns(points),
+    holdingsValue: points[points.length - 1]?.holdingsValue || 0,
+  };
+}
+
+/**
+ * 기준일부터 마지막 시점까지의 기간 수익률(%)을 계산합니다
+ *
+ * 매수·매도로 인한 원금 변동을 제외하도록 평가손익 변화분을 기간 시작 평가금액으로 나눕니다.
+ * 기준일 이전 스냅샷이 없으면 가장 오래된 스냅샷부터 계산합니다.
+ */
+export function calculatePeriodReturn(points: PortfolioSeriesPoint[], since: Date): number {
+  if (points.length < 2) return 0;
+
+  const sinceDate = formatDate(since);
+  const start = [...points].reverse().find(point => point.date <= sinceDate) || points[0];
+  const end = points[points.length - 1];
+
+  if (start === end || start.holdingsValue <= 0) return 0;
+  return ((end.profitLoss - start.profitLoss) / start.holdingsValue) * 100;
+}
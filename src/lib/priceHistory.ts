@@ -0,0 +1,259 @@
+import { prisma } from '@/lib/prisma';
+import type { PriceBar } from '@/generated/prisma';
+import { getQuote, getQuoteHistory, type HistoricalBar } from '@/lib/quotes';
+import { getMarketDate } from '@/utils/dateUtils';
+
+// 일봉 가격 이력 - 종목별 일자 종가(OHLCV)를 저장해 두고, 분석/차트/평가금액이
+// 매번 외부 API를 호출하지 않고 저장된 값을 기준 시각(asOf)과 함께 사용하도록 합니다.
+//
+// - 스케줄 작업(POST /api/prices/snapshot)이 보유 종목의 당일 종가를 기록
+// - 이력이 비어 있는 구간은 제공자의 차트 API로 백필
+
+export const DEFAULT_PRICE_MAX_AGE_MINUTES = 5; // 이 시간 이내에 갱신된 당일 봉은 다시 조회하지 않음
+
+export interface StoredPrice {
+  symbol: string;
+  price: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  currency: string;
+  asOf: string; // 가격 기준 시각 (ISO)
+  date: string; // 가격 기준 거래일 (YYYY-MM-DD)
+  source: string;
+  stale: boolean; // 실시간 조회에 실패해 저장된 과거 가격을 사용한 경우
+}
+
+/**
+ * 시장 현지 날짜(YYYY-MM-DD)를 저장용 날짜(UTC 자정)로 변환합니다
+ */
+export function toBarDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function formatBarDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * 일봉을 저장합니다 (같은 종목/날짜는 덮어씀)
+ */
+export async function savePriceBar(symbol: string, bar: HistoricalBar, currency: string, source: string) {
+  const date = toBarDate(bar.date);
+  const data = {
+    open: bar.open ?? null,
+    high: bar.high ?? null,
+    low: bar.low ?? null,
+    close: bar.close,
+    volume: bar.volume ?? null,
+    currency,
+    source,
+  };
+
+  return prisma.priceBar.upsert({
+    where: { symbol_date: { symbol, date } },
+    update: data,
+    create: { symbol, date, ...data },
+  });
+}
+
+/**
+ * 저장된 기간 일봉을 조회합니다
+ */
+export async function getPriceHistory(symbol: string, from: Date, to: Date) {
+  return prisma.priceBar.findMany({
+    where: {
+      symbol,
+      date: { gte: toBarDate(formatBarDate(from)), lte: toBarDate(formatBarDate(to)) },
+    },
+    orderBy: { date: 'asc' },
+  });
+}
+
+/**
+ * 제공자의 차트 API에서 기간 일봉을 받아 저장합니다 (저장한 봉 개수 반환)
+ */
+export async function backfillPriceHistory(
+  symbol: string,
+  from: Date,
+  to: Date = new Date(),
+  options: { providers?: string[] } = {}
+): Promise<number> {
+  const history = await getQuoteHistory(symbol, from, to, options);
+  if (!history) return 0;
+
+  for (const bar of history.bars) {
+    await savePriceBar(symbol, bar, history.currency, history.source);
+  }
+
+  // 제공자가 응답한 시작일 기록 (그보다 이른 봉이 없어도 다시 요청하지 않도록)
+  const coverage = await prisma.priceHistoryCoverage.findUnique({ where: { symbol } });
+  if (!coverage || from < coverage.fetchedFrom) {
+    await prisma.priceHistoryCoverage.upsert({
+      where: { symbol },
+      update: { fetchedFrom: from },
+      create: { symbol, fetchedFrom: from },
+    });
+  }
+
+  console.log(`Backfilled ${history.bars.length} price bars for ${symbol} from ${history.source}`);
+  return history.bars.length;
+}
+
+/**
+ * 기간 일봉을 조회하되, 저장된 이력이 기간 시작보다 늦게 시작하면 먼저 백필합니다
+ * (이미 그 시작일부터 백필을 요청했다면 제공자에도 더 이른 봉이 없으므로 건너뜀)
+ */
+export async function ensurePriceHistory(symbol: string, from: Date, to: Date = new Date()) {
+  const [first, coverage] = await Promise.all([
+    prisma.priceBar.findFirst({
+      where: { symbol },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.priceHistoryCoverage.findUnique({ where: { symbol } }),
+  ]);
+
+  // 주말/휴일 때문에 기간 시작일에 봉이 없을 수 있으므로 며칠 여유를 둠
+  const tolerance = 5 * 24 * 60 * 60 * 1000;
+  const covered = !!coverage && coverage.fetchedFrom.getTime() - from.getTime() <= tolerance;
+  if (!covered && (!first || first.date.getTime() - from.getTime() > tolerance)) {
+    await backfillPriceHistory(symbol, from, to);
+  }
+
+  return getPriceHistory(symbol, from, to);
+}
+
+/**
+ * 현재 시세를 조회해 당일 봉으로 기록하고 해당 종목 보유 현재가를 갱신합니다
+ */
+async function recordLatestPrice(symbol: string): Promise<StoredPrice | null> {
+  const quote = await getQuote(symbol);
+  if (!quote) return null;
+
+  const date = getMarketDate(symbol);
+  const bar = await savePriceBar(
+    symbol,
+    {
+      date,
+      open: quote.open,
+      high: quote.dayHigh,
+      low: quote.dayLow,
+      close: quote.price,
+      volume: quote.volume,
+    },
+    quote.currency,
+    quote.source
+  );
+
+  await prisma.holding.updateMany({
+    where: { stockCode: symbol },
+    data: { currentPrice: quote.price },
+  });
+
+  return {
+    symbol,
+    price: quote.price,
+    previousClose: quote.previousClose,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    currency: quote.currency,
+    asOf: bar.updatedAt.toISOString(),
+    date,
+    source: quote.source,
+    stale: false,
+  };
+}
+
+/**
+ * 보유 중인 모든 종목(또는 지정 종목)의 당일 종가를 기록합니다 (스케줄 작업용)
+ */
+export async function recordDailyCloses(symbols?: string[]) {
+  const targets = symbols && symbols.length > 0
+    ? Array.from(new Set(symbols))
+    : (await prisma.holding.findMany({
+        where: { quantity: { gt: 0 } },
+        select: { stockCode: true },
+        distinct: ['stockCode'],
+      })).map(holding => holding.stockCode);
+
+  const recorded: string[] = [];
+  const failed: string[] = [];
+
+  // 외부 API 부하를 줄이기 위해 순차 조회
+  for (const symbol of targets) {
+    const price = await recordLatestPrice(symbol);
+    if (price) recorded.push(symbol);
+    else failed.push(symbol);
+  }
+
+  console.log(`Daily close snapshot: ${recorded.length} recorded, ${failed.length} failed`);
+  return { recorded, failed, timestamp: new Date().toISOString() };
+}
+
+function toStoredPrice(latest: PriceBar, previous: PriceBar | undefined, stale: boolean): StoredPrice {
+  const previousClose = previous?.close ?? latest.close;
+  const change = latest.close - previousClose;
+
+  return {
+    symbol: latest.symbol,
+    price: latest.close,
+    previousClose,
+    change,
+    changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+    currency: latest.currency,
+    asOf: latest.updatedAt.toISOString(),
+    date: formatBarDate(latest.date),
+    source: latest.source,
+    stale,
+  };
+}
+
+/**
+ * 종목별 현재 평가 가격을 조회합니다
+ *
+ * 1. maxAgeMinutes 이내에 갱신된 당일 봉이 있으면 그대로 사용
+ * 2. 없으면 실시간 시세를 조회해 당일 봉으로 저장
+ * 3. 조회에 실패하면 가장 최근 저장 봉을 stale 표시와 함께 사용
+ */
+export async function getCurrentPrices(
+  symbols: string[],
+  options: { maxAgeMinutes?: number } = {}
+): Promise<Record<string, StoredPrice>> {
+  const maxAge = (options.maxAgeMinutes ?? DEFAULT_PRICE_MAX_AGE_MINUTES) * 60 * 1000;
+  const uniqueSymbols = Array.from(new Set(symbols.filter(Boolean)));
+
+  const prices = await Promise.all(uniqueSymbols.map(async (symbol): Promise<StoredPrice | null> => {
+    const today = toBarDate(getMarketDate(symbol));
+    const [latest, previous] = await prisma.priceBar.findMany({
+      where: { symbol },
+      orderBy: { date: 'desc' },
+      take: 2,
+    });
+
+    if (latest && latest.date.getTime() === today.getTime() && Date.now() - latest.updatedAt.getTime() < maxAge) {
+      return toStoredPrice(latest, previous, false);
+    }
+
+    const fresh = await recordLatestPrice(symbol);
+    if (fresh) return fresh;
+
+    if (!latest) return null;
+
+    console.warn(`Using stored price for ${symbol} as of ${latest.updatedAt.toISOString()}`);
+    return toStoredPrice(latest, previous, true);
+  }));
+
+  const result: Record<string, StoredPrice> = {};
+  prices.forEach(price => {
+    if (price) result[price.symbol] = price;
+  });
+  return result;
+}
+
+/**
+ * 여러 가격 중 가장 오래된 기준 시각을 반환합니다 (화면의 "기준" 표시용)
+ */
+export function getOldestAsOf(prices: StoredPrice[]): string | null {
+  if (prices.length === 0) return null;
+  return prices.reduce((oldest, price) => (price.asOf < oldest ? price.asOf : oldest), prices[0].asOf);
+}
@@ -0,0 +1,382 @@
+// QR 코드 생성 (바이트 모드, 오류 정정 레벨 M) - 2단계 인증 등록용 otpauth:// 주소를 SVG로 그립니다.
+//
+// 짧은 문자열만 다루므로 버전 1~10(최대 213바이트)만 지원합니다.
+// 참고: ISO/IEC 18004, 마스크는 패널티 점수가 가장 낮은 것을 고릅니다.
+
+// 버전별 블록당 오류 정정 코드워드 수 / 블록 수 (레벨 M, 인덱스 = 버전)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = ECC_CODEWORDS_PER_BLOCK.length - 1;
+
+// 형식 정보의 오류 정정 레벨 비트 (M = 00)
+const ECC_LEVEL_M_BITS = 0;
+
+export interface QrCode {
+  size: number;
+  // modules[y][x] - true면 검은 칸
+  modules: boolean[][];
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+// 버전의 데이터 영역 모듈 수 (기능 패턴 제외)
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number): number {
+  return Math.floor(getNumRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+}
+
+function getAlignmentPatternPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// GF(2^8) 곱셈 (원시 다항식 0x11D)
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+// 데이터 코드워드를 블록으로 나눠 오류 정정 코드를 붙이고 교차 배치
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLen);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // 짧은 블록의 자리 채움 칸은 건너뜀
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  appendBits(0b0100, 4); // 바이트 모드
+  appendBits(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  const capacityBits = getNumDataCodewords(version) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    const { size } = this;
+
+    // 타이밍 패턴
+    for (let i = 0; i < size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // 위치 찾기 패턴 (구분선 포함)
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            this.setFunctionModule(x, y, dist !== 2 && dist !== 4);
+          }
+        }
+      }
+    }
+
+    // 정렬 패턴 (위치 찾기 패턴과 겹치는 세 모서리 제외)
+    const positions = getAlignmentPatternPositions(this.version, size);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunctionModule(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // 형식 정보 자리 확보 (마스크를 정한 뒤 다시 그림)
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number): void {
+    const { size } = this;
+    const data = (ECC_LEVEL_M_BITS << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    // 왼쪽 위
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+    // 오른쪽 위·왼쪽 아래
+    for (let i = 0; i < 8; i++) this.setFunctionModule(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, size - 15 + i, getBit(bits, i));
+    this.setFunctionModule(8, size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+
+  // 오른쪽 아래부터 두 열씩 지그재그로 코드워드 배치
+  drawCodewords(data: number[]): void {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  // 패널티 점수 (같은 색 연속, 2x2 블록, 위치 찾기 패턴과 닮은 모양, 색 비율)
+  penaltyScore(): number {
+    const { size, modules } = this;
+    let result = 0;
+
+    const lineScore = (line: boolean[]) => {
+      let score = 0;
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += 3 + (run - 5);
+          run = 1;
+        }
+      }
+      // 1:1:3:1:1 패턴 앞뒤로 밝은 칸 4개
+      const text = line.map(dark => (dark ? '1' : '0')).join('');
+      const padded = `0000${text}0000`;
+      for (const pattern of ['00001011101', '10111010000']) {
+        for (let index = padded.indexOf(pattern); index !== -1; index = padded.indexOf(pattern, index + 1)) {
+          score += 40;
+        }
+      }
+      return score;
+    };
+
+    for (let y = 0; y < size; y++) result += lineScore(modules[y]);
+    for (let x = 0; x < size; x++) result += lineScore(modules.map(row => row[x]));
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++;
+        if (x < size - 1 && y < size - 1) {
+          const color = modules[y][x];
+          if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+            result += 3;
+          }
+        }
+      }
+    }
+
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    return result + Math.max(0, k) * 10;
+  }
+}
+
+/**
+ * 문자열을 QR 코드로 인코딩합니다 (담을 수 없을 만큼 길면 오류)
+ */
+export function encodeQrCode(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const headerBits = 4 + (version < 10 ? 8 : 16);
+    if (headerBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error('QR 코드에 담기에는 내용이 너무 깁니다.');
+  }
+
+  const codewords = addEccAndInterleave(encodeData(bytes, version), version);
+
+  let best: QrBuilder | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const builder = new QrBuilder(version);
+    builder.drawFunctionPatterns();
+    builder.drawCodewords(codewords);
+    builder.applyMask(mask);
+    builder.drawFormatBits(mask);
+    const score = builder.penaltyScore();
+    if (score < bestScore) {
+      best = builder;
+      bestScore = score;
+    }
+  }
+
+  const { size, modules } = best as QrBuilder;
+  return { size, modules };
+}
+
+/**
+ * 문자열을 QR 코드 SVG 문자열로 만듭니다 (여백 4칸 포함)
+ */
+export function toQrCodeSvg(text: string, moduleSize = 4): string {
+  const { size, modules } = encodeQrCode(text);
+  const border = 4;
+  const dimension = (size + border * 2) * moduleSize;
+
+  const path: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + border},${y + border}h1v1h-1z`);
+    });
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${dimension}" height="${dimension}" viewBox="0 0 ${size + border * 2} ${size + border * 2}" shape-rendering="crispEdges">`,
+    '<rect width="100%" height="100%" fill="#ffffff"/>',
+    `<path d="${path.join('')}" fill="#000000"/>`,
+    '</svg>',
+  ].join('');
+}
@@ -0,0 +1,173 @@
+import type { PriceHistory, Quote, QuoteProvider, QuoteRoutingRule } from './types';
+import { yahooProvider } from './providers/yahoo';
+import { naverMetalsProvider, naverProvider } from './providers/naver';
+import { fixtureProvider } from './providers/fixture';
+
+// 시세 조회 진입점 - 서버의 모든 시세 조회는 이 모듈을 통해 제공자 레지스트리와
+// 심볼별 라우팅 규칙에 따라 이뤄집니다. 첫 번째 제공자가 실패하면 다음 제공자로 넘어갑니다.
+//
+// QUOTE_PROVIDER=fixture 로 설정하면 모든 심볼을 고정 시세 제공자로 조회합니다 (오프라인 개발용).
+
+export type { HistoricalBar, PriceHistory, Quote, QuoteProvider, QuoteRoutingRule } from './types';
+
+const providers = new Map<string, QuoteProvider>();
+
+// 앞에 있는 규칙이 우선 적용됨
+const routingRules: QuoteRoutingRule[] = [
+  {
+    id: 'krx-metals', // KRX 금시장 (M04020000 등, Yahoo 미지원)
+    match: symbol => /^M\d{8}$/.test(symbol),
+    providers: ['naver-metals'],
+  },
+  {
+    id: 'krx', // 국내 주식/ETF (6자리 코드)
+    match: symbol => /^\d{6}(\.(KS|KQ))?$/.test(symbol),
+    providers: ['naver', 'yahoo'],
+  },
+  {
+    id: 'global', // 해외 주식, 지수 등
+    match: () => true,
+    providers: ['yahoo'],
+  },
+];
+
+/**
+ * 시세 제공자를 등록합니다 (같은 ID는 교체)
+ */
+export function registerQuoteProvider(provider: QuoteProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getQuoteProvider(id: string): QuoteProvider | undefined {
+  return providers.get(id);
+}
+
+export function listQuoteProviders(): QuoteProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * 라우팅 규칙을 추가합니다 (기존 규칙보다 우선)
+ */
+export function addQuoteRoutingRule(rule: QuoteRoutingRule) {
+  routingRules.unshift(rule);
+}
+
+/**
+ * 심볼에 대해 시도할 제공자 ID 목록을 결정합니다
+ */
+export function resolveQuoteProviders(symbol: string): string[] {
+  if (process.env.QUOTE_PROVIDER) {
+    return process.env.QUOTE_PROVIDER.split(',').map(id => id.trim()).filter(Boolean);
+  }
+
+  return routingRules.find(rule => rule.match(symbol))?.providers || [];
+}
+
+/**
+ * 심볼의 현재 시세를 조회합니다 (모든 제공자 실패 시 null)
+ *
+ * providers를 지정하면 라우팅 규칙 대신 해당 제공자만 순서대로 시도합니다.
+ */
+export async function getQuote(symbol: string, options: { providers?: string[] } = {}): Promise<Quote | null> {
+  const providerIds = options.providers || resolveQuoteProviders(symbol);
+
+  for (const providerId of providerIds) {
+    const provider = providers.get(providerId);
+    if (!provider) {
+      console.warn(`Unknown quote provider: ${providerId}`);
+      continue;
+    }
+
+    try {
+      const quote = await provider.getQuote(symbol);
+      if (quote) {
+        console.log(`Quote for ${symbol} from ${quote.source}: ${quote.price}`);
+        return quote;
+      }
+    } catch (error) {
+      console.warn(`Quote provider ${providerId} failed for ${symbol}:`, error);
+    }
+  }
+
+  console.warn(`No quote available for ${symbol} (tried: ${providerIds.join(', ')})`);
+  return null;
+}
+
+/**
+ * 여러 심볼의 시세를 병렬로 조회합니다 (조회 실패한 심볼은 결과에서 제외)
+ */
+export async function getQuotes(symbols: string[], options: { providers?: string[] } = {}): Promise<Record<string, Quote>> {
+  const uniqueSymbols = Array.from(new Set(symbols.filter(Boolean)));
+  const quotes = await Promise.all(uniqueSymbols.map(symbol => getQuote(symbol, options)));
+
+  const result: Record<string, Quote> = {};
+  quotes.forEach((quote, index) => {
+    if (quote) result[uniqueSymbols[index]] = quote;
+  });
+  return result;
+}
+
+/**
+ * 심볼의 기간 일봉을 조회합니다 (일봉을 지원하는 제공자만 순서대로 시도, 모두 실패 시 null)
+ */
+export async function getQuoteHistory(
+  symbol: string,
+  from: Date,
+  to: Date,
+  options: { providers?: string[] } = {}
+): Promise<PriceHistory | null> {
+  // 일봉을 지원하지 않는 제공자(네이버 등)는 건너뛰고 다음 제공자로 넘어감
+  const providerIds = options.providers || resolveQuoteProviders(symbol);
+
+  for (const providerId of providerIds) {
+    const provider = providers.get(providerId);
+    if (!provider?.getHistory) continue;
+
+    try {
+      const history = await provider.getHistory(symbol, from, to);
+      if (history && history.bars.length > 0) {
+        console.log(`History for ${symbol} from ${history.source}: ${history.bars.length} bars`);
+        return history;
+      }
+    } catch (error) {
+      console.warn(`History provider ${providerId} failed for ${symbol}:`, error);
+    }
+  }
+
+  console.warn(`No price history available for ${symbol} (tried: ${providerIds.join(', ')})`);
+  return null;
+}
+
+/**
+ * 기존 /api/stock-data 응답 형식(Yahoo Finance 필드명)으로 변환합니다
+ */
+export function toStockDataResponse(quote: Quote) {
+  return {
+    symbol: quote.symbol,
+    formattedSymbol: quote.providerSymbol,
+    longName: quote.name,
+    shortName: quote.shortName || quote.name,
+    regularMarketPrice: quote.price,
+    regularMarketChange: quote.change,
+    regularMarketChangePercent: quote.changePercent,
+    regularMarketVolume: quote.volume,
+    previousClose: quote.previousClose,
+    regularMarketPreviousClose: quote.previousClose,
+    postMarketPrice: quote.postMarketPrice,
+    regularMarketOpen: quote.open,
+    regularMarketDayHigh: quote.dayHigh,
+    regularMarketDayLow: quote.dayLow,
+    marketCap: quote.marketCap,
+    fiftyTwoWeekHigh: quote.fiftyTwoWeekHigh,
+    fiftyTwoWeekLow: quote.fiftyTwoWeekLow,
+    currency: quote.currency,
+    exchangeName: quote.exchange,
+    lastUpdate: quote.timestamp,
+    afterMarketClose: quote.afterMarketClose,
+    previousTradingDayData: quote.previousTradingDay,
+    source: quote.source,
+  };
+}
+
+[yahooProvider, naverProvider, naverMetalsProvider, fixtureProvider].forEach(registerQuoteProvider);
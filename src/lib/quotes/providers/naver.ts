@@ -0,0 +1,159 @@
+import type { Quote, QuoteProvider } from '../types';
+
+// 네이버 금융 시세 제공자 - 국내 주식/ETF/선물(polling API)과 KRX 금시장(모바일 페이지)
+
+const NAVER_POLLING_KINDS = ['stock', 'etf', 'futures'] as const;
+
+const parseNumber = (value: string | undefined) => parseFloat((value || '').replace(/,/g, '')) || 0;
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function fetchPollingQuote(kind: typeof NAVER_POLLING_KINDS[number], symbol: string): Promise<Quote | null> {
+  try {
+    const response = await fetchWithTimeout(
+      `https://polling.finance.naver.com/api/realtime/domestic/${kind}/${symbol}`,
+      {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Referer': 'https://finance.naver.com/',
+        },
+      },
+      5000
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const stockData = data?.datas?.[0];
+    if (!stockData) return null;
+
+    const price = parseNumber(stockData.closePrice);
+    if (!(price > 0)) return null;
+
+    const change = parseNumber(stockData.compareToPreviousClosePrice);
+
+    return {
+      symbol,
+      name: stockData.stockName || symbol,
+      shortName: stockData.stockName || symbol,
+      price,
+      previousClose: price - change,
+      change,
+      changePercent: parseFloat(stockData.fluctuationsRatio) || 0,
+      volume: parseInt((stockData.accumulatedTradingVolume || '').replace(/,/g, '')) || 0,
+      currency: 'KRW',
+      exchange: 'KRX',
+      source: `naver-${kind}`,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.warn(`Naver ${kind} API failed for ${symbol}:`, error);
+    return null;
+  }
+}
+
+export const naverProvider: QuoteProvider = {
+  id: 'naver',
+  name: '네이버 금융',
+
+  async getQuote(symbol) {
+    const code = symbol.replace(/\.(KS|KQ)$/, '');
+
+    for (const kind of NAVER_POLLING_KINDS) {
+      const quote = await fetchPollingQuote(kind, code);
+      if (quote) return { ...quote, symbol };
+    }
+
+    return null;
+  },
+};
+
+// 네이버 모바일 금시세 페이지의 가격/등락 추출 (페이지 구조 변경에 대비해 여러 패턴 시도)
+function parseMetalsPage(html: string): { price: number; change: number; changePercent: number; updatedAt: string | null } {
+  const priceMatch = html.match(/class="DetailInfo_price__I_VJn">(\d{1,3}(?:,\d{3})*)<span[^>]*>원\/g/)
+    || html.match(/>(\d{1,3}(?:,\d{3})*)<[^>]*원\/g/)
+    || html.match(/"price":"(\d{1,3}(?:,\d{3})*)"/);
+  const price = priceMatch ? parseNumber(priceMatch[1]) : 0;
+
+  let change = 0;
+  let changePercent = 0;
+
+  const jsonChange = html.match(/"fluctuations":"([+-]?\d{1,3}(?:,\d{3})*)","fluctuationsRatio":"([+-]?\d+(?:\.\d+)?)"/);
+  if (jsonChange) {
+    change = parseNumber(jsonChange[1]);
+    changePercent = parseFloat(jsonChange[2]) || 0;
+  } else {
+    const htmlChange = html.match(/Fluctuation_fluctuation__9UU9_[^>]*>[\s\S]*?(\d{1,3}(?:,\d{3})*)<[\s\S]*?([+-]?\d+(?:\.\d+)?)<span[^>]*>%/);
+    if (htmlChange) {
+      // FALLING/RISING 클래스로 방향 판단
+      const sign = html.includes('Fluctuation_FALLING') ? -1 : 1;
+      change = sign * Math.abs(parseNumber(htmlChange[1]));
+      changePercent = sign * Math.abs(parseFloat(htmlChange[2]) || 0);
+    }
+  }
+
+  // 업데이트 시간 (예: 07.31. 15:19, 한국 시간)
+  const timeMatch = html.match(/(\d{2})\.(\d{2})\.\s+(\d{2}):(\d{2})/);
+  const updatedAt = timeMatch
+    ? new Date(`${new Date().getFullYear()}-${timeMatch[1]}-${timeMatch[2]}T${timeMatch[3]}:${timeMatch[4]}:00+09:00`).toISOString()
+    : null;
+
+  return { price, change, changePercent, updatedAt };
+}
+
+export const naverMetalsProvider: QuoteProvider = {
+  id: 'naver-metals',
+  name: '네이버 금시세 (KRX 금시장)',
+
+  async getQuote(symbol) {
+    try {
+      const response = await fetchWithTimeout(
+        `https://m.stock.naver.com/marketindex/metals/${symbol}`,
+        {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 14_7_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.2 Mobile/15E148 Safari/604.1',
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'ko-KR,ko;q=0.9,en;q=0.8',
+            'Referer': 'https://m.stock.naver.com/marketindex',
+          },
+        },
+        10000
+      );
+      if (!response.ok) {
+        console.warn(`Naver metals page responded with status ${response.status} for ${symbol}`);
+        return null;
+      }
+
+      const { price, change, changePercent, updatedAt } = parseMetalsPage(await response.text());
+      if (!(price > 0)) {
+        console.warn(`No gold price pattern matched for ${symbol}`);
+        return null;
+      }
+
+      return {
+        symbol,
+        name: '국내 금 99.99% 1Kg',
+        shortName: '금 99.99% 1Kg',
+        price,
+        previousClose: price - change,
+        change,
+        changePercent,
+        volume: 0, // 네이버 모바일 페이지에는 거래량 정보 없음
+        currency: 'KRW',
+        exchange: 'KRX',
+        source: 'naver-metals',
+        timestamp: updatedAt || new Date().toISOString(),
+      };
+    } catch (error) {
+      console.warn(`Naver metals page scraping failed for ${symbol}:`, error);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,191 @@
+import { getMarketDate, isAfterMarketClose } from '@/utils/dateUtils';
+import type { HistoricalBar, Quote, QuoteProvider } from '../types';
+
+// Yahoo Finance 시세 제공자 (해외 주식, 지수, 한국 주식 보조)
+
+const YAHOO_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'application/json, text/plain, */*',
+  'Accept-Language': 'en-US,en;q=0.9,ko;q=0.8',
+  'Referer': 'https://finance.yahoo.com/',
+};
+
+// 주요 KOSDAQ 종목 (그 외 6자리 코드는 KOSPI로 간주)
+const KOSDAQ_CODES = [
+  '043150', '065420', '068270', '078130', '086520', '101490', '137310', '141080',
+  '145020', '161390', '183490', '196170', '200130', '214420', '225570', '240810',
+  '247540', '263750', '293490', '317870', '348210', '357780', '365340', '376300',
+  '393890', '403870', '950140', '950210'
+];
+
+/**
+ * 한국 종목 코드를 Yahoo Finance 형식으로 변환합니다 (005930 -> 005930.KS)
+ */
+export function toYahooSymbol(symbol: string): string {
+  if (/^\d{6}$/.test(symbol)) {
+    return KOSDAQ_CODES.includes(symbol) ? `${symbol}.KQ` : `${symbol}.KS`;
+  }
+  return symbol;
+}
+
+async function fetchChart(yahooSymbol: string, query: string) {
+  const urls = [
+    `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?${query}`,
+    `https://query2.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?${query}`,
+  ];
+
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { headers: YAHOO_HEADERS });
+      if (response.ok) {
+        const data = await response.json();
+        const result = data.chart?.result?.[0];
+        if (result) return result;
+      } else {
+        console.warn(`Yahoo Finance responded with status ${response.status} for ${url}`);
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch from ${url}:`, error);
+    }
+  }
+
+  return null;
+}
+
+async function fetchQuoteDetail(yahooSymbol: string) {
+  try {
+    const response = await fetch(
+      `https://query1.finance.yahoo.com/v7/finance/quote?symbols=${encodeURIComponent(yahooSymbol)}`,
+      { headers: YAHOO_HEADERS }
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.quoteResponse?.result?.[0] || null;
+  } catch (error) {
+    console.warn('Failed to parse quote data:', error);
+    return null;
+  }
+}
+
+// 장 종료 후에는 최신 일봉이 당일이므로 그 이전 일봉을 실제 전일 종가로 사용
+async function fetchPreviousTradingDay(yahooSymbol: string): Promise<Quote['previousTradingDay']> {
+  const now = new Date();
+  const from = new Date(now);
+  from.setDate(now.getDate() - 5); // 주말 고려해서 5일 전부터
+
+  const result = await fetchChart(
+    yahooSymbol,
+    `period1=${Math.floor(from.getTime() / 1000)}&period2=${Math.floor(now.getTime() / 1000)}&interval=1d`
+  );
+  if (!result) return undefined;
+
+  const timestamps: number[] = result.timestamp || [];
+  const closes: (number | null)[] = result.indicators?.quote?.[0]?.close || [];
+  if (closes.length < 2) return undefined;
+
+  const close = closes[closes.length - 2];
+  if (!close || close <= 0) return undefined;
+
+  return {
+    close,
+    date: new Date(timestamps[timestamps.length - 2] * 1000).toISOString().split('T')[0],
+  };
+}
+
+export const yahooProvider: QuoteProvider = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+
+  async getQuote(symbol) {
+    const yahooSymbol = toYahooSymbol(symbol);
+    const chart = await fetchChart(yahooSymbol, 'interval=1d&range=1d');
+    if (!chart) {
+      console.warn(`Yahoo Finance has no data for ${symbol} (${yahooSymbol})`);
+      return null;
+    }
+
+    const meta = chart.meta;
+    const detail = await fetchQuoteDetail(yahooSymbol);
+    const afterMarketClose = isAfterMarketClose(symbol);
+    const previousTradingDay = afterMarketClose ? await fetchPreviousTradingDay(yahooSymbol) : undefined;
+
+    const openPrices: (number | null)[] = chart.indicators?.quote?.[0]?.open || [];
+    const todayOpen = openPrices.length > 0 ? openPrices[openPrices.length - 1] : null;
+
+    // 현재가 우선순위: 정규장 > 시간외 > 장전 > 차트 메타
+    const price = detail?.regularMarketPrice
+      || detail?.postMarketPrice
+      || detail?.preMarketPrice
+      || meta.regularMarketPrice
+      || meta.previousClose
+      || 0;
+    if (!(price > 0)) return null;
+
+    const previousClose = previousTradingDay?.close
+      || detail?.regularMarketPreviousClose
+      || meta.chartPreviousClose
+      || meta.previousClose
+      || price;
+    const change = price - previousClose;
+
+    return {
+      symbol,
+      name: detail?.longName || detail?.shortName || meta.displayName || symbol,
+      shortName: detail?.shortName || meta.displayName || symbol,
+      price,
+      previousClose,
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      volume: detail?.regularMarketVolume || meta.regularMarketVolume || 0,
+      currency: meta.currency || 'KRW',
+      exchange: meta.exchangeName || 'KRX',
+      open: detail?.regularMarketOpen || todayOpen || meta.regularMarketOpen,
+      dayHigh: detail?.regularMarketDayHigh || meta.regularMarketDayHigh,
+      dayLow: detail?.regularMarketDayLow || meta.regularMarketDayLow,
+      postMarketPrice: detail?.postMarketPrice,
+      marketCap: detail?.marketCap,
+      fiftyTwoWeekHigh: detail?.fiftyTwoWeekHigh,
+      fiftyTwoWeekLow: detail?.fiftyTwoWeekLow,
+      afterMarketClose,
+      previousTradingDay,
+      providerSymbol: yahooSymbol,
+      source: 'yahoo',
+      timestamp: new Date().toISOString(),
+    };
+  },
+
+  async getHistory(symbol, from, to) {
+    const yahooSymbol = toYahooSymbol(symbol);
+    const chart = await fetchChart(
+      yahooSymbol,
+      `period1=${Math.floor(from.getTime() / 1000)}&period2=${Math.floor(to.getTime() / 1000) + 86400}&interval=1d`
+    );
+    if (!chart) return null;
+
+    const timestamps: number[] = chart.timestamp || [];
+    const quote = chart.indicators?.quote?.[0] || {};
+    const bars: HistoricalBar[] = [];
+
+    timestamps.forEach((timestamp, index) => {
+      const close = quote.close?.[index];
+      if (!close || close <= 0) return; // 거래 정지일 등 값이 없는 봉 제외
+
+      bars.push({
+        date: getMarketDate(symbol, new Date(timestamp * 1000)),
+        open: quote.open?.[index] ?? undefined,
+        high: quote.high?.[index] ?? undefined,
+        low: quote.low?.[index] ?? undefined,
+        close,
+        volume: quote.volume?.[index] ?? undefined,
+      });
+    });
+
+    return {
+      symbol,
+      currency: chart.meta?.currency || 'KRW',
+      bars,
+      source: 'yahoo',
+    };
+  },
+};
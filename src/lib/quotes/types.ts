@@ -0,0 +1,62 @@
+// 시세 제공자 공통 타입
+
+export interface Quote {
+  symbol: string; // 요청한 원본 심볼
+  name: string;
+  shortName?: string;
+  price: number; // 현재가
+  previousClose: number; // 전일 종가 (장 종료 후엔 이전 영업일 기준)
+  change: number;
+  changePercent: number;
+  volume: number;
+  currency: string;
+  exchange: string;
+  open?: number;
+  dayHigh?: number;
+  dayLow?: number;
+  postMarketPrice?: number;
+  marketCap?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  afterMarketClose?: boolean;
+  previousTradingDay?: {
+    close: number;
+    date: string;
+  };
+  providerSymbol?: string; // 제공자가 실제로 조회한 심볼 (예: 005930.KS)
+  source: string; // 시세를 제공한 제공자 ID
+  timestamp: string;
+}
+
+// 일봉 한 개 (date는 해당 시장 현지 날짜 YYYY-MM-DD)
+export interface HistoricalBar {
+  date: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+export interface PriceHistory {
+  symbol: string;
+  currency: string;
+  bars: HistoricalBar[];
+  source: string;
+}
+
+export interface QuoteProvider {
+  id: string;
+  name: string;
+  // 시세를 찾지 못하면 null, 네트워크 오류 등은 예외 대신 null로 처리
+  getQuote(symbol: string): Promise<Quote | null>;
+  // 기간 일봉 조회 (차트 데이터를 제공하지 않는 제공자는 생략)
+  getHistory?(symbol: string, from: Date, to: Date): Promise<PriceHistory | null>;
+}
+
+// 심볼 패턴별로 시도할 제공자 순서
+export interface QuoteRoutingRule {
+  id: string;
+  match: (symbol: string) => boolean;
+  providers: string[];
+}
@@ -0,0 +1,91 @@
+// 요청 횟수 제한 (슬라이딩 윈도우) - 최근 windowMs 동안의 시도 시각을 기록해 limit을 넘으면 거부합니다.
+//
+// 저장소는 교체할 수 있습니다 (기본은 서버 메모리 - 서버를 여러 대 띄우면 Redis 등 공유 저장소를 setRateLimitStore로 등록).
+
+export interface RateLimitStore {
+  // 시도를 기록하고, 기록 후 윈도우 안의 시도 시각 목록(오래된 순)을 반환
+  hit(key: string, windowMs: number, now: number): Promise<number[]>;
+  reset(key: string): Promise<void>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // 거부됐을 때 다시 시도할 수 있을 때까지 남은 초
+  retryAfterSeconds: number;
+}
+
+// 메모리 저장소가 이 개수보다 키를 많이 가지면 만료된 키를 정리
+const MEMORY_STORE_PRUNE_THRESHOLD = 10000;
+
+// 키마다 보관하는 최근 시도 수 (limit보다 커야 함)
+const MEMORY_STORE_MAX_TIMESTAMPS = 1000;
+
+function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { timestamps: number[]; windowMs: number }>();
+
+  const recent = (key: string, windowMs: number, now: number) => {
+    const timestamps = (entries.get(key)?.timestamps || []).filter(time => time > now - windowMs);
+    if (timestamps.length > 0) {
+      entries.set(key, { timestamps, windowMs });
+    } else {
+      entries.delete(key);
+    }
+    return timestamps;
+  };
+
+  const prune = (now: number) => {
+    if (entries.size < MEMORY_STORE_PRUNE_THRESHOLD) return;
+    for (const [key, entry] of entries) {
+      if (entry.timestamps[entry.timestamps.length - 1] <= now - entry.windowMs) entries.delete(key);
+    }
+  };
+
+  return {
+    async hit(key, windowMs, now) {
+      prune(now);
+      const timestamps = [...recent(key, windowMs, now), now].slice(-MEMORY_STORE_MAX_TIMESTAMPS);
+      entries.set(key, { timestamps, windowMs });
+      return timestamps;
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * 횟수 제한 저장소를 교체합니다
+ */
+export function setRateLimitStore(nextStore: RateLimitStore) {
+  store = nextStore;
+}
+
+function toResult(timestamps: number[], rule: RateLimitRule, now: number): RateLimitResult {
+  if (timestamps.length <= rule.limit) {
+    return { allowed: true, remaining: rule.limit - timestamps.length, retryAfterSeconds: 0 };
+  }
+
+  // 다음 시도를 더해도 limit개를 넘지 않을 만큼 오래된 시도가 윈도우를 벗어날 때까지 대기
+  const releaseAt = timestamps[timestamps.length - rule.limit] + rule.windowMs;
+  return { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil((releaseAt - now) / 1000)) };
+}
+
+/**
+ * 시도를 기록하고 허용 여부를 반환합니다
+ */
+export async function consumeRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const now = Date.now();
+  return toResult(await store.hit(key, rule.windowMs, now), rule, now);
+}
+
+export async function resetRateLimit(key: string): Promise<void> {
+  await store.reset(key);
+}
@@ -0,0 +1,244 @@
+import { prisma } from '@/lib/prisma';
+import { buildValuationSeries, toDailyReturns, withTransactionFxRates, type ValuationPoint } from '@/lib/portfolioSnapshots';
+import { toBarDate } from '@/lib/priceHistory';
+
+// 기간 수익률 - 입출금·매매로 원금이 바뀌어도 왜곡되지 않도록 시간가중수익률(TWR)과
+// 금액가중수익률(XIRR)을 포트폴리오 스냅샷과 거래내역으로 계산합니다.
+//
+// - TWR: 일간 수익률을 연결해 운용 성과만 측정 (투자 시점·금액의 영향 없음)
+// - XIRR: 기간 초 평가금액, 매수·매도·배당 현금흐름, 기간 말 평가금액의 내부수익률 (투자자가 실제로 얻은 수익률)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const XIRR_MAX_ITERATIONS = 100;
+const XIRR_TOLERANCE = 1e-7;
+
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number; // 투자자 기준 (투입은 음수, 회수는 양수)
+}
+
+export interface PeriodReturn {
+  startDate: string | null;
+  endDate: string | null;
+  days: number;
+  startValue: number; // 기간 초 보유종목 평가금액 (원화)
+  endValue: number;
+  netInvested: number; // 기간 중 순매수금액
+  income: number; // 기간 중 배당 수령액
+  gain: number; // 기간 손익 = 기말 - 기초 - 순매수 + 배당
+  twr: number | null; // 누적 시간가중수익률 (%)
+  twrAnnualized: number | null; // 1년 이상인 기간만 연환산
+  xirr: number | null; // 연 금액가중수익률 (%)
+}
+
+export interface ScopeReturn extends PeriodReturn {
+  id: string;
+  name: string;
+}
+
+export interface PortfolioReturns {
+  from: string | null;
+  to: string | null;
+  portfolio: PeriodReturn;
+  institutions: ScopeReturn[];
+  accounts: ScopeReturn[];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toBarDate(to).getTime() - toBarDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * 일간 수익률을 연결한 누적 수익률 (소수)
+ */
+export function linkReturns(returns: number[]): number {
+  return returns.reduce((growth, value) => growth * (1 + value), 1) - 1;
+}
+
+/**
+ * 불규칙한 날짜의 현금흐름에 대한 연 내부수익률 (소수, 해가 없으면 null)
+ *
+ * 뉴턴법으로 먼저 풀고, 수렴하지 않으면 이분법으로 구합니다.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  if (flows.length < 2) return null;
+  if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) return null;
+
+  const origin = flows[0].date;
+  const years = flows.map(flow => daysBetween(origin, flow.date) / 365);
+
+  const npv = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum - years[i] * flow.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next;
+    rate = next;
+  }
+
+  // 이분법 (-99.99% ~ 연 10,000%)
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < XIRR_TOLERANCE || high - low < XIRR_TOLERANCE) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * 평가금액 시계열로 기간 수익률을 계산합니다
+ */
+export function calculateSeriesReturn(points: ValuationPoint[]): PeriodReturn {
+  if (points.length === 0) {
+    return {
+      startDate: null,
+      endDate: null,
+      days: 0,
+      startValue: 0,
+      endValue: 0,
+      netInvested: 0,
+      income: 0,
+      gain: 0,
+      twr: null,
+      twrAnnualized: null,
+      xirr: null,
+    };
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const days = daysBetween(first.date, last.date);
+  const netInvested = points.reduce((sum, point) => sum + point.flow, 0);
+  const income = points.reduce((sum, point) => sum + point.income, 0);
+
+  const dailyReturns = toDailyReturns(points);
+  const twr = dailyReturns.length > 0 ? linkReturns(dailyReturns.map(daily => daily.value)) : null;
+
+  // 투자자 기준 현금흐름: 기초 평가금액 투입, 순매수 투입/순매도 회수, 배당 수령, 기말 평가금액 회수
+  const flows: CashFlow[] = [];
+  if (first.holdingsValue > 0) flows.push({ date: first.date, amount: -first.holdingsValue });
+  points.slice(1).forEach(point => {
+    const amount = point.income - point.flow;
+    if (amount !== 0) flows.push({ date: point.date, amount });
+  });
+  if (last.holdingsValue > 0) flows.push({ date: last.date, amount: last.holdingsValue });
+
+  const rate = days > 0 ? xirr(flows) : null;
+
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    days,
+    startValue: first.holdingsValue,
+    endValue: last.holdingsValue,
+    netInvested,
+    income,
+    gain: last.holdingsValue - first.holdingsValue - netInvested + income,
+    twr: twr !== null ? twr * 100 : null,
+    twrAnnualized: twr !== null && days >= 365 ? (Math.pow(1 + twr, 365 / days) - 1) * 100 : null,
+    xirr: rate !== null ? rate * 100 : null,
+  };
+}
+
+/**
+ * 기간 내 포트폴리오 전체, 금융기관별, 계좌별 TWR/XIRR을 계산합니다
+ *
+ * from/to가 없으면 스냅샷 전체 기간을 사용합니다. 스냅샷은 호출 전에 최신 상태여야 합니다.
+ */
+export async function calculatePortfolioReturns(
+  userId: string,
+  options: { from?: Date | null; to?: Date | null } = {}
+): Promise<PortfolioReturns> {
+  const dateFilter = {
+    ...(options.from && { gte: toBarDate(options.from.toISOString().split('T')[0]) }),
+    ...(options.to && { lte: toBarDate(options.to.toISOString().split('T')[0]) }),
+  };
+
+  const [accounts, snapshots] = await Promise.all([
+    prisma.account.findMany({
+      where: { userId: userId },
+      include: { institution: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.portfolioSnapshot.findMany({
+      where: {
+        userId: userId,
+        ...((options.from || options.to) && { date: dateFilter }),
+      },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  const transactions = snapshots.length > 0
+    ? await withTransactionFxRates(await prisma.transaction.findMany({
+        where: {
+          account: { userId: userId },
+          transactionType: { in: ['BUY', 'SELL', 'DIVIDEND'] },
+          transactionDate: {
+            gte: snapshots[0].date,
+            lte: new Date(`${snapshots[snapshots.length - 1].date.toISOString().split('T')[0]}T23:59:59.999Z`),
+          },
+        },
+        orderBy: { transactionDate: 'asc' },
+      }))
+    : [];
+
+  const seriesFor = (accountIds: Set<string>) => buildValuationSeries(
+    snapshots.filter(snapshot => accountIds.has(snapshot.accountId)),
+    transactions.filter(transaction => accountIds.has(transaction.accountId))
+  );
+
+  const accountReturns: ScopeReturn[] = [];
+  const institutionAccounts = new Map<string, { name: string; accountIds: Set<string> }>();
+
+  accounts.forEach(account => {
+    const points = seriesFor(new Set([account.id]));
+    if (points.length === 0) return;
+
+    accountReturns.push({
+      id: account.id,
+      name: `${account.institution.name} ${account.nickname || account.accountNumber}`,
+      ...calculateSeriesReturn(points),
+    });
+
+    const institution = institutionAccounts.get(account.institution.id) || { name: account.institution.name, accountIds: new Set<string>() };
+    institution.accountIds.add(account.id);
+    institutionAccounts.set(account.institution.id, institution);
+  });
+
+  const institutionReturns: ScopeReturn[] = Array.from(institutionAccounts.entries()).map(([id, institution]) => ({
+    id,
+    name: institution.name,
+    ...calculateSeriesReturn(seriesFor(institution.accountIds)),
+  }));
+
+  const portfolio = calculateSeriesReturn(seriesFor(new Set(accounts.map(account => account.id))));
+
+  return {
+    from: portfolio.startDate,
+    to: portfolio.endDate,
+    portfolio,
+    institutions: institutionReturns,
+    accounts: accountReturns,
+  };
+}
@@ -0,0 +1,310 @@
+// 리스크 지표 계산 - 일간 수익률 시계열로 변동성, 샤프/소르티노 비율, 최대 낙폭,
+// 벤치마크 대비 베타/알파, VaR/CVaR를 계산합니다 (DB 접근 없음).
+// 수익률은 소수(0.01 = 1%)로 받고, 결과는 비율 지표를 제외하고 모두 % 단위로 반환합니다.
+
+export const TRADING_DAYS_PER_YEAR = 252;
+export const MIN_RISK_OBSERVATIONS = 20; // 이보다 적은 일간 수익률로는 지표를 계산하지 않음
+export const DEFAULT_RISK_FREE_RATE = 3.0; // 무위험 수익률 기본값 (연 %)
+export const DEFAULT_VAR_CONFIDENCE = 0.95;
+
+export interface DailyReturn {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface DrawdownResult {
+  percent: number; // 최대 낙폭 (음수 %)
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null; // 고점을 회복한 날 (미회복 시 null)
+}
+
+export interface VaRResult {
+  var: number; // 1일 최대 예상 손실률 (%)
+  cvar: number; // VaR를 넘는 손실의 평균 (%)
+  varAmount: number; // 현재 평가금액 기준 금액
+  cvarAmount: number;
+}
+
+export interface RiskMetrics {
+  sufficientHistory: boolean;
+  observations: number;
+  requiredObservations: number;
+  message: string | null;
+  period: { from: string | null; to: string | null };
+  riskFreeRate: number;
+  benchmark: { id: string; name: string; symbol: string; observations: number } | null;
+  annualizedReturn: number | null;
+  volatility: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: DrawdownResult | null;
+  beta: number | null;
+  alpha: number | null;
+  valueAtRisk: {
+    confidence: number;
+    historical: VaRResult;
+    parametric: VaRResult;
+  } | null;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * 표본 표준편차
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * 연환산 수익률 (기하평균, 소수)
+ */
+export function annualizedReturn(returns: number[]): number {
+  if (returns.length === 0) return 0;
+  const growth = returns.reduce((product, value) => product * (1 + value), 1);
+  return Math.pow(growth, TRADING_DAYS_PER_YEAR / returns.length) - 1;
+}
+
+/**
+ * 연환산 변동성 (소수)
+ */
+export function annualizedVolatility(returns: number[]): number {
+  return standardDeviation(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * 샤프 비율 (riskFreeRate는 연 소수)
+ */
+export function sharpeRatio(returns: number[], riskFreeRate: number): number | null {
+  const volatility = annualizedVolatility(returns);
+  if (volatility === 0) return null;
+  return (annualizedReturn(returns) - riskFreeRate) / volatility;
+}
+
+/**
+ * 소르티노 비율 - 무위험 수익률을 밑도는 수익률만 위험으로 봅니다
+ */
+export function sortinoRatio(returns: number[], riskFreeRate: number): number | null {
+  if (returns.length === 0) return null;
+  const dailyTarget = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const downside = returns.reduce((sum, value) => sum + Math.min(0, value - dailyTarget) ** 2, 0) / returns.length;
+  const downsideDeviation = Math.sqrt(downside) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+  if (downsideDeviation === 0) return null;
+  return (annualizedReturn(returns) - riskFreeRate) / downsideDeviation;
+}
+
+/**
+ * 수익률을 누적한 가치 지수에서 최대 낙폭과 그 고점·저점·회복 일자를 찾습니다
+ *
+ * startDate는 첫 수익률 직전 일자로, 시작 시점이 고점인 경우에 사용됩니다.
+ */
+export function maxDrawdown(returns: DailyReturn[], startDate: string): DrawdownResult | null {
+  if (returns.length === 0) return null;
+
+  let index = 1;
+  let peak = 1;
+  let peakDate = startDate;
+  let worst: DrawdownResult = { percent: 0, peakDate: startDate, troughDate: startDate, recoveryDate: null };
+  let worstPeak = 1;
+
+  for (const daily of returns) {
+    index *= 1 + daily.value;
+
+    if (index >= peak) {
+      peak = index;
+      peakDate = daily.date;
+      continue;
+    }
+
+    const drawdown = (index / peak - 1) * 100;
+    if (drawdown < worst.percent) {
+      worst = { percent: drawdown, peakDate, troughDate: daily.date, recoveryDate: null };
+      worstPeak = peak;
+    }
+  }
+
+  // 최대 낙폭 이후 고점을 처음 회복한 날
+  if (worst.percent < 0) {
+    index = 1;
+    for (const daily of returns) {
+      index *= 1 + daily.value;
+      if (daily.date > worst.troughDate && index >= worstPeak) {
+        worst.recoveryDate = daily.date;
+        break;
+      }
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * 벤치마크 대비 베타와 젠센 알파(연 소수)를 계산합니다 (두 수익률은 같은 날짜끼리 짝지어 전달)
+ */
+export function betaAlpha(
+  portfolio: number[],
+  benchmark: number[],
+  riskFreeRate: number
+): { beta: number; alpha: number } | null {
+  if (portfolio.length < 2 || portfolio.length !== benchmark.length) return null;
+
+  const portfolioMean = mean(portfolio);
+  const benchmarkMean = mean(benchmark);
+  let covariance = 0;
+  let variance = 0;
+  portfolio.forEach((value, i) => {
+    covariance += (value - portfolioMean) * (benchmark[i] - benchmarkMean);
+    variance += (benchmark[i] - benchmarkMean) ** 2;
+  });
+  if (variance === 0) return null;
+
+  const beta = covariance / variance;
+  const alpha = annualizedReturn(portfolio) - (riskFreeRate + beta * (annualizedReturn(benchmark) - riskFreeRate));
+  return { beta, alpha };
+}
+
+/**
+ * 표준정규분포 누적확률의 역함수 (Acklam 근사)
+ */
+export function inverseNormal(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -inverseNormal(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * 1일 VaR/CVaR를 과거 수익률 분포(역사적)와 정규분포 가정(모수적)으로 계산합니다
+ */
+export function valueAtRisk(
+  returns: number[],
+  confidence: number,
+  portfolioValue: number
+): { historical: VaRResult; parametric: VaRResult } {
+  const toResult = (varRate: number, cvarRate: number): VaRResult => ({
+    var: varRate * 100,
+    cvar: cvarRate * 100,
+    varAmount: varRate * portfolioValue,
+    cvarAmount: cvarRate * portfolioValue,
+  });
+
+  // 역사적: 하위 (1 - 신뢰수준) 구간의 수익률
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const tail = sorted.slice(0, tailCount);
+  const historicalVar = Math.max(0, -sorted[tailCount - 1]);
+  const historicalCVar = Math.max(0, -mean(tail));
+
+  // 모수적: 평균 - z·σ, CVaR는 정규분포 꼬리 기댓값
+  const average = mean(returns);
+  const deviation = standardDeviation(returns);
+  const z = inverseNormal(confidence);
+  const density = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const parametricVar = Math.max(0, z * deviation - average);
+  const parametricCVar = Math.max(0, deviation * density / (1 - confidence) - average);
+
+  return {
+    historical: toResult(historicalVar, historicalCVar),
+    parametric: toResult(parametricVar, parametricCVar),
+  };
+}
+
+/**
+ * 포트폴리오와 벤치마크 일간 수익률로 전체 리스크 지표를 계산합니다
+ *
+ * benchmarkReturns는 포트폴리오 수익률과 같은 날짜만 사용하며, 관측치가
+ * MIN_RISK_OBSERVATIONS보다 적으면 지표 대신 안내 메시지를 반환합니다.
+ */
+export function calculateRiskMetrics(
+  returns: DailyReturn[],
+  options: {
+    startDate: string | null;
+    riskFreeRate?: number; // 연 %
+    confidence?: number;
+    portfolioValue?: number;
+    benchmark?: { id: string; name: string; symbol: string; returns: DailyReturn[] } | null;
+  }
+): RiskMetrics {
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  const confidence = options.confidence ?? DEFAULT_VAR_CONFIDENCE;
+  const rf = riskFreeRate / 100;
+  const values = returns.map(daily => daily.value);
+
+  const benchmarkByDate = new Map((options.benchmark?.returns || []).map(daily => [daily.date, daily.value]));
+  const paired = returns.filter(daily => benchmarkByDate.has(daily.date));
+
+  const base: RiskMetrics = {
+    sufficientHistory: false,
+    observations: returns.length,
+    requiredObservations: MIN_RISK_OBSERVATIONS,
+    message: null,
+    period: {
+      from: options.startDate,
+      to: returns.length > 0 ? returns[returns.length - 1].date : null,
+    },
+    riskFreeRate,
+    benchmark: options.benchmark
+      ? { id: options.benchmark.id, name: options.benchmark.name, symbol: options.benchmark.symbol, observations: paired.length }
+      : null,
+    annualizedReturn: null,
+    volatility: null,
+    sharpeRatio: null,
+    sortinoRatio: null,
+    maxDrawdown: null,
+    beta: null,
+    alpha: null,
+    valueAtRisk: null,
+  };
+
+  if (returns.length < MIN_RISK_OBSERVATIONS) {
+    return {
+      ...base,
+      message: `리스크 지표를 계산하려면 최소 ${MIN_RISK_OBSERVATIONS}거래일의 수익률이 필요합니다 (현재 ${returns.length}일).`,
+    };
+  }
+
+  const regression = paired.length >= MIN_RISK_OBSERVATIONS
+    ? betaAlpha(paired.map(daily => daily.value), paired.map(daily => benchmarkByDate.get(daily.date)!), rf)
+    : null;
+
+  return {
+    ...base,
+    sufficientHistory: true,
+    message: options.benchmark && !regression
+      ? `벤치마크(${options.benchmark.name}) 가격 이력이 부족해 베타와 알파를 계산하지 못했습니다.`
+      : null,
+    annualizedReturn: annualizedReturn(values) * 100,
+    volatility: annualizedVolatility(values) * 100,
+    sharpeRatio: sharpeRatio(values, rf),
+    sortinoRatio: sortinoRatio(values, rf),
+    maxDrawdown: maxDrawdown(returns, options.startDate || returns[0].date),
+    beta: regression?.beta ?? null,
+    alpha: regression ? regression.alpha * 100 : null,
+    valueAtRisk: {
+      confidence,
+      ...valueAtRisk(values, confidence, options.portfolioValue || 0),
+    },
+  };
+}
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { generateToken } from '@/lib/auth';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  AUTH_COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from '@/lib/authToken';
+
+// 로그인 세션 관리 - 로그인할 때 기기별 세션을 만들고, 리프레시 토큰을 사용할 때마다 교체합니다.
+//
+// - 리프레시 토큰은 "세션 ID.비밀값" 형태로 발급하고 DB에는 SHA-256 해시만 저장
+// - 이미 교체된 토큰이 다시 쓰이면 탈취로 보고 세션을 폐기 (직전 토큰은 동시 요청을 위해 잠시 허용)
+// - 세션을 폐기하면 그 세션의 액세스 토큰도 verifyToken에서 바로 거부됩니다
+
+// 직전 리프레시 토큰을 동시 요청으로 보고 허용하는 시간
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// 폐기된 세션 기록을 보관하는 기간
+const REVOKED_SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type RotateSessionResult =
+  | { status: 'rotated'; tokens: SessionTokens }
+  // 다른 요청이 방금 같은 토큰으로 교체함 (새 쿠키는 그 응답에 실려 있음)
+  | { status: 'concurrent' }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+interface SessionUser {
+  id: string;
+  email: string;
+  username: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(sessionId: string): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+/**
+ * 요청한 클라이언트 IP (프록시 헤더 우선)
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip');
+}
+
+/**
+ * User-Agent에서 "브라우저 · 운영체제" 형태의 기기 이름을 만듭니다
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return '알 수 없는 기기';
+
+  const browser = [
+    { pattern: /Edg\//, name: 'Edge' },
+    { pattern: /OPR\/|Opera/, name: 'Opera' },
+    { pattern: /SamsungBrowser\//, name: 'Samsung Internet' },
+    { pattern: /Whale\//, name: 'Whale' },
+    { pattern: /Firefox\//, name: 'Firefox' },
+    { pattern: /Chrome\//, name: 'Chrome' },
+    { pattern: /Safari\//, name: 'Safari' },
+  ].find(item => item.pattern.test(userAgent))?.name;
+
+  const os = [
+    { pattern: /iPhone|iPad|iPod/, name: 'iOS' },
+    { pattern: /Android/, name: 'Android' },
+    { pattern: /Windows/, name: 'Windows' },
+    { pattern: /Mac OS X|Macintosh/, name: 'macOS' },
+    { pattern: /Linux/, name: 'Linux' },
+  ].find(item => item.pattern.test(userAgent))?.name;
+
+  if (!browser && !os) return userAgent.slice(0, 60);
+  return [browser, os].filter(Boolean).join(' · ');
+}
+
+function issueAccessToken(user: SessionUser, sessionId: string): string {
+  return generateToken({ userId: user.id, email: user.email, username: user.username, sid: sessionId });
+}
+
+/**
+ * 로그인 세션을 만들고 액세스·리프레시 토큰을 발급합니다
+ */
+export async function createSession(user: SessionUser, request: NextRequest): Promise<SessionTokens> {
+  // 만료됐거나 오래전에 폐기된 세션 정리
+  await prisma.session.deleteMany({
+    where: {
+      userId: user.id,
+      OR: [
+        { expiresAt: { lt: new Date() } },
+        { revokedAt: { lt: new Date(Date.now() - REVOKED_SESSION_RETENTION_MS) } },
+      ],
+    },
+  });
+
+  const sessionId = crypto.randomUUID();
+  const refreshToken = newRefreshToken(sessionId);
+  const userAgent = request.headers.get('user-agent');
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      deviceName: describeDevice(userAgent),
+      userAgent,
+      ipAddress: getClientIp(request),
+      expiresAt: refreshExpiry(),
+    },
+  });
+
+  return { accessToken: issueAccessToken(user, sessionId), refreshToken };
+}
+
+/**
+ * 리프레시 토큰으로 새 토큰을 발급합니다 (리프레시 토큰도 교체)
+ */
+export async function rotateSession(refreshToken: string, request: NextRequest): Promise<RotateSessionResult> {
+  const sessionId = refreshToken.split('.')[0];
+  if (!sessionId) return { status: 'invalid' };
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: { id: true, email: true, username: true } } },
+  });
+
+  const now = new Date();
+  if (!session || session.revokedAt || session.expiresAt <= now) {
+    return { status: 'invalid' };
+  }
+
+  const tokenHash = hashToken(refreshToken);
+  if (tokenHash !== session.refreshTokenHash) {
+    const withinGrace = tokenHash === session.previousTokenHash
+      && !!session.rotatedAt
+      && now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (withinGrace) {
+      return { status: 'concurrent' };
+    }
+
+    // 이미 교체된 토큰 재사용 - 토큰이 유출된 것으로 보고 세션 폐기
+    console.warn(`Refresh token reuse detected for session ${session.id} (user ${session.userId})`);
+    await revokeSession(session.userId, session.id, 'TOKEN_REUSE');
+    await prisma.notification.create({
+      data: {
+        userId: session.userId,
+        title: '로그인 세션 보안 경고',
+        message: `${session.deviceName || '알 수 없는 기기'} 세션에서 이미 사용된 로그인 토큰이 다시 사용되어 세션을 종료했습니다. 본인이 아니라면 비밀번호를 변경해주세요.`,
+        link: '/devices',
+      },
+    });
+    return { status: 'reused' };
+  }
+
+  const nextToken = newRefreshToken(session.id);
+  const userAgent = request.headers.get('user-agent');
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(),
+      userAgent,
+      deviceName: describeDevice(userAgent),
+      ipAddress: getClientIp(request),
+    },
+  });
+
+  // 같은 토큰으로 들어온 다른 요청이 먼저 교체함
+  if (count === 0) {
+    return { status: 'concurrent' };
+  }
+
+  return {
+    status: 'rotated',
+    tokens: { accessToken: issueAccessToken(session.user, session.id), refreshToken: nextToken },
+  };
+}
+
+/**
+ * 리프레시 토큰이 가리키는 현재 세션 (토큰이 최신이 아니면 null)
+ */
+export async function findSessionByRefreshToken(refreshToken: string): Promise<{ id: string; userId: string } | null> {
+  return prisma.session.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+    select: { id: true, userId: true },
+  });
+}
+
+/**
+ * 사용자의 세션 하나를 폐기합니다 (이미 폐기됐거나 다른 사용자의 세션이면 false)
+ */
+export async function revokeSession(userId: string, sessionId: string, reason: string): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count > 0;
+}
+
+/**
+ * 사용자의 모든 세션을 폐기합니다 (exceptSessionId는 유지, 폐기한 개수 반환)
+ */
+export async function revokeUserSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count;
+}
+
+/**
+ * 사용 중인 세션 목록 (최근 사용 순)
+ */
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      deviceName: true,
+      userAgent: true,
+      ipAddress: true,
+      lastUsedAt: true,
+      createdAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+/**
+ * 응답에 액세스·리프레시 토큰 쿠키를 설정합니다
+ */
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/',
+  };
+
+  response.cookies.set(AUTH_COOKIE_NAME, tokens.accessToken, { ...options, maxAge: ACCESS_TOKEN_TTL_SECONDS });
+  response.cookies.set(REFRESH_COOKIE_NAME, tokens.refreshToken, { ...options, maxAge: REFRESH_TOKEN_TTL_SECONDS });
+}
+
+/**
+ * 응답에서 인증 쿠키를 삭제합니다
+ */
+export function clearSessionCookies(response: NextResponse): void {
+  for (const name of [AUTH_COOKIE_NAME, REFRESH_COOKIE_NAME]) {
+    response.cookies.set(name, '', {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 0,
+      path: '/',
+    });
+  }
+}
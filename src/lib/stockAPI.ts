@@ -24,70 +24,68 @@ class StockAPIService {
   private readonly API_CACHE_DURATION = 5 * 60 * 1000; // 5분 캐시
   private cache = new Map<string, { data: StockData; timestamp: number }>();
 
-  // Yahoo Finance API를 통한 주식 데이터 조회 (비공식이지만 무료)
+  // 서버 시세 API(/api/quotes)를 통한 주식 데이터 조회 - 종목별 제공자 선택은 서버에서 처리
   async getStockData(codes: string[]): Promise<{ [key: string]: StockData }> {
     const result: { [key: string]: StockData } = {};
-    
+    const codesToFetch: string[] = [];
+
+    // 캐시 확인
     for (const code of codes) {
-      try {
-        // 캐시 확인
-        const cached = this.cache.get(code);
-        if (cached && Date.now() - cached.timestamp < this.API_CACHE_DURATION) {
-          result[code] = cached.data;
-          continue;
-        }
-
-        // API 호출
-        const stockData = await this.fetchStockFromYahoo(code);
-        if (stockData) {
-          result[code] = stockData;
-          this.cache.set(code, { data: stockData, timestamp: Date.now() });
-        }
-      } catch (error) {
-        console.error(`Failed to fetch stock data for ${code}:`, error);
-        // 캐시된 데이터라도 사용
-        const cached = this.cache.get(code);
-        if (cached) {
-          result[code] = cached.data;
-        }
+      const cached = this.cache.get(code);
+      if (cached && Date.now() - cached.timestamp < this.API_CACHE_DURATION) {
+        result[code] = cached.data;
+      } else {
+        codesToFetch.push(code);
       }
     }
 
-    return result;
-  }
+    if (codesToFetch.length === 0) {
+      return result;
+    }
 
-  // Yahoo Finance에서 개별 주식 데이터 가져오기
-  private async fetchStockFromYahoo(code: string): Promise<StockData | null> {
     try {
-      // 한국 주식의 경우 .KS 또는 .KQ 접미사 추가
-      const yahooSymbol = this.convertToYahooSymbol(code);
-      
-      // Yahoo Finance API 호출 (비공식 엔드포인트)
-      const response = await fetch(`/api/stock-data/yahoo?symbol=${yahooSymbol}`);
-      
+      const response = await fetch(`/api/quotes?symbols=${codesToFetch.map(encodeURIComponent).join(',')}`);
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
       const data = await response.json();
-      
-      return {
-        code,
-        name: data.longName || data.shortName || code,
-        market: this.determineMarket(code),
-        currentPrice: data.regularMarketPrice || 0,
-        change: data.regularMarketChange || 0,
-        changePercent: data.regularMarketChangePercent || 0,
-        volume: data.regularMarketVolume || 0,
-        marketCap: data.marketCap,
-        high52w: data.fiftyTwoWeekHigh,
-        low52w: data.fiftyTwoWeekLow,
-        lastUpdate: new Date().toISOString(),
-      };
+
+      for (const code of codesToFetch) {
+        const quote = data.quotes?.[code];
+        if (!quote) continue;
+
+        const stockData: StockData = {
+          code,
+          name: quote.longName || quote.shortName || code,
+          market: this.determineMarket(code),
+          currentPrice: quote.regularMarketPrice || 0,
+          change: quote.regularMarketChange || 0,
+          changePercent: quote.regularMarketChangePercent || 0,
+          volume: quote.regularMarketVolume || 0,
+          marketCap: quote.marketCap,
+          high52w: quote.fiftyTwoWeekHigh,
+          low52w: quote.fiftyTwoWeekLow,
+          lastUpdate: quote.lastUpdate || new Date().toISOString(),
+        };
+
+        result[code] = stockData;
+        this.cache.set(code, { data: stockData, timestamp: Date.now() });
+      }
     } catch (error) {
-      console.error(`Error fetching Yahoo data for ${code}:`, error);
-      return null;
+      console.error('Failed to fetch stock data:', error);
+    }
+
+    // 조회 실패한 종목은 만료된 캐시 데이터라도 사용
+    for (const code of codesToFetch) {
+      const cached = this.cache.get(code);
+      if (!result[code] && cached) {
+        result[code] = cached.data;
+      }
     }
+
+    return result;
   }
 
   // Alpha Vantage API (일일 500회 무료)
@@ -165,23 +163,6 @@ class StockAPIService {
     }
   }
 
-  // 코드를 Yahoo Finance 심볼로 변환
-  private convertToYahooSymbol(code: string): string {
-    // 한국 주식
-    if (/^\d{6}$/.test(code)) {
-      // KOSPI는 .KS, KOSDAQ는 .KQ
-      // 실제로는 더 정확한 구분이 필요하지만 간단히 처리
-      if (this.isKOSDAQStock(code)) {
-        return `${code}.KQ`;
-      } else {
-        return `${code}.KS`;
-      }
-    }
-    
-    // 미국 주식은 그대로
-    return code;
-  }
-
   // KOSDAQ 주식인지 판단 (간단한 로직)
   private isKOSDAQStock(code: string): boolean {
     // 실제로는 더 정확한 데이터베이스가 필요
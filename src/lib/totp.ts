@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+
+// TOTP (RFC 6238) - 인증 앱(Google Authenticator 등)과 같은 6자리 코드를 계산합니다.
+// HMAC-SHA1, 30초 간격, 6자리 (대부분의 인증 앱 기본값)
+
+const TOTP_ISSUER = 'myAccountIsEmpty';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20;
+
+// 기기 시계 오차를 고려해 앞뒤 한 구간까지 허용
+const ALLOWED_DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(value: string): Buffer {
+  const cleaned = value.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let buffer = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * 새 TOTP 비밀키 (base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * 시각이 속한 TOTP 구간 번호
+ */
+export function getTotpStep(date: Date = new Date()): number {
+  return Math.floor(date.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * 구간 번호의 TOTP 코드 (HOTP, RFC 4226)
+ */
+export function generateTotpCode(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * TOTP 코드를 확인하고 일치한 구간 번호를 반환합니다 (틀렸으면 null)
+ * lastUsedStep 이하의 구간은 이미 쓴 코드이므로 거부합니다 (재사용 방지)
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep();
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+
+    const expected = generateTotpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * 인증 앱 등록용 otpauth:// 주소 (QR 코드로 보여줌)
+ */
+export function buildTotpProvisioningUri(secret: string, accountName: string): string {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
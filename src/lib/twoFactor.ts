@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '@/lib/prisma';
+import { getJwtSecret } from '@/lib/authToken';
+import { verifyTotpCode } from '@/lib/totp';
+
+// 2단계 인증 - 비밀번호 확인 후 TOTP 코드나 복구 코드를 한 번 더 확인하고 나서 세션을 만듭니다.
+//
+// - 비밀번호 단계에서는 세션 대신 5분짜리 확인 토큰(challenge)만 발급
+// - 확인 토큰 하나로 시도할 수 있는 횟수를 제한 (넘으면 비밀번호부터 다시)
+// - 복구 코드는 SHA-256 해시만 저장하고 한 번 쓰면 사용 처리
+// - 관리자(ADMIN)는 2단계 인증을 켜야 관리자 권한을 쓸 수 있습니다 (@/lib/auth의 hasRole)
+
+const CHALLENGE_PURPOSE = 'two-factor-login';
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// 헷갈리는 글자(0/o, 1/l/i)를 뺀 복구 코드 문자
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export type SecondFactorMethod = 'totp' | 'recovery';
+
+interface TwoFactorUser {
+  id: string;
+  totpSecret: string | null;
+  totpLastUsedStep: number | null;
+}
+
+interface ChallengePayload {
+  userId: string;
+  purpose: string;
+  jti: string;
+}
+
+// 확인 토큰별 실패 횟수 (토큰 ID → 횟수, 만료 시각)
+const challengeAttempts = new Map<string, { count: number; expiresAt: number }>();
+
+function pruneChallengeAttempts(): void {
+  const now = Date.now();
+  for (const [id, entry] of challengeAttempts) {
+    if (entry.expiresAt <= now) challengeAttempts.delete(id);
+  }
+}
+
+/**
+ * 비밀번호를 확인한 사용자에게 2단계 인증용 확인 토큰을 발급합니다
+ */
+export function createTwoFactorChallenge(userId: string): string {
+  const secret = getJwtSecret();
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, secret, {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+    jwtid: crypto.randomUUID(),
+  });
+}
+
+/**
+ * 확인 토큰 검증 - 만료됐거나 시도 횟수를 다 썼으면 null
+ */
+export function verifyTwoFactorChallenge(token: string): ChallengePayload | null {
+  const secret = getJwtSecret();
+  if (!secret) return null;
+
+  try {
+    const payload = jwt.verify(token, secret, { algorithms: ['HS256'] }) as ChallengePayload;
+    if (payload.purpose !== CHALLENGE_PURPOSE || !payload.userId || !payload.jti) {
+      return null;
+    }
+    if ((challengeAttempts.get(payload.jti)?.count ?? 0) >= MAX_CHALLENGE_ATTEMPTS) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    console.error('Two-factor challenge verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * 확인 토큰의 실패를 기록하고 남은 시도 횟수를 반환합니다
+ */
+export function recordChallengeFailure(challengeId: string): number {
+  pruneChallengeAttempts();
+  const entry = challengeAttempts.get(challengeId) ?? {
+    count: 0,
+    expiresAt: Date.now() + CHALLENGE_TTL_SECONDS * 1000,
+  };
+  entry.count++;
+  challengeAttempts.set(challengeId, entry);
+  return Math.max(0, MAX_CHALLENGE_ATTEMPTS - entry.count);
+}
+
+/**
+ * 확인 토큰을 다 썼으면 다시 쓸 수 없게 막습니다
+ */
+export function completeChallenge(challengeId: string): void {
+  pruneChallengeAttempts();
+  challengeAttempts.set(challengeId, {
+    count: MAX_CHALLENGE_ATTEMPTS,
+    expiresAt: Date.now() + CHALLENGE_TTL_SECONDS * 1000,
+  });
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function randomRecoveryCode(): string {
+  const chars = Array.from(
+    crypto.randomBytes(10),
+    byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]
+  ).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * 복구 코드를 새로 만듭니다 (기존 코드는 모두 폐기, 원문은 이때만 보여줄 수 있음)
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * 복구 코드를 사용 처리합니다 (없거나 이미 쓴 코드면 false)
+ */
+async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * TOTP 코드를 확인하고 사용한 구간을 기록합니다 (같은 코드 재사용 방지)
+ */
+export async function consumeTotpCode(user: TwoFactorUser, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep);
+  if (step === null) return false;
+
+  // 같은 코드로 동시에 들어온 요청은 하나만 통과
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+  return count > 0;
+}
+
+/**
+ * 2단계 인증 코드 확인 - 6자리 숫자는 TOTP, 그 외는 복구 코드로 봅니다 (틀리면 null)
+ */
+export async function verifySecondFactor(user: TwoFactorUser, code: string): Promise<SecondFactorMethod | null> {
+  const trimmed = code.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{6}$/.test(trimmed.replace(/\s/g, ''))) {
+    return (await consumeTotpCode(user, trimmed)) ? 'totp' : null;
+  }
+
+  if (await consumeRecoveryCode(user.id, trimmed)) {
+    console.log(`Two-factor: Recovery code used by user ${user.id}`);
+    return 'recovery';
+  }
+  return null;
+}
+
+/**
+ * 사용하지 않은 복구 코드 개수
+ */
+export async function countRemainingRecoveryCodes(userId: string): Promise<number> {
+  return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+}
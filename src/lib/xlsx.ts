@@ -0,0 +1,140 @@
+import { inflateRawSync } from 'zlib';
+
+// 최소 XLSX 리더 - 증권사 거래내역 파일의 첫 번째 시트를 문자열 표로 읽습니다.
+// 서식, 수식, 병합 셀은 지원하지 않으며 셀에 저장된 값만 읽습니다.
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: Buffer): ZipEntry[] {
+  // End of Central Directory 레코드는 파일 끝에서 찾음 (주석 최대 64KB)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('XLSX 파일 형식이 올바르지 않습니다.');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readZipEntry(buffer: Buffer, entry: ZipEntry): string {
+  const offset = entry.localHeaderOffset;
+  const nameLength = buffer.readUInt16LE(offset + 26);
+  const extraLength = buffer.readUInt16LE(offset + 28);
+  const start = offset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data.toString('utf8');
+  if (entry.method === 8) return inflateRawSync(data).toString('utf8');
+  throw new Error(`지원하지 않는 압축 방식입니다: ${entry.method}`);
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// <t> 요소들의 텍스트를 이어붙임 (서식이 섞인 문자열 포함)
+function readText(xml: string): string {
+  const parts = Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => match[1]);
+  return decodeXml(parts.join(''));
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * XLSX 파일의 첫 번째 시트를 행 단위 문자열 배열로 읽습니다
+ */
+export function readXlsxRows(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const findEntry = (name: string) => entries.find(entry => entry.name === name);
+
+  const sharedStringsEntry = findEntry('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(readZipEntry(buffer, sharedStringsEntry).matchAll(/<si>([\s\S]*?)<\/si>/g), match => readText(match[1]))
+    : [];
+
+  const sheetEntry = findEntry('xl/worksheets/sheet1.xml')
+    || entries
+      .filter(entry => /^xl\/worksheets\/[^/]+\.xml$/.test(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name))[0];
+  if (!sheetEntry) {
+    throw new Error('XLSX 파일에서 시트를 찾을 수 없습니다.');
+  }
+
+  const sheetXml = readZipEntry(buffer, sheetEntry);
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue, 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readText(content);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
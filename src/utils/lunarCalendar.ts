@@ -0,0 +1,188 @@
+/**
+ * 음력(한국 천문연구원 방식) 날짜 계산
+ *
+ * 설날·부처님오신날·추석처럼 음력으로 정해지는 휴장일을 연도마다 손으로 적지 않도록
+ * 합삭(새달)과 중기(태양 황경 30° 배수) 시각을 천문 계산으로 구해 음력 달력을 만듭니다.
+ *
+ * - 합삭 시각: Meeus, Astronomical Algorithms 49장 (주기항 보정, 오차 수 분 이내)
+ * - 태양 황경: Meeus 25장 저정밀 식 (오차 약 0.01°)
+ * - 날짜 경계는 한국 표준시(UTC+9) 자정 기준이라 중국 음력과 하루 차이 나는 해(예: 2027년 설날)도 맞습니다
+ * - 동지가 든 달을 11월로 두고, 동지~동지 사이가 13개월이면 중기가 없는 첫 달을 윤달로 둡니다
+ */
+
+const KST_OFFSET_DAYS = 9 / 24;
+
+// 지구 자전 지연(ΔT) - 2020~2040년대 기준 약 69초로 고정
+const DELTA_T_DAYS = 69 / 86400;
+
+const SYNODIC_MONTH = 29.530588861;
+
+const DEG = Math.PI / 180;
+
+interface LunarMonth {
+  month: number;
+  leap: boolean;
+  // 그 달 초하루의 율리우스 적일(JDN, KST 기준)
+  startDay: number;
+}
+
+const cycleCache = new Map<number, LunarMonth[]>();
+
+function normalizeDegrees(value: number): number {
+  const result = value % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * 태양의 겉보기 황경(도) - jde는 역학시 기준 율리우스일
+ */
+function sunLongitude(jde: number): number {
+  const t = (jde - 2451545) / 36525;
+  const l0 = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  const m = (357.52911 + 35999.05029 * t - 0.0001537 * t * t) * DEG;
+  const c = (1.914602 - 0.004817 * t - 0.000014 * t * t) * Math.sin(m)
+    + (0.019993 - 0.000101 * t) * Math.sin(2 * m)
+    + 0.000289 * Math.sin(3 * m);
+  const omega = (125.04 - 1934.136 * t) * DEG;
+  return normalizeDegrees(l0 + c - 0.00569 - 0.00478 * Math.sin(omega));
+}
+
+/**
+ * k번째 합삭 시각 (2000년 1월 6일 합삭이 k=0, 역학시 기준 율리우스일)
+ */
+function newMoon(k: number): number {
+  const t = k / 1236.85;
+  const jde = 2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * t * t - 0.00000015 * t * t * t + 0.00000000073 * t * t * t * t;
+
+  const e = 1 - 0.002516 * t - 0.0000074 * t * t;
+  const m = (2.5534 + 29.1053567 * k - 0.0000014 * t * t - 0.00000011 * t * t * t) * DEG;
+  const mp = (201.5643 + 385.81693528 * k + 0.0107582 * t * t + 0.00001238 * t * t * t - 0.000000058 * t * t * t * t) * DEG;
+  const f = (160.7108 + 390.67050284 * k - 0.0016118 * t * t - 0.00000227 * t * t * t + 0.000000011 * t * t * t * t) * DEG;
+  const omega = (124.7746 - 1.56375588 * k + 0.0020672 * t * t + 0.00000215 * t * t * t) * DEG;
+
+  const correction =
+    -0.4072 * Math.sin(mp)
+    + 0.17241 * e * Math.sin(m)
+    + 0.01608 * Math.sin(2 * mp)
+    + 0.01039 * Math.sin(2 * f)
+    + 0.00739 * e * Math.sin(mp - m)
+    - 0.00514 * e * Math.sin(mp + m)
+    + 0.00208 * e * e * Math.sin(2 * m)
+    - 0.00111 * Math.sin(mp - 2 * f)
+    - 0.00057 * Math.sin(mp + 2 * f)
+    + 0.00056 * e * Math.sin(2 * mp + m)
+    - 0.00042 * Math.sin(3 * mp)
+    + 0.00042 * e * Math.sin(m + 2 * f)
+    + 0.00038 * e * Math.sin(m - 2 * f)
+    - 0.00024 * e * Math.sin(2 * mp - m)
+    - 0.00017 * Math.sin(omega)
+    - 0.00007 * Math.sin(mp + 2 * m)
+    + 0.00004 * Math.sin(2 * mp - 2 * f)
+    + 0.00004 * Math.sin(3 * m)
+    + 0.00003 * Math.sin(mp + m - 2 * f)
+    + 0.00003 * Math.sin(2 * mp + 2 * f)
+    - 0.00003 * Math.sin(mp + m + 2 * f)
+    + 0.00003 * Math.sin(mp - m + 2 * f)
+    - 0.00002 * Math.sin(mp - m - 2 * f)
+    - 0.00002 * Math.sin(3 * mp + m)
+    + 0.00002 * Math.sin(4 * mp);
+
+  return jde + correction;
+}
+
+/**
+ * 역학시 율리우스일 → KST 날짜의 율리우스 적일
+ */
+function toKstDay(jde: number): number {
+  return Math.floor(jde - DELTA_T_DAYS + KST_OFFSET_DAYS + 0.5);
+}
+
+/**
+ * KST 날짜(율리우스 적일)의 자정 시각 (역학시 율리우스일)
+ */
+function kstMidnight(day: number): number {
+  return day - 0.5 - KST_OFFSET_DAYS + DELTA_T_DAYS;
+}
+
+/**
+ * 태양 황경이 longitude가 되는 시각 (approxJde 근처, 역학시 율리우스일)
+ */
+function solarTerm(longitude: number, approxJde: number): number {
+  let jde = approxJde;
+  for (let i = 0; i < 20; i++) {
+    const diff = ((longitude - sunLongitude(jde) + 540) % 360) - 180;
+    jde += diff * 365.2422 / 360;
+    if (Math.abs(diff) < 1e-7) break;
+  }
+  return jde;
+}
+
+/**
+ * KST 날짜 day가 속한 음력 달의 합삭 번호
+ */
+function lunationContaining(day: number): number {
+  let k = Math.floor((kstMidnight(day) - 2451550.09766) / SYNODIC_MONTH);
+  while (toKstDay(newMoon(k)) > day) k--;
+  while (toKstDay(newMoon(k + 1)) <= day) k++;
+  return k;
+}
+
+/**
+ * 합삭 번호 k인 달에 중기(황경 30° 배수)가 들어 있는지 확인
+ */
+function hasPrincipalTerm(k: number): boolean {
+  const start = sunLongitude(kstMidnight(toKstDay(newMoon(k))));
+  const end = sunLongitude(kstMidnight(toKstDay(newMoon(k + 1))));
+  return Math.floor(start / 30) !== Math.floor(end / 30);
+}
+
+/**
+ * year-1년 동지가 든 달(11월)부터 year년 동지가 든 달 직전까지의 음력 달 목록
+ */
+function getLunarCycle(year: number): LunarMonth[] {
+  const cached = cycleCache.get(year);
+  if (cached) return cached;
+
+  // 12월 21일 무렵 (율리우스일)
+  const solsticeApprox = (y: number) => 2451545 + (y - 2000) * 365.2422 + 355;
+  const k1 = lunationContaining(toKstDay(solarTerm(270, solsticeApprox(year - 1))));
+  const k2 = lunationContaining(toKstDay(solarTerm(270, solsticeApprox(year))));
+  const hasLeapMonth = k2 - k1 === 13;
+
+  const months: LunarMonth[] = [];
+  let month = 11;
+  let leapAssigned = false;
+  for (let k = k1; k < k2; k++) {
+    const leap = hasLeapMonth && !leapAssigned && k > k1 && !hasPrincipalTerm(k);
+    if (leap) {
+      leapAssigned = true;
+    } else if (k > k1) {
+      month = month % 12 + 1;
+    }
+    months.push({ month, leap, startDay: toKstDay(newMoon(k)) });
+  }
+
+  cycleCache.set(year, months);
+  return months;
+}
+
+/**
+ * 율리우스 적일 → YYYY-MM-DD
+ */
+function formatJulianDay(day: number): string {
+  return new Date((day - 2440588) * 86400000).toISOString().split('T')[0];
+}
+
+/**
+ * 음력 날짜를 양력 날짜(YYYY-MM-DD, 한국 기준)로 변환합니다
+ *
+ * @param year 음력 연도 (설날이 든 양력 연도와 같음)
+ * @param leap 윤달이면 true - 해당 윤달이 없으면 null
+ */
+export function lunarToSolar(year: number, month: number, day: number, leap = false): string | null {
+  // 음력 11·12월은 다음 동지 주기의 앞부분에 있습니다
+  const cycle = getLunarCycle(month >= 11 ? year + 1 : year);
+  const found = cycle.find(item => item.month === month && item.leap === leap);
+  if (!found) return null;
+  return formatJulianDay(found.startDay + day - 1);
+}
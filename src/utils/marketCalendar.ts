@@ -0,0 +1,434 @@
+/**
+ * 거래소 휴장일·거래시간 계산
+ *
+ * 연도별 휴장일 목록을 손으로 관리하지 않도록 규칙으로 휴장일을 만듭니다.
+ * - KRX: 양력 공휴일, 음력 공휴일(설날·부처님오신날·추석), 대체공휴일, 근로자의날, 연말 휴장일
+ * - NYSE/NASDAQ: NYSE 휴장 규칙(월요일 지정 공휴일, 부활절 기준 성금요일, 주말 대체 규칙)
+ * - 선거일·임시공휴일·국가 애도일처럼 규칙으로 정할 수 없는 휴장은 SPECIAL_CLOSURES에 추가합니다
+ *
+ * 날짜는 모두 거래소 현지 날짜 기준 YYYY-MM-DD 문자열입니다.
+ */
+
+import { lunarToSolar } from './lunarCalendar';
+
+export type Exchange = 'KRX' | 'NYSE' | 'NASDAQ';
+
+export interface MarketHoliday {
+  date: string;
+  name: string;
+}
+
+export interface TradingSession {
+  date: string;
+  // 현지 시각 HH:mm
+  open: string;
+  close: string;
+  timeZone: string;
+  // 조기 폐장·지연 개장 사유 (정규 시간이면 없음)
+  note?: string;
+}
+
+const EXCHANGE_TIME_ZONES: Record<Exchange, string> = {
+  KRX: 'Asia/Seoul',
+  NYSE: 'America/New_York',
+  NASDAQ: 'America/New_York',
+};
+
+const REGULAR_HOURS: Record<Exchange, { open: string; close: string }> = {
+  KRX: { open: '09:00', close: '15:30' },
+  NYSE: { open: '09:30', close: '16:00' },
+  NASDAQ: { open: '09:30', close: '16:00' },
+};
+
+// 규칙으로 정할 수 없는 휴장일 (선거일, 임시공휴일, 국가 애도일 등) - 발표되면 추가
+const SPECIAL_CLOSURES: Record<'KRX' | 'NYSE', MarketHoliday[]> = {
+  KRX: [
+    { date: '2022-03-09', name: '제20대 대통령선거' },
+    { date: '2022-06-01', name: '제8회 전국동시지방선거' },
+    { date: '2023-10-02', name: '임시공휴일' },
+    { date: '2024-04-10', name: '제22대 국회의원선거' },
+    { date: '2024-10-01', name: '국군의 날 임시공휴일' },
+    { date: '2025-01-27', name: '임시공휴일' },
+    { date: '2025-06-03', name: '제21대 대통령선거' },
+    { date: '2026-06-03', name: '제9회 전국동시지방선거' },
+  ],
+  NYSE: [
+    { date: '2018-12-05', name: 'National Day of Mourning (George H.W. Bush)' },
+    { date: '2025-01-09', name: 'National Day of Mourning (Jimmy Carter)' },
+  ],
+};
+
+// 대학수학능력시험일 - KRX가 1시간 늦게 열고 1시간 늦게 닫습니다 (매년 교육부 발표)
+const CSAT_DATES = [
+  '2020-12-03',
+  '2021-11-18',
+  '2022-11-17',
+  '2023-11-16',
+  '2024-11-14',
+  '2025-11-13',
+  '2026-11-19',
+];
+
+const holidayCache = new Map<string, MarketHoliday[]>();
+
+function calendarOf(exchange: Exchange): 'KRX' | 'NYSE' {
+  return exchange === 'KRX' ? 'KRX' : 'NYSE';
+}
+
+function toUtcDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatUtcDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * YYYY-MM-DD 날짜에 days일을 더합니다
+ */
+export function addDays(date: string, days: number): string {
+  const result = toUtcDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatUtcDate(result);
+}
+
+function dayOfWeek(date: string): number {
+  return toUtcDate(date).getUTCDay();
+}
+
+function isWeekendDate(date: string): boolean {
+  const day = dayOfWeek(date);
+  return day === 0 || day === 6;
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * year년 month월의 n번째 weekday (n이 음수면 뒤에서 n번째)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return ymd(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return ymd(year, month, lastDay.getUTCDate() - offset - (-n - 1) * 7);
+}
+
+/**
+ * 부활절 (그레고리력, Anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
+
+// 대체공휴일 적용 방식: 설·추석 연휴는 일요일·다른 공휴일과 겹칠 때, 그 밖에는 토·일요일·다른 공휴일과 겹칠 때
+type SubstituteRule = 'LUNAR_HOLIDAY' | 'WEEKEND' | 'NONE';
+
+interface KoreanHoliday extends MarketHoliday {
+  substitute: SubstituteRule;
+}
+
+/**
+ * KRX 휴장일 (대체공휴일 포함, 특별 휴장 제외)
+ */
+function buildKrxHolidays(year: number): MarketHoliday[] {
+  // 대체공휴일 적용 시작 연도: 설·추석·어린이날 2014년, 국경일 2021년, 부처님오신날·성탄절 2023년
+  const since = (startYear: number): SubstituteRule => (year >= startYear ? 'WEEKEND' : 'NONE');
+
+  const holidays: KoreanHoliday[] = [
+    { date: ymd(year, 1, 1), name: '신정', substitute: 'NONE' },
+    { date: ymd(year, 3, 1), name: '삼일절', substitute: since(2021) },
+    { date: ymd(year, 5, 5), name: '어린이날', substitute: since(2014) },
+    { date: ymd(year, 6, 6), name: '현충일', substitute: 'NONE' },
+    { date: ymd(year, 8, 15), name: '광복절', substitute: since(2021) },
+    { date: ymd(year, 10, 3), name: '개천절', substitute: since(2021) },
+    { date: ymd(year, 10, 9), name: '한글날', substitute: since(2021) },
+    { date: ymd(year, 12, 25), name: '성탄절', substitute: since(2023) },
+  ];
+
+  const buddhasBirthday = lunarToSolar(year, 4, 8);
+  if (buddhasBirthday) {
+    holidays.push({ date: buddhasBirthday, name: '부처님오신날', substitute: since(2023) });
+  }
+
+  const lunarSubstitute: SubstituteRule = year >= 2014 ? 'LUNAR_HOLIDAY' : 'NONE';
+  for (const [month, day, name] of [[1, 1, '설날'], [8, 15, '추석']] as const) {
+    const date = lunarToSolar(year, month, day);
+    if (!date) continue;
+    holidays.push(
+      { date: addDays(date, -1), name: `${name} 연휴`, substitute: lunarSubstitute },
+      { date, name, substitute: lunarSubstitute },
+      { date: addDays(date, 1), name: `${name} 연휴`, substitute: lunarSubstitute },
+    );
+  }
+
+  // 겹치거나 주말에 든 공휴일마다 그 뒤 첫 평일 비공휴일을 대체공휴일로 지정
+  const taken = new Set(holidays.map(holiday => holiday.date));
+  const substitutes: MarketHoliday[] = [];
+  const byDate = new Map<string, KoreanHoliday[]>();
+  for (const holiday of holidays) {
+    byDate.set(holiday.date, [...(byDate.get(holiday.date) || []), holiday]);
+  }
+
+  for (const date of Array.from(byDate.keys()).sort()) {
+    const sameDay = byDate.get(date)!;
+    const weekday = dayOfWeek(date);
+    // 그날을 그대로 쉬는 공휴일 (대체 대상이 아닌 공휴일이 있으면 그 공휴일이 차지)
+    let keeper = sameDay.find(holiday => holiday.substitute === 'NONE');
+
+    for (const holiday of sameDay) {
+      if (holiday.substitute === 'NONE') continue;
+      const onDayOff = weekday === 0 || (weekday === 6 && holiday.substitute === 'WEEKEND');
+      if (!onDayOff && !keeper) {
+        keeper = holiday;
+        continue;
+      }
+
+      let substitute = addDays(date, 1);
+      while (isWeekendDate(substitute) || taken.has(substitute)) {
+        substitute = addDays(substitute, 1);
+      }
+      taken.add(substitute);
+      substitutes.push({ date: substitute, name: `대체공휴일(${holiday.name.replace(' 연휴', '')})` });
+    }
+  }
+
+  const result: MarketHoliday[] = [
+    ...holidays.map(({ date, name }) => ({ date, name })),
+    ...substitutes,
+    { date: ymd(year, 5, 1), name: '근로자의날' },
+  ];
+
+  // 연말 휴장일: 12월 31일 (주말·공휴일이면 직전 평일)
+  let yearEnd = ymd(year, 12, 31);
+  while (isWeekendDate(yearEnd) || taken.has(yearEnd)) {
+    yearEnd = addDays(yearEnd, -1);
+  }
+  result.push({ date: yearEnd, name: '연말 휴장일' });
+
+  return result;
+}
+
+/**
+ * 토요일이면 금요일, 일요일이면 월요일로 옮긴 NYSE 휴장일
+ */
+function observedDate(date: string): string {
+  const day = dayOfWeek(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * NYSE(NASDAQ 공통) 휴장일
+ */
+function buildNyseHolidays(year: number): MarketHoliday[] {
+  const holidays: MarketHoliday[] = [];
+
+  // 신년: 토요일이면 전년 12월 31일에 쉬지 않습니다 (NYSE Rule 7.2)
+  const newYear = ymd(year, 1, 1);
+  if (dayOfWeek(newYear) !== 6) {
+    holidays.push({ date: observedDate(newYear), name: "New Year's Day" });
+  }
+
+  holidays.push(
+    { date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" },
+    { date: addDays(easterSunday(year), -2), name: 'Good Friday' },
+    { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+  );
+
+  if (year >= 2022) {
+    holidays.push({ date: observedDate(ymd(year, 6, 19)), name: 'Juneteenth' });
+  }
+
+  holidays.push(
+    { date: observedDate(ymd(year, 7, 4)), name: 'Independence Day' },
+    { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+    { date: observedDate(ymd(year, 12, 25)), name: 'Christmas Day' },
+  );
+
+  return holidays;
+}
+
+/**
+ * 거래소의 연간 휴장일 목록 (주말 제외, 날짜순)
+ */
+export function getMarketHolidays(exchange: Exchange, year: number): MarketHoliday[] {
+  const calendar = calendarOf(exchange);
+  const cacheKey = `${calendar}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const rules = calendar === 'KRX' ? buildKrxHolidays(year) : buildNyseHolidays(year);
+  const special = SPECIAL_CLOSURES[calendar].filter(holiday => holiday.date.startsWith(`${year}-`));
+
+  const seen = new Set<string>();
+  const holidays = [...rules, ...special]
+    .filter(holiday => holiday.date.startsWith(`${year}-`) && !isWeekendDate(holiday.date))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .filter(holiday => {
+      if (seen.has(holiday.date)) return false;
+      seen.add(holiday.date);
+      return true;
+    });
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * 휴장일 이름 (휴장일이 아니면 null, 주말은 null)
+ */
+export function getHolidayName(exchange: Exchange, date: string): string | null {
+  const holiday = getMarketHolidays(exchange, Number(date.slice(0, 4))).find(item => item.date === date);
+  return holiday ? holiday.name : null;
+}
+
+/**
+ * 거래일인지 확인 (주말·휴장일이 아닌 날)
+ */
+export function isTradingDay(exchange: Exchange, date: string): boolean {
+  return !isWeekendDate(date) && !getHolidayName(exchange, date);
+}
+
+/**
+ * date 이전의 가장 가까운 거래일 (date 제외)
+ */
+export function getPreviousTradingDate(exchange: Exchange, date: string): string {
+  let current = addDays(date, -1);
+  while (!isTradingDay(exchange, current)) {
+    current = addDays(current, -1);
+  }
+  return current;
+}
+
+/**
+ * date 이후의 가장 가까운 거래일 (date 제외)
+ */
+export function getNextTradingDate(exchange: Exchange, date: string): string {
+  let current = addDays(date, 1);
+  while (!isTradingDay(exchange, current)) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
+
+/**
+ * date가 거래일이면 date, 아니면 직전 거래일
+ */
+export function getLastTradingDate(exchange: Exchange, date: string): string {
+  return isTradingDay(exchange, date) ? date : getPreviousTradingDate(exchange, date);
+}
+
+function shiftTime(time: string, hours: number): string {
+  const [hour, minute] = time.split(':').map(Number);
+  return `${String(hour + hours).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * 거래일의 장 운영 시간 (휴장일·주말이면 null)
+ *
+ * - KRX: 연초 개장일은 10시 개장, 수능일은 10시 개장·16시 30분 폐장
+ * - NYSE/NASDAQ: 독립기념일 전날, 추수감사절 다음 날, 크리스마스 이브는 13시 조기 폐장
+ */
+export function getTradingSession(exchange: Exchange, date: string): TradingSession | null {
+  if (!isTradingDay(exchange, date)) return null;
+
+  const regular = REGULAR_HOURS[exchange];
+  const session: TradingSession = { date, ...regular, timeZone: EXCHANGE_TIME_ZONES[exchange] };
+  const year = Number(date.slice(0, 4));
+
+  if (calendarOf(exchange) === 'KRX') {
+    if (CSAT_DATES.includes(date)) {
+      return { ...session, open: shiftTime(regular.open, 1), close: shiftTime(regular.close, 1), note: '수능일 1시간 지연' };
+    }
+    if (getPreviousTradingDate(exchange, date).slice(0, 4) !== String(year)) {
+      return { ...session, open: shiftTime(regular.open, 1), note: '연초 개장일' };
+    }
+    return session;
+  }
+
+  const earlyClose = [
+    { date: ymd(year, 7, 3), note: 'Independence Day 전날 조기 폐장' },
+    { date: addDays(nthWeekday(year, 11, 4, 4), 1), note: 'Thanksgiving 다음 날 조기 폐장' },
+    { date: ymd(year, 12, 24), note: 'Christmas Eve 조기 폐장' },
+  ].find(item => item.date === date);
+  if (earlyClose) {
+    return { ...session, close: '13:00', note: earlyClose.note };
+  }
+  return session;
+}
+
+/**
+ * 심볼이 거래되는 거래소 (한국 종목·지수는 KRX, 그 외는 미국 시장)
+ */
+export function getExchangeForSymbol(symbol: string): Exchange {
+  const isKoreanMarket = /^\d{6}($|\.K[SQ])/.test(symbol) || /^M\d{8}$/.test(symbol) || symbol === '^KS11';
+  return isKoreanMarket ? 'KRX' : 'NYSE';
+}
+
+/**
+ * 거래소 현지 날짜(YYYY-MM-DD)와 자정 이후 분
+ */
+export function getExchangeTime(exchange: Exchange, date: Date = new Date()): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: EXCHANGE_TIME_ZONES[exchange],
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(item => item.type === type)?.value || '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * 해당 시각에 정규장이 열려 있는지 확인
+ */
+export function isMarketOpen(exchange: Exchange, now: Date = new Date()): boolean {
+  const { date, minutes } = getExchangeTime(exchange, now);
+  const session = getTradingSession(exchange, date);
+  if (!session) return false;
+  return minutes >= toMinutes(session.open) && minutes <= toMinutes(session.close);
+}
+
+/**
+ * 해당 시각이 그날 정규장 마감 이후인지 확인 (휴장일·주말은 마감 이후로 봄)
+ */
+export function isAfterClose(exchange: Exchange, now: Date = new Date()): boolean {
+  const { date, minutes } = getExchangeTime(exchange, now);
+  const session = getTradingSession(exchange, date);
+  if (!session) return true;
+  return minutes >= toMinutes(session.close);
+}